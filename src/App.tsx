@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Shield, Truck, Map, AlertTriangle, Navigation } from 'lucide-react';
 import { VehicleForm } from './components/VehicleForm';
 import { MultiRouteMapComponent } from './components/MultiRouteMapComponent';
@@ -6,20 +6,49 @@ import { RouteComparison } from './components/RouteComparison';
 import { RouteComparisonAnalytics } from './components/RouteComparisonAnalytics';
 import { RouteInput } from './components/RouteInput';
 import { DarkModeToggle } from './components/DarkModeToggle';
-import { Vehicle, Route, StopLocation, RouteSegment } from './types';
+import { RoutingProviderSelector } from './components/RoutingProviderSelector';
+import { DemoTripPicker } from './components/DemoTripPicker';
+import { OsmExtractLoader } from './components/OsmExtractLoader';
+import { WeatherPanel } from './components/WeatherPanel';
+import { ClearanceDatabasePanel } from './components/ClearanceDatabasePanel';
+import { CrashHistoryPanel } from './components/CrashHistoryPanel';
+import { NationalNetworkPanel } from './components/NationalNetworkPanel';
+import { WorkZonePanel } from './components/WorkZonePanel';
+import { GovernmentCompliancePanel } from './components/GovernmentCompliancePanel';
+import { PermitPacketPanel } from './components/PermitPacketPanel';
+import { LocalOsmRoutingProvider } from './services/localOsmRoutingProvider';
+import { OfflineRouteMap } from './components/OfflineRouteMap';
+import { FleetDispatchPanel } from './components/FleetDispatchPanel';
+import { RequestCachePanel } from './components/RequestCachePanel';
+import { RiskProfileEditor } from './components/RiskProfileEditor';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { DeparturePlanner } from './components/DeparturePlanner';
+import { HoursOfServicePanel } from './components/HoursOfServicePanel';
+import { Vehicle, Route, StopLocation } from './types';
 import { RouteAnalysisService } from './services/routeAnalysisService';
-import { GoogleMapsService } from './services/googleMapsService';
+import { RiskProfileService } from './services/riskProfileService';
+import { WeatherService } from './services/weatherService';
+import { ClearanceService } from './services/clearanceService';
+import { CrashHistoryService } from './services/crashHistoryService';
+import { NationalNetworkService } from './services/nationalNetworkService';
+import { WorkZoneService } from './services/workZoneService';
+import { StateBoundaryService } from './services/stateBoundaryService';
 import { useDarkMode } from './hooks/useDarkMode';
+import { useRoutingProvider } from './hooks/useRoutingProvider';
 import { useGeolocation } from './hooks/useGeolocation';
 import { LargeVehicleAnalysisPanel } from './components/LargeVehicleComponents';
 import { PlanningMapComponent } from './components/PlanningMapComponent';
 import { CriticalPoints } from './components/CriticalPoints';
 import { RouteMap } from './components/RouteMap';
 import { RiskCalculator } from './utils/riskCalculator';
+import { transformDirectionsRoute } from './utils/routeTransformer';
+import { parseDateTimeInputValue, toDateTimeInputValue } from './utils/tripTiming';
 
 function App() {
   const { isDarkMode, toggleDarkMode } = useDarkMode();
   const { coordinates: userLocation } = useGeolocation();
+  const { provider: routingProvider, providers: routingProviders, selectProvider } = useRoutingProvider();
+  const hasGoogleMapsKey = !!import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
 
   const [vehicle, setVehicle] = useState<Vehicle>({
     height: 11.0,
@@ -36,9 +65,8 @@ function App() {
 
   const [routes, setRoutes] = useState<Route[]>([]);
   const [selectedRouteId, setSelectedRouteId] = useState('');
-  const [currentView, setCurrentView] = useState<'planning' | 'analysis'>('planning');
+  const [currentView, setCurrentView] = useState<'planning' | 'analysis' | 'dispatch' | 'riskModels'>('planning');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [useRealData, setUseRealData] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const [lastAnalyzedOrigin, setLastAnalyzedOrigin] = useState('');
@@ -56,6 +84,12 @@ function App() {
 
   const [routeFilterWarnings, setRouteFilterWarnings] = useState<string[]>([]);
 
+  // datetime-local values; an empty departure means "leave now"
+  const [departureTime, setDepartureTime] = useState('');
+  const [arrivalDeadline, setArrivalDeadline] = useState('');
+  const [analyzedDeparture, setAnalyzedDeparture] = useState<Date>(() => new Date());
+  const deadline = useMemo(() => parseDateTimeInputValue(arrivalDeadline), [arrivalDeadline]);
+
   const selectedRoute = routes.find(route => route.id === selectedRouteId);
 
   const generateLargeVehicleAnalysis = (vehicle: Vehicle, routes: Route[]) => {
@@ -79,13 +113,13 @@ function App() {
     }
   }, [userLocation]);
 
+  const isDemoMode = routingProvider.id === 'demo';
+
   useEffect(() => {
-    const hasApiKey = !!import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
-    setUseRealData(hasApiKey);
-    if (!hasApiKey) {
-      setError('Google Maps API key not configured. Using demo data.');
-    }
-  }, []);
+    setError(routingProvider.isConfigured()
+      ? null
+      : `${routingProvider.name} routing is not configured. Switch to Demo mode to explore with sample data.`);
+  }, [routingProvider]);
 
   const handleStopsChange = (newStops: StopLocation[]) => {
     if (currentView === 'planning') {
@@ -126,11 +160,67 @@ function App() {
     if (destinationCoords) setPlanningDestinationCoords(destinationCoords);
   };
 
+  const getDeparture = () => parseDateTimeInputValue(departureTime) ?? new Date();
+
+  const handleScheduleChange = (departure: string, deadline: string) => {
+    setDepartureTime(departure);
+    setArrivalDeadline(deadline);
+  };
+
+  // Views read the scores stored on each route, so re-score when the vehicle changes
+  const handleVehicleChange = (next: Vehicle) => {
+    setVehicle(next);
+    setRoutes(prev => prev.map(route => RouteAnalysisService.analyzeRouteRisk(route, next, analyzedDeparture).route));
+  };
+
+  // Re-score the analyzed routes when a risk profile is saved or restored
+  useEffect(() => RiskProfileService.subscribe(() => {
+    setRoutes(prev => prev.map(route => RouteAnalysisService.analyzeRouteRisk(route, vehicle, analyzedDeparture).route));
+  }), [vehicle, analyzedDeparture]);
+
+  // Re-score the analyzed routes for another departure without asking the provider again
+  const handleDepartureChange = (departure: Date) => {
+    setDepartureTime(toDateTimeInputValue(departure));
+    setAnalyzedDeparture(departure);
+    setRoutes(prev => prev.map(route => RouteAnalysisService.analyzeRouteRisk(route, vehicle, departure).route));
+  };
+
+  // Re-score the analyzed routes against the newly selected weather source
+  const handleWeatherChange = async () => {
+    if (routes.length === 0) return;
+    await WeatherService.prepareRoutes(routes);
+    setRoutes(prev => prev.map(route => RouteAnalysisService.analyzeRouteRisk(route, vehicle, analyzedDeparture).route));
+  };
+
+  // Re-check the analyzed routes against the imported structures or new safety margin
+  const handleClearanceChange = () => {
+    setRoutes(prev => prev.map(route => RouteAnalysisService.analyzeRouteRisk(route, vehicle, analyzedDeparture).route));
+  };
+
+  // Re-score the analyzed routes against the imported crash history
+  const handleCrashHistoryChange = () => {
+    setRoutes(prev => prev.map(route => RouteAnalysisService.analyzeRouteRisk(route, vehicle, analyzedDeparture).route));
+  };
+
+  // Re-check the analyzed routes against the imported National Network geometry
+  const handleNationalNetworkChange = () => {
+    setRoutes(prev => prev.map(route => RouteAnalysisService.analyzeRouteRisk(route, vehicle, analyzedDeparture).route));
+  };
+
+  // Re-check the analyzed routes against the added, refreshed or removed work zone feeds
+  const handleWorkZoneChange = () => {
+    setRoutes(prev => prev.map(route => RouteAnalysisService.analyzeRouteRisk(route, vehicle, analyzedDeparture).route));
+  };
+
   const handleAnalyzeRoutes = async () => {
     if (!planningOrigin || !planningDestination) {
       setError('Please enter both origin and destination addresses.');
       return;
     }
+    if (!routingProvider.isConfigured()) {
+      setError(`${routingProvider.name} routing is not configured.`);
+      return;
+    }
     setIsAnalyzing(true);
     setError(null);
     try {
@@ -160,42 +250,47 @@ function App() {
         finalDestination = finalOrigin;
       }
       let analyzedRoutes: Route[] = [];
-      if (useRealData) {
-        const googleMapsService = GoogleMapsService.getInstance();
-        await googleMapsService.initialize();
-        const directionsResult = await googleMapsService.getRoutes({
-          origin: finalOrigin,
-          destination: finalDestination,
-          waypoints,
-          vehicle,
-          optimizeWaypoints: false
-        });
-        analyzedRoutes = directionsResult.routes.map((gRoute, index) => {
-          const appRoute = transformGoogleRouteToAppRoute(gRoute, index, stopsToUse);
-          const { route: analyzed } = RouteAnalysisService.analyzeRouteRisk(appRoute, vehicle);
-          return analyzed;
-        });
-        if (vehicle.length >= 30) {
-          const before = analyzedRoutes.length;
-          analyzedRoutes = analyzedRoutes.filter(route => {
-            const suitability = RiskCalculator.isRouteSuitableForLargeVehicle(route, vehicle);
-            if (!suitability.suitable) {
-              setRouteFilterWarnings(prev => [...prev, `Route "${route.name}" filtered: ${suitability.prohibitedManeuvers.join(', ')}`]);
-              return false;
-            }
-            return true;
-          });
-          if (before > analyzedRoutes.length) {
-            setRouteFilterWarnings(prev => [...prev, `${before - analyzedRoutes.length} route(s) filtered due to prohibited maneuvers`]);
+      const departure = getDeparture();
+      await routingProvider.initialize();
+      const directionsResult = await routingProvider.getRoutes({
+        origin: finalOrigin,
+        destination: finalDestination,
+        waypoints,
+        vehicle,
+        optimizeWaypoints: false,
+        departureTime: departure
+      });
+      const appRoutes = directionsResult.routes.map((gRoute, index) => transformDirectionsRoute(gRoute, index, stopsToUse));
+      await Promise.all([
+        WeatherService.prepareRoutes(appRoutes),
+        ClearanceService.ensureLoaded(),
+        CrashHistoryService.ensureLoaded(),
+        NationalNetworkService.ensureLoaded(),
+        StateBoundaryService.ensureLoaded(),
+        WorkZoneService.ensureLoaded()
+      ]);
+      analyzedRoutes = appRoutes.map(appRoute => RouteAnalysisService.analyzeRouteRisk(appRoute, vehicle, departure).route);
+      if (vehicle.length >= 30) {
+        const before = analyzedRoutes.length;
+        analyzedRoutes = analyzedRoutes.filter(route => {
+          const suitability = RiskCalculator.isRouteSuitableForLargeVehicle(route, vehicle);
+          if (!suitability.suitable) {
+            setRouteFilterWarnings(prev => [...prev, `Route "${route.name}" filtered: ${suitability.prohibitedManeuvers.join(', ')}`]);
+            return false;
           }
+          return true;
+        });
+        if (before > analyzedRoutes.length) {
+          setRouteFilterWarnings(prev => [...prev, `${before - analyzedRoutes.length} route(s) filtered due to prohibited maneuvers`]);
         }
-        analyzedRoutes.sort((a, b) => a.overallRisk - b.overallRisk);
-        analyzedRoutes = analyzedRoutes.slice(0, 3);
       }
+      analyzedRoutes.sort((a, b) => a.overallRisk - b.overallRisk);
+      analyzedRoutes = analyzedRoutes.slice(0, 3);
       const largeVehicleAnalysisData = generateLargeVehicleAnalysis(vehicle, analyzedRoutes);
       setRoutes(analyzedRoutes);
       setSelectedRouteId(analyzedRoutes[0]?.id || '');
       setLargeVehicleAnalysis(largeVehicleAnalysisData);
+      setAnalyzedDeparture(departure);
       setLastAnalyzedOrigin(planningOrigin);
       setLastAnalyzedDestination(planningDestination);
       setStops(stopsToUse);
@@ -208,64 +303,8 @@ function App() {
     }
   };
 
-  const transformGoogleRouteToAppRoute = (
-    gRoute: google.maps.DirectionsRoute,
-    index: number,
-    stops: StopLocation[]
-  ): Route => {
-    let totalDistanceMeters = 0;
-    let totalDurationSeconds = 0;
-    const segments: RouteSegment[] = [];
-    gRoute.legs.forEach(leg => {
-      totalDistanceMeters += leg.distance?.value || 0;
-      totalDurationSeconds += leg.duration?.value || 0;
-      leg.steps.forEach((step, stepIndex) => {
-        segments.push({
-          id: `segment-${index}-${leg.start_address}-${stepIndex}`,
-          startLat: step.start_location.lat(),
-          startLng: step.start_location.lng(),
-          endLat: step.end_location.lat(),
-          endLng: step.end_location.lng(),
-          streetName: step.instructions.replace(/<[^>]*>/g, ' '),
-          riskScore: 0,
-          riskFactors: {
-            pedestrianTraffic: 0,
-            roadWidth: 0,
-            trafficCongestion: 0,
-            speedLimit: 0,
-            heightRestriction: 0
-          },
-          description: step.instructions.replace(/<[^>]*>/g, ' '),
-          intersectionType: step.instructions.toLowerCase().includes('traffic light')
-            ? 'traffic_light'
-            : step.instructions.toLowerCase().includes('stop sign')
-            ? 'stop_sign'
-            : 'none',
-          turnType: step.instructions.toLowerCase().includes('turn left')
-            ? 'left'
-            : step.instructions.toLowerCase().includes('turn right')
-            ? 'right'
-            : step.instructions.toLowerCase().includes('continue straight')
-            ? 'straight'
-            : 'none'
-        });
-      });
-    });
-    return {
-      id: `route-${index + 1}`,
-      name: gRoute.summary || `Route ${index + 1}`,
-      segments,
-      totalDistance: Math.round((totalDistanceMeters / 1609.34) * 10) / 10,
-      estimatedTime: Math.round(totalDurationSeconds / 60),
-      overallRisk: 0,
-      criticalPoints: [],
-      stops,
-      waypoints: stops.map(s => s.address)
-    };
-  };
-
   const handleRouteUpdate = async (routeId: string, newWaypoints: string[]) => {
-    if (!useRealData || !lastAnalyzedOrigin || !lastAnalyzedDestination) return;
+    if (!lastAnalyzedOrigin || !lastAnalyzedDestination) return;
     const newStops: StopLocation[] = newWaypoints.map((waypoint, index) => ({
       id: `updated-stop-${index}`,
       address: waypoint,
@@ -275,14 +314,20 @@ function App() {
     await handleRouteAnalysis(lastAnalyzedOrigin, lastAnalyzedDestination, newStops, isLoop);
   };
 
+  const handleAddRestStops = async (newStops: StopLocation[]) => {
+    if (!lastAnalyzedOrigin || !lastAnalyzedDestination) return;
+    setPlanningStops(newStops);
+    await handleRouteAnalysis(lastAnalyzedOrigin, lastAnalyzedDestination, newStops);
+  };
+
   const handleRouteAnalysis = async (
     origin: string,
     destination: string,
     stops?: StopLocation[],
     loopEnabled?: boolean
   ) => {
-    if (!useRealData) {
-      setError('Google Maps integration requires API key configuration.');
+    if (!routingProvider.isConfigured()) {
+      setError(`${routingProvider.name} routing is not configured.`);
       return;
     }
     setIsAnalyzing(true);
@@ -307,20 +352,26 @@ function App() {
         finalDestination = finalOrigin;
       }
 
-      const googleMapsService = GoogleMapsService.getInstance();
-      await googleMapsService.initialize();
-      const directionsResult = await googleMapsService.getRoutes({
+      const departure = getDeparture();
+      await routingProvider.initialize();
+      const directionsResult = await routingProvider.getRoutes({
         origin: finalOrigin,
         destination: finalDestination,
         waypoints,
         vehicle,
-        optimizeWaypoints: false
-      });
-      let analyzedRoutes = directionsResult.routes.map((gRoute, index) => {
-        const appRoute = transformGoogleRouteToAppRoute(gRoute, index, stopsToUse);
-        const { route: analyzed } = RouteAnalysisService.analyzeRouteRisk(appRoute, vehicle);
-        return analyzed;
+        optimizeWaypoints: false,
+        departureTime: departure
       });
+      const appRoutes = directionsResult.routes.map((gRoute, index) => transformDirectionsRoute(gRoute, index, stopsToUse));
+      await Promise.all([
+        WeatherService.prepareRoutes(appRoutes),
+        ClearanceService.ensureLoaded(),
+        CrashHistoryService.ensureLoaded(),
+        NationalNetworkService.ensureLoaded(),
+        StateBoundaryService.ensureLoaded(),
+        WorkZoneService.ensureLoaded()
+      ]);
+      let analyzedRoutes = appRoutes.map(appRoute => RouteAnalysisService.analyzeRouteRisk(appRoute, vehicle, departure).route);
       if (vehicle.length >= 30) {
         const before = analyzedRoutes.length;
         analyzedRoutes = analyzedRoutes.filter(route => {
@@ -345,6 +396,7 @@ function App() {
       setRoutes(result.routes);
       setSelectedRouteId(result.recommendedRouteId);
       setLargeVehicleAnalysis(result.largeVehicleAnalysis);
+      setAnalyzedDeparture(departure);
       setLastAnalyzedOrigin(origin);
       setLastAnalyzedDestination(destination);
       setStops(stopsToUse);
@@ -387,8 +439,14 @@ function App() {
               </div>
             </div>
             <div className="flex items-center gap-4">
+              <RoutingProviderSelector
+                provider={routingProvider}
+                providers={routingProviders}
+                onChange={selectProvider}
+                disabled={isAnalyzing}
+              />
               <DarkModeToggle isDarkMode={isDarkMode} onToggle={toggleDarkMode} />
-              {!useRealData && (
+              {isDemoMode && (
                 <div className="flex items-center gap-2 px-3 py-1 bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 rounded-full text-sm border border-amber-200 dark:border-amber-700">
                   <AlertTriangle className="w-4 h-4" />
                   Demo Mode
@@ -415,6 +473,26 @@ function App() {
               >
                 Route Analysis
               </button>
+              <button
+                onClick={() => setCurrentView('dispatch')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all duration-200 ${
+                  currentView === 'dispatch'
+                    ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 shadow-sm'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                Fleet Dispatch
+              </button>
+              <button
+                onClick={() => setCurrentView('riskModels')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all duration-200 ${
+                  currentView === 'riskModels'
+                    ? 'bg-slate-200 dark:bg-slate-700 text-slate-800 dark:text-slate-200 shadow-sm'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                Risk Models
+              </button>
             </div>
           </div>
         </div>
@@ -443,7 +521,7 @@ function App() {
           </div>
         )}
 
-        {useRealData && lastAnalyzedOrigin && lastAnalyzedDestination && routes.length > 0 && currentView === 'analysis' && (
+        {lastAnalyzedOrigin && lastAnalyzedDestination && routes.length > 0 && currentView === 'analysis' && (
           <div className="mb-6 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg p-4 transition-colors duration-300">
             <div className="flex items-center gap-2">
               <Shield className="w-5 h-5 text-green-600 dark:text-green-400" />
@@ -454,39 +532,74 @@ function App() {
           </div>
         )}
 
-        {currentView === 'planning' ? (
+        {currentView === 'riskModels' ? (
+          <div className="space-y-8">
+            <RiskProfileEditor />
+            <CalibrationPanel />
+          </div>
+        ) : currentView === 'dispatch' ? (
+          <FleetDispatchPanel routingProvider={routingProvider} />
+        ) : currentView === 'planning' ? (
           <div className="space-y-8">
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               <div className="lg:col-span-1 space-y-6">
-                <VehicleForm vehicle={vehicle} onChange={setVehicle} />
-                {useRealData && (
-                  <RouteInput
-                    onRouteRequest={handlePlanningInputChange}
-                    isLoading={isAnalyzing}
-                    initialOrigin={planningOrigin}
-                    initialDestination={planningDestination}
-                    stops={planningStops}
-                    onStopsChange={handleStopsChange}
-                    onLoopChange={setIsLoop}
-                    isLoop={isLoop}
+                <VehicleForm vehicle={vehicle} onChange={handleVehicleChange} />
+                {isDemoMode && (
+                  <DemoTripPicker
+                    onSelect={(origin, destination) => handlePlanningInputChange(origin, destination, [], false)}
+                    disabled={isAnalyzing}
                   />
                 )}
-              </div>
-
-              <div className="lg:col-span-2">
-                <PlanningMapComponent
-                  origin={planningOrigin}
-                  destination={planningDestination}
+                <OsmExtractLoader
+                  provider={routingProvider instanceof LocalOsmRoutingProvider ? routingProvider : undefined}
+                  onLoaded={() => setError(null)}
+                />
+                <WeatherPanel onChange={handleWeatherChange} />
+                <ClearanceDatabasePanel onChange={handleClearanceChange} />
+                <CrashHistoryPanel onChange={handleCrashHistoryChange} />
+                <NationalNetworkPanel onChange={handleNationalNetworkChange} />
+                <WorkZonePanel onChange={handleWorkZoneChange} />
+                <RouteInput
+                  onRouteRequest={handlePlanningInputChange}
+                  isLoading={isAnalyzing}
+                  initialOrigin={planningOrigin}
+                  initialDestination={planningDestination}
                   stops={planningStops}
-                  isReady={planningMapReady}
-                  onMapUpdate={handlePlanningMapUpdate}
-                  className="h-[600px] rounded-lg shadow-md"
-                  initialCenter={initialCenter}
-                  originCoords={planningOriginCoords}
-                  destinationCoords={planningDestinationCoords}
+                  onStopsChange={handleStopsChange}
+                  onLoopChange={setIsLoop}
                   isLoop={isLoop}
-                  showRoute={false}
+                  vehicle={vehicle}
+                  departureTime={departureTime}
+                  arrivalDeadline={arrivalDeadline}
+                  onScheduleChange={handleScheduleChange}
                 />
+                {hasGoogleMapsKey && <RequestCachePanel />}
+              </div>
+
+              <div className="lg:col-span-2">
+                {hasGoogleMapsKey ? (
+                  <PlanningMapComponent
+                    origin={planningOrigin}
+                    destination={planningDestination}
+                    stops={planningStops}
+                    isReady={planningMapReady}
+                    onMapUpdate={handlePlanningMapUpdate}
+                    className="h-[600px] rounded-lg shadow-md"
+                    initialCenter={initialCenter}
+                    originCoords={planningOriginCoords}
+                    destinationCoords={planningDestinationCoords}
+                    isLoop={isLoop}
+                    showRoute={false}
+                  />
+                ) : (
+                  <OfflineRouteMap
+                    routes={[]}
+                    className="h-[600px] rounded-lg shadow-md"
+                    emptyMessage={planningMapReady
+                      ? `Ready to analyze ${planningOrigin} → ${planningDestination}. The interactive planning map needs a Google Maps API key.`
+                      : 'The interactive planning map needs a Google Maps API key. Choose a demo trip or enter addresses to continue.'}
+                  />
+                )}
 
                 {planningMapReady && (
                   <div className="mt-4">
@@ -551,11 +664,17 @@ function App() {
               </div>
 
               <div className="xl:col-span-2 space-y-6">
-                {routes.length > 0 ? (
+                {routes.length > 0 && !hasGoogleMapsKey ? (
+                  <OfflineRouteMap
+                    routes={routes}
+                    selectedRouteId={selectedRouteId}
+                    onRouteSelect={setSelectedRouteId}
+                    className="h-[600px] rounded-lg shadow-md"
+                  />
+                ) : routes.length > 0 ? (
                   <MultiRouteMapComponent
                     routes={routes}
                     selectedRouteId={selectedRouteId}
-                    vehicle={vehicle}
                     onRouteSelect={setSelectedRouteId}
                     className="h-[600px] rounded-lg shadow-md"
                     initialCenter={initialCenter}
@@ -572,6 +691,22 @@ function App() {
                   selectedRoute={selectedRouteId}
                   onRouteSelect={setSelectedRouteId}
                 />
+                <DeparturePlanner
+                  route={selectedRoute}
+                  vehicle={vehicle}
+                  departureTime={analyzedDeparture}
+                  arrivalDeadline={deadline}
+                  onDepartureChange={handleDepartureChange}
+                />
+                {selectedRoute && (
+                  <HoursOfServicePanel
+                    route={selectedRoute}
+                    vehicle={vehicle}
+                    departureTime={analyzedDeparture}
+                    onAddRests={handleAddRestStops}
+                    disabled={isAnalyzing}
+                  />
+                )}
               </div>
 
               <div className="xl:col-span-1 space-y-6">
@@ -582,15 +717,24 @@ function App() {
                   onRouteSelect={setSelectedRouteId}
                 />
                 <CriticalPoints route={selectedRoute} vehicle={vehicle} />
+                {selectedRoute && <GovernmentCompliancePanel route={selectedRoute} vehicle={vehicle} />}
+                {selectedRoute && (
+                  <PermitPacketPanel
+                    route={selectedRoute}
+                    vehicle={vehicle}
+                    origin={lastAnalyzedOrigin}
+                    destination={lastAnalyzedDestination}
+                  />
+                )}
                 {selectedRoute && (
-                  <RouteMap route={selectedRoute} vehicle={vehicle} useGoogleMaps={useRealData} />
+                  <RouteMap route={selectedRoute} vehicle={vehicle} useGoogleMaps={hasGoogleMapsKey} />
                 )}
               </div>
             </div>
           </div>
         )}
 
-        {!useRealData && (
+        {isDemoMode && (
           <div className="mt-12 bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-lg shadow-md p-6 border border-blue-100 dark:border-blue-800 transition-colors duration-300">
             <div className="flex items-center gap-3 mb-4">
               <div className="p-2 bg-blue-100 dark:bg-blue-900/50 rounded-lg">
@@ -619,6 +763,10 @@ function App() {
               <p className="text-sm mt-3 text-blue-700 dark:text-blue-300">
                 Currently showing demo data with simulated risk calculations.
               </p>
+              <p className="text-sm text-blue-700 dark:text-blue-300">
+                Prefer self-hosted routing? Point <code>VITE_VALHALLA_URL</code> or <code>VITE_OSRM_URL</code> at
+                your server and pick it from the routing selector in the header.
+              </p>
             </div>
           </div>
         )}
@@ -0,0 +1,317 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LineChart, Upload, Download, Play, Save, AlertTriangle, CheckCircle } from 'lucide-react';
+import { CalibrationBin, CalibrationReport, RiskModelProfile } from '../types';
+import { CalibrationService, TripDatasetInfo } from '../services/calibrationService';
+import { RiskProfileService } from '../services/riskProfileService';
+
+const CHART_SIZE = 240;
+const CHART_PADDING = 32;
+
+// Discrimination bands commonly used when reporting AUC
+const describeAuc = (auc: number) => {
+  if (!Number.isFinite(auc)) return 'not measurable';
+  if (auc >= 0.8) return 'excellent';
+  if (auc >= 0.7) return 'acceptable';
+  if (auc >= 0.6) return 'weak';
+  return 'no better than chance';
+};
+
+/**
+ * Observed incident rate of each score band against the fitted probability, with the
+ * diagonal a perfectly calibrated model would follow.
+ */
+const CalibrationChart: React.FC<{ bins: CalibrationBin[] }> = ({ bins }) => {
+  const span = CHART_SIZE - CHART_PADDING * 2;
+  const x = (rate: number) => CHART_PADDING + rate * span;
+  const y = (rate: number) => CHART_SIZE - CHART_PADDING - rate * span;
+  const maxTrips = Math.max(...bins.map(bin => bin.tripCount), 1);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_SIZE} ${CHART_SIZE}`} className="w-full max-w-xs text-gray-400 dark:text-gray-500">
+      <line x1={x(0)} y1={y(0)} x2={x(1)} y2={y(0)} stroke="currentColor" />
+      <line x1={x(0)} y1={y(0)} x2={x(0)} y2={y(1)} stroke="currentColor" />
+      <line x1={x(0)} y1={y(0)} x2={x(1)} y2={y(1)} stroke="currentColor" strokeDasharray="4 4" />
+      {[0, 0.5, 1].map(tick => (
+        <React.Fragment key={tick}>
+          <text x={x(tick)} y={y(0) + 14} textAnchor="middle" fontSize="9" fill="currentColor">{tick}</text>
+          <text x={x(0) - 6} y={y(tick) + 3} textAnchor="end" fontSize="9" fill="currentColor">{tick}</text>
+        </React.Fragment>
+      ))}
+      <text x={CHART_SIZE / 2} y={CHART_SIZE - 4} textAnchor="middle" fontSize="9" fill="currentColor">Predicted incident rate</text>
+      <text x={10} y={CHART_SIZE / 2} textAnchor="middle" fontSize="9" fill="currentColor" transform={`rotate(-90 10 ${CHART_SIZE / 2})`}>
+        Observed incident rate
+      </text>
+      <polyline
+        points={bins.map(bin => `${x(bin.predictedRate)},${y(bin.observedRate)}`).join(' ')}
+        fill="none"
+        stroke="#2563eb"
+        strokeWidth="1.5"
+      />
+      {bins.map(bin => (
+        <circle
+          key={bin.lower}
+          cx={x(bin.predictedRate)}
+          cy={y(bin.observedRate)}
+          r={3 + (bin.tripCount / maxTrips) * 4}
+          fill="#2563eb"
+          fillOpacity="0.6"
+        >
+          <title>{`Score ${bin.lower}-${bin.upper}: ${bin.incidentCount}/${bin.tripCount} trips had incidents`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Admin view for backtesting risk profiles against labelled historical trips, with
+ * discrimination, calibration and suggested component weights.
+ */
+export const CalibrationPanel: React.FC = () => {
+  const [profiles, setProfiles] = useState<RiskModelProfile[]>(() => RiskProfileService.getProfiles());
+  const [profileId, setProfileId] = useState(profiles[0]?.id ?? '');
+  const [dataset, setDataset] = useState<TripDatasetInfo | null>(CalibrationService.getInfo());
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => RiskProfileService.subscribe(() => setProfiles([...RiskProfileService.getProfiles()])), []);
+  useEffect(() => CalibrationService.subscribe(setDataset), []);
+
+  const profile = profiles.find(candidate => candidate.id === profileId);
+  const hasSuggestions = !!report && report.components.every(component => component.suggestedWeight !== undefined);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const count = CalibrationService.loadFile(await file.text(), file.name);
+      setReport(null);
+      setStatus({ type: 'success', message: `Loaded ${count} trips from ${file.name}` });
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Failed to load trips' });
+    }
+  };
+
+  const handleRun = () => {
+    if (!profile) return;
+    try {
+      setReport(CalibrationService.run(profile));
+      setStatus(null);
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Backtest failed' });
+    }
+  };
+
+  const handleApply = () => {
+    if (!profile || !report) return;
+    try {
+      const saved = RiskProfileService.saveProfile(CalibrationService.applySuggestedWeights(profile, report));
+      setStatus({ type: 'success', message: `Saved suggested weights as ${saved.name} v${saved.version}. Run the backtest again to check them.` });
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Failed to save weights' });
+    }
+  };
+
+  const handleExport = () => {
+    if (!report) return;
+    const blob = new Blob([CalibrationService.exportReport(report)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `calibration-${report.model.profileId}-v${report.model.version}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-100 dark:bg-indigo-900/50 rounded-lg">
+            <LineChart className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Backtesting</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Re-score past trips with known outcomes to check how well a profile predicts incidents.
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <input ref={fileInput} type="file" accept=".csv,.json,application/json" className="hidden" onChange={handleImport} />
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-1 px-3 py-1 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            Import trips
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!report}
+            className="flex items-center gap-1 px-3 py-1 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Export report
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <div className="text-sm text-gray-700 dark:text-gray-300 flex-1 min-w-[12rem]">
+          {dataset
+            ? <><span className="font-medium">{dataset.name}</span>: {dataset.tripCount} trips, {dataset.incidentCount} with incidents</>
+            : 'No trips loaded. Import a CSV or JSON file of trips labelled with their outcome.'}
+        </div>
+        <label className="block">
+          <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Score with profile</span>
+          <select
+            value={profileId}
+            onChange={e => {
+              setProfileId(e.target.value);
+              setReport(null);
+            }}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+          >
+            {profiles.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>{candidate.name} v{candidate.version}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={!dataset || !profile}
+          className="flex items-center gap-1 px-4 py-2 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-40 transition-colors"
+        >
+          <Play className="w-4 h-4" />
+          Run backtest
+        </button>
+      </div>
+
+      {status && (
+        <div
+          className={`flex items-center gap-2 text-sm mb-4 ${
+            status.type === 'success' ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'
+          }`}
+        >
+          {status.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+          {status.message}
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+              <div className="text-xs text-gray-600 dark:text-gray-400">AUC</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white">{report.auc.toFixed(3)}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{describeAuc(report.auc)}</div>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+              <div className="text-xs text-gray-600 dark:text-gray-400">Brier score</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white">{report.brierScore.toFixed(3)}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">lower is better</div>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+              <div className="text-xs text-gray-600 dark:text-gray-400">Trips</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white">{report.tripCount}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{report.incidentCount} with incidents</div>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+              <div className="text-xs text-gray-600 dark:text-gray-400">Model</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white">{report.model.profileName}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">v{report.model.version}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Calibration curve</h4>
+              <CalibrationChart bins={report.bins} />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                P(incident) = 1 / (1 + e^-({report.calibration.intercept} + {report.calibration.slope} × score))
+              </p>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Score bands</h4>
+              <table className="w-full text-xs text-gray-700 dark:text-gray-300">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-1">Score</th>
+                    <th className="py-1">Trips</th>
+                    <th className="py-1">Incidents</th>
+                    <th className="py-1">Observed</th>
+                    <th className="py-1">Predicted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.bins.map(bin => (
+                    <tr key={bin.lower} className="border-t border-gray-100 dark:border-gray-700">
+                      <td className="py-1">{bin.lower}-{bin.upper}</td>
+                      <td className="py-1">{bin.tripCount}</td>
+                      <td className="py-1">{bin.incidentCount}</td>
+                      <td className="py-1">{Math.round(bin.observedRate * 100)}%</td>
+                      <td className="py-1">{Math.round(bin.predictedRate * 100)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Components</h4>
+            <table className="w-full text-xs text-gray-700 dark:text-gray-300">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-1">Component</th>
+                  <th className="py-1">AUC</th>
+                  <th className="py-1">Mean risk (incident / none)</th>
+                  <th className="py-1">Weight</th>
+                  <th className="py-1">Suggested</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.components.map(component => (
+                  <tr key={component.component} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-1">{component.label}</td>
+                    <td className="py-1">{Number.isFinite(component.auc) ? component.auc.toFixed(3) : '-'}</td>
+                    <td className="py-1">{component.meanRiskIncident} / {component.meanRiskNoIncident}</td>
+                    <td className="py-1">{component.currentWeight}</td>
+                    <td className={`py-1 ${
+                      component.suggestedWeight === undefined || component.suggestedWeight === component.currentWeight
+                        ? ''
+                        : component.suggestedWeight > component.currentWeight
+                          ? 'text-green-700 dark:text-green-400'
+                          : 'text-amber-700 dark:text-amber-400'
+                    }`}>
+                      {component.suggestedWeight ?? '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.suggestionNote && (
+              <p className="text-xs text-amber-700 dark:text-amber-400 mt-2">{report.suggestionNote}</p>
+            )}
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+            <button
+              onClick={handleApply}
+              disabled={!hasSuggestions || !profile || profile.version !== report.model.version}
+              className="flex items-center gap-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-40 transition-colors"
+            >
+              <Save className="w-4 h-4" />
+              Save suggested weights as v{report.model.version + 1}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowUpToLine, Upload, CheckCircle, AlertTriangle, RotateCcw } from 'lucide-react';
+import { ClearanceDatabaseInfo, ClearanceService } from '../services/clearanceService';
+
+interface ClearanceDatabasePanelProps {
+  /** Called after the database or safety margin changes so analyzed routes can be re-scored */
+  onChange?: () => void;
+}
+
+export const ClearanceDatabasePanel: React.FC<ClearanceDatabasePanelProps> = ({ onChange }) => {
+  const [info, setInfo] = useState<ClearanceDatabaseInfo>(ClearanceService.getInfo());
+  const [margin, setMargin] = useState(String(ClearanceService.getSafetyMarginFt()));
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => ClearanceService.subscribe(setInfo), []);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      ClearanceService.loadFile(await file.text(), file.name);
+      onChange?.();
+    } catch (err) {
+      console.error('Failed to load clearance database:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load clearance database');
+    }
+  };
+
+  const handleMarginBlur = () => {
+    try {
+      ClearanceService.setSafetyMarginFt(parseFloat(margin));
+      setError(null);
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid safety margin');
+      setMargin(String(ClearanceService.getSafetyMarginFt()));
+    }
+  };
+
+  const handleReset = () => {
+    ClearanceService.resetToBundled();
+    setError(null);
+    onChange?.();
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-rose-100 dark:bg-rose-900/50 rounded-lg">
+          <ArrowUpToLine className="w-6 h-6 text-rose-600 dark:text-rose-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Bridge Clearances</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Posted clearances and weight limits of structures on the route</p>
+        </div>
+      </div>
+
+      <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm">
+        <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+        <div className="text-green-800 dark:text-green-300">
+          <div className="font-medium break-all">{info.name}</div>
+          <div className="text-xs">
+            {info.structureCount.toLocaleString()} structure(s)
+            {info.bundled && ' · import an NBI CSV or GeoJSON file for full coverage'}
+          </div>
+        </div>
+      </div>
+
+      <label className="block text-sm mb-3">
+        <span className="text-gray-600 dark:text-gray-400">Safety margin above vehicle height (ft)</span>
+        <input
+          type="number"
+          value={margin}
+          onChange={e => setMargin(e.target.value)}
+          onBlur={handleMarginBlur}
+          min="0"
+          step="0.1"
+          className="mt-1 w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        />
+      </label>
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <input ref={fileInputRef} type="file" accept=".csv,.txt,.json,.geojson" onChange={handleFile} className="hidden" />
+      <div className="flex gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md border border-rose-300 dark:border-rose-700 text-rose-700 dark:text-rose-300 hover:bg-rose-50 dark:hover:bg-rose-900/30 transition-colors duration-200"
+        >
+          <Upload className="w-4 h-4" />
+          Import structures
+        </button>
+        {!info.bundled && (
+          <button
+            onClick={handleReset}
+            className="flex items-center justify-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200"
+            title="Use the bundled examples"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Siren, Upload, CheckCircle, AlertTriangle, X } from 'lucide-react';
+import { CrashHistoryInfo, CrashHistoryService } from '../services/crashHistoryService';
+
+interface CrashHistoryPanelProps {
+  /** Called after crash records are imported or cleared so analyzed routes can be re-scored */
+  onChange?: () => void;
+}
+
+export const CrashHistoryPanel: React.FC<CrashHistoryPanelProps> = ({ onChange }) => {
+  const [info, setInfo] = useState<CrashHistoryInfo>(CrashHistoryService.getInfo());
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => CrashHistoryService.subscribe(setInfo), []);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      CrashHistoryService.loadFile(await file.text(), file.name);
+      onChange?.();
+    } catch (err) {
+      console.error('Failed to load crash history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load crash history');
+    }
+  };
+
+  const handleClear = () => {
+    CrashHistoryService.clear();
+    setError(null);
+    onChange?.();
+  };
+
+  const period = info.firstYear !== undefined && info.lastYear !== undefined
+    ? info.firstYear === info.lastYear ? `${info.firstYear}` : `${info.firstYear}-${info.lastYear}`
+    : `assumed ${info.years} years`;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-orange-100 dark:bg-orange-900/50 rounded-lg">
+          <Siren className="w-6 h-6 text-orange-600 dark:text-orange-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Crash History</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Past crashes along the route, from FARS or state DOT records</p>
+        </div>
+      </div>
+
+      {info.loaded ? (
+        <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm">
+          <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+          <div className="text-green-800 dark:text-green-300">
+            <div className="font-medium break-all">{info.name}</div>
+            <div className="text-xs">
+              {info.crashCount.toLocaleString()} crash(es), {info.largeVehicleCount.toLocaleString()} involving a truck or bus · {period}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          No crash records loaded. Import a CSV with crash locations, dates, severity and vehicle types to score segments and intersections by their crash history.
+        </p>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <input ref={fileInputRef} type="file" accept=".csv,.txt" onChange={handleFile} className="hidden" />
+      <div className="flex gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md border border-orange-300 dark:border-orange-700 text-orange-700 dark:text-orange-300 hover:bg-orange-50 dark:hover:bg-orange-900/30 transition-colors duration-200"
+        >
+          <Upload className="w-4 h-4" />
+          Import crashes
+        </button>
+        {info.loaded && (
+          <button
+            onClick={handleClear}
+            className="flex items-center justify-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200"
+            title="Clear crash history"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
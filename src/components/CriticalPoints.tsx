@@ -1,7 +1,14 @@
 import React from 'react';
-import { AlertTriangle, Navigation, Grid as Bridge, Users, RotateCcw, Truck } from 'lucide-react';
-import { CriticalPoint, Route, Vehicle } from '../types';
+import { AlertTriangle, Navigation, Grid as Bridge, Users, RotateCcw, Truck, CloudRain, Siren } from 'lucide-react';
+import { CriticalPoint, RiskFactors, Route, RouteSegment, SweptPathVerdict, Vehicle } from '../types';
 import { RiskCalculator } from '../utils/riskCalculator';
+import { RouteRiskExplanationView, SegmentRiskExplanationView } from './RiskExplanation';
+
+const SWEPT_PATH_STYLES: Record<SweptPathVerdict, string> = {
+  pass: 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300',
+  marginal: 'bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-300',
+  fail: 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300'
+};
 
 interface CriticalPointsProps {
   route?: Route; // Make route optional
@@ -30,6 +37,10 @@ export const CriticalPoints: React.FC<CriticalPointsProps> = ({ route, vehicle }
         return Users;
       case 'narrow_road':
         return Navigation;
+      case 'weather':
+        return CloudRain;
+      case 'crash_cluster':
+        return Siren;
       default:
         return AlertTriangle;
     }
@@ -45,11 +56,21 @@ export const CriticalPoints: React.FC<CriticalPointsProps> = ({ route, vehicle }
         return 'High-Risk Intersection';
       case 'narrow_road':
         return 'Narrow Passage';
+      case 'weather':
+        return 'Weather Hazard';
+      case 'crash_cluster':
+        return 'Crash Cluster';
       default:
         return 'Critical Point';
     }
   };
 
+  // Where a factor value came from: an OSM tag, a road-class estimate, or a street-name default
+  const getSourceLabel = (segment: RouteSegment, factor: keyof RiskFactors) => {
+    const source = segment.riskFactorSources?.[factor];
+    return source ? <span className="text-gray-400 dark:text-gray-500"> · {source}</span> : null;
+  };
+
   // Get bus-specific advice for the route
   const busAdvice = isBusLength ? RiskCalculator.getBusSpecificAdvice(vehicle, route) : [];
 
@@ -100,16 +121,27 @@ export const CriticalPoints: React.FC<CriticalPointsProps> = ({ route, vehicle }
         </div>
       </div>
 
+      {route.riskExplanation && (
+        <div className="mb-4">
+          <RouteRiskExplanationView explanation={route.riskExplanation} confidence={route.riskConfidence} />
+        </div>
+      )}
+
       <div className="space-y-4">
-        {route.criticalPoints.map((point) => {
+        {route.criticalPoints.map((point, pointIndex) => {
           const Icon = getIcon(point.type);
-          const segment = route.segments.find(s => s.id === point.segmentId);
+          const segmentIndex = route.segments.findIndex(s => s.id === point.segmentId);
+          const segment = segmentIndex >= 0 ? route.segments[segmentIndex] : undefined;
+          const explanation = segment?.riskExplanation ?? null;
           const detailedRisk = segment ? RiskCalculator.calculateDetailedRisk(segment, vehicle) : null;
-          const turnAnalysis = segment && isBusLength ? RiskCalculator.analyzeTurn(segment, vehicle) : null;
+          const turnAnalysis = segment
+            ? RiskCalculator.analyzeTurn(segment, vehicle, segmentIndex > 0 ? route.segments[segmentIndex - 1] : undefined)
+            : null;
+          const sweptPath = turnAnalysis?.sweptPath;
           
           return (
             <div
-              key={point.segmentId}
+              key={`${point.segmentId}-${point.type}-${pointIndex}`}
               className={`p-4 rounded-lg border-l-4 transition-colors duration-300 ${
                 point.riskLevel === 'critical' 
                   ? 'border-red-500 bg-red-50 dark:bg-red-900/20 dark:border-red-400' 
@@ -140,6 +172,11 @@ export const CriticalPoints: React.FC<CriticalPointsProps> = ({ route, vehicle }
                     }`}>
                       {point.riskLevel.toUpperCase()}
                     </div>
+                    {point.crashCluster && (
+                      <div className="px-2 py-1 rounded-full text-xs font-medium bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+                        {point.crashCluster.stats.count} crashes
+                      </div>
+                    )}
                   </div>
                   <p className="text-gray-700 dark:text-gray-300 mb-3">{point.description}</p>
                   
@@ -149,6 +186,15 @@ export const CriticalPoints: React.FC<CriticalPointsProps> = ({ route, vehicle }
                         <div>
                           <span className="text-gray-600 dark:text-gray-400">Location:</span>
                           <p className="font-medium text-gray-900 dark:text-white">{segment.streetName}</p>
+                          {segment.roadAttributes && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                              OSM {segment.roadAttributes.highway}
+                              {segment.roadAttributes.lanes !== undefined && ` · ${segment.roadAttributes.lanes} lanes`}
+                              {segment.roadAttributes.widthFt !== undefined && ` · ${Math.round(segment.roadAttributes.widthFt)}ft wide`}
+                              {segment.roadAttributes.speedLimitMph !== undefined && ` · ${Math.round(segment.roadAttributes.speedLimitMph)} mph`}
+                              {segment.roadAttributes.surface && ` · ${segment.roadAttributes.surface}`}
+                            </p>
+                          )}
                         </div>
                         <div>
                           <span className="text-gray-600 dark:text-gray-400">Risk Factors:</span>
@@ -158,6 +204,7 @@ export const CriticalPoints: React.FC<CriticalPointsProps> = ({ route, vehicle }
                                 <Users className="w-3 h-3 text-gray-500 dark:text-gray-400" />
                                 <span className="text-xs text-gray-600 dark:text-gray-400">
                                   Heavy pedestrian traffic ({segment.riskFactors.pedestrianTraffic}%)
+                                  {getSourceLabel(segment, 'pedestrianTraffic')}
                                 </span>
                               </div>
                             )}
@@ -166,6 +213,7 @@ export const CriticalPoints: React.FC<CriticalPointsProps> = ({ route, vehicle }
                                 <Navigation className="w-3 h-3 text-gray-500 dark:text-gray-400" />
                                 <span className="text-xs text-gray-600 dark:text-gray-400">
                                   Narrow road (risk: {segment.riskFactors.roadWidth}%)
+                                  {getSourceLabel(segment, 'roadWidth')}
                                 </span>
                               </div>
                             )}
@@ -177,6 +225,7 @@ export const CriticalPoints: React.FC<CriticalPointsProps> = ({ route, vehicle }
                                   {segment.riskFactors.heightRestriction <= vehicle.height + 1 && 
                                     <span className="text-red-600 dark:text-red-400 ml-1">(⚠️ Critical)</span>
                                   }
+                                  {getSourceLabel(segment, 'heightRestriction')}
                                 </span>
                               </div>
                             )}
@@ -185,6 +234,7 @@ export const CriticalPoints: React.FC<CriticalPointsProps> = ({ route, vehicle }
                                 <AlertTriangle className="w-3 h-3 text-gray-500 dark:text-gray-400" />
                                 <span className="text-xs text-gray-600 dark:text-gray-400">
                                   Heavy traffic congestion ({segment.riskFactors.trafficCongestion}%)
+                                  {getSourceLabel(segment, 'trafficCongestion')}
                                 </span>
                               </div>
                             )}
@@ -192,27 +242,54 @@ export const CriticalPoints: React.FC<CriticalPointsProps> = ({ route, vehicle }
                         </div>
                       </div>
 
-                      {/* Bus-specific turn analysis */}
-                      {isBusLength && turnAnalysis && point.type === 'turn' && (
+                      {/* Crash counts in the cluster, by severity and vehicles involved */}
+                      {point.crashCluster && (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md text-xs text-gray-700 dark:text-gray-300">
+                          <div>
+                            <span className="font-medium">Crashes:</span> {point.crashCluster.stats.count}
+                          </div>
+                          <div>
+                            <span className="font-medium">Fatal:</span> {point.crashCluster.stats.fatal}
+                          </div>
+                          <div>
+                            <span className="font-medium">Injury:</span> {point.crashCluster.stats.injury}
+                          </div>
+                          <div>
+                            <span className="font-medium">Truck or bus:</span> {point.crashCluster.stats.largeVehicle}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Swept path through the turn into this segment */}
+                      {sweptPath && turnAnalysis && (
                         <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md border border-blue-200 dark:border-blue-700">
                           <div className="flex items-center gap-2 mb-2">
                             <Truck className="w-4 h-4 text-blue-600 dark:text-blue-400" />
                             <span className="text-sm font-medium text-blue-800 dark:text-blue-300">
-                              40ft Bus Turn Analysis
+                              Swept Path: {sweptPath.direction === 'u_turn' ? 'U-turn' : `${sweptPath.angleDeg}° ${sweptPath.direction} turn`}
+                            </span>
+                            <span className={`ml-auto px-2 py-0.5 rounded-full text-xs font-medium ${SWEPT_PATH_STYLES[sweptPath.verdict]}`}>
+                              {sweptPath.verdict.toUpperCase()}
                             </span>
                           </div>
                           <div className="grid grid-cols-2 gap-3 text-xs text-blue-700 dark:text-blue-300">
                             <div>
-                              <span className="font-medium">Turn Angle:</span> ~{Math.round(turnAnalysis.angle)}°
+                              <span className="font-medium">Corner Radius:</span> {sweptPath.cornerRadiusFt}ft · {sweptPath.cornerRadiusSource}
                             </div>
                             <div>
-                              <span className="font-medium">Difficulty:</span> {turnAnalysis.difficulty.replace('_', ' ')}
+                              <span className="font-medium">Steering Radius:</span> {Math.round(sweptPath.steerRadiusFt)}ft
                             </div>
                             <div>
-                              <span className="font-medium">Clearance Needed:</span> {Math.round(turnAnalysis.clearanceRequired)}ft
+                              <span className="font-medium">Off-tracking:</span> {sweptPath.offTrackingFt}ft
                             </div>
                             <div>
-                              <span className="font-medium">Turn Radius:</span> {Math.round(turnAnalysis.radius)}ft
+                              <span className="font-medium">Tail Swing:</span> {sweptPath.tailSwingFt}ft
+                            </div>
+                            <div>
+                              <span className="font-medium">Swept Width:</span> {sweptPath.sweptWidthFt}ft of {sweptPath.availableWidthFt}ft
+                            </div>
+                            <div>
+                              <span className="font-medium">Lane Encroachment:</span> {sweptPath.encroachmentFt > 0 ? `${sweptPath.encroachmentFt}ft` : 'none'}
                             </div>
                           </div>
                           <div className="mt-2 p-2 bg-blue-100 dark:bg-blue-900/30 rounded text-xs text-blue-800 dark:text-blue-300">
@@ -235,6 +312,8 @@ export const CriticalPoints: React.FC<CriticalPointsProps> = ({ route, vehicle }
                           </ul>
                         </div>
                       )}
+
+                      {explanation && <SegmentRiskExplanationView explanation={explanation} confidence={segment.riskConfidence} />}
                     </div>
                   )}
                 </div>
@@ -0,0 +1,41 @@
+import React from 'react';
+import { PlayCircle, MapPin } from 'lucide-react';
+import { directionsFixtures } from '../data/directionsFixtures';
+
+interface DemoTripPickerProps {
+  onSelect: (origin: string, destination: string) => void;
+  disabled?: boolean;
+}
+
+export const DemoTripPicker: React.FC<DemoTripPickerProps> = ({ onSelect, disabled = false }) => {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-amber-100 dark:bg-amber-900/50 rounded-lg">
+          <PlayCircle className="w-6 h-6 text-amber-600 dark:text-amber-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Demo Trips</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Recorded routes that work offline</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {directionsFixtures.map(fixture => (
+          <button
+            key={fixture.id}
+            onClick={() => onSelect(fixture.origin.address, fixture.destination.address)}
+            disabled={disabled}
+            className="w-full text-left p-3 rounded-lg border border-gray-200 dark:border-gray-600 hover:border-amber-400 dark:hover:border-amber-500 hover:bg-amber-50 dark:hover:bg-amber-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            <div className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+              <MapPin className="w-4 h-4 text-amber-600 dark:text-amber-400" />
+              {fixture.name}
+            </div>
+            <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{fixture.description}</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
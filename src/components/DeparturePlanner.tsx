@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, CalendarClock, CheckCircle } from 'lucide-react';
+import { Route, Vehicle } from '../types';
+import { DeparturePlan, DeparturePlannerService, DepartureSlot } from '../services/departurePlannerService';
+import { RiskCalculator } from '../utils/riskCalculator';
+import { formatClockTime, parseDateTimeInputValue, toDateTimeInputValue } from '../utils/tripTiming';
+
+interface DeparturePlannerProps {
+  route?: Route;
+  vehicle: Vehicle;
+  departureTime: Date;
+  arrivalDeadline?: Date | null;
+  onDepartureChange: (departure: Date) => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const AXIS_HEIGHT = 20;
+const STEP_OPTIONS = [15, 30, 60];
+
+const startOfHour = (date: Date, hour: number) => {
+  const result = new Date(date);
+  result.setHours(hour, 0, 0, 0);
+  return result;
+};
+
+export const DeparturePlanner: React.FC<DeparturePlannerProps> = ({
+  route,
+  vehicle,
+  departureTime,
+  arrivalDeadline,
+  onDepartureChange
+}) => {
+  const [rangeStart, setRangeStart] = useState(toDateTimeInputValue(startOfHour(departureTime, 5)));
+  const [rangeEnd, setRangeEnd] = useState(toDateTimeInputValue(startOfHour(departureTime, 21)));
+  const [stepMinutes, setStepMinutes] = useState(30);
+
+  const { plan, error } = useMemo((): { plan: DeparturePlan | null; error: string | null } => {
+    const from = parseDateTimeInputValue(rangeStart);
+    const to = parseDateTimeInputValue(rangeEnd);
+    if (!route || !from || !to) return { plan: null, error: null };
+    try {
+      return { plan: DeparturePlannerService.planDepartures(route, vehicle, { from, to, stepMinutes, arrivalDeadline }), error: null };
+    } catch (err) {
+      return { plan: null, error: err instanceof Error ? err.message : 'Could not compare departure times' };
+    }
+  }, [route, vehicle, rangeStart, rangeEnd, stepMinutes, arrivalDeadline]);
+
+  if (!route) return null;
+
+  const arrival = route.arrivalTime ? new Date(route.arrivalTime) : null;
+  const missesDeadline = !!arrivalDeadline && !!arrival && arrival.getTime() > arrivalDeadline.getTime();
+  const barWidth = plan && plan.slots.length > 0 ? CHART_WIDTH / plan.slots.length : 0;
+  const isCurrent = (slot: DepartureSlot) => Math.abs(slot.departure.getTime() - departureTime.getTime()) < 60000;
+  const labelEvery = plan ? Math.max(1, Math.ceil(plan.slots.length / 8)) : 1;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-indigo-100 dark:bg-indigo-900/50 rounded-lg">
+          <CalendarClock className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Departure Planner</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Leaving {departureTime.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+            {arrival && <> · arriving {formatClockTime(arrival)}</>}
+          </p>
+        </div>
+      </div>
+
+      {missesDeadline && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg flex items-center gap-2 text-sm text-red-700 dark:text-red-300">
+          <AlertTriangle className="w-4 h-4" />
+          Arrives after the {formatClockTime(arrivalDeadline!)} deadline
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4 text-sm">
+        <label className="block">
+          <span className="text-gray-600 dark:text-gray-400">From</span>
+          <input
+            type="datetime-local"
+            value={rangeStart}
+            onChange={e => setRangeStart(e.target.value)}
+            className="mt-1 w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+        </label>
+        <label className="block">
+          <span className="text-gray-600 dark:text-gray-400">To</span>
+          <input
+            type="datetime-local"
+            value={rangeEnd}
+            onChange={e => setRangeEnd(e.target.value)}
+            className="mt-1 w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+        </label>
+        <label className="block">
+          <span className="text-gray-600 dark:text-gray-400">Every</span>
+          <select
+            value={stepMinutes}
+            onChange={e => setStepMinutes(Number(e.target.value))}
+            className="mt-1 w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {STEP_OPTIONS.map(option => (
+              <option key={option} value={option}>{option} min</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>}
+
+      {plan && plan.slots.length > 0 && (
+        <>
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + AXIS_HEIGHT}`} className="w-full h-44" preserveAspectRatio="none">
+            {plan.slots.map((slot, index) => {
+              const height = Math.max((slot.risk / 100) * CHART_HEIGHT, 2);
+              const recommended = slot === plan.recommended;
+              return (
+                <g key={slot.departure.getTime()} onClick={() => onDepartureChange(slot.departure)} className="cursor-pointer">
+                  <title>
+                    {`${formatClockTime(slot.departure)}: ${Math.round(slot.risk)}% risk, arrive ${formatClockTime(slot.arrival)}` +
+                      (slot.meetsDeadline ? '' : ' (misses deadline)') +
+                      (slot.activeFactors.length > 0 ? `\n${slot.activeFactors.join(', ')}` : '')}
+                  </title>
+                  <rect
+                    x={index * barWidth + 1}
+                    y={CHART_HEIGHT - height}
+                    width={Math.max(barWidth - 2, 1)}
+                    height={height}
+                    fill={slot.meetsDeadline ? RiskCalculator.getRiskColor(slot.risk) : '#9CA3AF'}
+                    opacity={slot.meetsDeadline ? 1 : 0.4}
+                    stroke={recommended ? '#4F46E5' : isCurrent(slot) ? '#111827' : 'none'}
+                    strokeWidth={recommended || isCurrent(slot) ? 2 : 0}
+                  />
+                  {index % labelEvery === 0 && (
+                    <text x={index * barWidth + barWidth / 2} y={CHART_HEIGHT + 14} fontSize="10" textAnchor="middle" className="fill-gray-500 dark:fill-gray-400">
+                      {formatClockTime(slot.departure)}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Click a bar to analyze that departure. Grey bars arrive after the deadline.
+          </p>
+
+          {plan.recommended ? (
+            <div className="mt-4 p-3 bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-700 rounded-lg flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-sm text-indigo-800 dark:text-indigo-300">
+                <CheckCircle className="w-4 h-4" />
+                <span>
+                  Safest departure: <strong>{formatClockTime(plan.recommended.departure)}</strong> ({Math.round(plan.recommended.risk)}% risk,
+                  arriving {formatClockTime(plan.recommended.arrival)})
+                </span>
+              </div>
+              {!isCurrent(plan.recommended) && (
+                <button
+                  onClick={() => onDepartureChange(plan.recommended!.departure)}
+                  className="px-3 py-1 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition-colors"
+                >
+                  Use
+                </button>
+              )}
+            </div>
+          ) : (
+            <p className="mt-4 text-sm text-red-600 dark:text-red-400">No departure in this range arrives by the deadline.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
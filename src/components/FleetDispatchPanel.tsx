@@ -0,0 +1,396 @@
+import React, { useState } from 'react';
+import { Truck, Plus, Trash2, Send, AlertTriangle, Users, ClipboardList } from 'lucide-react';
+import { LatLngCoordinates, StopLocation, Vehicle } from '../types';
+import { LocationInput } from './LocationInput';
+import { StopLocationsManager } from './StopLocationsManager';
+import { useFleet } from '../hooks/useFleet';
+import { RoutingProvider } from '../services/routingProvider';
+import { DispatchPlan, FleetDispatchService, VehicleAssignment } from '../services/fleetDispatchService';
+import { StopSequencingService } from '../services/stopSequencingService';
+import { VehicleClassificationService } from '../services/vehicleClassificationService';
+import { RouteAnalysisService } from '../services/routeAnalysisService';
+import { RiskCalculator } from '../utils/riskCalculator';
+import { transformDirectionsRoute } from '../utils/routeTransformer';
+
+interface FleetDispatchPanelProps {
+  routingProvider: RoutingProvider;
+}
+
+interface VehicleRiskSummary {
+  risk?: number;
+  criticalPoints?: number;
+  distanceMiles?: number;
+  error?: string;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export const FleetDispatchPanel: React.FC<FleetDispatchPanelProps> = ({ routingProvider }) => {
+  const { fleet, addVehicle, updateVehicle, removeVehicle } = useFleet();
+  const [depot, setDepot] = useState('');
+  const [stops, setStops] = useState<StopLocation[]>([]);
+  const [bulkAddresses, setBulkAddresses] = useState('');
+  const [plan, setPlan] = useState<DispatchPlan | null>(null);
+  const [riskSummaries, setRiskSummaries] = useState<Record<string, VehicleRiskSummary>>({});
+  const [isDispatching, setIsDispatching] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDimension = (id: string, vehicle: Vehicle, key: keyof Vehicle, value: string) => {
+    updateVehicle(id, { vehicle: { ...vehicle, [key]: parseFloat(value) || 0 } });
+  };
+
+  const handleBulkAdd = () => {
+    const addresses = bulkAddresses.split('\n').map(line => line.trim()).filter(Boolean);
+    const added = addresses.map((address, index) => ({
+      id: `stop-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 5)}`,
+      address,
+      order: stops.length + index,
+      estimatedStopTime: 15
+    }));
+    setStops([...stops, ...added]);
+    setBulkAddresses('');
+  };
+
+  const locate = async (address: string, lat?: number, lng?: number): Promise<LatLngCoordinates> => {
+    if (lat !== undefined && lng !== undefined) return { lat, lng };
+    const [result] = await routingProvider.geocode(address);
+    return result.location;
+  };
+
+  const summarizeRisk = async (assignment: VehicleAssignment, depotLabel: string): Promise<VehicleRiskSummary> => {
+    try {
+      const result = await routingProvider.getRoutes({
+        origin: depotLabel,
+        destination: depotLabel,
+        waypoints: assignment.stops.map(stop => ({
+          location: stop.lat !== undefined && stop.lng !== undefined ? `${stop.lat},${stop.lng}` : stop.address,
+          stopover: true
+        })),
+        vehicle: assignment.fleetVehicle.vehicle
+      });
+      const route = transformDirectionsRoute(result.routes[0], 0, assignment.stops);
+      const { route: analyzed } = RouteAnalysisService.analyzeRouteRisk(route, assignment.fleetVehicle.vehicle);
+      return {
+        risk: analyzed.overallRisk,
+        criticalPoints: analyzed.criticalPoints.length,
+        distanceMiles: analyzed.totalDistance
+      };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Routing failed' };
+    }
+  };
+
+  const handleDispatch = async () => {
+    const activeStops = stops.filter(stop => stop.address.trim());
+    if (!depot.trim() || activeStops.length === 0 || fleet.length === 0) return;
+
+    setIsDispatching(true);
+    setError(null);
+    setPlan(null);
+    setRiskSummaries({});
+    try {
+      await routingProvider.initialize();
+
+      setProgress('Locating depot and stops...');
+      const depotPoint = await locate(depot);
+      const located: StopLocation[] = [];
+      for (const stop of activeStops) {
+        const point = await locate(stop.address, stop.lat, stop.lng);
+        located.push({ ...stop, lat: point.lat, lng: point.lng });
+      }
+
+      setProgress('Assigning stops to vehicles...');
+      const matrix = StopSequencingService.buildEstimatedMatrix([depotPoint, ...located.map(stop => ({ lat: stop.lat!, lng: stop.lng! }))]);
+      const dispatchPlan = FleetDispatchService.dispatch(located, fleet, matrix);
+      setPlan(dispatchPlan);
+
+      const depotLabel = `${depotPoint.lat},${depotPoint.lng}`;
+      for (const assignment of dispatchPlan.assignments) {
+        if (assignment.stops.length === 0) continue;
+        setProgress(`Scoring ${assignment.fleetVehicle.name}...`);
+        const summary = await summarizeRisk(assignment, depotLabel);
+        setRiskSummaries(prev => ({ ...prev, [assignment.fleetVehicle.id]: summary }));
+      }
+    } catch (err) {
+      console.error('Dispatch failed:', err);
+      setError(err instanceof Error ? err.message : 'Dispatch failed');
+    } finally {
+      setIsDispatching(false);
+      setProgress('');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Fleet Dispatch</h2>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-1 space-y-6">
+          {/* Fleet */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="p-2 bg-blue-100 dark:bg-blue-900/50 rounded-lg">
+                <Users className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Fleet</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Dimensions in feet, capacity in load units</p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              {fleet.map(member => {
+                const vehicleClass = VehicleClassificationService.classifyVehicle(member.vehicle);
+                return (
+                  <div key={member.id} className="p-3 border border-gray-200 dark:border-gray-600 rounded-lg space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        value={member.name}
+                        onChange={(e) => updateVehicle(member.id, { name: e.target.value })}
+                        className={`${inputClass} font-medium`}
+                      />
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 capitalize">
+                        {vehicleClass.type}
+                      </span>
+                      <button
+                        onClick={() => removeVehicle(member.id)}
+                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                        title="Remove vehicle"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 text-xs text-gray-600 dark:text-gray-400">
+                      {(['length', 'width', 'height'] as const).map(key => (
+                        <label key={key} className="capitalize">
+                          {key}
+                          <input
+                            type="number"
+                            value={member.vehicle[key]}
+                            onChange={(e) => updateDimension(member.id, member.vehicle, key, e.target.value)}
+                            className={inputClass}
+                            min="0"
+                            step="0.5"
+                          />
+                        </label>
+                      ))}
+                      <label>
+                        Capacity
+                        <input
+                          type="number"
+                          value={member.capacity}
+                          onChange={(e) => updateVehicle(member.id, { capacity: parseInt(e.target.value) || 0 })}
+                          className={inputClass}
+                          min="0"
+                        />
+                      </label>
+                      <label>
+                        Shift (h)
+                        <input
+                          type="number"
+                          value={member.shiftHours}
+                          onChange={(e) => updateVehicle(member.id, { shiftHours: parseFloat(e.target.value) || 0 })}
+                          className={inputClass}
+                          min="0"
+                          step="0.5"
+                        />
+                      </label>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <button
+              onClick={addVehicle}
+              className="mt-4 w-full flex items-center justify-center gap-2 p-2 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg text-gray-600 dark:text-gray-400 hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Vehicle
+            </button>
+          </div>
+
+          {/* Depot and bulk stops */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300 space-y-4">
+            <LocationInput
+              label="Depot"
+              value={depot}
+              onChange={setDepot}
+              placeholder="Where every vehicle starts and ends"
+              disabled={isDispatching}
+              onLocationSelect={(location) => setDepot(location.address)}
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Paste Stops (one address per line)
+              </label>
+              <textarea
+                value={bulkAddresses}
+                onChange={(e) => setBulkAddresses(e.target.value)}
+                rows={4}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                disabled={isDispatching}
+              />
+              <button
+                onClick={handleBulkAdd}
+                disabled={!bulkAddresses.trim() || isDispatching}
+                className="mt-2 flex items-center gap-2 px-3 py-1 text-sm rounded-md bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50 transition-colors"
+              >
+                <ClipboardList className="w-4 h-4" />
+                Add to stop pool
+              </button>
+            </div>
+            <button
+              onClick={handleDispatch}
+              disabled={!depot.trim() || stops.length === 0 || fleet.length === 0 || isDispatching}
+              className="w-full bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600 text-white py-3 px-4 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center gap-2 font-medium"
+            >
+              {isDispatching ? (
+                <>
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                  {progress || 'Dispatching...'}
+                </>
+              ) : (
+                <>
+                  <Send className="w-5 h-5" />
+                  Dispatch {stops.length} Stop{stops.length !== 1 ? 's' : ''}
+                </>
+              )}
+            </button>
+          </div>
+
+          <StopLocationsManager
+            stops={stops}
+            onStopsChange={setStops}
+            disabled={isDispatching}
+            showDispatchFields
+          />
+        </div>
+
+        {/* Results */}
+        <div className="lg:col-span-2 space-y-4">
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg p-4 flex items-center gap-2 text-red-700 dark:text-red-300">
+              <AlertTriangle className="w-5 h-5" />
+              {error}
+            </div>
+          )}
+
+          {!plan && !error && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 border border-gray-100 dark:border-gray-700 text-center text-gray-600 dark:text-gray-400">
+              <Truck className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+              Set a depot, add stops and dispatch to split them across the fleet.
+            </div>
+          )}
+
+          {plan?.assignments.map(assignment => {
+            const summary = riskSummaries[assignment.fleetVehicle.id];
+            const shiftUsed = assignment.totalSeconds / (assignment.fleetVehicle.shiftHours * 3600);
+            return (
+              <div
+                key={assignment.fleetVehicle.id}
+                className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300"
+              >
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{assignment.fleetVehicle.name}</h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {VehicleClassificationService.getVehicleDescription(assignment.vehicleClass)}
+                    </p>
+                  </div>
+                  {summary?.risk !== undefined && (
+                    <div className="text-right">
+                      <div className="text-2xl font-bold" style={{ color: RiskCalculator.getRiskColor(summary.risk) }}>
+                        {Math.round(summary.risk)}%
+                      </div>
+                      <div className="text-xs text-gray-600 dark:text-gray-400">{RiskCalculator.getRiskLabel(summary.risk)}</div>
+                    </div>
+                  )}
+                </div>
+
+                {assignment.stops.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No stops assigned.</p>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3 text-sm">
+                      <div>
+                        <div className="text-gray-500 dark:text-gray-400 text-xs">Stops</div>
+                        <div className="font-medium text-gray-900 dark:text-white">{assignment.stops.length}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500 dark:text-gray-400 text-xs">Load</div>
+                        <div className="font-medium text-gray-900 dark:text-white">
+                          {assignment.load} / {assignment.fleetVehicle.capacity}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500 dark:text-gray-400 text-xs">Shift used</div>
+                        <div className={`font-medium ${shiftUsed > 0.9 ? 'text-amber-600 dark:text-amber-400' : 'text-gray-900 dark:text-white'}`}>
+                          {formatDuration(assignment.totalSeconds)} ({Math.round(shiftUsed * 100)}%)
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500 dark:text-gray-400 text-xs">Distance</div>
+                        <div className="font-medium text-gray-900 dark:text-white">
+                          {(summary?.distanceMiles ?? assignment.distanceMeters / 1609.34).toFixed(1)} mi
+                        </div>
+                      </div>
+                    </div>
+
+                    <ol className="text-sm text-gray-700 dark:text-gray-300 space-y-1 mb-3">
+                      {assignment.stops.map((stop, index) => {
+                        const arrival = assignment.arrivals.find(a => a.stopId === stop.id);
+                        return (
+                          <li key={stop.id} className="flex justify-between gap-3">
+                            <span className="truncate">{index + 1}. {stop.name || stop.address}</span>
+                            {arrival && (
+                              <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                                {arrival.arrival.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                              </span>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ol>
+
+                    {summary?.criticalPoints !== undefined && (
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        {summary.criticalPoints} critical point{summary.criticalPoints !== 1 ? 's' : ''} on this route
+                      </p>
+                    )}
+                    {summary?.error && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400">Risk not scored: {summary.error}</p>
+                    )}
+                    {!summary && isDispatching && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Scoring route risk...</p>
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })}
+
+          {plan && plan.unassigned.length > 0 && (
+            <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700 rounded-lg p-4">
+              <div className="flex items-center gap-2 font-medium text-amber-800 dark:text-amber-300 mb-2">
+                <AlertTriangle className="w-5 h-5" />
+                {plan.unassigned.length} stop{plan.unassigned.length !== 1 ? 's' : ''} could not be assigned
+              </div>
+              <ul className="text-sm text-amber-800 dark:text-amber-300 space-y-1">
+                {plan.unassigned.map(({ stop, reason }) => (
+                  <li key={stop.id}>• {stop.name || stop.address}: {reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { GoogleMapsService } from '../services/googleMapsService';
+import { RoutingProviderRegistry } from '../services/routingProviderRegistry';
 import { Route, Vehicle } from '../types';
 import { RiskCalculator } from '../utils/riskCalculator';
+import { getRoutePath } from '../utils/directionsBuilder';
+import { getPathBounds, getRouteGeometry, getSegmentAnchor, getSegmentPath } from '../utils/routeGeometry';
+import { SWEPT_PATH_COLORS } from '../utils/sweptPath';
 
 interface GoogleMapComponentProps {
   route: Route;
@@ -20,8 +24,7 @@ export const GoogleMapComponent: React.FC<GoogleMapComponentProps> = ({
   const [map, setMap] = useState<google.maps.Map | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const overlaysRef = useRef<(google.maps.Polyline | google.maps.Marker)[]>([]);
-  const [directionsRenderer, setDirectionsRenderer] = useState<google.maps.DirectionsRenderer | null>(null);
+  const overlaysRef = useRef<(google.maps.Polyline | google.maps.Marker | google.maps.Polygon)[]>([]);
   const [segmentPolylines, setSegmentPolylines] = useState<Map<string, google.maps.Polyline>>(new Map());
 
   const initializeMap = useCallback(async () => {
@@ -49,19 +52,6 @@ export const GoogleMapComponent: React.FC<GoogleMapComponentProps> = ({
         ]
       });
 
-      // Create a directions renderer for displaying the actual route
-      const renderer = new google.maps.DirectionsRenderer({
-        suppressMarkers: true, // We'll add our own markers
-        polylineOptions: {
-          strokeColor: '#9CA3AF',
-          strokeOpacity: 0.6,
-          strokeWeight: 4,
-          zIndex: 1
-        }
-      });
-      renderer.setMap(mapInstance);
-      setDirectionsRenderer(renderer);
-
       setMap(mapInstance);
       setError(null);
     } catch (err) {
@@ -78,6 +68,8 @@ export const GoogleMapComponent: React.FC<GoogleMapComponentProps> = ({
         overlay.setMap(null);
       } else if (overlay instanceof google.maps.Polyline) {
         overlay.setMap(null);
+      } else if (overlay instanceof google.maps.Polygon) {
+        overlay.setMap(null);
       }
     });
     overlaysRef.current = [];
@@ -93,20 +85,17 @@ export const GoogleMapComponent: React.FC<GoogleMapComponentProps> = ({
     const segment = route.segments.find(s => s.id === segmentId);
     if (!segment) return;
 
-    // Create bounds for the segment
-    const bounds = new google.maps.LatLngBounds();
-    bounds.extend(new google.maps.LatLng(segment.startLat, segment.startLng));
-    bounds.extend(new google.maps.LatLng(segment.endLat, segment.endLng));
+    // Create bounds around the segment's full geometry, not just its endpoints
+    const bounds = getPathBounds(getSegmentPath(segment));
+    if (!bounds) return;
 
     // Add some padding around the segment
-    const ne = bounds.getNorthEast();
-    const sw = bounds.getSouthWest();
-    const latPadding = (ne.lat() - sw.lat()) * 0.3;
-    const lngPadding = (ne.lng() - sw.lng()) * 0.3;
+    const latPadding = (bounds.north - bounds.south) * 0.3;
+    const lngPadding = (bounds.east - bounds.west) * 0.3;
 
     const paddedBounds = new google.maps.LatLngBounds(
-      new google.maps.LatLng(sw.lat() - latPadding, sw.lng() - lngPadding),
-      new google.maps.LatLng(ne.lat() + latPadding, ne.lng() + lngPadding)
+      new google.maps.LatLng(bounds.south - latPadding, bounds.west - lngPadding),
+      new google.maps.LatLng(bounds.north + latPadding, bounds.east + lngPadding)
     );
 
     // Zoom to the segment with animation
@@ -147,12 +136,29 @@ export const GoogleMapComponent: React.FC<GoogleMapComponentProps> = ({
   const addCriticalPointMarkers = useCallback(() => {
     if (!map) return;
 
+    // Swept envelope of each turn, coloured by whether it fits the available lanes
+    route.segments.forEach(segment => {
+      if (!segment.sweptPath) return;
+      const envelope = new google.maps.Polygon({
+        paths: segment.sweptPath.envelope,
+        map,
+        strokeColor: SWEPT_PATH_COLORS[segment.sweptPath.verdict],
+        strokeOpacity: 0.9,
+        strokeWeight: 1,
+        fillColor: SWEPT_PATH_COLORS[segment.sweptPath.verdict],
+        fillOpacity: 0.3,
+        clickable: false,
+        zIndex: 2
+      });
+      overlaysRef.current.push(envelope);
+    });
+
     // Add markers for critical points only
-    route.criticalPoints.forEach((criticalPoint, _index) => {
+    route.criticalPoints.forEach(criticalPoint => {
       const segment = route.segments.find(s => s.id === criticalPoint.segmentId);
       if (segment) {
         const marker = new google.maps.Marker({
-          position: { lat: segment.startLat, lng: segment.startLng },
+          position: getSegmentAnchor(segment),
           map,
           title: criticalPoint.description,
           icon: {
@@ -191,19 +197,8 @@ export const GoogleMapComponent: React.FC<GoogleMapComponentProps> = ({
 
     console.log('Using fallback route display');
 
-    // Create the route path from segments
-    const routePath = [];
-    
-    // Add all segment points to create a continuous path
-    for (let i = 0; i < route.segments.length; i++) {
-      const segment = route.segments[i];
-      routePath.push({ lat: segment.startLat, lng: segment.startLng });
-      
-      // Add the end point of the last segment
-      if (i === route.segments.length - 1) {
-        routePath.push({ lat: segment.endLat, lng: segment.endLng });
-      }
-    }
+    // Create the route path from the stored geometry, or from the segments themselves
+    const routePath = getRouteGeometry(route);
 
     // Create base route line (neutral color)
     const basePolyline = new google.maps.Polyline({
@@ -220,13 +215,10 @@ export const GoogleMapComponent: React.FC<GoogleMapComponentProps> = ({
     const newSegmentPolylines = new Map<string, google.maps.Polyline>();
 
     // Create risk-based overlays for segments with elevated risk
-    route.segments.forEach((segment, _index) => {
-      const riskScore = RiskCalculator.calculateSegmentRisk(segment, vehicle);
+    route.segments.forEach(segment => {
+      const riskScore = segment.riskScore;
       
-      const segmentPath = [
-        { lat: segment.startLat, lng: segment.startLng },
-        { lat: segment.endLat, lng: segment.endLng }
-      ];
+      const segmentPath = getSegmentPath(segment);
 
       const strokeWeight = riskScore >= 40 ? 8 : 6;
       const strokeOpacity = riskScore >= 40 ? 0.9 : 0.7;
@@ -294,34 +286,19 @@ export const GoogleMapComponent: React.FC<GoogleMapComponentProps> = ({
         left: 50
       });
     }
-  }, [map, route, vehicle, zoomToSegment, clearOverlays, addCriticalPointMarkers]); // Add dependencies
+  }, [map, route, zoomToSegment, clearOverlays, addCriticalPointMarkers]); // Add dependencies
 
-  const displayRiskOverlays = useCallback(async (googleRoute: google.maps.DirectionsRoute) => {
+  const displayRiskOverlays = useCallback(async () => {
     if (!map) return;
 
-    // Get the detailed path from the Google route
-    const routePath: google.maps.LatLng[] = [];
-    googleRoute.legs.forEach(leg => {
-      leg.steps.forEach(step => {
-        if (step.path) {
-          routePath.push(...step.path);
-        }
-      });
-    });
-
-    if (routePath.length === 0) return;
-
     const newSegmentPolylines = new Map<string, google.maps.Polyline>();
 
     // Calculate risk for each segment and create overlays for high-risk areas
-    route.segments.forEach((segment, _index) => {
-      const riskScore = RiskCalculator.calculateSegmentRisk(segment, vehicle);
-      
-      // Create overlays for all segments, but make high-risk ones more prominent
-      const segmentStartIndex = Math.floor((_index / route.segments.length) * routePath.length);
-      const segmentEndIndex = Math.floor(((_index + 1) / route.segments.length) * routePath.length);
+    route.segments.forEach(segment => {
+      const riskScore = segment.riskScore;
       
-      const segmentPath = routePath.slice(segmentStartIndex, segmentEndIndex + 1);
+      // Create overlays for all segments along their own geometry, but make high-risk ones more prominent
+      const segmentPath = getSegmentPath(segment);
       
       if (segmentPath.length > 1) {
         const strokeWeight = riskScore >= 40 ? 8 : 6;
@@ -411,7 +388,7 @@ export const GoogleMapComponent: React.FC<GoogleMapComponentProps> = ({
     });
 
     setSegmentPolylines(newSegmentPolylines);
-  }, [map, route, vehicle, zoomToSegment, addCriticalPointMarkers]); // Add dependencies
+  }, [map, route, zoomToSegment, addCriticalPointMarkers]); // Add dependencies
 
   const displayRoute = useCallback(async () => {
     if (!map || !route.segments.length) return;
@@ -420,57 +397,50 @@ export const GoogleMapComponent: React.FC<GoogleMapComponentProps> = ({
     clearOverlays();
 
     try {
-      // Get the actual route from Google Maps using the first and last segment coordinates
-      const firstSegment = route.segments[0];
-      const lastSegment = route.segments[route.segments.length - 1];
-      
-      const origin = `${firstSegment.startLat},${firstSegment.startLng}`;
-      const destination = `${lastSegment.endLat},${lastSegment.endLng}`;
-
-      console.log('Fetching route for map display:', { origin, destination });
+      // Prefer the geometry stored on the route; only re-request when it is missing
+      let routePath = route.path || (route.googleRoute ? getRoutePath(route.googleRoute) : []);
+      if (routePath.length < 2) {
+        const firstSegment = route.segments[0];
+        const lastSegment = route.segments[route.segments.length - 1];
+
+        const origin = `${firstSegment.startLat},${firstSegment.startLng}`;
+        const destination = `${lastSegment.endLat},${lastSegment.endLng}`;
+
+        console.log('Fetching route for map display:', { origin, destination });
+
+        const routeResponse = await RoutingProviderRegistry.getActiveProvider().getRoutes({
+          origin,
+          destination,
+          waypoints: route.waypoints,
+          avoidHighways: false,
+          avoidTolls: false
+        });
+        routePath = routeResponse.routes[0] ? getRoutePath(routeResponse.routes[0]) : [];
+      }
 
-      const googleMapsService = GoogleMapsService.getInstance();
-      const routeResponse = await googleMapsService.getRoutes({
-        origin,
-        destination,
-        waypoints: route.waypoints, // ← ADD THIS LINE
-        travelMode: google.maps.TravelMode.DRIVING,
-        avoidHighways: false,
-        avoidTolls: false
-      });
+      if (routePath.length > 1) {
 
-      if (routeResponse.routes.length > 0 && directionsRenderer) {
-        const googleRoute = routeResponse.routes[0];
-        
-        // Display the base route using DirectionsRenderer
-        directionsRenderer.setDirections({
-          routes: [googleRoute],
-          request: {
-            origin,
-            destination,
-            waypoints: route.waypoints?.map(waypoint => ({
-              location: waypoint,
-              stopover: true
-            })) || [], // ← ADD THESE LINES
-            travelMode: google.maps.TravelMode.DRIVING
-          }
-        } as google.maps.DirectionsResult);
+        // Display the base route line
+        const basePolyline = new google.maps.Polyline({
+          path: routePath,
+          geodesic: true,
+          strokeColor: '#9CA3AF',
+          strokeOpacity: 0.6,
+          strokeWeight: 4,
+          zIndex: 1
+        });
+        basePolyline.setMap(map);
+        overlaysRef.current.push(basePolyline);
 
         // Now overlay risk-based segments on top of the actual route
-        await displayRiskOverlays(googleRoute);
+        await displayRiskOverlays();
 
         // Add markers for critical points
         addCriticalPointMarkers();
 
         // Fit map to route bounds
         const bounds = new google.maps.LatLngBounds();
-        googleRoute.legs.forEach(leg => {
-          leg.steps.forEach(step => {
-            if (step.path) {
-              step.path.forEach(point => bounds.extend(point));
-            }
-          });
-        });
+        routePath.forEach(point => bounds.extend(point));
         
         if (!bounds.isEmpty()) {
           map.fitBounds(bounds, {
@@ -480,13 +450,15 @@ export const GoogleMapComponent: React.FC<GoogleMapComponentProps> = ({
             left: 50
           });
         }
+      } else {
+        displayFallbackRoute();
       }
     } catch (error) {
       console.error('Failed to display route on map:', error);
       // Fallback to simple segment display if route fetching fails
       displayFallbackRoute();
     }
-  }, [map, route, vehicle, clearOverlays, directionsRenderer, displayRiskOverlays, addCriticalPointMarkers, displayFallbackRoute]); // Add dependencies
+  }, [map, route, clearOverlays, displayRiskOverlays, addCriticalPointMarkers, displayFallbackRoute]); // Add dependencies
 
   useEffect(() => {
     if (map && route) {
@@ -498,11 +470,8 @@ export const GoogleMapComponent: React.FC<GoogleMapComponentProps> = ({
   useEffect(() => {
     return () => {
       clearOverlays();
-      if (directionsRenderer) {
-        directionsRenderer.setMap(null);
-      }
     };
-  }, [directionsRenderer, clearOverlays]);
+  }, [clearOverlays]);
 
   // Expose zoom function for external use
   useEffect(() => {
@@ -1,26 +1,30 @@
 import React from 'react';
 import { Shield, AlertTriangle, CheckCircle, XCircle, Flag } from 'lucide-react';
-import { Route, Vehicle, TruckRouteRestriction } from '../types';
+import { NetworkCoverageMile, Route, Vehicle } from '../types';
 
 interface GovernmentCompliancePanelProps {
-  route: Route & {
-    complianceAnalysis?: {
-      compliant: boolean;
-      violations: TruckRouteRestriction[];
-      recommendations: string[];
-      nationalNetworkCoverage: number;
-    };
-  };
+  route: Route;
   vehicle: Vehicle;
 }
 
+const getMileColor = (mile: NetworkCoverageMile) => {
+  if (mile.coveredFraction >= 0.9) return 'bg-green-600';
+  if (mile.coveredFraction > 0) return 'bg-yellow-500';
+  return 'bg-red-600';
+};
+
+const describeMile = (mile: NetworkCoverageMile) => {
+  const share = `${Math.round(mile.coveredFraction * 100)}% on the National Network`;
+  return `Mile ${mile.mile}${mile.miles < 1 ? ` (${mile.miles} mi)` : ''}: ${share}${mile.routeIds.length > 0 ? ` (${mile.routeIds.join(', ')})` : ''}`;
+};
+
 export const GovernmentCompliancePanel: React.FC<GovernmentCompliancePanelProps> = ({
   route,
   vehicle
 }) => {
   if (!route.complianceAnalysis) return null;
 
-  const { compliant, violations, recommendations, nationalNetworkCoverage } = route.complianceAnalysis;
+  const { compliant, violations, recommendations, nationalNetworkCoverage, coverageByMile, statesCrossed } = route.complianceAnalysis;
 
   const getComplianceColor = () => {
     if (compliant) return 'text-green-600 bg-green-100 dark:bg-green-900/30';
@@ -69,23 +73,41 @@ export const GovernmentCompliancePanel: React.FC<GovernmentCompliancePanelProps>
 
       {/* National Network Coverage */}
       <div className="mb-4">
-        <div className="flex justify-between text-sm mb-1">
-          <span className="text-gray-600 dark:text-gray-400">National Network Coverage</span>
-          <span className="text-gray-900 dark:text-white">{nationalNetworkCoverage.toFixed(1)}%</span>
-        </div>
-        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
-          <div
-            className={`h-2 rounded-full transition-all duration-500 ${
-              nationalNetworkCoverage >= 70 ? 'bg-green-600' :
-              nationalNetworkCoverage >= 50 ? 'bg-yellow-600' : 'bg-red-600'
-            }`}
-            style={{ width: `${nationalNetworkCoverage}%` }}
-          />
-        </div>
-        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-          {nationalNetworkCoverage >= 70 ? 'Excellent' :
-           nationalNetworkCoverage >= 50 ? 'Acceptable' : 'Poor'} coverage of approved truck routes
-        </div>
+        {nationalNetworkCoverage === null ? (
+          <div className="text-sm text-gray-600 dark:text-gray-400">
+            National Network coverage unknown - import National Network geometry to measure it
+          </div>
+        ) : (
+          <>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-gray-600 dark:text-gray-400">National Network Coverage</span>
+              <span className="text-gray-900 dark:text-white">{nationalNetworkCoverage.toFixed(1)}% of distance</span>
+            </div>
+            <div className="flex gap-px h-3 rounded overflow-hidden" aria-label="National Network coverage by mile">
+              {coverageByMile.map(mile => (
+                <div
+                  key={mile.mile}
+                  className={`${getMileColor(mile)} transition-colors duration-300`}
+                  style={{ flexGrow: mile.miles, flexBasis: 0 }}
+                  title={describeMile(mile)}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span>Mile 1</span>
+              <span>
+                {nationalNetworkCoverage >= 70 ? 'Excellent' :
+                 nationalNetworkCoverage >= 50 ? 'Acceptable' : 'Poor'} coverage of approved truck routes
+              </span>
+              <span>Mile {coverageByMile.length}</span>
+            </div>
+          </>
+        )}
+        {statesCrossed.length > 0 && (
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            States: {statesCrossed.join(' → ')}
+          </div>
+        )}
       </div>
 
       {/* Violations */}
@@ -107,7 +129,8 @@ export const GovernmentCompliancePanel: React.FC<GovernmentCompliancePanelProps>
                       {violation.description}
                     </div>
                     <div className="text-xs text-gray-500 dark:text-gray-500 mt-1">
-                      Source: {violation.source}
+                      Source: {violation.source}{violation.stateCode && ` · ${violation.stateCode}`}
+                      {violation.validTo && ` · until ${new Date(violation.validTo).toLocaleDateString()}`}
                     </div>
                   </div>
                 </div>
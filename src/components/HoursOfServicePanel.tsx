@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Timer, AlertTriangle, CheckCircle, Coffee, BedDouble, Upload, Plus } from 'lucide-react';
+import { Route, StopLocation, Vehicle } from '../types';
+import { HOS_RULES, HosRuleSet, HoursOfServiceService, PlannedRest } from '../services/hoursOfServiceService';
+import { RestSiteInfo, RestSiteService } from '../services/restSiteService';
+import { useDriverStatus } from '../hooks/useDriverStatus';
+
+interface HoursOfServicePanelProps {
+  route: Route;
+  vehicle: Vehicle;
+  departureTime: Date;
+  /** Called with the route's stops plus the planned rests, to re-run the analysis with them */
+  onAddRests?: (stops: StopLocation[]) => void;
+  disabled?: boolean;
+}
+
+const INPUT_CLASS = 'mt-1 w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return hours > 0 ? `${hours} h${rest > 0 ? ` ${rest} min` : ''}` : `${rest} min`;
+};
+
+const describeWhere = (rest: PlannedRest) => {
+  if (!rest.site) return `Mile ${rest.mile} - no rest area or truck stop known nearby`;
+  const details = [RestSiteService.getKindLabel(rest.site.kind)];
+  if (rest.site.truckSpaces) details.push(`${rest.site.truckSpaces} truck spaces`);
+  const offRoute = (rest.offRouteMeters ?? 0) / 1609.34;
+  return `${rest.site.name} (${details.join(', ')}) · mile ${rest.mile}${offRoute >= 0.1 ? `, ${offRoute.toFixed(1)} mi off route` : ''}`;
+};
+
+export const HoursOfServicePanel: React.FC<HoursOfServicePanelProps> = ({ route, vehicle, departureTime, onAddRests, disabled }) => {
+  const { status, updateStatus } = useDriverStatus();
+  const [siteInfo, setSiteInfo] = useState<RestSiteInfo>(RestSiteService.getInfo());
+  const [siteError, setSiteError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    RestSiteService.ensureLoaded();
+    return RestSiteService.subscribe(setSiteInfo);
+  }, []);
+
+  const restSites = useMemo(
+    () => (siteInfo.loaded ? RestSiteService.findAlongRoute(route.segments) : []),
+    [route, siteInfo]
+  );
+  const plan = useMemo(
+    () => HoursOfServiceService.plan(route, vehicle, departureTime, status, restSites),
+    [route, vehicle, departureTime, status, restSites]
+  );
+  const restsInItinerary = (route.stops ?? []).filter(stop => stop.hosRest).length;
+  const { skipped } = useMemo(() => HoursOfServiceService.withRestStops(route, plan.rests), [route, plan]);
+  const addedMinutes = (Date.parse(plan.plannedArrival) - Date.parse(plan.arrival)) / 60000;
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setSiteError(null);
+    try {
+      RestSiteService.loadFile(await file.text(), file.name);
+    } catch (err) {
+      console.error('Failed to load rest sites:', err);
+      setSiteError(err instanceof Error ? err.message : 'Failed to load rest sites');
+    }
+  };
+
+  const handleAddRests = () => {
+    onAddRests?.(HoursOfServiceService.withRestStops(route, plan.rests).stops);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-violet-100 dark:bg-violet-900/50 rounded-lg">
+          <Timer className="w-6 h-6 text-violet-600 dark:text-violet-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Hours of Service</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {plan.rules.label} rules · {formatDuration(plan.drivingMinutes)} driving
+            {restsInItinerary > 0 && ` · ${restsInItinerary} rest(s) in the itinerary`}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-4 text-sm">
+        <label className="block col-span-2 sm:col-span-1">
+          <span className="text-gray-600 dark:text-gray-400">Rules</span>
+          <select
+            value={plan.ruleSet}
+            onChange={e => updateStatus('ruleSet', e.target.value as HosRuleSet)}
+            className={INPUT_CLASS}
+          >
+            {(Object.keys(HOS_RULES) as HosRuleSet[]).map(ruleSet => (
+              <option key={ruleSet} value={ruleSet}>{HOS_RULES[ruleSet].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block" title="Driving since the last 10/8-hour off-duty period">
+          <span className="text-gray-600 dark:text-gray-400">Driven (h)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.25}
+            value={status.drivingHours}
+            onChange={e => updateStatus('drivingHours', Math.max(0, Number(e.target.value) || 0))}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block" title={plan.rules.consecutiveDutyWindow ? 'Hours since coming on duty' : 'On-duty hours since the last off-duty period'}>
+          <span className="text-gray-600 dark:text-gray-400">On duty (h)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.25}
+            value={status.onDutyHours}
+            onChange={e => updateStatus('onDutyHours', Math.max(0, Number(e.target.value) || 0))}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block" title="On-duty hours in the cycle so far">
+          <span className="text-gray-600 dark:text-gray-400">Cycle used (h)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={status.cycleHoursUsed}
+            onChange={e => updateStatus('cycleHoursUsed', Math.max(0, Number(e.target.value) || 0))}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block">
+          <span className="text-gray-600 dark:text-gray-400">Cycle</span>
+          <select
+            value={status.cycleDays}
+            onChange={e => updateStatus('cycleDays', Number(e.target.value) === 8 ? 8 : 7)}
+            className={INPUT_CLASS}
+          >
+            <option value={7}>60 h / 7 days</option>
+            <option value={8}>70 h / 8 days</option>
+          </select>
+        </label>
+      </div>
+
+      {plan.violations.length === 0 ? (
+        <div className="mb-4 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg flex items-center gap-2 text-sm text-green-700 dark:text-green-300">
+          <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          The itinerary stays within hours-of-service limits
+        </div>
+      ) : (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg text-sm text-red-700 dark:text-red-300 space-y-1">
+          {plan.violations.map(violation => (
+            <div key={violation.limit} className="flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{violation.description} ({formatWhen(violation.at)})</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {plan.warnings.map(warning => (
+        <p key={warning} className="mb-3 text-sm text-amber-700 dark:text-amber-300">{warning}</p>
+      ))}
+
+      {plan.rests.length > 0 && (
+        <>
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Planned rests</h3>
+          <ol className="space-y-2 mb-3">
+            {plan.rests.map((rest, index) => {
+              const Icon = rest.kind === 'break' ? Coffee : BedDouble;
+              return (
+                <li key={index} className="flex items-start gap-2 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+                  <Icon className="w-4 h-4 mt-0.5 text-violet-600 dark:text-violet-400 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900 dark:text-white">
+                      {HoursOfServiceService.describeRest(rest.kind)} · {formatWhen(rest.start)} - {formatWhen(rest.end)}
+                    </div>
+                    <div className={`text-xs ${rest.site ? 'text-gray-600 dark:text-gray-400' : 'text-amber-700 dark:text-amber-300'}`}>
+                      {describeWhere(rest)}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Before the {HoursOfServiceService.describeLimit(rest.reason, plan.rules, status.cycleDays)}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+
+          <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
+            Arrival with rests: <strong>{formatWhen(plan.plannedArrival)}</strong>
+            {addedMinutes > 0 && ` (+${formatDuration(addedMinutes)})`}
+          </p>
+
+          {onAddRests && (
+            <button
+              onClick={handleAddRests}
+              disabled={disabled || skipped.length === plan.rests.length}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 mb-2 text-sm bg-violet-600 hover:bg-violet-700 disabled:opacity-40 text-white rounded-md transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add {plan.rests.length - skipped.length} rest stop(s) to the itinerary
+            </button>
+          )}
+          {skipped.length > 0 && (
+            <p className="text-xs text-amber-700 dark:text-amber-300 mb-2">
+              {skipped.length} rest(s) fall on the way back from the destination of this loop and must be planned by hand.
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center justify-between gap-2 pt-3 border-t border-gray-100 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400">
+        <span>
+          {siteInfo.loaded
+            ? `${siteInfo.siteCount} rest areas and truck stops from ${siteInfo.name}`
+            : 'No rest area data loaded; rests are placed on the route'}
+        </span>
+        <input ref={fileInputRef} type="file" accept=".csv,.json,.geojson" onChange={handleFile} className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-2 py-1 rounded-md border border-violet-300 dark:border-violet-700 text-violet-700 dark:text-violet-300 hover:bg-violet-50 dark:hover:bg-violet-900/30 transition-colors duration-200 flex-shrink-0"
+        >
+          <Upload className="w-3 h-3" />
+          Import sites
+        </button>
+      </div>
+      {siteError && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{siteError}</p>}
+    </div>
+  );
+};
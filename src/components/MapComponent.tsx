@@ -2,6 +2,7 @@ import { useEffect, useRef } from 'react';
 import { Loader } from '@googlemaps/js-api-loader';
 import { useMapContext } from '../contexts/MapContext';
 import { LatLngCoordinates } from '../types'; // Import LatLngCoordinates
+import { getRouteGeometry } from '../utils/routeGeometry';
 
 export function MapComponent() {
   const mapRef = useRef<HTMLDivElement>(null);
@@ -69,12 +70,8 @@ export function MapComponent() {
     markersRef.current.forEach(marker => marker.setMap(null));
     markersRef.current = [];
     
-    // Create path from route segments
-    const path: google.maps.LatLngLiteral[] = [];
-    selectedRoute.segments.forEach(segment => {
-      path.push({ lat: segment.startLat, lng: segment.startLng });
-      path.push({ lat: segment.endLat, lng: segment.endLng });
-    });
+    // Create path from the route's road geometry
+    const path: google.maps.LatLngLiteral[] = getRouteGeometry(selectedRoute);
     
     // Create polyline for the route
     polylineRef.current = new google.maps.Polyline({
@@ -1,13 +1,14 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Route, Vehicle, RouteSegment } from '../types';
+import { Route, RouteSegment } from '../types';
 import { GoogleMapsService } from '../services/googleMapsService';
-import { RiskCalculator } from '../utils/riskCalculator';
+import { RoutingProviderRegistry } from '../services/routingProviderRegistry';
 import { RouteColorManager } from '../utils/routeColors';
+import { getRoutePath } from '../utils/directionsBuilder';
+import { getRouteGeometry, getSegmentAnchor, getSegmentPath } from '../utils/routeGeometry';
 
 interface MultiRouteMapComponentProps {
   routes: Route[];
   selectedRouteId: string;
-  vehicle: Vehicle;
   onRouteSelect: (routeId: string) => void;
   className?: string;
   initialCenter?: { lat: number; lng: number };
@@ -18,7 +19,6 @@ interface MultiRouteMapComponentProps {
 export const MultiRouteMapComponent: React.FC<MultiRouteMapComponentProps> = ({
   routes,
   selectedRouteId,
-  vehicle,
   onRouteSelect,
   className = '',
   initialCenter = { lat: 39.8283, lng: -98.5795 },
@@ -29,12 +29,12 @@ export const MultiRouteMapComponent: React.FC<MultiRouteMapComponentProps> = ({
   const [map, setMap] = useState<google.maps.Map | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [routeRenderers, setRouteRenderers] = useState<Map<string, google.maps.DirectionsRenderer>>(new Map());
   const [criticalPointMarkers, setCriticalPointMarkers] = useState<google.maps.Marker[]>([]);
   const [waypointMarkers, setWaypointMarkers] = useState<google.maps.Marker[]>([]);
   const [riskOverlays, setRiskOverlays] = useState<google.maps.Polyline[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [draggedPointType, setDraggedPointType] = useState<'waypoint' | 'critical' | null>(null);
+  const routeLineRef = useRef<google.maps.Polyline | null>(null);
 
   useEffect(() => {
     initializeMap();
@@ -88,9 +88,9 @@ export const MultiRouteMapComponent: React.FC<MultiRouteMapComponentProps> = ({
   const displaySelectedRoute = async () => {
     if (!map || !selectedRouteId) return;
 
-    // Clear all existing renderers and markers
-    routeRenderers.forEach(renderer => renderer.setMap(null));
-    setRouteRenderers(new Map());
+    // Clear the existing route line and markers
+    routeLineRef.current?.setMap(null);
+    routeLineRef.current = null;
     criticalPointMarkers.forEach(marker => marker.setMap(null));
     setCriticalPointMarkers([]);
     waypointMarkers.forEach(marker => marker.setMap(null));
@@ -104,8 +104,6 @@ export const MultiRouteMapComponent: React.FC<MultiRouteMapComponentProps> = ({
       return;
     }
 
-    const googleMapsService = GoogleMapsService.getInstance();
-
     try {
       const firstSegment = selected.segments[0];
       const lastSegment = selected.segments[selected.segments.length - 1];
@@ -117,85 +115,58 @@ export const MultiRouteMapComponent: React.FC<MultiRouteMapComponentProps> = ({
     const _routeIndex = routes.findIndex(r => r.id === selectedRouteId);
     const _routeColor = RouteColorManager.getRouteColor(_routeIndex);
 
-      const directionsService = new google.maps.DirectionsService();
-      const directionsRenderer = new google.maps.DirectionsRenderer({
-        map: map,
-        suppressMarkers: true, // We'll add our own draggable markers
-        draggable: false,
-        polylineOptions: {
-          strokeColor: _routeColor,
-          strokeOpacity: 0.8,
-          strokeWeight: 6,
-          zIndex: 10
-        }
-      });
-
-      // Use stops from the route instead of segments as waypoints
-      let waypoints: google.maps.DirectionsWaypoint[] = [];
-      
-      if (selected.stops && selected.stops.length > 0) {
-        const MAX_WAYPOINTS = 25;
-        const stopsToUse = selected.stops.slice(0, MAX_WAYPOINTS);
-        
-        waypoints = stopsToUse.map(stop => ({
-          location: stop.address,
-          stopover: true
-        }));
-      } else {
-        const MAX_WAYPOINTS = 25;
-        const segmentsToUse = selected.segments.slice(1, -1);
-        
-        if (segmentsToUse.length > MAX_WAYPOINTS) {
-          const step = Math.ceil(segmentsToUse.length / MAX_WAYPOINTS);
-          const limitedSegments = [];
-          
-          for (let i = 0; i < segmentsToUse.length && limitedSegments.length < MAX_WAYPOINTS; i += step) {
-            limitedSegments.push(segmentsToUse[i]);
-          }
-          
-          waypoints = limitedSegments.map(segment => ({
-            location: { lat: segment.startLat, lng: segment.startLng },
-            stopover: false
-          }));
-        } else {
-          waypoints = segmentsToUse.map(segment => ({
-            location: { lat: segment.startLat, lng: segment.startLng },
-            stopover: false
-          }));
+      // Every stop is kept; the routing provider splits long routes into several requests
+      const stopWaypoints: google.maps.DirectionsWaypoint[] = (selected.stops ?? []).map(stop => ({
+        location: stop.address,
+        stopover: true
+      }));
+
+      let routePath = getRouteGeometry(selected);
+      if (!selected.path && !selected.googleRoute) {
+        // No stored geometry: route through the stops, or through every segment start as a via point
+        const waypoints = stopWaypoints.length > 0
+          ? stopWaypoints
+          : selected.segments.slice(1).map(segment => ({
+              location: `${segment.startLat},${segment.startLng}`,
+              stopover: false
+            }));
+        const routeResponse = await RoutingProviderRegistry.getActiveProvider().getRoutes({
+          origin,
+          destination,
+          waypoints,
+          avoidHighways: false
+        });
+        if (routeResponse.routes[0]) {
+          routePath = getRoutePath(routeResponse.routes[0]);
         }
       }
 
-      const routeResponse = await directionsService.route({
-        origin: origin,
-        destination: destination,
-        waypoints: waypoints,
-        travelMode: google.maps.TravelMode.DRIVING,
-        avoidHighways: false,
+      // Draw the geometry returned by the routing provider
+      routeLineRef.current = new google.maps.Polyline({
+        path: routePath,
+        strokeColor: _routeColor,
+        strokeOpacity: 0.8,
+        strokeWeight: 6,
+        zIndex: 10,
+        map: map
       });
 
-      directionsRenderer.setDirections(routeResponse);
-      setRouteRenderers(prev => new Map(prev).set(selected.id, directionsRenderer));
-
       // Add draggable origin and destination markers
       await addDraggableOriginDestinationMarkers(selected, _routeColor, origin, destination);
 
       // Add draggable waypoint markers
-      await addDraggableWaypointMarkers(selected, _routeColor, waypoints);
+      await addDraggableWaypointMarkers(selected, _routeColor, stopWaypoints);
 
       // Add route-specific overlays for risk visualization
-      await addRouteRiskOverlay(selected, routeResponse.routes[0], _routeColor, _routeIndex);
+      await addRouteRiskOverlay(selected, _routeColor, _routeIndex);
 
       // Add draggable critical point markers
       await addDraggableCriticalPointMarkers(selected, _routeColor);
 
       // Fit map to show the selected route
       const bounds = new google.maps.LatLngBounds();
-      routeResponse.routes[0].legs.forEach(leg => {
-        leg.steps.forEach(step => {
-          step.path.forEach(point => {
-            bounds.extend(point);
-          });
-        });
+      routePath.forEach(point => {
+        bounds.extend(point);
       });
       if (!bounds.isEmpty()) {
         map.fitBounds(bounds);
@@ -409,7 +380,6 @@ export const MultiRouteMapComponent: React.FC<MultiRouteMapComponentProps> = ({
 
   const addRouteRiskOverlay = async (
     route: Route,
-    googleRoute: google.maps.DirectionsRoute,
     routeColor: string,
     routeIndex: number
   ) => {
@@ -417,41 +387,25 @@ export const MultiRouteMapComponent: React.FC<MultiRouteMapComponentProps> = ({
 
     const newRiskOverlays: google.maps.Polyline[] = [];
 
-    // Add risk-based overlays for high-risk segments
-    const routePath: google.maps.LatLng[] = [];
-    googleRoute.legs.forEach(leg => {
-      leg.steps.forEach(step => {
-        if (step.path) {
-          routePath.push(...step.path);
-        }
-      });
-    });
-
-    // Highlight critical segments with consistent colors
-    route.segments.forEach((segment, segmentIndex) => {
-      const riskScore = RiskCalculator.calculateSegmentRisk(segment, vehicle);
+    // Highlight critical segments along their own road geometry
+    route.segments.forEach(segment => {
+      const riskScore = segment.riskScore;
       
       if (riskScore >= 60) {
-        const segmentStartIndex = Math.floor((segmentIndex / route.segments.length) * routePath.length);
-        const segmentEndIndex = Math.floor(((segmentIndex + 1) / route.segments.length) * routePath.length);
-        const segmentPath = routePath.slice(segmentStartIndex, segmentEndIndex + 1);
-        
-        if (segmentPath.length > 1) {
-          const riskOverlay = new google.maps.Polyline({
-            path: segmentPath,
-            strokeColor: riskScore >= 80 ? '#dc2626' : '#f59e0b',
-            strokeOpacity: 0.8,
-            strokeWeight: 3,
-            zIndex: 20,
-            map: map
-          });
-          newRiskOverlays.push(riskOverlay);
+        const riskOverlay = new google.maps.Polyline({
+          path: getSegmentPath(segment),
+          strokeColor: riskScore >= 80 ? '#dc2626' : '#f59e0b',
+          strokeOpacity: 0.8,
+          strokeWeight: 3,
+          zIndex: 20,
+          map: map
+        });
+        newRiskOverlays.push(riskOverlay);
 
-          riskOverlay.addListener('click', () => {
-            onRouteSelect(route.id);
-            showSegmentDetails(segment, riskScore);
-          });
-        }
+        riskOverlay.addListener('click', () => {
+          onRouteSelect(route.id);
+          showSegmentDetails(segment, riskScore);
+        });
       }
     });
 
@@ -467,7 +421,7 @@ export const MultiRouteMapComponent: React.FC<MultiRouteMapComponentProps> = ({
       const segment = route.segments[point.position];
       if (segment) {
         const marker = new google.maps.Marker({
-          position: new google.maps.LatLng(segment.startLat, segment.startLng),
+          position: getSegmentAnchor(segment),
           map: map,
           draggable: allowEditing,
           icon: {
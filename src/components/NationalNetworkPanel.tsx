@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Milestone, Upload, CheckCircle, AlertTriangle, X } from 'lucide-react';
+import { NationalNetworkInfo, NationalNetworkService } from '../services/nationalNetworkService';
+
+interface NationalNetworkPanelProps {
+  /** Called after network geometry is imported or cleared so analyzed routes can be re-checked */
+  onChange?: () => void;
+}
+
+export const NationalNetworkPanel: React.FC<NationalNetworkPanelProps> = ({ onChange }) => {
+  const [info, setInfo] = useState<NationalNetworkInfo>(NationalNetworkService.getInfo());
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => NationalNetworkService.subscribe(setInfo), []);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      NationalNetworkService.loadFile(await file.text(), file.name);
+      onChange?.();
+    } catch (err) {
+      console.error('Failed to load National Network:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load National Network');
+    }
+  };
+
+  const handleClear = () => {
+    NationalNetworkService.clear();
+    setError(null);
+    onChange?.();
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-sky-100 dark:bg-sky-900/50 rounded-lg">
+          <Milestone className="w-6 h-6 text-sky-600 dark:text-sky-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">National Network</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">STAA designated truck routes, matched to the route geometry</p>
+        </div>
+      </div>
+
+      {info.loaded ? (
+        <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm">
+          <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+          <div className="text-green-800 dark:text-green-300">
+            <div className="font-medium break-all">{info.name}</div>
+            <div className="text-xs">
+              {info.routeCount.toLocaleString()} route(s), {info.lineCount.toLocaleString()} line(s) · {info.miles.toLocaleString()} mi
+            </div>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          No network geometry loaded. Import NHPN or HPMS GeoJSON lines to measure how much of each route runs on the National Network.
+        </p>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <input ref={fileInputRef} type="file" accept=".json,.geojson" onChange={handleFile} className="hidden" />
+      <div className="flex gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md border border-sky-300 dark:border-sky-700 text-sky-700 dark:text-sky-300 hover:bg-sky-50 dark:hover:bg-sky-900/30 transition-colors duration-200"
+        >
+          <Upload className="w-4 h-4" />
+          Import network
+        </button>
+        {info.loaded && (
+          <button
+            onClick={handleClear}
+            className="flex items-center justify-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200"
+            title="Clear National Network"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
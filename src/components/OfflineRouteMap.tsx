@@ -0,0 +1,150 @@
+import React, { useMemo } from 'react';
+import { WifiOff } from 'lucide-react';
+import { LatLngCoordinates, Route } from '../types';
+import { RiskCalculator } from '../utils/riskCalculator';
+import { RouteColorManager } from '../utils/routeColors';
+import { createPathProjection, getRouteGeometry, getSegmentAnchor, getSegmentPath } from '../utils/routeGeometry';
+import { SWEPT_PATH_COLORS } from '../utils/sweptPath';
+
+interface OfflineRouteMapProps {
+  routes: Route[];
+  selectedRouteId?: string;
+  onRouteSelect?: (routeId: string) => void;
+  className?: string;
+  emptyMessage?: string;
+}
+
+const WIDTH = 1000;
+const HEIGHT = 600;
+const PADDING = 40;
+
+/**
+ * Schematic route map drawn from route geometry alone, for use without map tiles
+ * (demo/offline mode or when no Google Maps key is configured).
+ */
+export const OfflineRouteMap: React.FC<OfflineRouteMapProps> = ({
+  routes,
+  selectedRouteId,
+  onRouteSelect,
+  className = '',
+  emptyMessage = 'No routes to display.'
+}) => {
+  const paths = useMemo(() => routes.map(route => ({ route, path: getRouteGeometry(route) })), [routes]);
+
+  const project = useMemo(
+    () => createPathProjection(paths.flatMap(p => p.path), WIDTH, HEIGHT, PADDING),
+    [paths]
+  );
+
+  const toPoints = (path: LatLngCoordinates[]) =>
+    project ? path.map(point => project(point)).map(({ x, y }) => `${x},${y}`).join(' ') : '';
+
+  const selected = paths.find(p => p.route.id === selectedRouteId) ?? paths[0];
+
+  return (
+    <div className={`relative bg-gradient-to-br from-slate-50 to-blue-50 dark:from-gray-900 dark:to-blue-950/40 border border-gray-200 dark:border-gray-700 overflow-hidden ${className}`}>
+      {!project || !selected ? (
+        <div className="h-full flex flex-col items-center justify-center gap-3 p-6 text-center">
+          <WifiOff className="w-8 h-8 text-gray-400 dark:text-gray-500" />
+          <p className="text-gray-600 dark:text-gray-400 max-w-md">{emptyMessage}</p>
+        </div>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-full" preserveAspectRatio="xMidYMid meet">
+          {/* Alternatives */}
+          {paths.filter(p => p !== selected).map(({ route, path }) => (
+            <polyline
+              key={route.id}
+              points={toPoints(path)}
+              fill="none"
+              stroke={RouteColorManager.getRouteColorById(route.id)}
+              strokeOpacity={0.35}
+              strokeWidth={5}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="cursor-pointer"
+              onClick={() => onRouteSelect?.(route.id)}
+            >
+              <title>{route.name}</title>
+            </polyline>
+          ))}
+
+          {/* Selected route */}
+          <polyline
+            points={toPoints(selected.path)}
+            fill="none"
+            stroke={RouteColorManager.getRouteColorById(selected.route.id)}
+            strokeOpacity={0.8}
+            strokeWidth={8}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+          {selected.route.segments.map(segment => {
+            const risk = segment.riskScore;
+            if (risk < 60) return null;
+            return (
+              <polyline
+                key={segment.id}
+                points={toPoints(getSegmentPath(segment))}
+                fill="none"
+                stroke={risk >= 80 ? '#dc2626' : '#f59e0b'}
+                strokeWidth={4}
+                strokeLinecap="round"
+              >
+                <title>{`${segment.streetName} — ${RiskCalculator.getRiskLabel(risk)} (${Math.round(risk)}%)`}</title>
+              </polyline>
+            );
+          })}
+
+          {/* Swept envelopes of turns */}
+          {selected.route.segments.map(segment => segment.sweptPath && (
+            <polygon
+              key={`swept-${segment.id}`}
+              points={toPoints(segment.sweptPath.envelope)}
+              fill={SWEPT_PATH_COLORS[segment.sweptPath.verdict]}
+              fillOpacity={0.35}
+              stroke={SWEPT_PATH_COLORS[segment.sweptPath.verdict]}
+              strokeWidth={1}
+            >
+              <title>{`Swept path into ${segment.streetName}: ${segment.sweptPath.verdict} (${segment.sweptPath.sweptWidthFt}ft wide)`}</title>
+            </polygon>
+          ))}
+
+          {selected.route.criticalPoints.map(point => {
+            const segment = selected.route.segments.find(s => s.id === point.segmentId);
+            if (!segment) return null;
+            const { x, y } = project(getSegmentAnchor(segment));
+            return (
+              <circle
+                key={point.segmentId}
+                cx={x}
+                cy={y}
+                r={9}
+                fill={point.riskLevel === 'critical' ? '#DC2626' : '#F59E0B'}
+                stroke="#FFFFFF"
+                strokeWidth={3}
+              >
+                <title>{point.description}</title>
+              </circle>
+            );
+          })}
+
+          {selected.path.length > 0 && (() => {
+            const start = project(selected.path[0]);
+            const end = project(selected.path[selected.path.length - 1]);
+            return (
+              <>
+                <circle cx={end.x} cy={end.y} r={11} fill="#ef4444" stroke="#FFFFFF" strokeWidth={3} />
+                <circle cx={start.x} cy={start.y} r={11} fill="#22c55e" stroke="#FFFFFF" strokeWidth={3} />
+              </>
+            );
+          })()}
+        </svg>
+      )}
+
+      <div className="absolute top-3 left-3 flex items-center gap-2 px-3 py-1 bg-white/90 dark:bg-gray-800/90 rounded-full text-xs text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-700">
+        <WifiOff className="w-3 h-3" />
+        Offline schematic — no map tiles
+      </div>
+    </div>
+  );
+};
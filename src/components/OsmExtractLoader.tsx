@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Database, Upload, CheckCircle, AlertTriangle } from 'lucide-react';
+import { LocalOsmRoutingProvider } from '../services/localOsmRoutingProvider';
+import { RoadAttributeExtractInfo, RoadAttributeService } from '../services/roadAttributeService';
+
+interface OsmExtractLoaderProps {
+  /** The local router, when it is the active provider; otherwise the extract only supplies road attributes */
+  provider?: LocalOsmRoutingProvider;
+  onLoaded?: (info: RoadAttributeExtractInfo) => void;
+}
+
+export const OsmExtractLoader: React.FC<OsmExtractLoaderProps> = ({ provider, onLoaded }) => {
+  const [info, setInfo] = useState<RoadAttributeExtractInfo | null>(RoadAttributeService.getExtractInfo());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => RoadAttributeService.subscribe(setInfo), []);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const buffer = await file.arrayBuffer();
+      const loaded = provider
+        ? await provider.loadExtract(buffer, file.name)
+        : await RoadAttributeService.loadExtract(buffer, file.name);
+      onLoaded?.(loaded);
+    } catch (err) {
+      console.error('Failed to load OSM extract:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load OSM extract');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-indigo-100 dark:bg-indigo-900/50 rounded-lg">
+          <Database className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">OSM Extract</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {provider ? 'Road network for the local truck router and risk scoring' : 'Lanes, widths, clearances and speed limits for risk scoring'}
+          </p>
+        </div>
+      </div>
+
+      {info ? (
+        <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm">
+          <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+          <div className="text-green-800 dark:text-green-300">
+            <div className="font-medium break-all">{info.name}</div>
+            <div className="text-xs">
+              {info.edgeCount.toLocaleString()} road edges · segments are matched to these roads by geometry
+            </div>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          No extract loaded. Choose an <code>.osm.pbf</code> file or a GeoJSON export of OSM roads
+          {provider?.isConfigured() && ', or analyze a route to download the configured extract'}.
+          {!provider && ' Without one, segment risk uses typical values for each street type.'}
+        </p>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".pbf,.osm.pbf,.geojson,.json"
+        onChange={handleFile}
+        className="hidden"
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isLoading}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-md border border-indigo-300 dark:border-indigo-700 text-indigo-700 dark:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+      >
+        {isLoading ? (
+          <>
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-indigo-600"></div>
+            Building road graph...
+          </>
+        ) : (
+          <>
+            <Upload className="w-4 h-4" />
+            {info ? 'Load a different extract' : 'Load extract'}
+          </>
+        )}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { FileText, Download, CheckCircle, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { Route, Vehicle } from '../types';
+import { PermitApplicant, PermitPacket, PermitService } from '../services/permitService';
+import { usePermitApplicant } from '../hooks/usePermitApplicant';
+
+interface PermitPacketPanelProps {
+  route: Route;
+  vehicle: Vehicle;
+  origin?: string;
+  destination?: string;
+}
+
+const APPLICANT_FIELDS: { field: keyof PermitApplicant; label: string }[] = [
+  { field: 'company', label: 'Company' },
+  { field: 'usdotNumber', label: 'USDOT number' },
+  { field: 'contactName', label: 'Contact' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'email', label: 'Email' }
+];
+
+const INPUT_CLASS = 'w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-300';
+
+const download = (data: BlobPart, type: string, filename: string) => {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const packetFilename = (packet: PermitPacket, extension: string) =>
+  `permit-${packet.stateCode.toLowerCase()}-${packet.preparedAt.split('T')[0]}.${extension}`;
+
+export const PermitPacketPanel: React.FC<PermitPacketPanelProps> = ({ route, vehicle, origin, destination }) => {
+  const { applicant, updateApplicant } = usePermitApplicant();
+  const [showApplicant, setShowApplicant] = useState(false);
+  const [expandedState, setExpandedState] = useState<string | null>(null);
+
+  const packets = useMemo(
+    () => PermitService.buildPackets(route, vehicle, { origin, destination, applicant }),
+    [route, vehicle, origin, destination, applicant]
+  );
+  const requiredCount = packets.filter(packet => packet.required).length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-amber-100 dark:bg-amber-900/50 rounded-lg">
+          <FileText className="w-6 h-6 text-amber-600 dark:text-amber-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">OS/OW Permits</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {packets.length === 0 ? 'No U.S. states found along this route'
+              : requiredCount === 0 ? `Within legal limits in all ${packets.length} state(s)`
+              : `Permit required in ${requiredCount} of ${packets.length} state(s)`}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {packets.map(packet => (
+          <div key={packet.stateCode} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+            <div className="flex items-start gap-2">
+              {packet.required
+                ? <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+                : <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-900 dark:text-white">
+                  {packet.state} <span className="text-xs font-normal text-gray-500 dark:text-gray-400">· {packet.milesInState} mi</span>
+                </div>
+                {packet.required ? (
+                  <>
+                    {packet.reasons.map(reason => (
+                      <div key={reason} className="text-xs text-gray-600 dark:text-gray-400">{reason}</div>
+                    ))}
+                    {packet.rulesOnFile ? (
+                      <div className="text-xs text-gray-700 dark:text-gray-300 mt-1">
+                        {PermitService.describeEscorts(packet.escorts)}
+                        {packet.signs.length > 0 && ' · signs'}
+                        {packet.flags.length > 0 && ' · flags'}
+                        {packet.travelTimes.length > 0 && ` · ${packet.travelTimes.length} travel time rule(s)`}
+                      </div>
+                    ) : (
+                      <div className="text-xs text-amber-700 dark:text-amber-300 mt-1">
+                        Escort, sign and travel time rules not on file - check with {packet.authority}
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <div className="text-xs text-gray-600 dark:text-gray-400">No permit needed</div>
+                )}
+              </div>
+              {packet.required && (
+                <div className="flex gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => download(PermitService.exportPdf(packet), 'application/pdf', packetFilename(packet, 'pdf'))}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded-md border border-amber-300 dark:border-amber-700 text-amber-700 dark:text-amber-300 hover:bg-amber-50 dark:hover:bg-amber-900/30 transition-colors duration-200"
+                    title={`Download the ${packet.stateCode} permit application as PDF`}
+                  >
+                    <Download className="w-3 h-3" />
+                    PDF
+                  </button>
+                  <button
+                    onClick={() => download(PermitService.exportJson(packet), 'application/json', packetFilename(packet, 'json'))}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors duration-200"
+                    title={`Download the ${packet.stateCode} permit application as JSON`}
+                  >
+                    <Download className="w-3 h-3" />
+                    JSON
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {packet.required && (
+              <>
+                <button
+                  onClick={() => setExpandedState(expandedState === packet.stateCode ? null : packet.stateCode)}
+                  className="mt-2 flex items-center gap-1 text-xs text-amber-700 dark:text-amber-400 hover:underline"
+                >
+                  {expandedState === packet.stateCode ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                  Route description ({packet.roads.length} road{packet.roads.length === 1 ? '' : 's'})
+                </button>
+                {expandedState === packet.stateCode && (
+                  <ol className="mt-2 space-y-1 list-decimal list-inside text-xs text-gray-600 dark:text-gray-400">
+                    {packet.roads.map((road, index) => (
+                      <li key={index}>
+                        <span className="text-gray-900 dark:text-white">{road.road}</span> - {road.miles} mi, from {road.entry} to {road.exit}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {requiredCount > 0 && (
+        <>
+          <button
+            type="button"
+            onClick={() => setShowApplicant(!showApplicant)}
+            className="mt-4 flex items-center gap-1 text-sm font-medium text-amber-700 dark:text-amber-400 hover:underline"
+          >
+            {showApplicant ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            Applicant details{applicant.company && ` (${applicant.company})`}
+          </button>
+          {showApplicant && (
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              {APPLICANT_FIELDS.map(({ field, label }) => (
+                <div key={field} className={field === 'company' ? 'col-span-2' : undefined}>
+                  <label htmlFor={`permit-${field}`} className="block text-xs text-gray-600 dark:text-gray-400 mb-1">{label}</label>
+                  <input
+                    id={`permit-${field}`}
+                    type="text"
+                    value={applicant[field]}
+                    onChange={(e) => updateApplicant(field, e.target.value)}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              ))}
+              <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                Saved in this browser and filled into every packet.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
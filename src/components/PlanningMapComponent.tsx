@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { GoogleMapsService } from '../services/googleMapsService';
+import { RoutingProviderRegistry } from '../services/routingProviderRegistry';
 import { MapPin, AlertTriangle, RotateCcw } from 'lucide-react';
 import { StopLocation } from '../types';
 
@@ -125,7 +126,7 @@ export const PlanningMapComponent: React.FC<PlanningMapComponentProps> = ({
     try {
       console.log('Updating map with addresses:', { origin, destination, stops: stops.length, isLoop });
 
-      const googleMapsService = GoogleMapsService.getInstance();
+      const routingProvider = RoutingProviderRegistry.getActiveProvider();
       
       // Clear existing markers
       if (originMarker) {
@@ -160,11 +161,11 @@ export const PlanningMapComponent: React.FC<PlanningMapComponentProps> = ({
       } else if (originMarker && originMarker.getPosition()) {
         originLocation = originMarker.getPosition()!;
       } else {
-        const originResults = await googleMapsService.geocodeAddress(origin);
+        const originResults = await routingProvider.geocode(origin);
         if (originResults.length === 0) {
           throw new Error(`Could not find location for origin: ${origin}`);
         }
-        originLocation = originResults[0].geometry.location;
+        originLocation = new google.maps.LatLng(originResults[0].location.lat, originResults[0].location.lng);
       }
 
       if (destinationCoords) {
@@ -172,11 +173,11 @@ export const PlanningMapComponent: React.FC<PlanningMapComponentProps> = ({
       } else if (destinationMarker && destinationMarker.getPosition()) {
         destinationLocation = destinationMarker.getPosition()!;
       } else {
-        const destinationResults = await googleMapsService.geocodeAddress(destination);
+        const destinationResults = await routingProvider.geocode(destination);
         if (destinationResults.length === 0) {
           throw new Error(`Could not find location for destination: ${destination}`);
         }
-        destinationLocation = destinationResults[0].geometry.location;
+        destinationLocation = new google.maps.LatLng(destinationResults[0].location.lat, destinationResults[0].location.lng);
       }
 
       // Create origin marker
@@ -229,9 +230,9 @@ export const PlanningMapComponent: React.FC<PlanningMapComponentProps> = ({
           if (stop.lat !== undefined && stop.lng !== undefined) {
             stopLocation = new google.maps.LatLng(stop.lat, stop.lng);
           } else if (stop.address.trim()) {
-            const stopResults = await googleMapsService.geocodeAddress(stop.address);
+            const stopResults = await routingProvider.geocode(stop.address);
             if (stopResults.length > 0) {
-              stopLocation = stopResults[0].geometry.location;
+              stopLocation = new google.maps.LatLng(stopResults[0].location.lat, stopResults[0].location.lng);
             }
           } else {
             const ratio = (i + 1) / (stops.length + 1);
@@ -247,8 +248,8 @@ export const PlanningMapComponent: React.FC<PlanningMapComponentProps> = ({
           }
 
           if (stopLocation) {
-            const distanceToOrigin = googleMapsService.calculateDistance(stopLocation, originLocation);
-            const distanceToDestination = googleMapsService.calculateDistance(stopLocation, destinationLocation);
+            const distanceToOrigin = google.maps.geometry.spherical.computeDistanceBetween(stopLocation, originLocation);
+            const distanceToDestination = google.maps.geometry.spherical.computeDistanceBetween(stopLocation, destinationLocation);
             if (distanceToOrigin < 20 || distanceToDestination < 20) {
               stopLocation = new google.maps.LatLng(stopLocation.lat() + 0.00015, stopLocation.lng() + 0.00015);
             }
@@ -359,9 +360,9 @@ export const PlanningMapComponent: React.FC<PlanningMapComponentProps> = ({
           if (stop.lat !== undefined && stop.lng !== undefined) {
             waypoints.push({ location: new google.maps.LatLng(stop.lat, stop.lng), stopover: true });
           } else if (stop.address.trim()) {
-            const stopResults = await GoogleMapsService.getInstance().geocodeAddress(stop.address);
+            const stopResults = await RoutingProviderRegistry.getActiveProvider().geocode(stop.address);
             if (stopResults.length > 0) {
-              waypoints.push({ location: stopResults[0].geometry.location, stopover: true });
+              waypoints.push({ location: stopResults[0].location, stopover: true });
             }
           }
         } catch (error) {
@@ -524,14 +525,13 @@ export const PlanningMapComponent: React.FC<PlanningMapComponentProps> = ({
 
     try {
       // Reverse geocode to get address
-      const googleMapsService = GoogleMapsService.getInstance();
-      const results = await googleMapsService.reverseGeocode(
+      const results = await RoutingProviderRegistry.getActiveProvider().reverseGeocode(
         position.lat(),
         position.lng()
       );
 
       if (results.length > 0) {
-        const address = results[0].formatted_address;
+        const address = results[0].formattedAddress;
 
         if (type === 'origin' && originMarker && destinationMarker) {
           // Update preview if enabled
@@ -685,14 +685,13 @@ export const PlanningMapComponent: React.FC<PlanningMapComponentProps> = ({
 
     try {
       // Reverse geocode to get address
-      const googleMapsService = GoogleMapsService.getInstance();
-      const results = await googleMapsService.reverseGeocode(
+      const results = await RoutingProviderRegistry.getActiveProvider().reverseGeocode(
         position.lat(), 
         position.lng()
       );
 
       if (results.length > 0) {
-        const address = results[0].formatted_address;
+        const address = results[0].formattedAddress;
         
         // Update stops
         const updatedStops = stops.map(stop =>
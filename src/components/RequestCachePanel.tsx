@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { HardDrive, Trash2, RefreshCw, ChevronDown, ChevronUp, X } from 'lucide-react';
+import {
+  CacheEntry,
+  CacheRequestType,
+  CacheTypeStats,
+  REQUEST_CACHE_TTLS,
+  RequestCacheService
+} from '../services/requestCacheService';
+
+const TYPE_LABELS: Record<CacheRequestType, string> = {
+  geocode: 'Geocoding',
+  reverseGeocode: 'Reverse geocoding',
+  directions: 'Directions',
+  placeDetails: 'Place details'
+};
+
+const ENTRY_LIMIT = 25;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours} h` : `${Math.round(hours / 24)} days`;
+};
+
+/**
+ * Inspect and clear the persistent request cache used by Google geocoding,
+ * directions and place lookups.
+ */
+export const RequestCachePanel: React.FC = () => {
+  const [stats, setStats] = useState<CacheTypeStats[]>([]);
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [showEntries, setShowEntries] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStats(await RequestCacheService.getStats());
+      setEntries((await RequestCacheService.getEntries()).slice(0, ENTRY_LIMIT));
+    } catch (error) {
+      console.error('Failed to read request cache:', error);
+    }
+  }, []);
+
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    refresh();
+    // Cache activity comes in bursts (a re-plan geocodes every stop), so refresh once it settles
+    const unsubscribe = RequestCacheService.subscribe(() => {
+      clearTimeout(refreshTimer.current);
+      refreshTimer.current = setTimeout(refresh, 500);
+    });
+    return () => {
+      unsubscribe();
+      clearTimeout(refreshTimer.current);
+    };
+  }, [refresh]);
+
+  const totalEntries = stats.reduce((sum, s) => sum + s.entries, 0);
+  const totalBytes = stats.reduce((sum, s) => sum + s.sizeBytes, 0);
+  const totalHits = stats.reduce((sum, s) => sum + s.hits + s.staleHits, 0);
+  const totalRequests = totalHits + stats.reduce((sum, s) => sum + s.misses, 0);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-teal-100 dark:bg-teal-900/50 rounded-lg">
+            <HardDrive className="w-6 h-6 text-teal-600 dark:text-teal-400" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Request Cache</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {totalEntries} saved lookups · {formatBytes(totalBytes)}
+              {totalRequests > 0 && ` · ${Math.round((totalHits / totalRequests) * 100)}% served from cache`}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={refresh}
+          className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          title="Refresh"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {stats.map(s => (
+          <div
+            key={s.type}
+            className="flex items-center justify-between gap-3 p-2 rounded-lg bg-gray-50 dark:bg-gray-700/50 text-sm"
+          >
+            <div className="min-w-0">
+              <div className="font-medium text-gray-900 dark:text-white">{TYPE_LABELS[s.type]}</div>
+              <div className="text-xs text-gray-600 dark:text-gray-400">
+                {s.entries} entries · kept {formatDuration(REQUEST_CACHE_TTLS[s.type])} · {s.hits} hits, {s.misses} misses
+                {s.staleHits > 0 && `, ${s.staleHits} offline`}
+              </div>
+            </div>
+            <button
+              onClick={() => RequestCacheService.clear(s.type)}
+              disabled={s.entries === 0}
+              className="flex-shrink-0 p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 disabled:opacity-40 transition-colors"
+              title={`Clear ${TYPE_LABELS[s.type].toLowerCase()} cache`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex items-center justify-between">
+        <button
+          onClick={() => setShowEntries(prev => !prev)}
+          className="flex items-center gap-1 text-sm text-teal-700 dark:text-teal-400 hover:underline"
+        >
+          {showEntries ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          {showEntries ? 'Hide' : 'Show'} recent entries
+        </button>
+        <button
+          onClick={() => RequestCacheService.clear()}
+          disabled={totalEntries === 0}
+          className="px-3 py-1 text-sm bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-md border border-red-200 dark:border-red-800 hover:bg-red-100 dark:hover:bg-red-900/40 disabled:opacity-40 transition-colors"
+        >
+          Clear all
+        </button>
+      </div>
+
+      {showEntries && (
+        <ul className="mt-3 space-y-1 max-h-64 overflow-y-auto">
+          {entries.length === 0 && (
+            <li className="text-sm text-gray-500 dark:text-gray-400">Nothing cached yet.</li>
+          )}
+          {entries.map(entry => {
+            const expired = entry.expiresAt <= Date.now();
+            return (
+              <li key={entry.key} className="flex items-center justify-between gap-2 text-xs">
+                <div className="min-w-0">
+                  <div className="truncate text-gray-900 dark:text-white" title={entry.key}>{entry.label}</div>
+                  <div className="text-gray-500 dark:text-gray-400">
+                    {TYPE_LABELS[entry.type]} · {formatDuration(Date.now() - entry.createdAt)} ago
+                    {expired && <span className="ml-1 text-amber-600 dark:text-amber-400">(expired, offline fallback)</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => RequestCacheService.remove(entry.key)}
+                  className="flex-shrink-0 p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                  title="Remove entry"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
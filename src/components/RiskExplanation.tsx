@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, HelpCircle } from 'lucide-react';
+import { RiskConfidence, RiskTraceInput, RouteRiskExplanation, SegmentRiskExplanation } from '../types';
+import { RiskCalculator } from '../utils/riskCalculator';
+
+const SOURCE_STYLES: Record<RiskTraceInput['source'], string> = {
+  measured: 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300',
+  inferred: 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-300',
+  default: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+};
+
+const formatValue = (input: RiskTraceInput) => {
+  if (typeof input.value === 'boolean') return input.value ? 'yes' : 'no';
+  if (typeof input.value === 'string') return input.value.replace('_', ' ');
+  return `${input.value}${input.unit ? ` ${input.unit}` : ''}`;
+};
+
+const ConfidenceNote: React.FC<{ confidence: RiskConfidence }> = ({ confidence }) => (
+  <p className="text-gray-600 dark:text-gray-400">
+    {confidence.level[0].toUpperCase() + confidence.level.slice(1)} confidence ({Math.round(confidence.confidence * 100)}% of the
+    model weight backed by measured inputs): likely {Math.round(confidence.low)}-{Math.round(confidence.high)}%.
+    {confidence.gaps.length > 0 && ` Defaulted: ${confidence.gaps.join(', ')}.`}
+  </p>
+);
+
+const WhyToggle: React.FC<{ open: boolean; onToggle: () => void }> = ({ open, onToggle }) => (
+  <button
+    type="button"
+    onClick={onToggle}
+    className="flex items-center gap-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+  >
+    {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+    <HelpCircle className="w-4 h-4" />
+    Why is this risky?
+  </button>
+);
+
+/**
+ * Drill-down showing how each weighted component produced a segment's score.
+ */
+export const SegmentRiskExplanationView: React.FC<{ explanation: SegmentRiskExplanation; confidence?: RiskConfidence }> = ({ explanation, confidence }) => {
+  const [open, setOpen] = useState(false);
+  const components = [...explanation.components].sort((a, b) => b.contribution - a.contribution);
+
+  return (
+    <div>
+      <WhyToggle open={open} onToggle={() => setOpen(!open)} />
+      {open && (
+        <div className="mt-2 space-y-3 text-xs">
+          <p className="text-gray-600 dark:text-gray-400">
+            Scored {Math.round(explanation.score)}% by model {explanation.model.profileId} v{explanation.model.version} as
+            a {explanation.roadType.replace('_', ' ')} road ({explanation.roadTypeSource}).
+          </p>
+          {confidence && <ConfidenceNote confidence={confidence} />}
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="font-medium py-1">Component</th>
+                <th className="font-medium py-1 text-right">Risk</th>
+                <th className="font-medium py-1 text-right">Weight</th>
+                <th className="font-medium py-1 text-right">Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {components.map(trace => (
+                <React.Fragment key={trace.component}>
+                  <tr className="border-t border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white">
+                    <td className="py-1 font-medium">{trace.label}</td>
+                    <td className="py-1 text-right">{Math.round(trace.risk)}</td>
+                    <td className="py-1 text-right">×{trace.weight}</td>
+                    <td className="py-1 text-right font-semibold">{trace.contribution.toFixed(1)}</td>
+                  </tr>
+                  <tr>
+                    <td colSpan={4} className="pb-2">
+                      <div className="flex flex-wrap gap-1 mb-1">
+                        {trace.inputs.map(input => (
+                          <span key={input.name} className={`px-1.5 py-0.5 rounded ${SOURCE_STYLES[input.source]}`}>
+                            {input.name}: {formatValue(input)} · {input.source}
+                          </span>
+                        ))}
+                      </div>
+                      {trace.rules.length > 0 && (
+                        <ul className="text-gray-600 dark:text-gray-400 space-y-0.5">
+                          {trace.rules.map((rule, index) => (
+                            <li key={index}>→ {rule}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+          {explanation.adjustments && explanation.adjustments.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-700 dark:text-gray-300 mb-1">Context rules</p>
+              <ul className="text-gray-600 dark:text-gray-400 space-y-0.5">
+                {explanation.adjustments.map((adjustment, index) => (
+                  <li key={index}>
+                    {adjustment.description}: {adjustment.points > 0 ? '+' : ''}{adjustment.points}
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-1 font-medium text-gray-700 dark:text-gray-300">
+                Segment score: {Math.round(explanation.total)}%
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Drill-down showing how segment scores combine into a route's score.
+ */
+export const RouteRiskExplanationView: React.FC<{ explanation: RouteRiskExplanation; confidence?: RiskConfidence }> = ({ explanation, confidence }) => {
+  const [open, setOpen] = useState(false);
+  const topSegments = explanation.segments
+    .map((segment, index) => ({ ...segment, index }))
+    .sort((a, b) => b.amplifiedScore - a.amplifiedScore)
+    .slice(0, 5);
+
+  return (
+    <div>
+      <WhyToggle open={open} onToggle={() => setOpen(!open)} />
+      {open && (
+        <div className="mt-2 space-y-3 text-xs">
+          <p className="text-gray-600 dark:text-gray-400">
+            {Math.round(explanation.score)}% from model {explanation.model.profileId} v{explanation.model.version}.
+          </p>
+          {confidence && <ConfidenceNote confidence={confidence} />}
+          <div>
+            <p className="font-medium text-gray-700 dark:text-gray-300 mb-1">Average points per segment</p>
+            {explanation.components.map(component => (
+              <div key={component.component} className="flex justify-between text-gray-600 dark:text-gray-400">
+                <span>{component.label}</span>
+                <span className="font-medium">{component.contribution.toFixed(1)}</span>
+              </div>
+            ))}
+            {explanation.adjustmentPoints > 0 && (
+              <div className="flex justify-between text-gray-600 dark:text-gray-400">
+                <span>Context rules</span>
+                <span className="font-medium">{explanation.adjustmentPoints.toFixed(1)}</span>
+              </div>
+            )}
+          </div>
+          <div>
+            <p className="font-medium text-gray-700 dark:text-gray-300 mb-1">Riskiest segments</p>
+            {topSegments.map(segment => (
+              <div key={segment.segmentId} className="flex justify-between text-gray-600 dark:text-gray-400">
+                <span>{segment.index + 1}. {segment.streetName}</span>
+                <span className="font-medium" style={{ color: RiskCalculator.getRiskColor(segment.score) }}>
+                  {Math.round(segment.score)}%
+                  {segment.amplifiedScore !== segment.score && ` → ${Math.round(segment.amplifiedScore)}`}
+                </span>
+              </div>
+            ))}
+          </div>
+          {explanation.stopRisks.length > 0 && (
+            <p className="text-gray-600 dark:text-gray-400">
+              Stop risks: {explanation.stopRisks.map(risk => Math.round(risk)).join(', ')}
+            </p>
+          )}
+          <ul className="text-gray-600 dark:text-gray-400 space-y-0.5">
+            {explanation.rules.map((rule, index) => (
+              <li key={index}>→ {rule}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
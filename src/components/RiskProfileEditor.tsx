@@ -0,0 +1,345 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SlidersHorizontal, Save, RotateCcw, Download, Upload, Trash2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { RiskModelProfile, VehicleClass } from '../types';
+import { RiskProfileService, VEHICLE_CLASS_TYPES } from '../services/riskProfileService';
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+
+const formatKey = (key: string) => {
+  const words = key.replace(/_/g, ' ').replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const cloneProfile = (profile: RiskModelProfile): RiskModelProfile => JSON.parse(JSON.stringify(profile));
+
+interface NumberGroupProps {
+  title: string;
+  hint?: string;
+  values: Record<string, number>;
+  step: number;
+  onChange: (key: string, value: number) => void;
+}
+
+const NumberGroup: React.FC<NumberGroupProps> = ({ title, hint, values, step, onChange }) => (
+  <div>
+    <div className="flex items-baseline justify-between mb-2">
+      <h4 className="text-sm font-medium text-gray-900 dark:text-white">{title}</h4>
+      {hint && <span className="text-xs text-gray-500 dark:text-gray-400">{hint}</span>}
+    </div>
+    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+      {Object.entries(values).map(([key, value]) => (
+        <label key={key} className="block">
+          <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">{formatKey(key)}</span>
+          <input
+            type="number"
+            step={step}
+            value={Number.isNaN(value) ? '' : value}
+            onChange={e => onChange(key, e.target.value === '' ? NaN : parseFloat(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+/**
+ * Settings screen for the risk-model profiles: pick a profile, edit its weights,
+ * thresholds and penalties, and save it as a new version once it validates.
+ */
+export const RiskProfileEditor: React.FC = () => {
+  const [profiles, setProfiles] = useState<RiskModelProfile[]>(() => RiskProfileService.getProfiles());
+  const [selectedId, setSelectedId] = useState(profiles[0]?.id ?? '');
+  const [draft, setDraft] = useState<RiskModelProfile | null>(() => (profiles[0] ? cloneProfile(profiles[0]) : null));
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => RiskProfileService.subscribe(() => setProfiles([...RiskProfileService.getProfiles()])), []);
+
+  const saved = profiles.find(profile => profile.id === selectedId);
+  const errors = draft ? RiskProfileService.validate(draft) : [];
+  const isDirty = !!draft && !!saved && JSON.stringify(draft) !== JSON.stringify(saved);
+  const weightTotal = draft ? Object.values(draft.weights).reduce((sum, value) => sum + (value || 0), 0) : 0;
+
+  const selectProfile = (profile: RiskModelProfile) => {
+    setSelectedId(profile.id);
+    setDraft(cloneProfile(profile));
+    setStatus(null);
+  };
+
+  const updateGroup = <K extends 'weights' | 'thresholds' | 'roadTypeMultipliers'>(group: K, key: string, value: number) => {
+    setDraft(prev => (prev ? { ...prev, [group]: { ...prev[group], [key]: value } } : prev));
+  };
+
+  const updatePenalty = (group: keyof RiskModelProfile['penalties'], key: string, value: number) => {
+    setDraft(prev =>
+      prev ? { ...prev, penalties: { ...prev.penalties, [group]: { ...prev.penalties[group], [key]: value } } } : prev
+    );
+  };
+
+  const toggleClass = (type: VehicleClass['type']) => {
+    setDraft(prev =>
+      prev
+        ? {
+            ...prev,
+            vehicleClasses: prev.vehicleClasses.includes(type)
+              ? prev.vehicleClasses.filter(existing => existing !== type)
+              : [...prev.vehicleClasses, type]
+          }
+        : prev
+    );
+  };
+
+  const runAction = (action: () => RiskModelProfile | void, message: (profile?: RiskModelProfile) => string) => {
+    try {
+      const result = action();
+      const current = result ? RiskProfileService.getProfile(result.id) : RiskProfileService.getProfiles()[0];
+      if (current) selectProfile(current);
+      setStatus({ type: 'success', message: message(result ?? undefined) });
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Failed to update risk profile' });
+    }
+  };
+
+  const handleExport = (profile: RiskModelProfile | undefined = saved) => {
+    if (!profile) return;
+    const blob = new Blob([RiskProfileService.exportProfile(profile)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `risk-profile-${profile.id}-v${profile.version}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const json = await file.text();
+    runAction(() => RiskProfileService.importProfile(json), profile => `Imported ${profile?.name} as v${profile?.version}`);
+  };
+
+  const earlierVersions = saved ? RiskProfileService.getProfileHistory(saved.id).filter(version => version.version !== saved.version) : [];
+
+  const classOwner = (type: VehicleClass['type']) =>
+    profiles.find(profile => profile.id !== selectedId && profile.vehicleClasses.includes(type));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-slate-100 dark:bg-slate-900/50 rounded-lg">
+            <SlidersHorizontal className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Risk Models</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Each vehicle class is scored by one profile. Saving an edit creates a new version.
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-1 px-3 py-1 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            Import JSON
+          </button>
+          <button
+            onClick={() => handleExport()}
+            disabled={!saved}
+            className="flex items-center gap-1 px-3 py-1 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {profiles.map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => selectProfile(profile)}
+            className={`px-3 py-2 rounded-lg text-left text-sm border transition-colors ${
+              profile.id === selectedId
+                ? 'border-slate-400 dark:border-slate-500 bg-slate-50 dark:bg-slate-900/40'
+                : 'border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+            }`}
+          >
+            <div className="font-medium text-gray-900 dark:text-white">
+              {profile.name} <span className="text-gray-500 dark:text-gray-400">v{profile.version}</span>
+            </div>
+            <div className="text-xs text-gray-600 dark:text-gray-400">
+              {profile.vehicleClasses.length > 0 ? profile.vehicleClasses.join(', ') : 'not assigned'}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {draft && saved && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Name</span>
+              <input
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Description</span>
+              <input
+                value={draft.description ?? ''}
+                onChange={e => setDraft({ ...draft, description: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Vehicle classes</h4>
+            <div className="flex flex-wrap gap-4">
+              {VEHICLE_CLASS_TYPES.map(type => {
+                const owner = classOwner(type);
+                const moving = !!owner && draft.vehicleClasses.includes(type);
+                return (
+                  <label key={type} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={draft.vehicleClasses.includes(type)}
+                      onChange={() => toggleClass(type)}
+                      className="rounded border-gray-300 dark:border-gray-600"
+                    />
+                    {formatKey(type)}
+                    {owner && (
+                      <span className={`text-xs ${moving ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                        ({moving ? 'moves from' : 'scored by'} {owner.name})
+                      </span>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          <NumberGroup
+            title="Component weights"
+            hint={`Total ${weightTotal.toFixed(2)}`}
+            values={{ ...draft.weights }}
+            step={0.01}
+            onChange={(key, value) => updateGroup('weights', key, value)}
+          />
+          <NumberGroup
+            title="Thresholds (ft)"
+            values={{ ...draft.thresholds }}
+            step={0.5}
+            onChange={(key, value) => updateGroup('thresholds', key, value)}
+          />
+          <NumberGroup
+            title="Road-type multipliers"
+            hint="Pedestrian risk multiplier for large vehicles"
+            values={{ ...draft.roadTypeMultipliers }}
+            step={0.05}
+            onChange={(key, value) => updateGroup('roadTypeMultipliers', key, value)}
+          />
+          {(Object.keys(draft.penalties) as (keyof RiskModelProfile['penalties'])[]).map(group => (
+            <NumberGroup
+              key={group}
+              title={`${formatKey(group)} penalties`}
+              hint="Points out of 100; factors multiply"
+              values={{ ...draft.penalties[group] }}
+              step={group === 'pedestrian' ? 0.01 : 1}
+              onChange={(key, value) => updatePenalty(group, key, value)}
+            />
+          ))}
+
+          {errors.length > 0 && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+              <div className="flex items-center gap-2 text-sm font-medium text-red-800 dark:text-red-300 mb-1">
+                <AlertTriangle className="w-4 h-4" />
+                Fix these before saving
+              </div>
+              <ul className="text-xs text-red-700 dark:text-red-400 space-y-1">
+                {errors.map(error => (
+                  <li key={error}>• {error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {status && (
+            <div
+              className={`flex items-center gap-2 text-sm ${
+                status.type === 'success' ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'
+              }`}
+            >
+              {status.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+              {status.message}
+            </div>
+          )}
+
+          {earlierVersions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+              <span>Earlier versions:</span>
+              {earlierVersions.map(version => (
+                <button
+                  key={version.version}
+                  onClick={() => handleExport(version)}
+                  title={version.updatedAt ? `Saved ${new Date(version.updatedAt).toLocaleString()}` : 'Bundled defaults'}
+                  className="flex items-center gap-1 px-2 py-0.5 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <Download className="w-3 h-3" />
+                  v{version.version}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => runAction(() => RiskProfileService.saveProfile(draft), profile => `Saved ${profile?.name} v${profile?.version}`)}
+                disabled={!isDirty || errors.length > 0}
+                className="flex items-center gap-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-40 transition-colors"
+              >
+                <Save className="w-4 h-4" />
+                Save as v{saved.version + 1}
+              </button>
+              <button
+                onClick={() => selectProfile(saved)}
+                disabled={!isDirty}
+                className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 transition-colors"
+              >
+                Discard changes
+              </button>
+            </div>
+            {RiskProfileService.getBundledProfile(saved.id) ? (
+              <button
+                onClick={() => runAction(() => RiskProfileService.resetProfile(saved.id), profile => `Restored defaults as v${profile?.version}`)}
+                className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Restore defaults
+              </button>
+            ) : (
+              <button
+                onClick={() => runAction(() => RiskProfileService.removeProfile(saved.id), () => `Removed ${saved.name}`)}
+                className="flex items-center gap-1 px-3 py-2 text-sm text-red-700 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+                Remove profile
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
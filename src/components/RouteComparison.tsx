@@ -1,9 +1,11 @@
 import React from 'react';
-import { Route as Route2, Clock, MapPin, TrendingUp, AlertTriangle, Navigation, Zap, Shield, Users, Construction } from 'lucide-react';
-import { Route, Vehicle } from '../types';
+import { Route as Route2, Clock, MapPin, TrendingUp, AlertTriangle, Navigation, Zap, Shield, Users, Construction, Link2 } from 'lucide-react';
+import { ConfidenceLevel, Route, Vehicle } from '../types';
 import { LiveTrafficIndicator } from './LiveTrafficIndicator';
 import { RiskCalculator } from '../utils/riskCalculator';
 import { RouteColorManager } from '../utils/routeColors';
+import { findOverlappingRoutes } from '../utils/riskConfidence';
+import { RiskProfileService } from '../services/riskProfileService';
 
 interface RouteComparisonProps {
   routes: Route[];
@@ -18,10 +20,19 @@ export const RouteComparison: React.FC<RouteComparisonProps> = ({
   selectedRoute,
   onRouteSelect
 }) => {
-  const routesWithAnalysis = RiskCalculator.compareRoutes(routes, vehicle);
+  // Scores were stored on each route by the risk pipeline when it was analyzed
+  const routesWithAnalysis = [...routes].sort((a, b) => a.overallRisk - b.overallRisk);
+  // Routes whose scores are too uncertain to rank against each other
+  const overlappingRoutes = findOverlappingRoutes(routesWithAnalysis);
 
   const isBusLength = vehicle.length >= 35 && vehicle.length <= 45;
 
+  const confidenceStyles: Record<ConfidenceLevel, string> = {
+    high: 'text-green-700 dark:text-green-400',
+    medium: 'text-amber-700 dark:text-amber-400',
+    low: 'text-red-700 dark:text-red-400'
+  };
+
   const getRouteTypeIcon = (route: Route, index: number) => {
     if (route.name.toLowerCase().includes('highway')) return <Zap className="w-5 h-5" />;
     if (route.name.toLowerCase().includes('arterial')) return <Navigation className="w-5 h-5" />;
@@ -87,8 +98,22 @@ export const RouteComparison: React.FC<RouteComparisonProps> = ({
         </div>
       ) : (
         <div className="space-y-4">
+          {overlappingRoutes.length > 0 && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <div>
+                <div className="font-medium">Risk ranges overlap heavily</div>
+                {overlappingRoutes.map(({ first, second }) => (
+                  <div key={`${first.id}-${second.id}`} className="text-xs">
+                    {first.name} ({Math.round(first.riskConfidence!.low)}-{Math.round(first.riskConfidence!.high)}%) and {second.name} ({Math.round(second.riskConfidence!.low)}-{Math.round(second.riskConfidence!.high)}%)
+                    {' '}cannot be reliably ranked with the data available.
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
           {routesWithAnalysis.map((route, index) => {
-            const riskScore = RiskCalculator.calculateRouteRisk(route, vehicle);
+            const riskScore = route.overallRisk;
             const features = getRouteFeatures(route);
             
             // Use consistent route colors
@@ -136,6 +161,15 @@ export const RouteComparison: React.FC<RouteComparisonProps> = ({
                           </div>
                         )}
                         <h3 className="font-bold text-lg text-gray-900 dark:text-white">{route.name}</h3>
+                        {route.stitching && (
+                          <div
+                            className="flex items-center gap-1 px-2 py-1 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-800 dark:text-indigo-300 text-xs font-medium rounded-full border border-indigo-200 dark:border-indigo-700"
+                            title={`Joined at: ${route.stitching.joins.map(join => join.address).join('; ')}`}
+                          >
+                            <Link2 className="w-3 h-3" />
+                            STITCHED ×{route.stitching.chunkCount}
+                          </div>
+                        )}
                       </div>
                       <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
                         {getRouteDescription(route, index)}
@@ -154,6 +188,26 @@ export const RouteComparison: React.FC<RouteComparisonProps> = ({
                     <div className="text-xs text-gray-600 dark:text-gray-400 font-medium">
                       {RiskCalculator.getRiskLabel(riskScore)} Risk
                     </div>
+                    {route.riskConfidence && (
+                      <div
+                        className={`text-xs font-medium mt-1 ${confidenceStyles[route.riskConfidence.level]}`}
+                        title={route.riskConfidence.gaps.length > 0 ? `Defaulted inputs: ${route.riskConfidence.gaps.join(', ')}` : 'All inputs measured or inferred'}
+                      >
+                        {Math.round(route.riskConfidence.low)}-{Math.round(route.riskConfidence.high)}% · {route.riskConfidence.level} confidence
+                      </div>
+                    )}
+                    {route.riskModel && (
+                      <div
+                        className="text-xs text-gray-500 dark:text-gray-400 mt-1"
+                        title={
+                          RiskProfileService.getProfileVersion(route.riskModel.profileId, route.riskModel.version)
+                            ? route.riskModel.profileName
+                            : `${route.riskModel.profileName} (this version is no longer stored)`
+                        }
+                      >
+                        model {route.riskModel.profileId} v{route.riskModel.version}
+                      </div>
+                    )}
                   </div>
                 </div>
 
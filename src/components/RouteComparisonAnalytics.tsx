@@ -31,10 +31,10 @@ export const RouteComparisonAnalytics: React.FC<RouteComparisonAnalyticsProps> =
 
   // Calculate metrics for all routes
   const routeMetrics = routes.map(route => {
-    const riskScore = RiskCalculator.calculateRouteRisk(route, vehicle);
+    const riskScore = route.overallRisk;
     const criticalPoints = route.criticalPoints?.length || 0;
     const highRiskSegments = route.segments.filter(seg => 
-      RiskCalculator.calculateSegmentRisk(seg, vehicle) >= 60
+      seg.riskScore >= 60
     ).length;
     
     return {
@@ -289,7 +289,7 @@ export const RouteComparisonAnalytics: React.FC<RouteComparisonAnalyticsProps> =
                 {routeMetrics.map((route, index) => {
                   const routeColor = RouteColorManager.getRouteColor(index);
                   const riskDistribution = route.segments.map(seg => 
-                    RiskCalculator.calculateSegmentRisk(seg, vehicle)
+                    seg.riskScore
                   );
                   
                   return (
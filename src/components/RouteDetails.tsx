@@ -1,5 +1,6 @@
 import { Clock, Navigation, AlertTriangle } from 'lucide-react';
 import { Route } from '../types';
+import { RouteRiskExplanationView } from './RiskExplanation';
 
 interface RouteDetailsProps {
   route: Route;
@@ -38,6 +39,12 @@ export function RouteDetails({ route }: RouteDetailsProps) {
         <Navigation className="h-4 w-4 mr-1" />
         <span>{(route.totalDistance / 1000).toFixed(1)} km</span>
       </div>
+
+      {route.riskExplanation && (
+        <div className="mb-4">
+          <RouteRiskExplanationView explanation={route.riskExplanation} confidence={route.riskConfidence} />
+        </div>
+      )}
       
       {/* route.description is not part of the Route interface, so removing this conditional rendering */}
       {/* {route.description && (
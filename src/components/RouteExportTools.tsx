@@ -1,7 +1,7 @@
 import React from 'react';
 import { Route, Vehicle } from '../types';
 import { Download, Share2, FileText } from 'lucide-react';
-import { RiskCalculator } from '../utils/riskCalculator';
+import { HAZMAT_CLASS_NAMES, VehicleClassificationService } from '../services/vehicleClassificationService';
 
 interface RouteExportToolsProps {
   routes: Route[];
@@ -21,7 +21,7 @@ export const RouteExportTools: React.FC<RouteExportToolsProps> = ({
       vehicle,
       routes: routes.map(route => ({
         ...route,
-        riskScore: RiskCalculator.calculateRouteRisk(route, vehicle),
+        riskScore: route.overallRisk,
         exportedAt: new Date().toISOString()
       })),
       selectedRouteId,
@@ -45,7 +45,7 @@ export const RouteExportTools: React.FC<RouteExportToolsProps> = ({
 
   const exportToCSV = () => {
     const csvData = routes.map(route => {
-      const riskScore = RiskCalculator.calculateRouteRisk(route, vehicle);
+      const riskScore = route.overallRisk;
       return {
         'Route Name': route.name,
         'Distance (miles)': route.totalDistance,
@@ -75,7 +75,7 @@ export const RouteExportTools: React.FC<RouteExportToolsProps> = ({
   const generateReport = () => {
     if (!selectedRoute) return;
 
-    const riskScore = RiskCalculator.calculateRouteRisk(selectedRoute, vehicle);
+    const riskScore = selectedRoute.overallRisk;
     const report = `
 ACADIA TRANSIT SENTINEL - ROUTE ANALYSIS REPORT
 Generated: ${new Date().toLocaleString()}
@@ -84,7 +84,8 @@ VEHICLE INFORMATION:
 - Length: ${vehicle.length} ft
 - Width: ${vehicle.width} ft  
 - Height: ${vehicle.height} ft
-- Classification: ${vehicle.length >= 35 ? 'Large Commercial Vehicle' : 'Standard Vehicle'}
+- Gross Weight: ${VehicleClassificationService.getGrossWeightLbs(vehicle).toLocaleString()} lbs${vehicle.grossWeightLbs === undefined ? ' (typical for class)' : ''}
+${vehicle.hazmatClass !== undefined ? `- Hazardous Materials: Class ${vehicle.hazmatClass} (${HAZMAT_CLASS_NAMES[vehicle.hazmatClass]})\n` : ''}- Classification: ${vehicle.length >= 35 ? 'Large Commercial Vehicle' : 'Standard Vehicle'}
 
 SELECTED ROUTE: ${selectedRoute.name}
 - Total Distance: ${selectedRoute.totalDistance} miles
@@ -96,7 +97,7 @@ ${selectedRoute.stops?.length ? `- Stops: ${selectedRoute.stops.length}` : ''}
 
 ROUTE COMPARISON:
 ${routes.map((route, index) => {
-  const routeRisk = RiskCalculator.calculateRouteRisk(route, vehicle);
+  const routeRisk = route.overallRisk;
   return `${index + 1}. ${route.name}
    Distance: ${route.totalDistance}mi | Time: ${route.estimatedTime}min | Risk: ${Math.round(routeRisk)}%`;
 }).join('\n')}
@@ -132,7 +133,7 @@ This report was generated by Acadia Transit Sentinel for route planning purposes
 
     const shareData = {
       title: `Route Analysis: ${selectedRoute.name}`,
-      text: `${selectedRoute.totalDistance} miles, ${selectedRoute.estimatedTime} minutes, ${Math.round(RiskCalculator.calculateRouteRisk(selectedRoute, vehicle))}% risk`,
+      text: `${selectedRoute.totalDistance} miles, ${selectedRoute.estimatedTime} minutes, ${Math.round(selectedRoute.overallRisk)}% risk`,
       url: window.location.href
     };
 
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Navigation, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import { Navigation, Loader2, AlertCircle, CheckCircle, Clock } from 'lucide-react';
 import { LocationInput } from './LocationInput';
 import { StopLocationsManager } from './StopLocationsManager';
-import { StopLocation } from '../types';
-import { GoogleMapsService } from '../services/googleMapsService';
+import { LatLngCoordinates, StopLocation, Vehicle } from '../types';
+import { useRoutingProvider } from '../hooks/useRoutingProvider';
+import { StopOrderCandidate, StopSequencingService } from '../services/stopSequencingService';
 
 interface RouteInputProps {
   onRouteRequest: (origin: string, destination: string, stops?: StopLocation[], isLoop?: boolean) => void;
@@ -14,6 +15,10 @@ interface RouteInputProps {
   onStopsChange: (stops: StopLocation[]) => void;
   isLoop?: boolean;
   onLoopChange?: (isLoop: boolean) => void;
+  vehicle?: Vehicle;
+  departureTime?: string; // datetime-local value; empty means leave now
+  arrivalDeadline?: string; // datetime-local value; empty means no deadline
+  onScheduleChange?: (departureTime: string, arrivalDeadline: string) => void;
 }
 
 export const RouteInput: React.FC<RouteInputProps> = ({
@@ -24,16 +29,23 @@ export const RouteInput: React.FC<RouteInputProps> = ({
   stops = [], // Provide default empty array
   onStopsChange,
   isLoop = true,
-  onLoopChange
+  onLoopChange,
+  vehicle,
+  departureTime = '',
+  arrivalDeadline = '',
+  onScheduleChange
 }) => {
   // Keep local state persistent and sync with props properly
   const [origin, setOrigin] = useState(initialOrigin);
   const [destination, setDestination] = useState(initialDestination);
   const [localIsLoop, setLocalIsLoop] = useState(isLoop);
-  const [validationErrors, setValidationErrors] = useState<{origin?: string; destination?: string; stops?: string}>({});
+  const [validationErrors, setValidationErrors] = useState<{origin?: string; destination?: string; stops?: string; schedule?: string}>({});
   const [apiStatus, setApiStatus] = useState<'checking' | 'ready' | 'error'>('checking');
   const [apiError, setApiError] = useState<string>('');
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [orderCandidates, setOrderCandidates] = useState<StopOrderCandidate[]>([]);
+  const { provider: routingProvider } = useRoutingProvider();
 
   // Only update local state when props change AND we're not currently loading
   useEffect(() => {
@@ -54,30 +66,30 @@ export const RouteInput: React.FC<RouteInputProps> = ({
     }
   }, [isLoop]);
 
-  // Check API status on mount
+  // Check routing provider status on mount and whenever the provider changes
   useEffect(() => {
     const checkApiStatus = async () => {
+      setApiStatus('checking');
       try {
-        const googleMapsService = GoogleMapsService.getInstance();
-        const hasApiKey = googleMapsService.hasApiKey();
-        
-        if (!hasApiKey) {
+        if (!routingProvider.isConfigured()) {
           setApiStatus('error');
-          setApiError('Google Maps API key not configured. Please add VITE_GOOGLE_MAPS_API_KEY to your .env file.');
+          setApiError(routingProvider.id === 'google'
+            ? 'Google Maps API key not configured. Please add VITE_GOOGLE_MAPS_API_KEY to your .env file.'
+            : `${routingProvider.name} is not configured.`);
           return;
         }
 
-        await googleMapsService.initialize();
+        await routingProvider.initialize();
         setApiStatus('ready');
         setApiError('');
       } catch (error) {
         setApiStatus('error');
-        setApiError(error instanceof Error ? error.message : 'Failed to initialize Google Maps');
+        setApiError(error instanceof Error ? error.message : `Failed to initialize ${routingProvider.name}`);
       }
     };
 
     checkApiStatus();
-  }, []);
+  }, [routingProvider]);
 
   const validateAddress = (address: string): string | null => {
     if (!address.trim()) {
@@ -114,6 +126,19 @@ export const RouteInput: React.FC<RouteInputProps> = ({
     return null;
   };
 
+  const validateSchedule = (departure: string, deadline: string): string | null => {
+    if (!deadline) return null;
+    const departureAt = departure ? new Date(departure) : new Date();
+    return new Date(deadline).getTime() <= departureAt.getTime() ? 'Arrival deadline must be after the departure time' : null;
+  };
+
+  const handleScheduleChange = (departure: string, deadline: string) => {
+    onScheduleChange?.(departure, deadline);
+    if (validationErrors.schedule) {
+      setValidationErrors(prev => ({ ...prev, schedule: validateSchedule(departure, deadline) || undefined }));
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -124,12 +149,14 @@ export const RouteInput: React.FC<RouteInputProps> = ({
     const originError = validateAddress(origin);
     const destinationError = validateAddress(destination);
     const stopsError = validateStops();
+    const scheduleError = validateSchedule(departureTime, arrivalDeadline);
     
-    if (originError || destinationError || stopsError) {
+    if (originError || destinationError || stopsError || scheduleError) {
       setValidationErrors({
         origin: originError || undefined,
         destination: destinationError || undefined,
-        stops: stopsError || undefined
+        stops: stopsError || undefined,
+        schedule: scheduleError || undefined
       });
       return;
     }
@@ -161,11 +188,47 @@ export const RouteInput: React.FC<RouteInputProps> = ({
 
   const handleStopsChange = (newStops: StopLocation[]) => {
     onStopsChange(newStops);
+    setOrderCandidates([]);
     if (validationErrors.stops) {
       setValidationErrors(prev => ({ ...prev, stops: undefined }));
     }
   };
 
+  const handleOptimizeOrder = async () => {
+    const stopsToOrder = stops.filter(stop => stop.address.trim());
+    if (!origin.trim() || stopsToOrder.length < 2) return;
+
+    setIsOptimizing(true);
+    setValidationErrors(prev => ({ ...prev, stops: undefined }));
+    try {
+      const locate = async (address: string, lat?: number, lng?: number): Promise<LatLngCoordinates> => {
+        if (lat !== undefined && lng !== undefined) return { lat, lng };
+        const [result] = await routingProvider.geocode(address);
+        return result.location;
+      };
+
+      const originPoint = await locate(origin);
+      const stopPoints: LatLngCoordinates[] = [];
+      for (const stop of stopsToOrder) {
+        stopPoints.push(await locate(stop.address, stop.lat, stop.lng));
+      }
+      // Loop routes return to the origin after the destination, so the stops sit between the two
+      const destinationPoint = destination.trim() ? await locate(destination) : originPoint;
+
+      const matrix = StopSequencingService.buildEstimatedMatrix([originPoint, ...stopPoints, destinationPoint], vehicle);
+      const candidates = StopSequencingService.getTopStopOrders(stopsToOrder, matrix, { topN: 3, vehicle });
+      setOrderCandidates(candidates);
+    } catch (error) {
+      console.error('Stop order optimization failed:', error);
+      setValidationErrors(prev => ({
+        ...prev,
+        stops: `Could not optimize stop order: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }));
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
   const handleLoopChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newIsLoop = !e.target.checked;
     setLocalIsLoop(newIsLoop);
@@ -235,7 +298,7 @@ export const RouteInput: React.FC<RouteInputProps> = ({
           <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg">
             <div className="flex items-center gap-2 text-red-800 dark:text-red-300">
               <AlertCircle className="w-5 h-5" />
-              <span className="font-medium">Google Maps API Error</span>
+              <span className="font-medium">{routingProvider.name} Error</span>
             </div>
             <p className="text-sm text-red-700 dark:text-red-400 mt-1">{apiError}</p>
           </div>
@@ -276,6 +339,46 @@ export const RouteInput: React.FC<RouteInputProps> = ({
             )}
           </div>
 
+          {/* Trip Timing */}
+          {onScheduleChange && (
+            <div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+                    <Clock className="w-4 h-4" />
+                    Departure
+                  </span>
+                  <input
+                    type="datetime-local"
+                    value={departureTime}
+                    onChange={e => handleScheduleChange(e.target.value, arrivalDeadline)}
+                    disabled={isLoading}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Arrive by (optional)</span>
+                  <input
+                    type="datetime-local"
+                    value={arrivalDeadline}
+                    onChange={e => handleScheduleChange(departureTime, e.target.value)}
+                    disabled={isLoading}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+              </div>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {departureTime ? 'Risk is evaluated at the time each segment is reached.' : 'Leave empty to depart now.'}
+              </p>
+              {validationErrors.schedule && (
+                <div className="mt-1 flex items-center gap-2 text-red-600 dark:text-red-400 text-sm">
+                  <AlertCircle className="w-4 h-4" />
+                  {validationErrors.schedule}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Advanced Options */}
           <div className="border-t border-gray-200 dark:border-gray-600 pt-4">
             <button
@@ -380,6 +483,10 @@ export const RouteInput: React.FC<RouteInputProps> = ({
         stops={stops}
         onStopsChange={handleStopsChange}
         disabled={isLoading || apiStatus !== 'ready'}
+        onOptimizeOrder={origin.trim() ? handleOptimizeOrder : undefined}
+        isOptimizing={isOptimizing}
+        orderCandidates={orderCandidates}
+        onDismissOrderCandidates={() => setOrderCandidates([])}
       />
     </div>
   );
@@ -1,8 +1,14 @@
-import React, { useState } from 'react';
-import { Navigation, AlertCircle, ZoomIn } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Navigation, ZoomIn, Link2 } from 'lucide-react';
 import { Route, Vehicle } from '../types';
 import { RiskCalculator } from '../utils/riskCalculator';
 import { GoogleMapComponent } from './GoogleMapComponent';
+import { createPathProjection, getRouteGeometry, getSegmentAnchor, getSegmentPath } from '../utils/routeGeometry';
+import { SWEPT_PATH_COLORS } from '../utils/sweptPath';
+
+const FALLBACK_WIDTH = 1000;
+const FALLBACK_HEIGHT = 320;
+const FALLBACK_PADDING = 30;
 
 interface RouteMapProps {
   route?: Route; // Make route optional
@@ -17,6 +23,11 @@ export const RouteMap: React.FC<RouteMapProps> = ({
 }) => {
   const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null);
 
+  const project = useMemo(
+    () => (route ? createPathProjection(getRouteGeometry(route), FALLBACK_WIDTH, FALLBACK_HEIGHT, FALLBACK_PADDING) : null),
+    [route]
+  );
+
   // If no route is provided, render a placeholder
   if (!route) {
     return (
@@ -28,10 +39,10 @@ export const RouteMap: React.FC<RouteMapProps> = ({
   
   const segmentsWithRisk = route.segments.map(segment => ({
     ...segment,
-    adjustedRisk: RiskCalculator.calculateSegmentRisk(segment, vehicle)
+    adjustedRisk: segment.riskScore
   }));
 
-  const overallRisk = RiskCalculator.calculateRouteRisk(route, vehicle);
+  const overallRisk = route.overallRisk;
 
   const handleSegmentClick = (segmentId: string) => {
     console.log('Segment clicked from list:', segmentId);
@@ -70,6 +81,15 @@ export const RouteMap: React.FC<RouteMapProps> = ({
             <div className="text-sm text-gray-600 dark:text-gray-400">Risk Score</div>
           </div>
         </div>
+        {route.stitching && (
+          <div className="mt-3 flex items-start gap-2 p-2 bg-indigo-50 dark:bg-indigo-900/20 rounded-lg border border-indigo-100 dark:border-indigo-800 text-xs text-indigo-800 dark:text-indigo-300">
+            <Link2 className="w-4 h-4 flex-shrink-0" />
+            <span>
+              This route has more stops than one routing request allows, so it was planned as {route.stitching.chunkCount} consecutive
+              requests joined at {route.stitching.joins.map(join => join.address).join(', ')}. Distances, times and risk cover every stop.
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Map Area */}
@@ -82,7 +102,7 @@ export const RouteMap: React.FC<RouteMapProps> = ({
             onSegmentClick={handleMapSegmentClick}
           />
         ) : (
-          // Fallback to mock visualization
+          // Fallback: schematic drawn from the route geometry without map tiles
           <div className="h-full bg-gray-100 dark:bg-gray-900 relative overflow-hidden">
             <div className="absolute inset-0 bg-gradient-to-br from-blue-50 to-green-50 dark:from-blue-900/20 dark:to-green-900/20">
               {/* Mock map grid */}
@@ -95,75 +115,56 @@ export const RouteMap: React.FC<RouteMapProps> = ({
                 ))}
               </div>
 
-              {/* Route visualization */}
-              <svg className="absolute inset-0 w-full h-full">
-                <defs>
-                  <linearGradient id="routeGradient" x1="0%" y1="0%" x2="100%" y2="0%">
-                    {segmentsWithRisk.map((segment, _index) => (
-                      <stop
-                        key={segment.id}
-                        offset={`${((_index || 0) / segmentsWithRisk.length) * 100}%`}
-                        stopColor={RiskCalculator.getRiskColor(segment.adjustedRisk)}
-                      />
-                    ))}
-                  </linearGradient>
-                </defs>
-                
-                {/* Main route line */}
-                <polyline
-                  points="50,250 120,220 180,180 250,150 320,120"
-                  fill="none"
-                  stroke="url(#routeGradient)"
-                  strokeWidth="6"
-                  strokeLinecap="round"
-                />
-                
-                {/* Route points */}
-                {segmentsWithRisk.map((segment, _index) => {
-                  const x = 50 + ((_index || 0) * 67.5);
-                  const y = 250 - ((_index || 0) * 32.5);
-                  return (
-                    <g key={segment.id}>
-                      <circle
-                        cx={x}
-                        cy={y}
-                        r="8"
-                        fill={RiskCalculator.getRiskColor(segment.adjustedRisk)}
-                        className="drop-shadow-sm cursor-pointer hover:r-10 transition-all"
-                        onClick={() => handleSegmentClick(segment.id)}
-                      />
-                      <circle
-                        cx={x}
-                        cy={y}
-                        r="4"
-                        fill="white"
-                        className="cursor-pointer"
-                        onClick={() => handleSegmentClick(segment.id)}
-                      />
-                    </g>
-                  );
-                })}
-              </svg>
+              {/* Route visualization, projected from the segments' own geometry */}
+              {project && (
+                <svg viewBox={`0 0 ${FALLBACK_WIDTH} ${FALLBACK_HEIGHT}`} className="absolute inset-0 w-full h-full" preserveAspectRatio="xMidYMid meet">
+                  {segmentsWithRisk.map(segment => (
+                    <polyline
+                      key={segment.id}
+                      points={getSegmentPath(segment).map(point => project(point)).map(({ x, y }) => `${x},${y}`).join(' ')}
+                      fill="none"
+                      stroke={RiskCalculator.getRiskColor(segment.adjustedRisk)}
+                      strokeWidth={selectedSegmentId === segment.id ? 10 : 6}
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="cursor-pointer"
+                      onClick={() => handleSegmentClick(segment.id)}
+                    >
+                      <title>{`${segment.streetName} — ${Math.round(segment.adjustedRisk)}%`}</title>
+                    </polyline>
+                  ))}
 
-              {/* Critical points indicators */}
-              {route.criticalPoints.map((point, _index) => (
-                <div
-                  key={point.segmentId}
-                  className="absolute transform -translate-x-1/2 -translate-y-1/2 cursor-pointer"
-                  style={{
-                    left: `${20 + (point.position * 17)}%`,
-                    top: `${70 - (point.position * 8)}%`
-                  }}
-                  onClick={() => handleSegmentClick(point.segmentId)}
-                >
-                  <div className="relative">
-                    <AlertCircle className="w-6 h-6 text-red-500 animate-pulse hover:w-8 hover:h-8 transition-all" />
-                    <div className="absolute -top-8 left-1/2 transform -translate-x-1/2 bg-red-500 text-white text-xs px-2 py-1 rounded whitespace-nowrap">
-                      Critical Point {point.position + 1}
-                    </div>
-                  </div>
-                </div>
-              ))}
+                  {/* Swept envelopes of turns */}
+                  {route.segments.map(segment => segment.sweptPath && (
+                    <polygon
+                      key={`swept-${segment.id}`}
+                      points={segment.sweptPath.envelope.map(point => project(point)).map(({ x, y }) => `${x},${y}`).join(' ')}
+                      fill={SWEPT_PATH_COLORS[segment.sweptPath.verdict]}
+                      fillOpacity={0.35}
+                      stroke={SWEPT_PATH_COLORS[segment.sweptPath.verdict]}
+                      strokeWidth={1}
+                    >
+                      <title>{`Swept path into ${segment.streetName}: ${segment.sweptPath.verdict} (${segment.sweptPath.sweptWidthFt}ft wide)`}</title>
+                    </polygon>
+                  ))}
+
+                  {/* Critical points at the start of their segments */}
+                  {route.criticalPoints.map(point => {
+                    const segment = route.segments.find(s => s.id === point.segmentId);
+                    if (!segment) return null;
+                    const { x, y } = project(getSegmentAnchor(segment));
+                    return (
+                      <g key={point.segmentId} className="cursor-pointer" onClick={() => handleSegmentClick(point.segmentId)}>
+                        <circle cx={x} cy={y} r={9} fill={point.riskLevel === 'critical' ? '#DC2626' : '#F59E0B'} stroke="#FFFFFF" strokeWidth={3} />
+                        <text x={x} y={y - 16} textAnchor="middle" className="fill-red-600 dark:fill-red-400 text-xs font-medium">
+                          Critical Point {point.position + 1}
+                        </text>
+                        <title>{point.description}</title>
+                      </g>
+                    );
+                  })}
+                </svg>
+              )}
             </div>
 
             {/* Map legend */}
@@ -1,6 +1,5 @@
 import React, { useState, useEffect } from 'react';
 import { Route, Vehicle } from '../types';
-import { RiskCalculator } from '../utils/riskCalculator';
 import { 
   Clock, 
   Zap,
@@ -34,7 +33,7 @@ export const RoutePerformanceTracker: React.FC<RoutePerformanceTrackerProps> = (
     const metrics: typeof performanceMetrics = {};
     
     routes.forEach(route => {
-      const riskScore = RiskCalculator.calculateRouteRisk(route, vehicle);
+      const riskScore = route.overallRisk;
       const safetyScore = 100 - riskScore;
       const efficiency = (route.totalDistance / route.estimatedTime) * 60; // mph
       const timeOptimization = Math.max(0, 100 - (route.estimatedTime / route.totalDistance) * 10);
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Server } from 'lucide-react';
+import { RoutingProvider, RoutingProviderId } from '../services/routingProvider';
+
+interface RoutingProviderSelectorProps {
+  provider: RoutingProvider;
+  providers: RoutingProvider[];
+  onChange: (id: RoutingProviderId) => void;
+  disabled?: boolean;
+}
+
+export const RoutingProviderSelector: React.FC<RoutingProviderSelectorProps> = ({
+  provider,
+  providers,
+  onChange,
+  disabled = false
+}) => {
+  return (
+    <label
+      className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-300 transition-colors duration-300"
+      title={provider.description}
+    >
+      <Server className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+      <span className="hidden md:inline text-gray-500 dark:text-gray-400">Routing:</span>
+      <select
+        value={provider.id}
+        onChange={(e) => onChange(e.target.value as RoutingProviderId)}
+        disabled={disabled}
+        className="bg-transparent font-medium text-gray-900 dark:text-white focus:outline-none cursor-pointer disabled:cursor-not-allowed"
+        aria-label="Routing provider"
+      >
+        {providers.map(p => (
+          <option key={p.id} value={p.id} className="text-gray-900">
+            {p.name}{p.isConfigured() ? '' : ' (not configured)'}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -1,23 +1,41 @@
 import React, { useState } from 'react';
-import { Plus, GripVertical, Clock, MapPin, Trash2, Edit2 } from 'lucide-react';
+import { Plus, GripVertical, Clock, MapPin, Trash2, Edit2, Shuffle, Pin, CalendarClock, Package, Ruler } from 'lucide-react';
 import { StopLocation } from '../types';
 import { LocationInput } from './LocationInput';
+import { StopOrderAlternatives } from './StopOrderAlternatives';
+import { StopOrderCandidate, StopSequencingService } from '../services/stopSequencingService';
 
 interface StopLocationsManagerProps {
   stops: StopLocation[];
   onStopsChange: (stops: StopLocation[]) => void;
   disabled?: boolean;
+  onOptimizeOrder?: () => void;
+  isOptimizing?: boolean;
+  orderCandidates?: StopOrderCandidate[];
+  onDismissOrderCandidates?: () => void;
+  /** Show load and vehicle access limit fields used by fleet dispatch */
+  showDispatchFields?: boolean;
 }
 
 export const StopLocationsManager: React.FC<StopLocationsManagerProps> = ({
   stops,
   onStopsChange,
-  disabled = false
+  disabled = false,
+  onOptimizeOrder,
+  isOptimizing = false,
+  orderCandidates = [],
+  onDismissOrderCandidates,
+  showDispatchFields = false
 }) => {
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [editingStopId, setEditingStopId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [editStopTime, setEditStopTime] = useState(15);
+  const [editEarliest, setEditEarliest] = useState('');
+  const [editLatest, setEditLatest] = useState('');
+  const [editFixedPosition, setEditFixedPosition] = useState<StopLocation['fixedPosition'] | ''>('');
+  const [editDemand, setEditDemand] = useState(1);
+  const [editMaxLength, setEditMaxLength] = useState('');
 
   const addStop = () => {
     const newStop: StopLocation = {
@@ -86,17 +104,31 @@ export const StopLocationsManager: React.FC<StopLocationsManagerProps> = ({
     setEditingStopId(stop.id);
     setEditName(stop.name || '');
     setEditStopTime(stop.estimatedStopTime || 15);
+    setEditEarliest(stop.timeWindow?.earliest || '');
+    setEditLatest(stop.timeWindow?.latest || '');
+    setEditFixedPosition(stop.fixedPosition || '');
+    setEditDemand(stop.demand ?? 1);
+    setEditMaxLength(stop.accessLimits?.maxLength?.toString() || '');
   };
 
   const saveEdit = () => {
     if (editingStopId) {
       updateStop(editingStopId, {
         name: editName.trim() || undefined,
-        estimatedStopTime: editStopTime
+        estimatedStopTime: editStopTime,
+        timeWindow: editEarliest || editLatest
+          ? { earliest: editEarliest || undefined, latest: editLatest || undefined }
+          : undefined,
+        fixedPosition: editFixedPosition || undefined,
+        ...(showDispatchFields && {
+          demand: editDemand,
+          accessLimits: {
+            ...stops.find(s => s.id === editingStopId)?.accessLimits,
+            maxLength: editMaxLength ? parseFloat(editMaxLength) : undefined
+          }
+        })
       });
-      setEditingStopId(null);
-      setEditName('');
-      setEditStopTime(15);
+      cancelEdit();
     }
   };
 
@@ -104,6 +136,11 @@ export const StopLocationsManager: React.FC<StopLocationsManagerProps> = ({
     setEditingStopId(null);
     setEditName('');
     setEditStopTime(15);
+    setEditEarliest('');
+    setEditLatest('');
+    setEditFixedPosition('');
+    setEditDemand(1);
+    setEditMaxLength('');
   };
 
   const getTotalStopTime = () => {
@@ -195,6 +232,76 @@ export const StopLocationsManager: React.FC<StopLocationsManagerProps> = ({
                         max="480"
                       />
                     </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          Arrive After
+                        </label>
+                        <input
+                          type="time"
+                          value={editEarliest}
+                          onChange={(e) => setEditEarliest(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          Arrive By
+                        </label>
+                        <input
+                          type="time"
+                          value={editLatest}
+                          onChange={(e) => setEditLatest(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Position When Optimizing
+                      </label>
+                      <select
+                        value={editFixedPosition}
+                        onChange={(e) => setEditFixedPosition(e.target.value as StopLocation['fixedPosition'] | '')}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        <option value="">Any position</option>
+                        <option value="first">Always first</option>
+                        <option value="last">Always last</option>
+                      </select>
+                    </div>
+
+                    {showDispatchFields && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Load (units)
+                          </label>
+                          <input
+                            type="number"
+                            value={editDemand}
+                            onChange={(e) => setEditDemand(parseInt(e.target.value) || 0)}
+                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                            min="0"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Max Vehicle Length (ft)
+                          </label>
+                          <input
+                            type="number"
+                            value={editMaxLength}
+                            onChange={(e) => setEditMaxLength(e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                            placeholder="No limit"
+                            min="0"
+                          />
+                        </div>
+                      </div>
+                    )}
                     
                     <div className="flex gap-2">
                       <button
@@ -237,9 +344,38 @@ export const StopLocationsManager: React.FC<StopLocationsManagerProps> = ({
                     )}
                     
                     <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
-                        <Clock className="w-4 h-4" />
-                        <span>{stop.estimatedStopTime || 15} min stop</span>
+                      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-600 dark:text-gray-400">
+                        <span className="flex items-center gap-2">
+                          <Clock className="w-4 h-4" />
+                          {stop.estimatedStopTime || 15} min stop
+                        </span>
+                        {stop.hosRest && (
+                          <span className="text-indigo-600 dark:text-indigo-400">Off duty (hours of service)</span>
+                        )}
+                        {StopSequencingService.formatTimeWindow(stop.timeWindow) && (
+                          <span className="flex items-center gap-1">
+                            <CalendarClock className="w-4 h-4" />
+                            {StopSequencingService.formatTimeWindow(stop.timeWindow)}
+                          </span>
+                        )}
+                        {showDispatchFields && (
+                          <span className="flex items-center gap-1">
+                            <Package className="w-4 h-4" />
+                            {stop.demand ?? 1} unit{(stop.demand ?? 1) !== 1 ? 's' : ''}
+                          </span>
+                        )}
+                        {showDispatchFields && stop.accessLimits?.maxLength !== undefined && (
+                          <span className="flex items-center gap-1">
+                            <Ruler className="w-4 h-4" />
+                            ≤ {stop.accessLimits.maxLength} ft
+                          </span>
+                        )}
+                        {stop.fixedPosition && (
+                          <span className="flex items-center gap-1">
+                            <Pin className="w-4 h-4" />
+                            {stop.fixedPosition === 'first' ? 'First' : 'Last'}
+                          </span>
+                        )}
                       </div>
                       
                       {!disabled && (
@@ -269,6 +405,36 @@ export const StopLocationsManager: React.FC<StopLocationsManagerProps> = ({
         ))}
       </div>
 
+      {/* Suggested Orders */}
+      {orderCandidates.length > 0 && (
+        <div className="mb-4">
+          <StopOrderAlternatives
+            candidates={orderCandidates}
+            onApply={(candidate) => {
+              onStopsChange(candidate.stops);
+              onDismissOrderCandidates?.();
+            }}
+            onDismiss={() => onDismissOrderCandidates?.()}
+          />
+        </div>
+      )}
+
+      {/* Optimize Order Button */}
+      {!disabled && onOptimizeOrder && stops.length >= 2 && (
+        <button
+          onClick={onOptimizeOrder}
+          disabled={isOptimizing || stops.some(stop => !stop.address.trim())}
+          className="w-full flex items-center justify-center gap-2 p-3 mb-3 rounded-lg border border-purple-300 dark:border-purple-700 text-purple-700 dark:text-purple-300 hover:bg-purple-50 dark:hover:bg-purple-900/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isOptimizing ? (
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-purple-600"></div>
+          ) : (
+            <Shuffle className="w-5 h-5" />
+          )}
+          {isOptimizing ? 'Optimizing...' : 'Optimize Order'}
+        </button>
+      )}
+
       {/* Add Stop Button */}
       {!disabled && (
         <button
@@ -287,7 +453,8 @@ export const StopLocationsManager: React.FC<StopLocationsManagerProps> = ({
             <div className="font-medium mb-1">Stop Management:</div>
             <div className="space-y-1 text-xs">
               <div>• Drag stops to reorder them along your route</div>
-              <div>• Click edit to add names and adjust stop times</div>
+              <div>• Click edit to add names, stop times and arrival windows</div>
+              {onOptimizeOrder && <div>• Optimize order suggests sequences that balance distance, turnarounds and arrival windows</div>}
               <div>• Stops will be included in route risk analysis</div>
               <div>• Total estimated stop time: <strong>{getTotalStopTime()} minutes</strong></div>
             </div>
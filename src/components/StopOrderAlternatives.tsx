@@ -0,0 +1,105 @@
+import React from 'react';
+import { ListOrdered, AlertTriangle, Check, X } from 'lucide-react';
+import { StopOrderCandidate } from '../services/stopSequencingService';
+import { RiskCalculator } from '../utils/riskCalculator';
+
+interface StopOrderAlternativesProps {
+  candidates: StopOrderCandidate[];
+  onApply: (candidate: StopOrderCandidate) => void;
+  onDismiss: () => void;
+}
+
+const formatMiles = (meters: number) => `${(meters / 1609.34).toFixed(1)} mi`;
+
+const formatMinutes = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes} min`;
+};
+
+const formatClock = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const StopOrderAlternatives: React.FC<StopOrderAlternativesProps> = ({ candidates, onApply, onDismiss }) => {
+  if (candidates.length === 0) return null;
+
+  return (
+    <div className="p-4 rounded-lg border border-purple-200 dark:border-purple-800 bg-purple-50/50 dark:bg-purple-900/10">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+          <ListOrdered className="w-4 h-4 text-purple-600 dark:text-purple-400" />
+          Suggested stop orders
+        </div>
+        <button
+          onClick={onDismiss}
+          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          title="Dismiss suggestions"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {candidates.map((candidate, index) => (
+          <div
+            key={candidate.stops.map(stop => stop.id).join('-')}
+            className="p-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-gray-900 dark:text-white">
+                  {index === 0 ? 'Best order' : `Alternative ${index}`}
+                </div>
+                <ol className="mt-1 space-y-0.5 text-xs text-gray-600 dark:text-gray-400">
+                  {candidate.stops.map((stop, position) => {
+                    const arrival = candidate.arrivals.find(a => a.stopId === stop.id);
+                    return (
+                      <li key={stop.id} className="truncate">
+                        {position + 1}. {stop.name || stop.address || 'Unnamed stop'}
+                        {arrival && (
+                          <span className={arrival.lateMinutes > 0 ? 'text-red-600 dark:text-red-400' : ''}>
+                            {' '}· arrive {formatClock(arrival.arrival)}
+                            {arrival.waitMinutes > 0 && ` (wait ${Math.round(arrival.waitMinutes)} min)`}
+                            {arrival.lateMinutes > 0 && ` (${Math.round(arrival.lateMinutes)} min late)`}
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+              <button
+                onClick={() => onApply(candidate)}
+                className="flex-shrink-0 flex items-center gap-1 px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-md transition-colors"
+              >
+                <Check className="w-4 h-4" />
+                Use
+              </button>
+            </div>
+
+            <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+              <span>{formatMiles(candidate.totalDistanceMeters)}</span>
+              <span>{formatMinutes(candidate.totalSeconds)} incl. stops</span>
+              <span
+                style={{ color: RiskCalculator.getRiskColor(candidate.riskScore) }}
+                title="From turnarounds and missed time windows; estimated distances carry no road risk"
+              >
+                Order risk {Math.round(candidate.riskScore)}%
+              </span>
+              {candidate.reversals > 0 && <span>{candidate.reversals} turnaround{candidate.reversals > 1 ? 's' : ''}</span>}
+            </div>
+
+            {candidate.timeWindowViolations > 0 && (
+              <div className="mt-2 flex items-center gap-1 text-xs text-red-600 dark:text-red-400">
+                <AlertTriangle className="w-3 h-3" />
+                Misses {candidate.timeWindowViolations} time window{candidate.timeWindowViolations > 1 ? 's' : ''}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+        Distances are estimated from straight-line travel; analyze the route for exact figures.
+      </p>
+    </div>
+  );
+};
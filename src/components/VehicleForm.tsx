@@ -1,7 +1,22 @@
-import React from 'react';
-import { Truck, AlertTriangle } from 'lucide-react';
-import { Vehicle } from '../types';
-import { VehicleClassificationService } from '../services/vehicleClassificationService';
+import React, { useState } from 'react';
+import { Truck, AlertTriangle, ChevronDown, ChevronUp, Plus, X } from 'lucide-react';
+import { HazmatClass, TrailerUnit, Vehicle } from '../types';
+import {
+  FEDERAL_GROSS_WEIGHT_LIMIT_LBS,
+  HAZMAT_CLASS_NAMES,
+  VehicleClassificationService
+} from '../services/vehicleClassificationService';
+
+type OptionalNumberField = 'grossWeightLbs' | 'axleCount' | 'wheelbaseFt' | 'frontOverhangFt' | 'rearOverhangFt' | 'passengerCapacity';
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-300';
+const LABEL_CLASS = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+// Blank inputs clear the field so estimates for the vehicle's class apply
+const parseOptional = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
 
 interface VehicleFormProps {
   vehicle: Vehicle;
@@ -17,7 +32,39 @@ export const VehicleForm: React.FC<VehicleFormProps> = ({ vehicle, onChange }) =
     });
   };
 
-  const isOversized = vehicle.height > 13.5 || vehicle.length > 50 || vehicle.width > 8.5;
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [axleSpacingText, setAxleSpacingText] = useState(vehicle.axleSpacingFt?.join(', ') ?? '');
+
+  const handleOptionalChange = (field: OptionalNumberField, value: string) => {
+    onChange({ ...vehicle, [field]: parseOptional(value) });
+  };
+
+  const handleAxleSpacingChange = (value: string) => {
+    setAxleSpacingText(value);
+    const spacings = value.split(',').map(part => parseFloat(part)).filter(Number.isFinite);
+    onChange({ ...vehicle, axleSpacingFt: spacings.length > 0 ? spacings : undefined });
+  };
+
+  const trailers = vehicle.trailers ?? [];
+  const updateTrailers = (next: TrailerUnit[]) => {
+    onChange({ ...vehicle, trailers: next.length > 0 ? next : undefined });
+  };
+  const handleTrailerChange = (index: number, field: keyof TrailerUnit, value: string) => {
+    updateTrailers(trailers.map((trailer, i) => {
+      if (i !== index) return trailer;
+      return field === 'axleCount'
+        ? { ...trailer, axleCount: parseOptional(value) }
+        : { ...trailer, [field]: parseFloat(value) || 0 };
+    }));
+  };
+
+  const handleHazmatChange = (value: string) => {
+    onChange({ ...vehicle, hazmatClass: value ? Number(value) as HazmatClass : undefined });
+  };
+
+  const isOversized = vehicle.height > 13.5 || vehicle.length > 50 || vehicle.width > 8.5 ||
+    (vehicle.grossWeightLbs ?? 0) > FEDERAL_GROSS_WEIGHT_LIMIT_LBS;
+  const specWarnings = VehicleClassificationService.validateVehicle(vehicle);
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
@@ -32,7 +79,7 @@ export const VehicleForm: React.FC<VehicleFormProps> = ({ vehicle, onChange }) =
         <div className="flex items-center gap-2 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700 rounded-lg mb-4 transition-colors duration-300">
           <AlertTriangle className="w-5 h-5 text-amber-600 dark:text-amber-400" />
           <span className="text-sm text-amber-800 dark:text-amber-300">
-            Oversized vehicle detected - extra caution required
+            Oversized vehicle detected - analyze a route to see which states require an OS/OW permit
           </span>
         </div>
       )}
@@ -93,6 +140,208 @@ export const VehicleForm: React.FC<VehicleFormProps> = ({ vehicle, onChange }) =
         </div>
       </div>
 
+      <button
+        type="button"
+        onClick={() => setShowAdvanced(!showAdvanced)}
+        className="mt-4 flex items-center gap-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+      >
+        {showAdvanced ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        Weight, axles, trailers and cargo
+      </button>
+
+      {showAdvanced && (
+        <div className="mt-4 space-y-4">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Leave a field blank to use a typical value for the vehicle's class.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="grossWeightLbs" className={LABEL_CLASS}>Gross weight (lbs)</label>
+              <input
+                type="number"
+                id="grossWeightLbs"
+                value={vehicle.grossWeightLbs ?? ''}
+                onChange={(e) => handleOptionalChange('grossWeightLbs', e.target.value)}
+                className={INPUT_CLASS}
+                placeholder={`~${VehicleClassificationService.getGrossWeightLbs({ ...vehicle, grossWeightLbs: undefined }).toLocaleString()}`}
+                min="0"
+                step="100"
+              />
+            </div>
+            <div>
+              <label htmlFor="passengerCapacity" className={LABEL_CLASS}>Passenger capacity</label>
+              <input
+                type="number"
+                id="passengerCapacity"
+                value={vehicle.passengerCapacity ?? ''}
+                onChange={(e) => handleOptionalChange('passengerCapacity', e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="Excluding driver"
+                min="0"
+                step="1"
+              />
+            </div>
+            <div>
+              <label htmlFor="axleCount" className={LABEL_CLASS}>Axles</label>
+              <input
+                type="number"
+                id="axleCount"
+                value={vehicle.axleCount ?? ''}
+                onChange={(e) => handleOptionalChange('axleCount', e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="Including trailers"
+                min="2"
+                step="1"
+              />
+            </div>
+            <div>
+              <label htmlFor="axleSpacingFt" className={LABEL_CLASS}>Axle spacings (ft)</label>
+              <input
+                type="text"
+                id="axleSpacingFt"
+                value={axleSpacingText}
+                onChange={(e) => handleAxleSpacingChange(e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="e.g. 18, 4.3, 33, 4.1"
+              />
+            </div>
+            <div>
+              <label htmlFor="wheelbaseFt" className={LABEL_CLASS}>Wheelbase (ft)</label>
+              <input
+                type="number"
+                id="wheelbaseFt"
+                value={vehicle.wheelbaseFt ?? ''}
+                onChange={(e) => handleOptionalChange('wheelbaseFt', e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="Power unit"
+                min="0"
+                step="0.1"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label htmlFor="frontOverhangFt" className={LABEL_CLASS}>Front OH</label>
+                <input
+                  type="number"
+                  id="frontOverhangFt"
+                  value={vehicle.frontOverhangFt ?? ''}
+                  onChange={(e) => handleOptionalChange('frontOverhangFt', e.target.value)}
+                  className={INPUT_CLASS}
+                  min="0"
+                  step="0.1"
+                />
+              </div>
+              <div>
+                <label htmlFor="rearOverhangFt" className={LABEL_CLASS}>Rear OH</label>
+                <input
+                  type="number"
+                  id="rearOverhangFt"
+                  value={vehicle.rearOverhangFt ?? ''}
+                  onChange={(e) => handleOptionalChange('rearOverhangFt', e.target.value)}
+                  className={INPUT_CLASS}
+                  min="0"
+                  step="0.1"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Trailers</span>
+              <button
+                type="button"
+                onClick={() => updateTrailers([...trailers, { length: 53, kingpinToAxleFt: 41, axleCount: 2 }])}
+                className="flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+              >
+                <Plus className="w-3 h-3" />
+                Add trailer
+              </button>
+            </div>
+            {trailers.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Rigid vehicle (no trailers)</p>
+            ) : (
+              <div className="space-y-2">
+                {trailers.map((trailer, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+                    <label className="text-xs text-gray-600 dark:text-gray-400">
+                      Length (ft)
+                      <input
+                        type="number"
+                        value={trailer.length || ''}
+                        onChange={(e) => handleTrailerChange(index, 'length', e.target.value)}
+                        className={`${INPUT_CLASS} mt-1`}
+                        min="0"
+                        step="0.1"
+                      />
+                    </label>
+                    <label className="text-xs text-gray-600 dark:text-gray-400">
+                      Kingpin to axle (ft)
+                      <input
+                        type="number"
+                        value={trailer.kingpinToAxleFt || ''}
+                        onChange={(e) => handleTrailerChange(index, 'kingpinToAxleFt', e.target.value)}
+                        className={`${INPUT_CLASS} mt-1`}
+                        min="0"
+                        step="0.1"
+                      />
+                    </label>
+                    <label className="text-xs text-gray-600 dark:text-gray-400">
+                      Axles
+                      <input
+                        type="number"
+                        value={trailer.axleCount ?? ''}
+                        onChange={(e) => handleTrailerChange(index, 'axleCount', e.target.value)}
+                        className={`${INPUT_CLASS} mt-1`}
+                        min="1"
+                        step="1"
+                      />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => updateTrailers(trailers.filter((_, i) => i !== index))}
+                      className="p-2 mb-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                      title="Remove trailer"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="hazmatClass" className={LABEL_CLASS}>Hazardous materials</label>
+            <select
+              id="hazmatClass"
+              value={vehicle.hazmatClass ?? ''}
+              onChange={(e) => handleHazmatChange(e.target.value)}
+              className={INPUT_CLASS}
+            >
+              <option value="">None</option>
+              {Object.entries(HAZMAT_CLASS_NAMES).map(([hazmatClass, name]) => (
+                <option key={hazmatClass} value={hazmatClass}>
+                  Class {hazmatClass}: {name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {specWarnings.length > 0 && (
+        <div className="mt-4 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700 rounded-lg transition-colors duration-300">
+          {specWarnings.map(warning => (
+            <div key={warning} className="flex items-start gap-2 text-sm text-amber-800 dark:text-amber-300">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {warning}
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg transition-colors duration-300">
         <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Vehicle Summary</h3>
         <div className="grid grid-cols-3 gap-4 text-sm">
@@ -108,6 +357,20 @@ export const VehicleForm: React.FC<VehicleFormProps> = ({ vehicle, onChange }) =
             <span className="text-gray-600 dark:text-gray-400">Width:</span>
             <p className="font-medium text-gray-900 dark:text-white">{vehicle.width || 0}ft</p>
           </div>
+          <div>
+            <span className="text-gray-600 dark:text-gray-400">Weight:</span>
+            <p className="font-medium text-gray-900 dark:text-white">
+              {vehicle.grossWeightLbs !== undefined ? `${vehicle.grossWeightLbs.toLocaleString()} lbs` : 'Typical'}
+            </p>
+          </div>
+          <div>
+            <span className="text-gray-600 dark:text-gray-400">Trailers:</span>
+            <p className="font-medium text-gray-900 dark:text-white">{trailers.length}</p>
+          </div>
+          <div>
+            <span className="text-gray-600 dark:text-gray-400">Hazmat:</span>
+            <p className="font-medium text-gray-900 dark:text-white">{vehicle.hazmatClass !== undefined ? `Class ${vehicle.hazmatClass}` : 'None'}</p>
+          </div>
         </div>
       </div>
       <VehicleClassificationDisplay vehicle={vehicle} />
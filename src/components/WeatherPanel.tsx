@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CloudRain, Upload, CheckCircle, AlertTriangle } from 'lucide-react';
+import { WeatherService, WeatherSourceKind, WeatherStatus } from '../services/weatherService';
+
+interface WeatherPanelProps {
+  /** Called after the source changes so analyzed routes can be re-scored */
+  onChange?: () => Promise<void> | void;
+}
+
+const SOURCE_LABELS: Record<WeatherSourceKind, string> = {
+  off: 'Off',
+  nws: 'National Weather Service',
+  file: 'Local gridpoint file'
+};
+
+export const WeatherPanel: React.FC<WeatherPanelProps> = ({ onChange }) => {
+  const [status, setStatus] = useState<WeatherStatus>(WeatherService.getStatus());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => WeatherService.subscribe(setStatus), []);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      await onChange?.();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSourceChange = async (kind: WeatherSourceKind) => {
+    const current = WeatherService.getSource();
+    WeatherService.setSource({ kind, url: kind === current.kind ? current.url : kind === 'nws' ? 'https://api.weather.gov' : '' });
+    setError(null);
+    await refresh();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      WeatherService.loadFile(await file.text(), file.name);
+      await refresh();
+    } catch (err) {
+      console.error('Failed to load weather file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load weather file');
+    }
+  };
+
+  const { source } = status;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-sky-100 dark:bg-sky-900/50 rounded-lg">
+          <CloudRain className="w-6 h-6 text-sky-600 dark:text-sky-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Weather</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Wind, rain, fog, ice and flood forecasts along the route</p>
+        </div>
+      </div>
+
+      <label className="block text-sm mb-3">
+        <span className="text-gray-600 dark:text-gray-400">Source</span>
+        <select
+          value={source.kind}
+          onChange={e => handleSourceChange(e.target.value as WeatherSourceKind)}
+          disabled={isLoading}
+          className="mt-1 w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        >
+          {(Object.keys(SOURCE_LABELS) as WeatherSourceKind[]).map(kind => (
+            <option key={kind} value={kind}>{SOURCE_LABELS[kind]}</option>
+          ))}
+        </select>
+      </label>
+
+      {source.kind !== 'off' && !status.error && (status.gridCount > 0 ? (
+        <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm">
+          <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+          <div className="text-green-800 dark:text-green-300">
+            <div className="font-medium break-all">{status.fileName ?? `${status.gridCount} forecast grid(s)`}</div>
+            {status.updatedAt && (
+              <div className="text-xs">Forecast updated {new Date(status.updatedAt).toLocaleString()}</div>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          {source.kind === 'nws'
+            ? 'Forecasts are fetched for the route when it is analyzed.'
+            : 'Choose an NWS gridpoint JSON file to stand in for live forecasts.'}
+        </p>
+      ))}
+
+      {(error || status.error) && (
+        <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {error || status.error}
+        </div>
+      )}
+
+      {source.kind === 'file' && (
+        <>
+          <input ref={fileInputRef} type="file" accept=".json,.geojson" onChange={handleFile} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-md border border-sky-300 dark:border-sky-700 text-sky-700 dark:text-sky-300 hover:bg-sky-50 dark:hover:bg-sky-900/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <Upload className="w-4 h-4" />
+            {status.fileName ? 'Load a different file' : 'Load gridpoint file'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Construction, Upload, RefreshCw, Plus, AlertTriangle, X } from 'lucide-react';
+import { FeedFreshness, WorkZoneFeedInfo, WorkZoneService } from '../services/workZoneService';
+
+interface WorkZonePanelProps {
+  /** Called after feeds are added, refreshed or removed so analyzed routes can be re-checked */
+  onChange?: () => void;
+}
+
+const FRESHNESS_STYLES: Record<FeedFreshness, { dot: string; label: string }> = {
+  fresh: { dot: 'bg-green-500', label: 'Fresh' },
+  aging: { dot: 'bg-yellow-500', label: 'Aging' },
+  stale: { dot: 'bg-red-500', label: 'Stale' },
+  unknown: { dot: 'bg-gray-400', label: 'No update date' }
+};
+
+const formatAge = (ms: number) => {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours} h` : `${Math.round(hours / 24)} days`;
+};
+
+export const WorkZonePanel: React.FC<WorkZonePanelProps> = ({ onChange }) => {
+  const [feeds, setFeeds] = useState<WorkZoneFeedInfo[]>(WorkZoneService.getFeeds());
+  const [url, setUrl] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => WorkZoneService.subscribe(setFeeds), []);
+
+  // Keep the feed ages current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const run = async (action: () => Promise<unknown> | unknown, failure: string) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      await action();
+      setNow(new Date());
+      onChange?.();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    await run(async () => WorkZoneService.loadFile(await file.text(), file.name), 'Failed to load work zone feed');
+  };
+
+  const handleAddUrl = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const feedUrl = url.trim();
+    if (!feedUrl) return;
+    await run(async () => {
+      await WorkZoneService.addFeedUrl(feedUrl);
+      setUrl('');
+    }, 'Failed to fetch work zone feed');
+  };
+
+  const hasUrlFeeds = feeds.some(feed => feed.url);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-orange-100 dark:bg-orange-900/50 rounded-lg">
+          <Construction className="w-6 h-6 text-orange-600 dark:text-orange-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Work Zones</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">WZDx feeds, matched to the route geometry</p>
+        </div>
+      </div>
+
+      {feeds.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          No work zone feeds loaded. Add a WZDx feed URL or import a feed file.
+        </p>
+      ) : (
+        <ul className="space-y-2 mb-3">
+          {feeds.map(feed => {
+            const freshness = WorkZoneService.getFreshness(feed, now);
+            const style = FRESHNESS_STYLES[freshness];
+            return (
+              <li key={feed.id} className="flex items-start gap-2 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+                <span className={`w-2.5 h-2.5 mt-1.5 rounded-full flex-shrink-0 ${style.dot}`} title={style.label} />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-gray-900 dark:text-white break-all">{feed.name}</div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                    {feed.workZoneCount} work zone(s) · {feed.updatedAt
+                      ? `updated ${formatAge(now.getTime() - Date.parse(feed.updatedAt))} ago`
+                      : style.label.toLowerCase()}
+                    {feed.url ? ` · fetched ${formatAge(now.getTime() - Date.parse(feed.fetchedAt))} ago` : ' · imported file'}
+                  </div>
+                  {feed.error && (
+                    <div className="text-xs text-red-600 dark:text-red-400">{feed.error}</div>
+                  )}
+                </div>
+                <button
+                  onClick={() => run(() => WorkZoneService.removeFeed(feed.id), 'Failed to remove work zone feed')}
+                  className="p-1 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 transition-colors duration-200"
+                  title="Remove feed"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleAddUrl} className="flex gap-2 mb-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://.../wzdx.geojson"
+          className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-300"
+        />
+        <button
+          type="submit"
+          disabled={isBusy || !url.trim()}
+          className="flex items-center gap-1 px-3 py-2 rounded-md border border-orange-300 dark:border-orange-700 text-orange-700 dark:text-orange-300 hover:bg-orange-50 dark:hover:bg-orange-900/30 disabled:opacity-40 transition-colors duration-200"
+          title="Add feed URL"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </form>
+
+      <input ref={fileInputRef} type="file" accept=".json,.geojson" onChange={handleFile} className="hidden" />
+      <div className="flex gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md border border-orange-300 dark:border-orange-700 text-orange-700 dark:text-orange-300 hover:bg-orange-50 dark:hover:bg-orange-900/30 disabled:opacity-40 transition-colors duration-200"
+        >
+          <Upload className="w-4 h-4" />
+          Import feed
+        </button>
+        {hasUrlFeeds && (
+          <button
+            onClick={() => run(() => WorkZoneService.refresh(), 'Failed to refresh work zone feeds')}
+            disabled={isBusy}
+            className="flex items-center justify-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-colors duration-200"
+            title="Refresh feeds"
+          >
+            <RefreshCw className={`w-4 h-4 ${isBusy ? 'animate-spin' : ''}`} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
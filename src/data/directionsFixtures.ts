@@ -0,0 +1,226 @@
+import { LatLngCoordinates, Route } from '../types';
+import { mockRoutes } from './mockRoutes';
+
+// Recorded Directions responses (Directions web-service JSON) for offline/demo mode.
+// Each fixture is served by the demo routing provider when a request starts nearby.
+
+export interface RecordedDirectionsStep {
+  html_instructions: string;
+  distance: { value: number };
+  duration: { value: number };
+  maneuver?: string;
+  polyline: { points: string };
+}
+
+export interface RecordedDirectionsRoute {
+  summary: string;
+  warnings: string[];
+  legs: {
+    start_address: string;
+    end_address: string;
+    steps: RecordedDirectionsStep[];
+  }[];
+}
+
+export interface DemoPlace {
+  name: string;
+  address: string;
+  location: LatLngCoordinates;
+  aliases: string[];
+}
+
+export interface DirectionsFixture {
+  id: string;
+  name: string;
+  description: string;
+  origin: DemoPlace;
+  destination: DemoPlace;
+  recordedRoutes?: RecordedDirectionsRoute[];
+  appRoutes?: Route[];
+}
+
+export const demoPlaces: DemoPlace[] = [
+  {
+    name: 'Bar Harbor',
+    address: 'Bar Harbor, ME 04609, USA',
+    location: { lat: 44.3876, lng: -68.2039 },
+    aliases: ['bar harbor', 'village green', 'acadia']
+  },
+  {
+    name: 'Northeast Harbor',
+    address: 'Northeast Harbor, ME 04662, USA',
+    location: { lat: 44.2920, lng: -68.2870 },
+    aliases: ['northeast harbor', 'mount desert']
+  },
+  {
+    name: 'Hulls Cove Visitor Center',
+    address: 'Hulls Cove Visitor Center, Bar Harbor, ME 04609, USA',
+    location: { lat: 44.4096, lng: -68.2471 },
+    aliases: ['hulls cove', 'visitor center']
+  },
+  {
+    name: 'Lower Manhattan',
+    address: 'Main St & Broadway, New York, NY 10007, USA',
+    location: { lat: 40.7128, lng: -74.0060 },
+    aliases: ['new york', 'manhattan', 'nyc', 'main street']
+  },
+  {
+    name: 'Industrial Boulevard',
+    address: 'Industrial Blvd, New York, NY 10013, USA',
+    location: { lat: 40.7178, lng: -74.0010 },
+    aliases: ['industrial', 'industrial boulevard', 'industrial blvd']
+  }
+];
+
+const findPlace = (name: string): DemoPlace => demoPlaces.find(place => place.name === name)!;
+
+export const directionsFixtures: DirectionsFixture[] = [
+  {
+    id: 'bar-harbor-northeast-harbor',
+    name: 'Bar Harbor → Northeast Harbor',
+    description: 'Three recorded alternatives across Mount Desert Island, including one with a U-turn',
+    origin: findPlace('Bar Harbor'),
+    destination: findPlace('Northeast Harbor'),
+    recordedRoutes: [
+      {
+        summary: 'ME-233 and ME-198',
+        warnings: [],
+        legs: [
+          {
+            start_address: 'Bar Harbor, ME 04609, USA',
+            end_address: 'Northeast Harbor, ME 04662, USA',
+            steps: [
+              {
+                html_instructions: 'Head <b>west</b> on <b>Mount Desert St</b> toward <b>Kennebec Pl</b>',
+                distance: { value: 706 },
+                duration: { value: 63 },
+                polyline: { points: 'om|mGjah_LvBrXnA~W' }
+              },
+              {
+                html_instructions: 'Turn <b>left</b> onto <b>Eagle Lake Rd</b>/<b>ME-233</b>',
+                distance: { value: 5528 },
+                duration: { value: 275 },
+                maneuver: 'turn-left',
+                polyline: { points: 'gg|mG~si_Lv[~p@~p@fpAfw@v|Afw@~iA' }
+              },
+              {
+                html_instructions: 'Turn <b>left</b> at the traffic light onto <b>ME-198 S</b>',
+                distance: { value: 3824 },
+                duration: { value: 244 },
+                maneuver: 'turn-left',
+                polyline: { points: '_hvmG~_s_LvcAfEf^~p@vGzYvt@zh@' }
+              },
+              {
+                html_instructions: 'Turn <b>right</b> at the stop sign onto <b>Sargeant Dr</b>',
+                distance: { value: 3293 },
+                duration: { value: 295 },
+                maneuver: 'turn-right',
+                polyline: { points: 'oeqmG~|v_Lf^nd@f^~Wv|AnK' }
+              },
+              {
+                html_instructions: 'Turn <b>left</b> onto <b>Main St</b><div style="font-size:0.9em">Destination will be on the right</div>',
+                distance: { value: 1623 },
+                duration: { value: 145 },
+                maneuver: 'turn-left',
+                polyline: { points: 'gilmG~gy_Lvj@oKnd@wQ' }
+              }
+            ]
+          }
+        ]
+      },
+      {
+        summary: 'ME-3 S',
+        warnings: [],
+        legs: [
+          {
+            start_address: 'Bar Harbor, ME 04609, USA',
+            end_address: 'Northeast Harbor, ME 04662, USA',
+            steps: [
+              {
+                html_instructions: 'Head <b>south</b> on <b>Main St</b> toward <b>Cottage St</b>',
+                distance: { value: 2122 },
+                duration: { value: 190 },
+                polyline: { points: 'om|mGjah_Lnn@zEn}@fE' }
+              },
+              {
+                html_instructions: 'Continue onto <b>Otter Creek Dr</b>/<b>ME-3 E</b>',
+                distance: { value: 5492 },
+                duration: { value: 307 },
+                maneuver: 'straight',
+                polyline: { points: 'o_ymGnnh_Lv|AgEzxBcBr`Aja@' }
+              },
+              {
+                html_instructions: 'Turn <b>right</b> onto <b>Peabody Dr</b>/<b>ME-3 W</b>',
+                distance: { value: 5460 },
+                duration: { value: 305 },
+                maneuver: 'turn-right',
+                polyline: { points: 'gfpmGngi_Lv|Av|A~iAv|AnKv|A' }
+              },
+              {
+                html_instructions: 'Turn <b>left</b> onto <b>Harborside Rd</b><div style="font-size:0.9em">Destination will be on the left</div>',
+                distance: { value: 2792 },
+                duration: { value: 208 },
+                maneuver: 'turn-left',
+                polyline: { points: '_qjmGv`r_LnKv|AnKfiB' }
+              }
+            ]
+          }
+        ]
+      },
+      {
+        summary: 'Eden St and ME-198',
+        warnings: [],
+        legs: [
+          {
+            start_address: 'Bar Harbor, ME 04609, USA',
+            end_address: 'Northeast Harbor, ME 04662, USA',
+            steps: [
+              {
+                html_instructions: 'Head <b>east</b> on <b>Cottage St</b> toward <b>Bridge St</b>',
+                distance: { value: 390 },
+                duration: { value: 35 },
+                polyline: { points: 'om|mGjah_L_DbLwBnK' }
+              },
+              {
+                html_instructions: 'Make a <b>U-turn</b> at <b>Bridge St</b>',
+                distance: { value: 84 },
+                duration: { value: 13 },
+                maneuver: 'uturn-left',
+                polyline: { points: 'gv|mG~zh_LnA_D' }
+              },
+              {
+                html_instructions: 'Turn <b>left</b> onto <b>Eden St</b>/<b>ME-3 W</b>',
+                distance: { value: 4293 },
+                duration: { value: 213 },
+                maneuver: 'turn-left',
+                polyline: { points: 'ws|mG~uh_L_g@vo@_q@v|Agh@ziB' }
+              },
+              {
+                html_instructions: 'Turn <b>left</b> onto <b>ME-198 W</b>',
+                distance: { value: 8536 },
+                duration: { value: 424 },
+                maneuver: 'turn-left',
+                polyline: { points: '_w`nGjop_LnyBbkGfmEv|A' }
+              },
+              {
+                html_instructions: 'Continue onto <b>Sound Dr</b>/<b>ME-198 S</b>',
+                distance: { value: 8007 },
+                duration: { value: 448 },
+                maneuver: 'straight',
+                polyline: { points: 'gnvmGfy{_LffFg^~mDgpA' }
+              }
+            ]
+          }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'lower-manhattan-industrial',
+    name: 'Lower Manhattan → Industrial Boulevard',
+    description: 'The sample Main Street and Highway Bypass routes',
+    origin: findPlace('Lower Manhattan'),
+    destination: findPlace('Industrial Boulevard'),
+    appRoutes: mockRoutes
+  }
+];
@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_DRIVER_STATUS, DriverStatus } from '../services/hoursOfServiceService';
+
+const STORAGE_KEY = 'acadia-hos-driver-status';
+
+export const useDriverStatus = () => {
+  const [status, setStatus] = useState<DriverStatus>(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? { ...DEFAULT_DRIVER_STATUS, ...JSON.parse(stored) } : DEFAULT_DRIVER_STATUS;
+    } catch (error) {
+      console.error('Failed to load driver status:', error);
+      return DEFAULT_DRIVER_STATUS;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(status));
+    } catch (error) {
+      console.error('Failed to save driver status:', error);
+    }
+  }, [status]);
+
+  const updateStatus = useCallback(<K extends keyof DriverStatus>(field: K, value: DriverStatus[K]) => {
+    setStatus(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  return { status, updateStatus };
+};
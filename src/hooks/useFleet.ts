@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { FleetVehicle } from '../types';
+
+const STORAGE_KEY = 'acadia-fleet';
+
+const DEFAULT_FLEET: FleetVehicle[] = [
+  { id: 'vehicle-bus-1', name: 'Bus 1', vehicle: { height: 11, length: 40, width: 8.5 }, capacity: 20, shiftHours: 8 },
+  { id: 'vehicle-bus-2', name: 'Bus 2', vehicle: { height: 11, length: 40, width: 8.5 }, capacity: 20, shiftHours: 8 },
+  { id: 'vehicle-box-1', name: 'Box Truck 1', vehicle: { height: 10, length: 24, width: 8 }, capacity: 12, shiftHours: 8 }
+];
+
+export const useFleet = () => {
+  const [fleet, setFleet] = useState<FleetVehicle[]>(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : DEFAULT_FLEET;
+    } catch (error) {
+      console.error('Failed to load fleet:', error);
+      return DEFAULT_FLEET;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(fleet));
+    } catch (error) {
+      console.error('Failed to save fleet:', error);
+    }
+  }, [fleet]);
+
+  const addVehicle = useCallback(() => {
+    setFleet(prev => [
+      ...prev,
+      {
+        id: `vehicle-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        name: `Vehicle ${prev.length + 1}`,
+        vehicle: { height: 10, length: 24, width: 8 },
+        capacity: 12,
+        shiftHours: 8
+      }
+    ]);
+  }, []);
+
+  const updateVehicle = useCallback((id: string, updates: Partial<FleetVehicle>) => {
+    setFleet(prev => prev.map(member => (member.id === id ? { ...member, ...updates } : member)));
+  }, []);
+
+  const removeVehicle = useCallback((id: string) => {
+    setFleet(prev => prev.filter(member => member.id !== id));
+  }, []);
+
+  return { fleet, addVehicle, updateVehicle, removeVehicle };
+};
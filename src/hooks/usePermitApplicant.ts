@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import { EMPTY_APPLICANT, PermitApplicant } from '../services/permitService';
+
+const STORAGE_KEY = 'acadia-permit-applicant';
+
+export const usePermitApplicant = () => {
+  const [applicant, setApplicant] = useState<PermitApplicant>(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? { ...EMPTY_APPLICANT, ...JSON.parse(stored) } : EMPTY_APPLICANT;
+    } catch (error) {
+      console.error('Failed to load permit applicant:', error);
+      return EMPTY_APPLICANT;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(applicant));
+    } catch (error) {
+      console.error('Failed to save permit applicant:', error);
+    }
+  }, [applicant]);
+
+  const updateApplicant = useCallback((field: keyof PermitApplicant, value: string) => {
+    setApplicant(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  return { applicant, updateApplicant };
+};
@@ -0,0 +1,19 @@
+import { useState, useEffect } from 'react';
+import { RoutingProvider, RoutingProviderId } from '../services/routingProvider';
+import { RoutingProviderRegistry } from '../services/routingProviderRegistry';
+
+export const useRoutingProvider = () => {
+  const [provider, setProvider] = useState<RoutingProvider>(() => RoutingProviderRegistry.getActiveProvider());
+
+  useEffect(() => {
+    return RoutingProviderRegistry.subscribe(setProvider);
+  }, []);
+
+  const selectProvider = (id: RoutingProviderId) => RoutingProviderRegistry.setActiveProvider(id);
+
+  return {
+    provider,
+    providers: RoutingProviderRegistry.getProviders(),
+    selectProvider
+  };
+};
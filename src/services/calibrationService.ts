@@ -0,0 +1,400 @@
+import {
+  CalibrationBin,
+  CalibrationReport,
+  ComponentCalibration,
+  LabelledTrip,
+  RiskComponent,
+  RiskModelProfile,
+  Route,
+  RouteSegment,
+  Vehicle
+} from '../types';
+import { RiskCalculator } from '../utils/riskCalculator';
+import { parseCsvRecords } from '../utils/csv';
+import { RiskProfileService } from './riskProfileService';
+import { RiskPipeline } from './riskPipeline';
+
+export interface TripDatasetInfo {
+  name: string;
+  tripCount: number;
+  incidentCount: number;
+}
+
+type TripDatasetListener = (info: TripDatasetInfo | null) => void;
+
+const BIN_WIDTH = 10;
+// Fewer trips or incidents than this give weight suggestions too noisy to act on
+const MIN_TRIPS_FOR_WEIGHTS = 30;
+const MIN_INCIDENTS_FOR_WEIGHTS = 5;
+// Ridge penalty on the standardized component coefficients
+const L2_PENALTY = 0.1;
+const FIT_ITERATIONS = 500;
+// Suggested weights move from the current ones toward the fitted ones by
+// trips / (trips + SHRINKAGE_TRIPS), so small datasets only nudge the profile
+const SHRINKAGE_TRIPS = 100;
+
+// Trips carry a date but no time of day, so stages that depend on when a segment is passed are left out
+const TIME_DEPENDENT_STAGES = ['hazards', 'rush_hour'];
+
+const TRUE_VALUES = ['1', 'y', 'yes', 'true', 'incident'];
+
+function toNumber(value: unknown): number | null {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Area under the ROC curve from the Mann-Whitney statistic: the chance that a trip with
+ * an incident scores above one without, counting ties as half.
+ */
+export function computeAuc(scores: number[], outcomes: boolean[]): number {
+  const ranked = scores.map((score, index) => ({ score, incident: outcomes[index] })).sort((a, b) => a.score - b.score);
+  const positives = ranked.filter(entry => entry.incident).length;
+  const negatives = ranked.length - positives;
+  if (positives === 0 || negatives === 0) return NaN;
+
+  let rankSum = 0;
+  for (let i = 0; i < ranked.length;) {
+    let j = i;
+    while (j < ranked.length && ranked[j].score === ranked[i].score) j++;
+    const averageRank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) {
+      if (ranked[k].incident) rankSum += averageRank;
+    }
+    i = j;
+  }
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+/**
+ * Logistic regression by gradient descent with an L2 penalty on the coefficients (not
+ * the intercept). Features should be on comparable scales.
+ */
+function fitLogistic(features: number[][], outcomes: boolean[], penalty: number): { intercept: number; coefficients: number[] } {
+  const count = features.length;
+  const dimensions = features[0]?.length ?? 0;
+  let intercept = 0;
+  const coefficients = new Array<number>(dimensions).fill(0);
+  const learningRate = 0.5;
+
+  for (let iteration = 0; iteration < FIT_ITERATIONS; iteration++) {
+    let interceptGradient = 0;
+    const gradient = new Array<number>(dimensions).fill(0);
+    features.forEach((row, index) => {
+      const predicted = sigmoid(intercept + row.reduce((sum, value, d) => sum + value * coefficients[d], 0));
+      const error = predicted - (outcomes[index] ? 1 : 0);
+      interceptGradient += error;
+      row.forEach((value, d) => {
+        gradient[d] += error * value;
+      });
+    });
+    intercept -= (learningRate * interceptGradient) / count;
+    coefficients.forEach((coefficient, d) => {
+      coefficients[d] -= learningRate * (gradient[d] / count + penalty * coefficient);
+    });
+  }
+  return { intercept, coefficients };
+}
+
+/**
+ * Backtests risk-model profiles against past trips with known outcomes: how well route
+ * scores separate trips that had an incident (AUC), how scores map to incident rates
+ * (a logistic calibration curve), and which component weights the outcomes support.
+ */
+export class CalibrationService {
+  private static trips: LabelledTrip[] = [];
+  private static info: TripDatasetInfo | null = null;
+  private static listeners = new Set<TripDatasetListener>();
+
+  static getInfo(): TripDatasetInfo | null {
+    return this.info;
+  }
+
+  static getTrips(): LabelledTrip[] {
+    return this.trips;
+  }
+
+  static subscribe(listener: TripDatasetListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replace the labelled trips with those in a JSON or CSV file. JSON is a list of
+   * trips (or { trips: [...] }), each with id, incident, vehicle and a route or its
+   * segments. CSV has one row per segment: trip_id, incident, start_lat, start_lng,
+   * end_lat, end_lng, street_name, instruction and vehicle_length, vehicle_width,
+   * vehicle_height (and optionally vehicle_weight_lbs, date) on every row.
+   */
+  static loadFile(text: string, name: string): number {
+    const trips = text.trimStart().match(/^[[{]/) ? this.parseJson(text) : this.parseCsv(text);
+    if (trips.length === 0) {
+      throw new Error('No trips with a vehicle, route segments and an outcome found in the file');
+    }
+    this.trips = trips;
+    this.info = { name, tripCount: trips.length, incidentCount: trips.filter(trip => trip.incident).length };
+    this.listeners.forEach(listener => listener(this.info));
+    console.log(`📈 Loaded ${trips.length} labelled trips from ${name}`);
+    return trips.length;
+  }
+
+  /**
+   * Re-score every loaded trip under the profile and compare scores with outcomes.
+   */
+  static run(profile: RiskModelProfile, trips: LabelledTrip[] = this.trips): CalibrationReport {
+    if (trips.length === 0) {
+      throw new Error('Load labelled trips before running a backtest');
+    }
+    const incidentCount = trips.filter(trip => trip.incident).length;
+    if (incidentCount === 0 || incidentCount === trips.length) {
+      throw new Error('Backtesting needs trips both with and without incidents');
+    }
+
+    const outcomes = trips.map(trip => trip.incident);
+    const scored = trips.map(trip => this.scoreTrip(trip, profile));
+    const scores = scored.map(result => result.risk);
+
+    // Platt scaling: fit P(incident) to the score, per 10 points so the fit is well scaled
+    const platt = fitLogistic(scores.map(score => [score / 10]), outcomes, 0);
+    const calibration = { intercept: platt.intercept, slope: platt.coefficients[0] / 10 };
+    const predict = (score: number) => sigmoid(calibration.intercept + calibration.slope * score);
+    const brierScore = scores.reduce((sum, score, index) => sum + (predict(score) - (outcomes[index] ? 1 : 0)) ** 2, 0) / scores.length;
+
+    const components = Object.keys(profile.weights) as RiskComponent[];
+    const componentRisks = components.map(component => scored.map(result => result.componentRisks[component]));
+    const componentReports: ComponentCalibration[] = components.map((component, c) => {
+      const risks = componentRisks[c];
+      const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+      return {
+        component,
+        label: RiskCalculator.getComponentLabel(component),
+        auc: round3(computeAuc(risks, outcomes)),
+        meanRiskIncident: Math.round(mean(risks.filter((_, index) => outcomes[index])) * 10) / 10,
+        meanRiskNoIncident: Math.round(mean(risks.filter((_, index) => !outcomes[index])) * 10) / 10,
+        currentWeight: profile.weights[component]
+      };
+    });
+
+    const suggestionNote = this.suggestWeights(profile, componentRisks, outcomes, componentReports);
+
+    return {
+      model: RiskProfileService.toRef(profile),
+      dataset: this.info?.name ?? 'trips',
+      generatedAt: new Date().toISOString(),
+      tripCount: trips.length,
+      incidentCount,
+      auc: round3(computeAuc(scores, outcomes)),
+      brierScore: round3(brierScore),
+      calibration: { intercept: round3(calibration.intercept), slope: round3(calibration.slope) },
+      bins: this.buildBins(scores, outcomes, predict),
+      components: componentReports,
+      suggestionNote
+    };
+  }
+
+  /**
+   * Route score under the profile, with each component's unweighted risk averaged over
+   * the segments
+   */
+  private static scoreTrip(trip: LabelledTrip, profile: RiskModelProfile): {
+    risk: number;
+    componentRisks: Record<RiskComponent, number>;
+  } {
+    const result = RiskPipeline.run(trip.route, trip.vehicle, trip.date ? new Date(trip.date) : undefined, {
+      profile,
+      exclude: TIME_DEPENDENT_STAGES
+    });
+    const componentRisks = Object.fromEntries(
+      (Object.keys(profile.weights) as RiskComponent[]).map(component => [component, 0])
+    ) as Record<RiskComponent, number>;
+    result.segments.forEach(state => state.breakdown?.components.forEach(trace => {
+      componentRisks[trace.component] += trace.risk / result.segments.length;
+    }));
+    return { risk: result.overallRisk, componentRisks };
+  }
+
+  /**
+   * The profile with the report's suggested weights, ready to save as a new version.
+   */
+  static applySuggestedWeights(profile: RiskModelProfile, report: CalibrationReport): RiskModelProfile {
+    if (report.model.profileId !== profile.id) {
+      throw new Error(`The backtest was run for "${report.model.profileName}", not "${profile.name}"`);
+    }
+    if (report.components.some(component => component.suggestedWeight === undefined)) {
+      throw new Error(report.suggestionNote ?? 'The backtest has no suggested weights');
+    }
+    const weights = { ...profile.weights };
+    report.components.forEach(component => {
+      weights[component.component] = component.suggestedWeight ?? weights[component.component];
+    });
+    return { ...profile, weights };
+  }
+
+  static exportReport(report: CalibrationReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  private static buildBins(scores: number[], outcomes: boolean[], predict: (score: number) => number): CalibrationBin[] {
+    const bins: CalibrationBin[] = [];
+    for (let lower = 0; lower < 100; lower += BIN_WIDTH) {
+      const upper = lower + BIN_WIDTH;
+      // The last bin includes 100
+      const members = scores
+        .map((score, index) => ({ score, incident: outcomes[index] }))
+        .filter(({ score }) => score >= lower && (score < upper || (upper === 100 && score <= 100)));
+      if (members.length === 0) continue;
+      const incidentCount = members.filter(member => member.incident).length;
+      const meanScore = members.reduce((sum, member) => sum + member.score, 0) / members.length;
+      bins.push({
+        lower,
+        upper,
+        tripCount: members.length,
+        incidentCount,
+        meanScore: Math.round(meanScore * 10) / 10,
+        observedRate: round3(incidentCount / members.length),
+        predictedRate: round3(predict(meanScore))
+      });
+    }
+    return bins;
+  }
+
+  /**
+   * Fit incidents to the standardized component risks and turn the coefficients into
+   * weights: negative ones become 0, and the rest are rescaled so the weights keep the
+   * profile's current total. The suggestion is shrunk toward the current weights.
+   * Returns why suggestions were withheld, if they were.
+   */
+  private static suggestWeights(
+    profile: RiskModelProfile,
+    componentRisks: number[][],
+    outcomes: boolean[],
+    reports: ComponentCalibration[]
+  ): string | undefined {
+    const incidents = outcomes.filter(Boolean).length;
+    if (outcomes.length < MIN_TRIPS_FOR_WEIGHTS || incidents < MIN_INCIDENTS_FOR_WEIGHTS) {
+      return `Weight suggestions need at least ${MIN_TRIPS_FOR_WEIGHTS} trips and ${MIN_INCIDENTS_FOR_WEIGHTS} incidents`;
+    }
+
+    const stats = componentRisks.map(risks => {
+      const mean = risks.reduce((sum, value) => sum + value, 0) / risks.length;
+      const sd = Math.sqrt(risks.reduce((sum, value) => sum + (value - mean) ** 2, 0) / risks.length);
+      return { mean, sd };
+    });
+    const features = outcomes.map((_, trip) =>
+      componentRisks.map((risks, c) => (stats[c].sd > 0 ? (risks[trip] - stats[c].mean) / stats[c].sd : 0)));
+    const { coefficients } = fitLogistic(features, outcomes, L2_PENALTY);
+
+    // Back to effect per point of component risk; components that never vary get no weight
+    const effects = coefficients.map((coefficient, c) => (stats[c].sd > 0 ? Math.max(coefficient / stats[c].sd, 0) : 0));
+    const effectTotal = effects.reduce((sum, value) => sum + value, 0);
+    if (effectTotal === 0) {
+      return 'No component was associated with more incidents, so the current weights are kept';
+    }
+    const weightTotal = Object.values(profile.weights).reduce((sum, value) => sum + value, 0);
+    const evidence = outcomes.length / (outcomes.length + SHRINKAGE_TRIPS);
+    reports.forEach((report, c) => {
+      const fitted = (effects[c] / effectTotal) * weightTotal;
+      const suggested = report.currentWeight + (fitted - report.currentWeight) * evidence;
+      report.suggestedWeight = Math.min(Math.round(suggested * 100) / 100, 1);
+    });
+    return undefined;
+  }
+
+  private static parseJson(text: string): LabelledTrip[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('Trip file is not valid JSON');
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { trips?: unknown }).trips;
+    if (!Array.isArray(list)) {
+      throw new Error('Trip JSON must be a list of trips or { "trips": [...] }');
+    }
+    return list.flatMap((entry, index) => {
+      const record = entry as Record<string, unknown>;
+      const vehicle = record.vehicle as Vehicle | undefined;
+      const route = record.route as Route | undefined;
+      const segments = (route?.segments ?? record.segments) as Partial<RouteSegment>[] | undefined;
+      if (!vehicle || !toNumber(vehicle.length) || !Array.isArray(segments) || segments.length === 0) return [];
+      const id = String(record.id ?? `trip-${index + 1}`);
+      return [{
+        id,
+        route: this.toRoute(id, segments.map((segment, position) => this.toSegment(segment, id, position))),
+        vehicle,
+        incident: record.incident === true || TRUE_VALUES.includes(String(record.incident).toLowerCase()),
+        date: record.date ? String(record.date) : undefined
+      }];
+    });
+  }
+
+  private static parseCsv(text: string): LabelledTrip[] {
+    const rows = new Map<string, Record<string, string>[]>();
+    parseCsvRecords(text).forEach(record => {
+      const id = record.trip_id || record.id;
+      if (!id) return;
+      const list = rows.get(id);
+      if (list) list.push(record);
+      else rows.set(id, [record]);
+    });
+
+    return Array.from(rows, ([id, records]) => {
+      const first = records[0];
+      const length = toNumber(first.vehicle_length);
+      const width = toNumber(first.vehicle_width);
+      const height = toNumber(first.vehicle_height);
+      if (length === null || width === null || height === null) return null;
+      const weight = toNumber(first.vehicle_weight_lbs);
+      const segments = records
+        .map((record, position) => {
+          const startLat = toNumber(record.start_lat);
+          const startLng = toNumber(record.start_lng);
+          const endLat = toNumber(record.end_lat);
+          const endLng = toNumber(record.end_lng);
+          if (startLat === null || startLng === null || endLat === null || endLng === null) return null;
+          const streetName = record.street_name || record.instruction || '';
+          return this.toSegment({ startLat, startLng, endLat, endLng, streetName, description: record.instruction || streetName }, id, position);
+        })
+        .filter((segment): segment is RouteSegment => segment !== null);
+      if (segments.length === 0) return null;
+      const trip: LabelledTrip = {
+        id,
+        route: this.toRoute(id, segments),
+        vehicle: { length, width, height, grossWeightLbs: weight ?? undefined },
+        incident: records.some(record => TRUE_VALUES.includes((record.incident ?? '').toLowerCase())),
+        date: first.date || undefined
+      };
+      return trip;
+    }).filter((trip): trip is LabelledTrip => trip !== null);
+  }
+
+  // Risk factors are filled in from road data or street-name defaults when scored
+  private static toSegment(segment: Partial<RouteSegment>, tripId: string, position: number): RouteSegment {
+    return {
+      id: segment.id ?? `${tripId}-${position}`,
+      startLat: Number(segment.startLat),
+      startLng: Number(segment.startLng),
+      endLat: Number(segment.endLat),
+      endLng: Number(segment.endLng),
+      streetName: segment.streetName ?? '',
+      description: segment.description ?? segment.streetName ?? '',
+      riskScore: 0,
+      riskFactors: segment.riskFactors ?? { pedestrianTraffic: 0, roadWidth: 0, trafficCongestion: 0, speedLimit: 0, heightRestriction: 0 },
+      path: segment.path,
+      turnType: segment.turnType,
+      intersectionType: segment.intersectionType
+    };
+  }
+
+  private static toRoute(id: string, segments: RouteSegment[]): Route {
+    return { id, name: id, segments, totalDistance: 0, estimatedTime: 0, overallRisk: 0, criticalPoints: [] };
+  }
+}
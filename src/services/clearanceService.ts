@@ -0,0 +1,416 @@
+import {
+  ClearanceConflict,
+  ClearanceStructure,
+  LatLngCoordinates,
+  Route,
+  RouteSegment,
+  TruckRouteRestriction,
+  Vehicle
+} from '../types';
+import bundledStructures from '../data/clearanceStructures.json';
+import { bearingDegrees, parseDimensionFeet } from './osmRoadGraph';
+import { VehicleClassificationService } from './vehicleClassificationService';
+import { getPathBounds, getSegmentPath } from '../utils/routeGeometry';
+import { parseCsvRecords } from '../utils/csv';
+
+export interface ClearanceDatabaseInfo {
+  name: string;
+  structureCount: number;
+  bundled: boolean;
+}
+
+type ClearanceListener = (info: ClearanceDatabaseInfo) => void;
+
+const MARGIN_STORAGE_KEY = 'acadia-clearance-margin';
+const DEFAULT_SAFETY_MARGIN_FT = 0.5;
+const CELL_DEGREES = 0.01;
+// A structure this close to the route geometry is on the route
+const MATCH_RADIUS_METERS = 30;
+// Line geometry must run within this many degrees of the route (either way)
+const MAX_BEARING_DIFFERENCE = 30;
+const METERS_TO_FEET = 3.28084;
+const METRIC_TONNES_TO_TONS = 1.10231;
+// NBI codes clearances of 99.99 m (and anything implausibly high) as unlimited
+const MAX_CLEARANCE_METERS = 30;
+
+const ROUTE_PREFIXES = /\b(?:i|interstate|us|sr|state route|hwy|highway|route|[a-z]{2})[\s-]*(\d+[a-z]?)\b/g;
+const GENERIC_ROAD_WORDS = new Set(['street', 'st', 'road', 'rd', 'avenue', 'ave', 'drive', 'dr', 'lane', 'ln',
+  'boulevard', 'blvd', 'highway', 'hwy', 'route', 'onto', 'continue', 'turn', 'left', 'right', 'north', 'south',
+  'east', 'west', 'the', 'and', 'over']);
+
+/**
+ * NBI coordinates are degrees, minutes and hundredths of seconds packed into digits:
+ * LAT_016 "30412345" is 30°41'23.45", LONG_017 "092153012" is 92°15'30.12" west.
+ */
+function parseNbiCoordinate(value: string, degreeDigits: number): number | null {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < degreeDigits + 4) return null;
+  const degrees = Number(digits.slice(0, degreeDigits));
+  const minutes = Number(digits.slice(degreeDigits, degreeDigits + 2));
+  const seconds = Number(digits.slice(degreeDigits + 2)) / 100;
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  return Number.isFinite(decimal) && decimal > 0 ? decimal : null;
+}
+
+function toNumber(value: unknown): number | null {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Route numbers ("10" from "I-10 E") and distinctive words, for comparing road names
+function roadNameKeys(name: string): Set<string> {
+  const lower = name.toLowerCase();
+  const keys = new Set<string>();
+  for (const match of lower.matchAll(ROUTE_PREFIXES)) keys.add(`#${match[1]}`);
+  if (keys.size > 0) return keys;
+  lower.split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !GENERIC_ROAD_WORDS.has(word))
+    .forEach(word => keys.add(word));
+  return keys;
+}
+
+function buildGrid(structures: ClearanceStructure[]): Map<string, number[]> {
+  const grid = new Map<string, number[]>();
+  structures.forEach((structure, index) => {
+    const points = structure.alignment && structure.alignment.length > 0 ? structure.alignment : [structure.location];
+    const cells = new Set(points.map(point => `${Math.floor(point.lat / CELL_DEGREES)},${Math.floor(point.lng / CELL_DEGREES)}`));
+    cells.forEach(cell => {
+      const list = grid.get(cell);
+      if (list) list.push(index);
+      else grid.set(cell, [index]);
+    });
+  });
+  return grid;
+}
+
+const BUNDLED_STRUCTURES = bundledStructures.structures as ClearanceStructure[];
+
+/**
+ * Bridge and overpass clearances from an NBI-style database, held in a grid index and
+ * intersected with route geometry. A structure is on a segment when it lies within
+ * MATCH_RADIUS_METERS of the segment's path and, where the record says which road the
+ * clearance applies to, the segment runs along that road (by line bearing or by name).
+ * Until a file is imported, a small bundled set of examples is used.
+ */
+export class ClearanceService {
+  private static structures = BUNDLED_STRUCTURES;
+  private static grid = buildGrid(BUNDLED_STRUCTURES);
+  private static info: ClearanceDatabaseInfo = { name: bundledStructures.name, structureCount: BUNDLED_STRUCTURES.length, bundled: true };
+  private static loadedUrl: string | null = null;
+  private static listeners = new Set<ClearanceListener>();
+
+  static getInfo(): ClearanceDatabaseInfo {
+    return this.info;
+  }
+
+  static getStructures(): ClearanceStructure[] {
+    return this.structures;
+  }
+
+  static subscribe(listener: ClearanceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Feet added to the vehicle's height before comparing it with posted clearances, for
+   * load shift, suspension travel, resurfacing and snow.
+   */
+  static getSafetyMarginFt(): number {
+    const stored = toNumber(localStorage.getItem(MARGIN_STORAGE_KEY));
+    return stored !== null && stored >= 0 ? stored : DEFAULT_SAFETY_MARGIN_FT;
+  }
+
+  static setSafetyMarginFt(marginFt: number): void {
+    if (!Number.isFinite(marginFt) || marginFt < 0) {
+      throw new Error('Safety margin must be zero or more feet');
+    }
+    localStorage.setItem(MARGIN_STORAGE_KEY, String(marginFt));
+    this.notify();
+  }
+
+  /**
+   * Replace the database with the structures in an NBI delimited file, a simple CSV
+   * (id, name, lat, lng, clearance_ft, ...) or a GeoJSON FeatureCollection.
+   */
+  static loadFile(text: string, name: string): number {
+    const structures = text.trimStart().startsWith('{') ? this.parseGeoJson(text) : this.parseCsv(text);
+    if (structures.length === 0) {
+      throw new Error('No structures with a location and posted clearance found in the file');
+    }
+    this.setStructures(structures, name, false);
+    console.log(`🌉 Loaded ${structures.length} clearance structures from ${name}`);
+    return structures.length;
+  }
+
+  static resetToBundled(): void {
+    this.setStructures(BUNDLED_STRUCTURES, bundledStructures.name, true);
+  }
+
+  /**
+   * Download the database configured with VITE_CLEARANCE_URL, once. Failures are logged
+   * and the current database is kept.
+   */
+  static async ensureLoaded(): Promise<void> {
+    const url = import.meta.env?.VITE_CLEARANCE_URL as string | undefined;
+    if (!url || this.loadedUrl === url || !this.info.bundled) return;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Clearance database request failed (${response.status})`);
+      this.loadFile(await response.text(), url.split('/').pop() || url);
+      this.loadedUrl = url;
+    } catch (error) {
+      console.error('Failed to load clearance database:', error);
+    }
+  }
+
+  /**
+   * Structures whose clearance applies to the segment's road.
+   */
+  static findOnSegment(segment: RouteSegment): ClearanceStructure[] {
+    const path = getSegmentPath(segment);
+    const bounds = getPathBounds(path);
+    if (!bounds || this.structures.length === 0) return [];
+
+    const candidates = new Set<number>();
+    const minLat = Math.floor(bounds.south / CELL_DEGREES) - 1;
+    const maxLat = Math.floor(bounds.north / CELL_DEGREES) + 1;
+    const minLng = Math.floor(bounds.west / CELL_DEGREES) - 1;
+    const maxLng = Math.floor(bounds.east / CELL_DEGREES) + 1;
+    for (let lat = minLat; lat <= maxLat; lat++) {
+      for (let lng = minLng; lng <= maxLng; lng++) {
+        this.grid.get(`${lat},${lng}`)?.forEach(index => candidates.add(index));
+      }
+    }
+
+    return Array.from(candidates)
+      .map(index => this.structures[index])
+      .filter(structure => {
+        const nearest = this.nearestOnPath(structure.location, path);
+        if (!nearest || nearest.distance > MATCH_RADIUS_METERS) return false;
+        if (structure.alignment && structure.alignment.length > 1) {
+          const alignmentBearing = this.bearingNear(structure.alignment, structure.location);
+          const difference = Math.abs(((nearest.bearing - alignmentBearing + 540) % 360) - 180);
+          return Math.min(difference, 180 - difference) <= MAX_BEARING_DIFFERENCE;
+        }
+        if (structure.roadway && segment.streetName) {
+          const segmentKeys = roadNameKeys(segment.streetName);
+          const roadwayKeys = roadNameKeys(structure.roadway);
+          if (segmentKeys.size > 0 && roadwayKeys.size > 0) {
+            return Array.from(roadwayKeys).some(key => segmentKeys.has(key));
+          }
+        }
+        return true;
+      });
+  }
+
+  /**
+   * Lowest clearance applying to the segment, or null when it passes under nothing in
+   * the database.
+   */
+  static getLowestClearance(segment: RouteSegment): ClearanceStructure | null {
+    return this.findOnSegment(segment)
+      .reduce<ClearanceStructure | null>((lowest, structure) =>
+        !lowest || structure.clearanceFt < lowest.clearanceFt ? structure : lowest, null);
+  }
+
+  /**
+   * Structures on the segments that the vehicle cannot pass: too tall once the safety
+   * margin is added, or heavier than a posted weight limit.
+   */
+  static checkSegments(segments: RouteSegment[], vehicle: Vehicle): ClearanceConflict[] {
+    const requiredFt = Math.round((vehicle.height + this.getSafetyMarginFt()) * 100) / 100;
+    const weightTons = Math.round(VehicleClassificationService.getGrossWeightTons(vehicle) * 10) / 10;
+    const conflicts: ClearanceConflict[] = [];
+    segments.forEach((segment, position) => {
+      this.findOnSegment(segment).forEach(structure => {
+        if (requiredFt > structure.clearanceFt) {
+          conflicts.push({ structure, segmentId: segment.id, position, type: 'height', limit: structure.clearanceFt, required: requiredFt });
+        }
+        if (structure.maxWeightTons !== undefined && weightTons > structure.maxWeightTons) {
+          conflicts.push({ structure, segmentId: segment.id, position, type: 'weight', limit: structure.maxWeightTons, required: weightTons });
+        }
+      });
+    });
+    return conflicts;
+  }
+
+  static checkRoute(route: Route, vehicle: Vehicle): ClearanceConflict[] {
+    return this.checkSegments(route.segments, vehicle);
+  }
+
+  static describeConflict(conflict: ClearanceConflict): string {
+    const { structure } = conflict;
+    const where = `${structure.name} (${structure.id}) at ${structure.location.lat.toFixed(5)}, ${structure.location.lng.toFixed(5)}`;
+    return conflict.type === 'height'
+      ? `${where}: ${conflict.limit}ft posted clearance, vehicle needs ${conflict.required}ft including the ${this.getSafetyMarginFt()}ft safety margin`
+      : `${where}: ${conflict.limit}-ton posted limit, vehicle weighs ${conflict.required} tons`;
+  }
+
+  static toRestriction(conflict: ClearanceConflict): TruckRouteRestriction {
+    return {
+      type: conflict.structure.kind === 'tunnel' ? 'tunnel' : 'bridge',
+      value: conflict.limit,
+      description: this.describeConflict(conflict),
+      severity: 'prohibition',
+      source: 'FHWA',
+      coordinates: conflict.structure.location,
+      structureId: conflict.structure.id
+    };
+  }
+
+  private static setStructures(structures: ClearanceStructure[], name: string, bundled: boolean): void {
+    this.structures = structures;
+    this.grid = buildGrid(structures);
+    this.info = { name, structureCount: structures.length, bundled };
+    this.notify();
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener(this.info));
+  }
+
+  private static parseCsv(text: string): ClearanceStructure[] {
+    const records = parseCsvRecords(text);
+    const isNbi = records.length > 0 && 'structure_number_008' in records[0];
+    return records.flatMap((record, index) =>
+      isNbi ? this.fromNbiRow(column => record[column.toLowerCase()] ?? '') : this.fromRecord(record, `row-${index + 1}`)
+    );
+  }
+
+  /**
+   * One NBI record can restrict two roads: the highway beneath it (VERT_CLR_UND_054B,
+   * when VERT_CLR_UND_REF_054A is "H") and the road it carries, under truss members or
+   * signs (MIN_VERT_CLR_010). Clearances are in metres; the operating rating (item 64,
+   * metric tonnes) is the weight limit on the carried road.
+   */
+  private static fromNbiRow(row: (column: string) => string): ClearanceStructure[] {
+    const lat = parseNbiCoordinate(row('LAT_016'), 2);
+    const lng = parseNbiCoordinate(row('LONG_017'), 3);
+    if (lat === null || lng === null) return [];
+
+    const id = row('STRUCTURE_NUMBER_008') || `${lat},${lng}`;
+    const carried = row('FACILITY_CARRIED_007');
+    const crossed = row('FEATURES_DESC_006A');
+    const locationText = row('LOCATION_009');
+    const state = row('STATE_CODE_001') || undefined;
+    const base = { location: { lat, lng: -lng }, state };
+    const suffix = locationText ? ` (${locationText})` : '';
+    const structures: ClearanceStructure[] = [];
+
+    const under = toNumber(row('VERT_CLR_UND_054B'));
+    if (row('VERT_CLR_UND_REF_054A').toUpperCase() === 'H' && under !== null && under > 0 && under < MAX_CLEARANCE_METERS) {
+      structures.push({
+        ...base,
+        id,
+        name: `${carried || 'Structure'} over ${crossed || 'highway'}${suffix}`,
+        kind: 'overpass',
+        roadway: crossed || undefined,
+        clearanceFt: Math.round(under * METERS_TO_FEET * 10) / 10
+      });
+    }
+
+    const onDeck = toNumber(row('MIN_VERT_CLR_010'));
+    const rating = toNumber(row('OPERATING_RATING_064'));
+    const limitedHeight = onDeck !== null && onDeck > 0 && onDeck < MAX_CLEARANCE_METERS;
+    if (limitedHeight || (rating !== null && rating > 0)) {
+      structures.push({
+        ...base,
+        id: structures.length > 0 ? `${id}-deck` : id,
+        name: `${carried || 'Bridge'} bridge over ${crossed || 'feature'}${suffix}`,
+        kind: 'bridge',
+        roadway: carried || undefined,
+        clearanceFt: limitedHeight ? Math.round(onDeck * METERS_TO_FEET * 10) / 10 : Infinity,
+        maxWeightTons: rating !== null && rating > 0 ? Math.round(rating * METRIC_TONNES_TO_TONS * 10) / 10 : undefined
+      });
+    }
+    return structures;
+  }
+
+  /**
+   * A simple CSV row or GeoJSON properties: id, name, kind, roadway, state, clearance as
+   * clearance_ft, clearance_m or an OSM-style maxheight, and max_weight_tons.
+   */
+  private static fromRecord(
+    record: Record<string, unknown>,
+    fallbackId: string,
+    geometry?: { location: LatLngCoordinates; alignment?: LatLngCoordinates[] }
+  ): ClearanceStructure[] {
+    const lat = toNumber(record.lat ?? record.latitude);
+    const lng = toNumber(record.lng ?? record.lon ?? record.longitude);
+    const location = geometry?.location ?? (lat !== null && lng !== null ? { lat, lng } : null);
+    const clearanceM = toNumber(record.clearance_m);
+    const clearanceFt = toNumber(record.clearance_ft) ??
+      (clearanceM !== null ? clearanceM * METERS_TO_FEET : parseDimensionFeet(String(record.maxheight ?? '')));
+    const maxWeightTons = toNumber(record.max_weight_tons);
+    if (!location || ((clearanceFt === null || clearanceFt <= 0) && maxWeightTons === null)) return [];
+
+    const kind = String(record.kind ?? record.type ?? '').toLowerCase();
+    return [{
+      id: String(record.id ?? record.structure_id ?? fallbackId),
+      name: String(record.name ?? record.id ?? 'Unnamed structure'),
+      kind: kind === 'overpass' || kind === 'tunnel' ? kind : 'bridge',
+      location,
+      alignment: geometry?.alignment,
+      roadway: record.roadway ? String(record.roadway) : undefined,
+      clearanceFt: clearanceFt !== null && clearanceFt > 0 ? Math.round(clearanceFt * 10) / 10 : Infinity,
+      maxWeightTons: maxWeightTons ?? undefined,
+      state: record.state ? String(record.state) : undefined
+    }];
+  }
+
+  /**
+   * Point features mark a structure; LineString features are the roadway the clearance
+   * applies to, matched to route segments travelling along it.
+   */
+  private static parseGeoJson(text: string): ClearanceStructure[] {
+    const parsed = JSON.parse(text) as {
+      features?: { geometry?: { type: string; coordinates: unknown }; properties?: Record<string, unknown> }[];
+    };
+    if (!Array.isArray(parsed.features)) {
+      throw new Error('Clearance GeoJSON must be a FeatureCollection');
+    }
+    return parsed.features.flatMap((feature, index) => {
+      const { geometry, properties = {} } = feature;
+      if (geometry?.type === 'Point') {
+        const [lng, lat] = geometry.coordinates as number[];
+        return this.fromRecord(properties, `feature-${index + 1}`, { location: { lat, lng } });
+      }
+      if (geometry?.type === 'LineString') {
+        const alignment = (geometry.coordinates as number[][]).map(([lng, lat]) => ({ lat, lng }));
+        if (alignment.length < 2) return [];
+        return this.fromRecord(properties, `feature-${index + 1}`, { location: alignment[Math.floor(alignment.length / 2)], alignment });
+      }
+      return [];
+    });
+  }
+
+  // Distance in metres from a point to a path, with the path's bearing at the closest spot
+  private static nearestOnPath(point: LatLngCoordinates, path: LatLngCoordinates[]): { distance: number; bearing: number } | null {
+    if (path.length < 2) return null;
+    const metersPerDegLat = 111320;
+    const metersPerDegLng = 111320 * Math.cos((point.lat * Math.PI) / 180);
+    let best: { distance: number; bearing: number } | null = null;
+    for (let i = 1; i < path.length; i++) {
+      const a = path[i - 1];
+      const b = path[i];
+      // Local flat projection in metres around the point
+      const ax = (a.lng - point.lng) * metersPerDegLng;
+      const ay = (a.lat - point.lat) * metersPerDegLat;
+      const dx = (b.lng - a.lng) * metersPerDegLng;
+      const dy = (b.lat - a.lat) * metersPerDegLat;
+      const lengthSquared = dx * dx + dy * dy;
+      if (lengthSquared === 0) continue;
+      const t = Math.min(Math.max(-(ax * dx + ay * dy) / lengthSquared, 0), 1);
+      const distance = Math.hypot(ax + t * dx, ay + t * dy);
+      if (!best || distance < best.distance) best = { distance, bearing: bearingDegrees(a, b) };
+    }
+    return best;
+  }
+
+  private static bearingNear(line: LatLngCoordinates[], point: LatLngCoordinates): number {
+    return this.nearestOnPath(point, line)?.bearing ?? bearingDegrees(line[0], line[line.length - 1]);
+  }
+}
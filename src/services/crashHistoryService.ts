@@ -0,0 +1,389 @@
+import { CrashCluster, CrashRecord, CrashSeverity, CrashStats, LatLngCoordinates, RouteSegment, SegmentCrashHistory } from '../types';
+import { getPathBounds, getSegmentPath } from '../utils/routeGeometry';
+import { parseCsvRecords } from '../utils/csv';
+
+export interface CrashHistoryInfo {
+  name: string;
+  crashCount: number;
+  largeVehicleCount: number;
+  firstYear?: number;
+  lastYear?: number;
+  years: number;
+  loaded: boolean;
+}
+
+type CrashHistoryListener = (info: CrashHistoryInfo) => void;
+
+const CELL_DEGREES = 0.005;
+// A crash this close to the segment's path happened on it
+const SEGMENT_RADIUS_METERS = 30;
+// A crash this close to where the segment starts happened at the intersection
+const INTERSECTION_RADIUS_METERS = 40;
+// Crashes this close to each other form a cluster when there are enough of them
+const CLUSTER_RADIUS_METERS = 75;
+const MIN_CLUSTER_CRASHES = 3;
+// Typical span of a state DOT crash extract, used when records have no dates
+const DEFAULT_PERIOD_YEARS = 5;
+const METERS_PER_MILE = 1609.34;
+
+/**
+ * Equivalent property-damage-only crashes per crash of each severity (a simplified
+ * EPDO scale), so one fatal crash counts for more than several fender benders.
+ */
+export const CRASH_SEVERITY_WEIGHTS: Record<CrashSeverity, number> = {
+  fatal: 10,
+  serious_injury: 5,
+  minor_injury: 2,
+  possible_injury: 1.5,
+  property_damage: 1
+};
+
+// KABCO codes used by state crash reports
+const KABCO: Record<string, CrashSeverity> = {
+  k: 'fatal',
+  a: 'serious_injury',
+  b: 'minor_injury',
+  c: 'possible_injury',
+  o: 'property_damage'
+};
+
+const LARGE_VEHICLE_WORDS = /\b(truck|tractor|semi|trailer|combination|bus|coach|motorcoach|school bus|cmv)\b/;
+
+const EMPTY_INFO: CrashHistoryInfo = { name: 'No crash history loaded', crashCount: 0, largeVehicleCount: 0, years: 0, loaded: false };
+
+function toNumber(value: string | undefined): number | null {
+  const parsed = parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function firstOf(record: Record<string, string>, columns: string[]): string | undefined {
+  const column = columns.find(name => record[name] !== undefined && record[name] !== '');
+  return column ? record[column] : undefined;
+}
+
+function cellKey(point: LatLngCoordinates): string {
+  return `${Math.floor(point.lat / CELL_DEGREES)},${Math.floor(point.lng / CELL_DEGREES)}`;
+}
+
+function buildGrid(crashes: CrashRecord[]): Map<string, number[]> {
+  const grid = new Map<string, number[]>();
+  crashes.forEach((crash, index) => {
+    const cell = cellKey(crash.location);
+    const list = grid.get(cell);
+    if (list) list.push(index);
+    else grid.set(cell, [index]);
+  });
+  return grid;
+}
+
+function distanceMeters(a: LatLngCoordinates, b: LatLngCoordinates): number {
+  const dx = (b.lng - a.lng) * 111320 * Math.cos((a.lat * Math.PI) / 180);
+  const dy = (b.lat - a.lat) * 111320;
+  return Math.hypot(dx, dy);
+}
+
+// Distance in metres from a point to a path, on a local flat projection
+function distanceToPath(point: LatLngCoordinates, path: LatLngCoordinates[]): number {
+  if (path.length === 1) return distanceMeters(point, path[0]);
+  const metersPerDegLat = 111320;
+  const metersPerDegLng = 111320 * Math.cos((point.lat * Math.PI) / 180);
+  let best = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    const ax = (path[i - 1].lng - point.lng) * metersPerDegLng;
+    const ay = (path[i - 1].lat - point.lat) * metersPerDegLat;
+    const dx = (path[i].lng - path[i - 1].lng) * metersPerDegLng;
+    const dy = (path[i].lat - path[i - 1].lat) * metersPerDegLat;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.min(Math.max(-(ax * dx + ay * dy) / lengthSquared, 0), 1);
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return best;
+}
+
+function pathMiles(path: LatLngCoordinates[]): number {
+  let meters = 0;
+  for (let i = 1; i < path.length; i++) meters += distanceMeters(path[i - 1], path[i]);
+  return meters / METERS_PER_MILE;
+}
+
+function parseSeverity(record: Record<string, string>): CrashSeverity {
+  const fatalities = toNumber(firstOf(record, ['fatals', 'fatalities', 'killed', 'number_killed']));
+  if (fatalities !== null && fatalities > 0) return 'fatal';
+
+  const value = (firstOf(record, ['severity', 'crash_severity', 'kabco', 'injury_severity', 'max_severity']) ?? '').toLowerCase().trim();
+  if (KABCO[value]) return KABCO[value];
+  if (/fatal|killed/.test(value)) return 'fatal';
+  if (/serious|incapacitating/.test(value) && !/non/.test(value)) return 'serious_injury';
+  if (/minor|non-?incapacitating|evident/.test(value)) return 'minor_injury';
+  if (/possible|complaint/.test(value)) return 'possible_injury';
+  if (/injury/.test(value) && !/no injury/.test(value)) return 'minor_injury';
+  return 'property_damage';
+}
+
+function parseDate(record: Record<string, string>): string | undefined {
+  const text = firstOf(record, ['date', 'crash_date', 'accident_date']);
+  if (text) {
+    const parsed = new Date(text);
+    if (!Number.isNaN(parsed.getTime())) return parsed.toISOString().slice(0, 10);
+  }
+  // FARS splits the date into YEAR, MONTH and DAY, with 99 for unknown parts
+  const year = toNumber(firstOf(record, ['year', 'crash_year']));
+  if (year === null || year < 1900 || year > 2100) return undefined;
+  const month = toNumber(record.month);
+  const day = toNumber(record.day);
+  if (month === null || month < 1 || month > 12) return String(year);
+  const monthText = String(month).padStart(2, '0');
+  return day === null || day < 1 || day > 31 ? `${year}-${monthText}` : `${year}-${monthText}-${String(day).padStart(2, '0')}`;
+}
+
+function parseVehicleTypes(record: Record<string, string>): string[] | undefined {
+  const text = firstOf(record, ['vehicle_types', 'vehicles', 'vehicle_type', 'body_types']);
+  if (!text) return undefined;
+  const types = text.split(/[;|/]/).map(type => type.trim()).filter(type => type.length > 0);
+  return types.length > 0 ? types : undefined;
+}
+
+function isLargeVehicleCrash(record: Record<string, string>, vehicleTypes: string[] | undefined): boolean {
+  const flag = (firstOf(record, ['large_vehicle', 'large_vehicle_involved', 'cmv_involved']) ?? '').toLowerCase();
+  if (['1', 'y', 'yes', 'true'].includes(flag)) return true;
+  const count = toNumber(firstOf(record, ['large_trucks', 'trucks', 'buses']));
+  if (count !== null && count > 0) return true;
+  return (vehicleTypes ?? []).some(type => LARGE_VEHICLE_WORDS.test(type.toLowerCase()));
+}
+
+function yearOf(crash: CrashRecord): number | null {
+  return crash.date ? Number(crash.date.slice(0, 4)) : null;
+}
+
+/**
+ * Crash records from a FARS or state DOT export, held in a grid index so routes can be
+ * scored by the crashes that happened along them and at their intersections.
+ */
+export class CrashHistoryService {
+  private static crashes: CrashRecord[] = [];
+  private static grid = new Map<string, number[]>();
+  private static info: CrashHistoryInfo = EMPTY_INFO;
+  private static loadedUrl: string | null = null;
+  private static listeners = new Set<CrashHistoryListener>();
+
+  static getInfo(): CrashHistoryInfo {
+    return this.info;
+  }
+
+  static getCrashes(): CrashRecord[] {
+    return this.crashes;
+  }
+
+  static subscribe(listener: CrashHistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replace the loaded records with the crashes in a CSV file. Columns are matched by
+   * name: lat/latitude and lng/lon/longitude/longitud, a date or FARS year, month and
+   * day, severity as KABCO codes or words (or a FARS fatalities count), and the vehicles
+   * involved as vehicle_types or a large_vehicle flag.
+   */
+  static loadFile(text: string, name: string): number {
+    const crashes = parseCsvRecords(text).flatMap((record, index) => this.fromRecord(record, `row-${index + 1}`));
+    if (crashes.length === 0) {
+      throw new Error('No crashes with a location found in the file');
+    }
+    this.setCrashes(crashes, name);
+    console.log(`💥 Loaded ${crashes.length} crash records from ${name}`);
+    return crashes.length;
+  }
+
+  static clear(): void {
+    this.crashes = [];
+    this.grid = new Map();
+    this.info = EMPTY_INFO;
+    this.notify();
+  }
+
+  /**
+   * Download the crash history configured with VITE_CRASH_HISTORY_URL, once. Failures
+   * are logged and scoring continues without crash history.
+   */
+  static async ensureLoaded(): Promise<void> {
+    const url = import.meta.env?.VITE_CRASH_HISTORY_URL as string | undefined;
+    if (!url || this.loadedUrl === url || this.info.loaded) return;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Crash history request failed (${response.status})`);
+      this.loadFile(await response.text(), url.split('/').pop() || url);
+      this.loadedUrl = url;
+    } catch (error) {
+      console.error('Failed to load crash history:', error);
+    }
+  }
+
+  /**
+   * Crashes along the segment and at the intersection it starts from, or null when no
+   * crash history is loaded.
+   */
+  static getSegmentHistory(segment: RouteSegment): SegmentCrashHistory | null {
+    if (!this.info.loaded) return null;
+    const path = getSegmentPath(segment);
+    if (path.length === 0) return null;
+
+    const onSegment = this.findNearPath(path, SEGMENT_RADIUS_METERS);
+    const atIntersection = this.findNearPath([path[0]], INTERSECTION_RADIUS_METERS);
+    return {
+      segment: this.summarize(onSegment),
+      intersection: this.summarize(atIntersection),
+      miles: Math.round(pathMiles(path) * 100) / 100,
+      years: this.info.years
+    };
+  }
+
+  /**
+   * Places along the segments where MIN_CLUSTER_CRASHES or more crashes happened within
+   * CLUSTER_RADIUS_METERS of each other, worst first. Each crash belongs to one cluster.
+   */
+  static findClusters(segments: RouteSegment[]): CrashCluster[] {
+    if (!this.info.loaded) return [];
+
+    const seen = new Set<CrashRecord>();
+    const candidates: { crash: CrashRecord; position: number }[] = [];
+    segments.forEach((segment, position) => {
+      const path = getSegmentPath(segment);
+      if (path.length === 0) return;
+      this.findNearPath(path, SEGMENT_RADIUS_METERS).forEach(crash => {
+        if (seen.has(crash)) return;
+        seen.add(crash);
+        candidates.push({ crash, position });
+      });
+    });
+
+    const neighbours = candidates.map(({ crash }) =>
+      candidates.filter(other => distanceMeters(crash.location, other.crash.location) <= CLUSTER_RADIUS_METERS));
+    const assigned = new Set<CrashRecord>();
+    const clusters: CrashCluster[] = [];
+
+    // Seed each cluster at the crash with the most unassigned crashes around it
+    for (;;) {
+      let seed = -1;
+      let members: typeof candidates = [];
+      candidates.forEach((candidate, index) => {
+        if (assigned.has(candidate.crash)) return;
+        const free = neighbours[index].filter(other => !assigned.has(other.crash));
+        if (free.length > members.length) {
+          seed = index;
+          members = free;
+        }
+      });
+      if (seed < 0 || members.length < MIN_CLUSTER_CRASHES) break;
+
+      members.forEach(member => assigned.add(member.crash));
+      const crashes = members.map(member => member.crash);
+      const position = candidates[seed].position;
+      clusters.push({
+        location: {
+          lat: crashes.reduce((sum, crash) => sum + crash.location.lat, 0) / crashes.length,
+          lng: crashes.reduce((sum, crash) => sum + crash.location.lng, 0) / crashes.length
+        },
+        segmentId: segments[position].id,
+        position,
+        stats: this.summarize(crashes),
+        radiusMeters: CLUSTER_RADIUS_METERS
+      });
+    }
+
+    return clusters.sort((a, b) => b.stats.weighted - a.stats.weighted);
+  }
+
+  static describeCluster(cluster: CrashCluster): string {
+    const { stats } = cluster;
+    const details = [
+      stats.fatal > 0 ? `${stats.fatal} fatal` : null,
+      stats.injury > 0 ? `${stats.injury} with injuries` : null,
+      stats.largeVehicle > 0 ? `${stats.largeVehicle} involving a truck or bus` : null
+    ].filter((detail): detail is string => detail !== null);
+    const period = this.info.firstYear !== undefined && this.info.lastYear !== undefined
+      ? this.info.firstYear === this.info.lastYear ? ` in ${this.info.firstYear}` : ` in ${this.info.firstYear}-${this.info.lastYear}`
+      : '';
+    return `${stats.count} crashes within ${cluster.radiusMeters}m${period}` + (details.length > 0 ? ` (${details.join(', ')})` : '');
+  }
+
+  static summarize(crashes: CrashRecord[]): CrashStats {
+    return crashes.reduce<CrashStats>((stats, crash) => {
+      const weight = CRASH_SEVERITY_WEIGHTS[crash.severity];
+      return {
+        count: stats.count + 1,
+        fatal: stats.fatal + (crash.severity === 'fatal' ? 1 : 0),
+        injury: stats.injury + (crash.severity !== 'fatal' && crash.severity !== 'property_damage' ? 1 : 0),
+        largeVehicle: stats.largeVehicle + (crash.largeVehicle ? 1 : 0),
+        weighted: stats.weighted + weight,
+        largeVehicleWeighted: stats.largeVehicleWeighted + (crash.largeVehicle ? weight : 0)
+      };
+    }, { count: 0, fatal: 0, injury: 0, largeVehicle: 0, weighted: 0, largeVehicleWeighted: 0 });
+  }
+
+  private static findNearPath(path: LatLngCoordinates[], radiusMeters: number): CrashRecord[] {
+    const bounds = getPathBounds(path);
+    if (!bounds) return [];
+    const pad = Math.ceil(radiusMeters / (111320 * CELL_DEGREES * Math.cos((path[0].lat * Math.PI) / 180)));
+    const minLat = Math.floor(bounds.south / CELL_DEGREES) - pad;
+    const maxLat = Math.floor(bounds.north / CELL_DEGREES) + pad;
+    const minLng = Math.floor(bounds.west / CELL_DEGREES) - pad;
+    const maxLng = Math.floor(bounds.east / CELL_DEGREES) + pad;
+    const found: CrashRecord[] = [];
+    for (let lat = minLat; lat <= maxLat; lat++) {
+      for (let lng = minLng; lng <= maxLng; lng++) {
+        this.grid.get(`${lat},${lng}`)?.forEach(index => {
+          const crash = this.crashes[index];
+          if (distanceToPath(crash.location, path) <= radiusMeters) found.push(crash);
+        });
+      }
+    }
+    return found;
+  }
+
+  private static setCrashes(crashes: CrashRecord[], name: string): void {
+    let firstYear: number | undefined;
+    let lastYear: number | undefined;
+    crashes.forEach(crash => {
+      const year = yearOf(crash);
+      if (year === null) return;
+      if (firstYear === undefined || year < firstYear) firstYear = year;
+      if (lastYear === undefined || year > lastYear) lastYear = year;
+    });
+    this.crashes = crashes;
+    this.grid = buildGrid(crashes);
+    this.info = {
+      name,
+      crashCount: crashes.length,
+      largeVehicleCount: crashes.filter(crash => crash.largeVehicle).length,
+      firstYear,
+      lastYear,
+      years: firstYear !== undefined && lastYear !== undefined ? lastYear - firstYear + 1 : DEFAULT_PERIOD_YEARS,
+      loaded: true
+    };
+    this.notify();
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener(this.info));
+  }
+
+  private static fromRecord(record: Record<string, string>, fallbackId: string): CrashRecord[] {
+    const lat = toNumber(firstOf(record, ['lat', 'latitude']));
+    const lng = toNumber(firstOf(record, ['lng', 'lon', 'long', 'longitude', 'longitud']));
+    // FARS codes unknown positions as 77.7777/777.7777 and similar, outside the valid range
+    if (lat === null || lng === null || lat === 0 || lng === 0 || Math.abs(lat) > 90 || Math.abs(lng) > 180) return [];
+
+    const vehicleTypes = parseVehicleTypes(record);
+    return [{
+      id: firstOf(record, ['id', 'crash_id', 'st_case', 'case_number', 'report_number']) ?? fallbackId,
+      location: { lat, lng },
+      date: parseDate(record),
+      severity: parseSeverity(record),
+      largeVehicle: isLargeVehicleCrash(record, vehicleTypes),
+      vehicleTypes
+    }];
+  }
+}
@@ -0,0 +1,64 @@
+import { Route, Vehicle } from '../types';
+import { RouteAnalysisService } from './routeAnalysisService';
+
+export interface DepartureSlot {
+  departure: Date;
+  arrival: Date;
+  risk: number;
+  meetsDeadline: boolean;
+  /** Mapped hazards in effect along the route for this departure */
+  activeFactors: string[];
+}
+
+export interface DeparturePlanOptions {
+  from: Date;
+  to: Date;
+  stepMinutes: number;
+  arrivalDeadline?: Date | null;
+}
+
+export interface DeparturePlan {
+  slots: DepartureSlot[];
+  /** Lowest-risk slot that arrives by the deadline; the earliest one wins ties */
+  recommended: DepartureSlot | null;
+}
+
+const MAX_SLOTS = 200;
+
+/**
+ * Re-runs route analysis across a range of departure times to find the safest window.
+ */
+export class DeparturePlannerService {
+  static planDepartures(route: Route, vehicle: Vehicle, options: DeparturePlanOptions): DeparturePlan {
+    const { from, to, arrivalDeadline } = options;
+    if (to.getTime() < from.getTime()) {
+      throw new Error('The end of the departure range must be after its start');
+    }
+    const stepMs = Math.max(options.stepMinutes, 1) * 60000;
+    if ((to.getTime() - from.getTime()) / stepMs + 1 > MAX_SLOTS) {
+      throw new Error(`Too many departure times to compare; use a shorter range or a step over ${options.stepMinutes} minutes`);
+    }
+
+    const slots: DepartureSlot[] = [];
+    for (let time = from.getTime(); time <= to.getTime(); time += stepMs) {
+      const departure = new Date(time);
+      const { route: analyzed, riskFactors, overallRiskScore } = RouteAnalysisService.analyzeRouteRisk(route, vehicle, departure);
+      const arrival = new Date(analyzed.arrivalTime!);
+      slots.push({
+        departure,
+        arrival,
+        risk: overallRiskScore,
+        meetsDeadline: !arrivalDeadline || arrival.getTime() <= arrivalDeadline.getTime(),
+        activeFactors: riskFactors.map(factor => factor.name)
+      });
+    }
+
+    let recommended: DepartureSlot | null = null;
+    for (const slot of slots) {
+      if (slot.meetsDeadline && (!recommended || slot.risk < recommended.risk - 0.05)) {
+        recommended = slot;
+      }
+    }
+    return { slots, recommended };
+  }
+}
@@ -0,0 +1,202 @@
+import { LatLngCoordinates, Route } from '../types';
+import {
+  DemoPlace,
+  DirectionsFixture,
+  RecordedDirectionsRoute,
+  demoPlaces,
+  directionsFixtures
+} from '../data/directionsFixtures';
+import { buildDirectionsResult, decodePolyline, ProviderRoute } from '../utils/directionsBuilder';
+import { GeocodeResult, RoutingProvider, RoutingRequest } from './routingProvider';
+
+const METERS_PER_MILE = 1609.34;
+
+/**
+ * Offline routing provider that serves recorded Directions responses and the sample
+ * routes in mockRoutes, so the whole analysis pipeline works without a network or API key.
+ */
+export class FixtureRoutingProvider implements RoutingProvider {
+  readonly id = 'demo' as const;
+  readonly name = 'Demo (offline)';
+  readonly description = 'Recorded routes for training and demos; no network required';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async initialize(): Promise<void> {
+    // Fixtures are bundled with the app
+  }
+
+  async getRoutes(request: RoutingRequest): Promise<google.maps.DirectionsResult> {
+    const origin = this.locate(request.origin);
+    const fixture = this.findFixture(origin);
+
+    console.log(`🎬 Serving demo routes from fixture "${fixture.name}"`);
+
+    const routes = fixture.recordedRoutes
+      ? fixture.recordedRoutes.map(route => this.fromRecordedRoute(route))
+      : (fixture.appRoutes ?? []).map(route => this.fromAppRoute(route, fixture));
+
+    if (routes.length === 0) {
+      throw new Error(`Demo fixture "${fixture.name}" has no routes`);
+    }
+
+    // Recorded routes run straight from origin to destination, so stops are kept on the
+    // request for the stop flows but the geometry does not pass through them
+    const waypoints = ((request.waypoints ?? []) as (string | google.maps.DirectionsWaypoint)[])
+      .map(waypoint => (typeof waypoint === 'string' ? { location: waypoint, stopover: true } : waypoint));
+    if (waypoints.length > 0) {
+      const warning = `Demo data: the recorded route does not pass through the ${waypoints.length} stop(s)`;
+      console.warn(`⚠️ ${warning} in fixture "${fixture.name}"`);
+      routes.forEach(route => {
+        route.warnings = [...(route.warnings ?? []), warning];
+      });
+    }
+
+    return buildDirectionsResult(routes, {
+      origin: request.origin,
+      destination: request.destination,
+      waypoints
+    });
+  }
+
+  async geocode(address: string): Promise<GeocodeResult[]> {
+    const coordinates = this.parseCoordinates(address);
+    if (coordinates) {
+      return [{ formattedAddress: address, location: coordinates }];
+    }
+
+    const query = address.toLowerCase();
+    const matches = demoPlaces.filter(place =>
+      place.address.toLowerCase().includes(query) ||
+      place.aliases.some(alias => query.includes(alias))
+    );
+    if (matches.length === 0) {
+      const available = demoPlaces.map(place => place.name).join(', ');
+      throw new Error(`"${address}" is not available offline. Demo locations: ${available}`);
+    }
+    return matches.map(place => this.toGeocodeResult(place));
+  }
+
+  async reverseGeocode(lat: number, lng: number): Promise<GeocodeResult[]> {
+    const nearest = [...demoPlaces].sort(
+      (a, b) => this.distance({ lat, lng }, a.location) - this.distance({ lat, lng }, b.location)
+    )[0];
+    if (nearest && this.distance({ lat, lng }, nearest.location) < 500) {
+      return [this.toGeocodeResult(nearest)];
+    }
+    return [{ formattedAddress: `${lat.toFixed(6)},${lng.toFixed(6)}`, location: { lat, lng } }];
+  }
+
+  /**
+   * Resolve an origin string to coordinates; unknown places fall back to the first fixture.
+   */
+  private locate(value: string): LatLngCoordinates | null {
+    const coordinates = this.parseCoordinates(value);
+    if (coordinates) return coordinates;
+    const query = value.toLowerCase();
+    const place = demoPlaces.find(p =>
+      p.address.toLowerCase().includes(query) || p.aliases.some(alias => query.includes(alias))
+    );
+    return place ? place.location : null;
+  }
+
+  private findFixture(origin: LatLngCoordinates | null): DirectionsFixture {
+    if (!origin) {
+      console.warn('Demo origin not recognized; using the default fixture');
+      return directionsFixtures[0];
+    }
+    return [...directionsFixtures].sort(
+      (a, b) => this.distance(origin, a.origin.location) - this.distance(origin, b.origin.location)
+    )[0];
+  }
+
+  private fromRecordedRoute(route: RecordedDirectionsRoute): ProviderRoute {
+    return {
+      summary: route.summary,
+      warnings: [...route.warnings, 'Demo data: recorded route, not live traffic'],
+      legs: route.legs.map(leg => ({
+        startAddress: leg.start_address,
+        endAddress: leg.end_address,
+        steps: leg.steps.map(step => ({
+          instructions: step.html_instructions,
+          distanceMeters: step.distance.value,
+          durationSeconds: step.duration.value,
+          path: decodePolyline(step.polyline.points),
+          maneuver: step.maneuver
+        }))
+      }))
+    };
+  }
+
+  /**
+   * Turn a sample app Route back into Directions steps. Distance and time are spread
+   * across segments by length so the analyzed route keeps the sample totals.
+   */
+  private fromAppRoute(route: Route, fixture: DirectionsFixture): ProviderRoute {
+    const lengths = route.segments.map(segment =>
+      this.distance(
+        { lat: segment.startLat, lng: segment.startLng },
+        { lat: segment.endLat, lng: segment.endLng }
+      )
+    );
+    const totalLength = lengths.reduce((sum, length) => sum + length, 0) || 1;
+    const totalMeters = route.totalDistance * METERS_PER_MILE;
+    const totalSeconds = route.estimatedTime * 60;
+
+    return {
+      summary: route.name,
+      warnings: ['Demo data: sample route, not live traffic'],
+      legs: [{
+        startAddress: fixture.origin.address,
+        endAddress: fixture.destination.address,
+        steps: route.segments.map((segment, index) => {
+          const share = lengths[index] / totalLength;
+          const turn = segment.turnType === 'left' || segment.turnType === 'right'
+            ? `Turn <b>${segment.turnType}</b>`
+            : index === 0 ? 'Head' : 'Continue';
+          const control = segment.intersectionType === 'traffic_light'
+            ? ' at the traffic light'
+            : segment.intersectionType === 'stop_sign' ? ' at the stop sign' : '';
+          return {
+            instructions: `${turn}${control} onto <b>${segment.streetName}</b>`,
+            distanceMeters: Math.round(totalMeters * share),
+            durationSeconds: Math.round(totalSeconds * share),
+            path: [
+              { lat: segment.startLat, lng: segment.startLng },
+              { lat: segment.endLat, lng: segment.endLng }
+            ],
+            maneuver: segment.turnType === 'left' || segment.turnType === 'right'
+              ? `turn-${segment.turnType}`
+              : undefined
+          };
+        })
+      }]
+    };
+  }
+
+  private toGeocodeResult(place: DemoPlace): GeocodeResult {
+    return {
+      formattedAddress: place.address,
+      location: place.location,
+      placeId: `demo-${place.name.toLowerCase().replace(/\s+/g, '-')}`
+    };
+  }
+
+  private parseCoordinates(value: string): LatLngCoordinates | null {
+    const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+    return { lat: parseFloat(match[1]), lng: parseFloat(match[2]) };
+  }
+
+  private distance(a: LatLngCoordinates, b: LatLngCoordinates): number {
+    const R = 6371e3;
+    const phi1 = (a.lat * Math.PI) / 180;
+    const phi2 = (b.lat * Math.PI) / 180;
+    const dphi = ((b.lat - a.lat) * Math.PI) / 180;
+    const dlambda = ((b.lng - a.lng) * Math.PI) / 180;
+    const h = Math.sin(dphi / 2) ** 2 + Math.cos(phi1) * Math.cos(phi2) * Math.sin(dlambda / 2) ** 2;
+    return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+  }
+}
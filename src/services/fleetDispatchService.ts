@@ -0,0 +1,257 @@
+import { FleetVehicle, StopLocation, VehicleClass } from '../types';
+import { VehicleClassificationService } from './vehicleClassificationService';
+import { StopArrival, StopSequencingService, TravelMatrix } from './stopSequencingService';
+
+export interface VehicleAssignment {
+  fleetVehicle: FleetVehicle;
+  vehicleClass: VehicleClass;
+  stops: StopLocation[];
+  load: number;
+  distanceMeters: number;
+  drivingSeconds: number;
+  /** Driving, stop and waiting time from leaving the depot to returning */
+  totalSeconds: number;
+  arrivals: StopArrival[];
+}
+
+export interface UnassignedStop {
+  stop: StopLocation;
+  reason: string;
+}
+
+export interface DispatchPlan {
+  assignments: VehicleAssignment[];
+  unassigned: UnassignedStop[];
+}
+
+interface Simulation {
+  feasible: boolean;
+  load: number;
+  distanceMeters: number;
+  drivingSeconds: number;
+  totalSeconds: number;
+  arrivals: StopArrival[];
+}
+
+const DEFAULT_STOP_MINUTES = 15;
+// Large vehicles cover the same streets more slowly than the matrix's base speed
+const CLASS_TIME_FACTORS: Record<VehicleClass['type'], number> = {
+  passenger: 1,
+  delivery: 1.05,
+  bus: 1.15,
+  truck: 1.15,
+  oversized: 1.3
+};
+// Seconds of cost for bringing another vehicle into service, so short routes are consolidated
+const VEHICLE_ACTIVATION_SECONDS = 900;
+
+/**
+ * Splits a pool of stops across a mixed fleet (VRP) and sequences each vehicle's route.
+ *
+ * Stops are placed by cheapest feasible insertion, hardest stops first, respecting each
+ * vehicle's capacity and shift length, stop time windows and per-stop access limits
+ * (a 40 ft bus cannot be sent to a stop that only fits a box truck). Each vehicle's stops
+ * are then re-sequenced with StopSequencingService. Matrix index 0 is the depot where
+ * every vehicle starts and ends; stops are indices 1..n in input order.
+ */
+export class FleetDispatchService {
+  static dispatch(
+    stops: StopLocation[],
+    fleet: FleetVehicle[],
+    matrix: TravelMatrix,
+    departureTime: Date = new Date()
+  ): DispatchPlan {
+    const classes = fleet.map(member => VehicleClassificationService.classifyVehicle(member.vehicle));
+    const routes: number[][] = fleet.map(() => []);
+    const unassigned: UnassignedStop[] = [];
+
+    const compatible = stops.map(stop => fleet.map(member => this.canServe(stop, member)));
+
+    // Hardest stops first: tight deadlines, few compatible vehicles, far from the depot
+    const insertionOrder = stops
+      .map((_, index) => index)
+      .sort((a, b) => {
+        const deadlineA = StopSequencingService.resolveWindowTime(stops[a].timeWindow?.latest, departureTime)?.getTime() ?? Infinity;
+        const deadlineB = StopSequencingService.resolveWindowTime(stops[b].timeWindow?.latest, departureTime)?.getTime() ?? Infinity;
+        const optionsA = compatible[a].filter(Boolean).length;
+        const optionsB = compatible[b].filter(Boolean).length;
+        return deadlineA - deadlineB || optionsA - optionsB || matrix.distances[0][b + 1] - matrix.distances[0][a + 1];
+      });
+
+    insertionOrder.forEach(stopIndex => {
+      let best: { vehicle: number; position: number; cost: number } | null = null;
+
+      fleet.forEach((member, v) => {
+        if (!compatible[stopIndex][v]) return;
+        const current = this.simulate(routes[v], stops, member, classes[v], matrix, departureTime);
+        const baseCost = routes[v].length > 0 ? this.routeCost(current, classes[v]) : 0;
+
+        for (let position = 0; position <= routes[v].length; position++) {
+          const candidate = [...routes[v].slice(0, position), stopIndex, ...routes[v].slice(position)];
+          const simulation = this.simulate(candidate, stops, member, classes[v], matrix, departureTime);
+          if (!simulation.feasible) continue;
+          const activation = routes[v].length === 0 ? VEHICLE_ACTIVATION_SECONDS : 0;
+          const cost = this.routeCost(simulation, classes[v]) - baseCost + activation;
+          if (!best || cost < best.cost) {
+            best = { vehicle: v, position, cost };
+          }
+        }
+      });
+
+      if (best) {
+        const { vehicle, position } = best;
+        routes[vehicle].splice(position, 0, stopIndex);
+      } else {
+        unassigned.push({ stop: stops[stopIndex], reason: this.explainUnassigned(stopIndex, stops, fleet, compatible[stopIndex]) });
+      }
+    });
+
+    const assignments = fleet.map((member, v) => {
+      const order = this.resequence(routes[v], stops, member, classes[v], matrix, departureTime);
+      const simulation = this.simulate(order, stops, member, classes[v], matrix, departureTime);
+      return {
+        fleetVehicle: member,
+        vehicleClass: classes[v],
+        stops: order.map((index, position) => ({ ...stops[index], order: position })),
+        load: simulation.load,
+        distanceMeters: simulation.distanceMeters,
+        drivingSeconds: simulation.drivingSeconds,
+        totalSeconds: simulation.totalSeconds,
+        arrivals: simulation.arrivals
+      };
+    });
+
+    console.log(`🚚 Dispatched ${stops.length - unassigned.length}/${stops.length} stops across ${assignments.filter(a => a.stops.length > 0).length} vehicles`);
+    return { assignments, unassigned };
+  }
+
+  static canServe(stop: StopLocation, member: FleetVehicle): boolean {
+    const limits = stop.accessLimits;
+    if (limits) {
+      const { length, width, height } = member.vehicle;
+      if (limits.maxLength !== undefined && length > limits.maxLength) return false;
+      if (limits.maxWidth !== undefined && width > limits.maxWidth) return false;
+      if (limits.maxHeight !== undefined && height > limits.maxHeight) return false;
+    }
+    // A stop's demand must fit in the vehicle at all
+    return (stop.demand ?? 1) <= member.capacity;
+  }
+
+  private static routeCost(simulation: Simulation, vehicleClass: VehicleClass): number {
+    // Larger vehicles carry more risk per mile, so prefer giving them less driving
+    const riskWeight = vehicleClass.type === 'passenger' || vehicleClass.type === 'delivery' ? 1 : 1.2;
+    return simulation.totalSeconds * riskWeight;
+  }
+
+  private static simulate(
+    order: number[],
+    stops: StopLocation[],
+    member: FleetVehicle,
+    vehicleClass: VehicleClass,
+    matrix: TravelMatrix,
+    departureTime: Date
+  ): Simulation {
+    const timeFactor = CLASS_TIME_FACTORS[vehicleClass.type];
+    const arrivals: StopArrival[] = [];
+    let clock = departureTime.getTime();
+    let distanceMeters = 0;
+    let drivingSeconds = 0;
+    let load = 0;
+    let feasible = this.respectsFixedPositions(order, stops);
+    let previous = 0;
+
+    order.forEach(index => {
+      const stop = stops[index];
+      const node = index + 1;
+      const legSeconds = matrix.durations[previous][node] * timeFactor;
+      distanceMeters += matrix.distances[previous][node];
+      drivingSeconds += legSeconds;
+      clock += legSeconds * 1000;
+
+      const earliest = StopSequencingService.resolveWindowTime(stop.timeWindow?.earliest, departureTime);
+      const latest = StopSequencingService.resolveWindowTime(stop.timeWindow?.latest, departureTime);
+      const arrival = new Date(clock);
+      const waitMinutes = earliest && clock < earliest.getTime() ? (earliest.getTime() - clock) / 60000 : 0;
+      const lateMinutes = latest && clock > latest.getTime() ? (clock - latest.getTime()) / 60000 : 0;
+      if (lateMinutes > 0) feasible = false;
+
+      clock += (waitMinutes + (stop.estimatedStopTime ?? DEFAULT_STOP_MINUTES)) * 60000;
+      arrivals.push({ stopId: stop.id, arrival, departure: new Date(clock), waitMinutes, lateMinutes });
+      load += stop.demand ?? 1;
+      previous = node;
+    });
+
+    if (order.length > 0) {
+      const returnSeconds = matrix.durations[previous][0] * timeFactor;
+      distanceMeters += matrix.distances[previous][0];
+      drivingSeconds += returnSeconds;
+      clock += returnSeconds * 1000;
+    }
+
+    const totalSeconds = (clock - departureTime.getTime()) / 1000;
+    if (load > member.capacity || totalSeconds > member.shiftHours * 3600) feasible = false;
+
+    return { feasible, load, distanceMeters, drivingSeconds, totalSeconds, arrivals };
+  }
+
+  private static respectsFixedPositions(order: number[], stops: StopLocation[]): boolean {
+    const ranks = order.map(index => (stops[index].fixedPosition === 'first' ? 0 : stops[index].fixedPosition === 'last' ? 2 : 1));
+    return ranks.every((rank, i) => i === 0 || rank >= ranks[i - 1]);
+  }
+
+  /**
+   * Improve a vehicle's insertion order with the stop sequencer, keeping it only if it
+   * stays within the vehicle's shift and time windows.
+   */
+  private static resequence(
+    order: number[],
+    stops: StopLocation[],
+    member: FleetVehicle,
+    vehicleClass: VehicleClass,
+    matrix: TravelMatrix,
+    departureTime: Date
+  ): number[] {
+    if (order.length < 3) return order;
+
+    // Sub-matrix: depot, this vehicle's stops, and the depot again as the destination
+    const nodes = [0, ...order.map(index => index + 1), 0];
+    const timeFactor = CLASS_TIME_FACTORS[vehicleClass.type];
+    const subMatrix: TravelMatrix = {
+      distances: nodes.map(from => nodes.map(to => matrix.distances[from][to])),
+      durations: nodes.map(from => nodes.map(to => matrix.durations[from][to] * timeFactor)),
+      points: matrix.points ? nodes.map(node => matrix.points![node]) : undefined
+    };
+    const vehicleStops = order.map(index => stops[index]);
+    const [best] = StopSequencingService.getTopStopOrders(vehicleStops, subMatrix, {
+      topN: 1,
+      departureTime,
+      vehicle: member.vehicle
+    });
+    if (!best) return order;
+
+    const resequenced = best.stops.map(stop => order[vehicleStops.findIndex(s => s.id === stop.id)]);
+    const before = this.simulate(order, stops, member, vehicleClass, matrix, departureTime);
+    const after = this.simulate(resequenced, stops, member, vehicleClass, matrix, departureTime);
+    return after.feasible && after.totalSeconds <= before.totalSeconds ? resequenced : order;
+  }
+
+  private static explainUnassigned(
+    stopIndex: number,
+    stops: StopLocation[],
+    fleet: FleetVehicle[],
+    compatible: boolean[]
+  ): string {
+    const stop = stops[stopIndex];
+    if (!compatible.some(Boolean)) {
+      const maxCapacity = Math.max(0, ...fleet.map(member => member.capacity));
+      if ((stop.demand ?? 1) > maxCapacity) {
+        return `Load of ${stop.demand} exceeds every vehicle's capacity`;
+      }
+      return 'No vehicle in the fleet fits this stop\'s access limits';
+    }
+    if (stop.timeWindow?.latest) {
+      return `No vehicle can arrive by ${stop.timeWindow.latest} within its shift and remaining capacity`;
+    }
+    return 'All compatible vehicles are at capacity or out of shift time';
+  }
+}
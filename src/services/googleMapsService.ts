@@ -1,6 +1,8 @@
 import { Loader } from '@googlemaps/js-api-loader';
-import { Vehicle, VehicleClass, RoutingConstraints } from '../types';
-import { VehicleClassificationService } from './vehicleClassificationService';
+import { Vehicle } from '../types';
+import { PlainLatLng, reviveBounds, reviveDirectionsResult } from '../utils/directionsBuilder';
+import { RequestCacheService } from './requestCacheService';
+import { RoadAttributeService } from './roadAttributeService';
 
 export interface RouteRequest {
   origin: string;
@@ -17,14 +19,29 @@ export interface RouteResponse {
   status: google.maps.DirectionsStatus;
 }
 
+export interface DirectionsRequestOptions {
+  origin: string;
+  destination: string;
+  waypoints?: string[] | google.maps.DirectionsWaypoint[];
+  travelMode?: google.maps.TravelMode;
+  avoidHighways?: boolean;
+  avoidTolls?: boolean;
+  departureTime?: Date;
+  vehicle?: Vehicle;
+  optimizeWaypoints?: boolean;
+}
+
 export interface RoadData {
-  speedLimit?: number;
-  roadWidth?: number;
+  speedLimit?: number; // mph
+  roadWidth?: number; // feet
   pedestrianTraffic?: number;
-  heightRestrictions?: number;
+  heightRestrictions?: number; // feet, 0 when no clearance is posted
 }
 
 export class GoogleMapsService {
+  /** Most waypoints the Directions API accepts in one request */
+  static readonly MAX_WAYPOINTS = 25;
+
   private static instance: GoogleMapsService;
   private loader: Loader;
   private directionsService?: google.maps.DirectionsService;
@@ -103,19 +120,6 @@ export class GoogleMapsService {
     return { address: cleanAddress };
   }
 
-  private limitWaypoints(waypoints: google.maps.DirectionsWaypoint[]): google.maps.DirectionsWaypoint[] {
-    const MAX_WAYPOINTS = 25;
-    if (waypoints.length <= MAX_WAYPOINTS) {
-      return waypoints;
-    }
-    const step = Math.ceil(waypoints.length / MAX_WAYPOINTS);
-    const limitedWaypoints: google.maps.DirectionsWaypoint[] = [];
-    for (let i = 0; i < waypoints.length && limitedWaypoints.length < MAX_WAYPOINTS; i += step) {
-      limitedWaypoints.push(waypoints[i]);
-    }
-    return limitedWaypoints;
-  }
-
   /**
    * Filter routes that contain U-turns or other problematic maneuvers for large vehicles.
    */
@@ -152,17 +156,57 @@ export class GoogleMapsService {
     return count;
   }
 
-  public async getRoutes(request: {
-    origin: string;
-    destination: string;
-    waypoints?: string[] | google.maps.DirectionsWaypoint[];
-    travelMode?: google.maps.TravelMode;
-    avoidHighways?: boolean;
-    avoidTolls?: boolean;
-    departureTime?: Date;
-    vehicle?: Vehicle;
-    optimizeWaypoints?: boolean;
-  }): Promise<google.maps.DirectionsResult> {
+  public async getRoutes(request: DirectionsRequestOptions): Promise<google.maps.DirectionsResult> {
+    return RequestCacheService.getOrFetch(
+      'directions',
+      this.getDirectionsCacheKey(request),
+      `${request.origin} → ${request.destination}${request.waypoints?.length ? ` (${request.waypoints.length} stops)` : ''}`,
+      () => this.requestRoutes(request),
+      reviveDirectionsResult
+    );
+  }
+
+  /**
+   * Cache key for a directions request. Departure time only counts when it is
+   * meaningfully in the future; "leave now" requests share one entry.
+   */
+  private getDirectionsCacheKey(request: DirectionsRequestOptions): string {
+    const waypoints = ((request.waypoints ?? []) as (string | google.maps.DirectionsWaypoint)[]).map(waypoint => {
+      if (typeof waypoint === 'string') return RequestCacheService.normalizeAddress(waypoint);
+      const text = this.getLocationCacheKey(waypoint.location);
+      return waypoint.stopover === false ? `via:${text}` : text;
+    });
+    const departure = request.departureTime && request.departureTime.getTime() - Date.now() > 15 * 60 * 1000
+      ? new Date(Math.floor(request.departureTime.getTime() / (15 * 60 * 1000)) * 15 * 60 * 1000).toISOString()
+      : 'now';
+    const vehicle = request.vehicle
+      ? `${request.vehicle.length}x${request.vehicle.width}x${request.vehicle.height}:${request.vehicle.grossWeightLbs ?? '-'}lb:hazmat${request.vehicle.hazmatClass ?? '-'}`
+      : 'any';
+    return [
+      RequestCacheService.normalizeAddress(request.origin),
+      RequestCacheService.normalizeAddress(request.destination),
+      waypoints.join(';'),
+      request.travelMode ?? 'DRIVING',
+      `highways:${request.avoidHighways ? 'avoid' : 'allow'}`,
+      `tolls:${request.avoidTolls ? 'avoid' : 'allow'}`,
+      `optimize:${request.optimizeWaypoints ? 'yes' : 'no'}`,
+      `vehicle:${vehicle}`,
+      `depart:${departure}`
+    ].join('|');
+  }
+
+  private getLocationCacheKey(location: google.maps.DirectionsWaypoint['location']): string {
+    if (typeof location === 'string') return RequestCacheService.normalizeAddress(location);
+    if (location && 'lat' in location) {
+      // LatLng objects and literals alike; avoids touching the google namespace before it loads
+      return typeof location.lat === 'function'
+        ? RequestCacheService.coordinateKey((location as google.maps.LatLng).lat(), (location as google.maps.LatLng).lng())
+        : RequestCacheService.coordinateKey(location.lat as number, location.lng as number);
+    }
+    return JSON.stringify(location);
+  }
+
+  private async requestRoutes(request: DirectionsRequestOptions): Promise<google.maps.DirectionsResult> {
     if (!this.isInitialized()) {
       throw new Error('Google Maps service not initialized. Please ensure the API key is configured correctly.');
     }
@@ -188,7 +232,9 @@ export class GoogleMapsService {
           googleWaypoints = request.waypoints as google.maps.DirectionsWaypoint[];
         }
       }
-      googleWaypoints = this.limitWaypoints(googleWaypoints);
+      if (googleWaypoints.length > GoogleMapsService.MAX_WAYPOINTS) {
+        throw new Error(`Google Directions accepts at most ${GoogleMapsService.MAX_WAYPOINTS} waypoints per request; split longer routes with RouteChunkingService`);
+      }
       const directionsRequest: google.maps.DirectionsRequest = {
         origin: cleanOrigin.address,
         destination: cleanDestination.address,
@@ -278,13 +324,18 @@ export class GoogleMapsService {
     return { ...baseData, liveTraffic: { congestionLevel: trafficData.congestionLevel, currentSpeed: trafficData.averageSpeed, normalSpeed, trafficDelay } };
   }
 
+  /**
+   * Attributes of the nearest road in the loaded OSM extract. Values the extract does
+   * not record are left undefined rather than guessed.
+   */
   public async getRoadData(lat: number, lng: number): Promise<RoadData> {
-    return this.simulateRoadData(lat, lng);
-  }
-
-  private simulateRoadData(lat: number, lng: number): RoadData {
-    const hash = Math.abs(lat * lng * 1000) % 100;
-    return { speedLimit: 25 + (hash % 40), roadWidth: 20 + (hash % 60), pedestrianTraffic: hash % 100, heightRestrictions: hash > 80 ? 13.5 : 0 };
+    const attributes = RoadAttributeService.lookupPoint({ lat, lng });
+    if (!attributes) return {};
+    return {
+      speedLimit: attributes.speedLimitMph,
+      roadWidth: attributes.widthFt ?? (attributes.lanes ? attributes.lanes * 12 : undefined),
+      heightRestrictions: attributes.maxHeightFt ?? 0
+    };
   }
 
   public calculateDistance(point1: google.maps.LatLng, point2: google.maps.LatLng): number {
@@ -292,6 +343,19 @@ export class GoogleMapsService {
   }
 
   public async geocodeAddress(address: string, preferredRegion?: { lat: number; lng: number; radius: number }): Promise<google.maps.GeocoderResult[]> {
+    const region = preferredRegion
+      ? `@${RequestCacheService.coordinateKey(preferredRegion.lat, preferredRegion.lng, 2)}~${Math.round(preferredRegion.radius)}`
+      : '';
+    return RequestCacheService.getOrFetch(
+      'geocode',
+      `${RequestCacheService.normalizeAddress(address)}${region}`,
+      address,
+      () => this.requestGeocode(address, preferredRegion),
+      results => this.reviveGeocoderResults(results)
+    );
+  }
+
+  private async requestGeocode(address: string, preferredRegion?: { lat: number; lng: number; radius: number }): Promise<google.maps.GeocoderResult[]> {
     if (!this.geocoder) throw new Error('Geocoder not initialized');
     return new Promise((resolve, reject) => {
       const geocodeRequest: google.maps.GeocoderRequest = {
@@ -323,6 +387,18 @@ export class GoogleMapsService {
   }
 
   public async reverseGeocode(lat: number, lng: number): Promise<google.maps.GeocoderResult[]> {
+    // ~11 m precision, so small marker drags reuse the same address lookup
+    const key = RequestCacheService.coordinateKey(lat, lng, 4);
+    return RequestCacheService.getOrFetch(
+      'reverseGeocode',
+      key,
+      key,
+      () => this.requestReverseGeocode(lat, lng),
+      results => this.reviveGeocoderResults(results)
+    );
+  }
+
+  private async requestReverseGeocode(lat: number, lng: number): Promise<google.maps.GeocoderResult[]> {
     if (!this.geocoder) throw new Error('Geocoder not initialized');
     return new Promise((resolve, reject) => {
       this.geocoder!.geocode({ location: { lat, lng } }, (results, status) => {
@@ -332,105 +408,26 @@ export class GoogleMapsService {
     });
   }
 
-  public async getVehicleAwareRoutes(request: {
-    origin: string;
-    destination: string;
-    waypoints?: string[];
-    vehicle: Vehicle;
-    avoidHighways?: boolean;
-    avoidTolls?: boolean;
-  }): Promise<google.maps.DirectionsResult> {
-    const vehicleClass = VehicleClassificationService.classifyVehicle(request.vehicle);
-    const constraints = VehicleClassificationService.getRoutingConstraints(vehicleClass);
-    if (request.vehicle.length >= 30) {
-      return this.getLargeVehicleRoutes(request);
-    }
-    if (constraints.preferLoops && request.waypoints && request.waypoints.length > 0) {
-      return this.getBlockRoutingWithStops(request, vehicleClass);
-    }
-    return this.getConstrainedRoutes(request, constraints);
-  }
-
-  private async getBlockRoutingWithStops(request: { origin: string; destination: string; waypoints?: string[]; vehicle: Vehicle; avoidHighways?: boolean; avoidTolls?: boolean }, _vehicleClass: VehicleClass): Promise<google.maps.DirectionsResult> {
-    const allPoints = [request.origin, ...(request.waypoints || []), request.destination];
-    const optimized = await this.optimizeWaypointsForBlockRouting(allPoints, _vehicleClass);
-    return this.getConstrainedRoutes({ ...request, waypoints: optimized }, VehicleClassificationService.getRoutingConstraints(_vehicleClass));
-  }
-
-  private async optimizeWaypointsForBlockRouting(points: string[], _vehicleClass: VehicleClass): Promise<string[]> {
-    if (points.length <= 2) return points.slice(1, -1);
-    const optimized: string[] = [];
-    for (let i = 1; i < points.length - 1; i++) {
-      try {
-        const res = await this.geocodeAddress(points[i]);
-        if (res.length > 0) {
-          const loc = res[0].geometry.location;
-          const candidate = await this.findOptimalApproachPoint(loc.lat(), loc.lng(), _vehicleClass);
-          optimized.push(candidate || points[i]);
-        } else optimized.push(points[i]);
-      } catch {
-        optimized.push(points[i]);
-      }
-    }
-    return optimized;
-  }
-
-  private async findOptimalApproachPoint(lat: number, lng: number, _vehicleClass: VehicleClass): Promise<string | null> {
-    const deltas = [0.001, -0.001, 0.0007];
-    for (const dx of deltas) for (const dy of deltas) {
-      try {
-        const rev = await this.reverseGeocode(lat + dx, lng + dy);
-        if (rev.length) return rev[0].formatted_address;
-      } catch {}
-    }
-    return null;
-  }
-
-  private async getConstrainedRoutes(request: { origin: string; destination: string; waypoints?: string[]; avoidHighways?: boolean; avoidTolls?: boolean; vehicle?: Vehicle; optimizeWaypoints?: boolean }, constraints: RoutingConstraints): Promise<google.maps.DirectionsResult> {
-    const waypoints: google.maps.DirectionsWaypoint[] = [];
-    if (request.waypoints) {
-      for (const wp of request.waypoints) {
-        try {
-          const clean = await this.validateAndCleanAddress(wp);
-          waypoints.push({ location: clean.address, stopover: true });
-        } catch {}
-      }
-    }
-    const limited = this.limitWaypoints(waypoints);
-    const dr: google.maps.DirectionsRequest = {
-      origin: request.origin,
-      destination: request.destination,
-      waypoints: limited,
-      travelMode: google.maps.TravelMode.DRIVING,
-      avoidHighways: request.avoidHighways || constraints.avoidResidential,
-      avoidTolls: request.avoidTolls,
-      optimizeWaypoints: request.optimizeWaypoints ?? false,
-      provideRouteAlternatives: true
-    };
-    return new Promise((resolve, reject) => {
-  if (!this.directionsService) {
-    reject(new Error('Directions service not available'));
-    return; // Add this return statement
+  /**
+   * Restore LatLng objects in geocoder results read back from the request cache.
+   */
+  private reviveGeocoderResults(results: google.maps.GeocoderResult[]): google.maps.GeocoderResult[] {
+    return results.map(result => {
+      const location = result.geometry.location as google.maps.LatLng | google.maps.LatLngLiteral;
+      const { lat, lng } = typeof location.lat === 'function'
+        ? { lat: (location as google.maps.LatLng).lat(), lng: (location as google.maps.LatLng).lng() }
+        : (location as google.maps.LatLngLiteral);
+      return {
+        ...result,
+        geometry: {
+          ...result.geometry,
+          location: new PlainLatLng(lat, lng),
+          viewport: reviveBounds(result.geometry.viewport),
+          bounds: result.geometry.bounds ? reviveBounds(result.geometry.bounds) : undefined
+        }
+      };
+    });
   }
-  
-  this.directionsService.route(dr, (result, status) => {
-    if (status === google.maps.DirectionsStatus.OK && result) {
-      let filtered = this.filterRoutesByConstraints(result.routes, constraints);
-      if (request.vehicle && request.vehicle.length >= 30) {
-        filtered = this.filterRoutesForLargeVehicles(filtered, request.vehicle);
-      }
-      if (filtered.length) {
-        result.routes = filtered;
-        resolve(result);
-      } else {
-        reject(new Error('No suitable routes found for this vehicle type.'));
-      }
-    } else {
-      reject(new Error(`Directions request failed: ${status}`));
-    }
-  });
-  });
-}
 
   /**
    * Public helper to request routes for large vehicles with automatic filtering.
@@ -454,24 +451,4 @@ export class GoogleMapsService {
     });
     return result;
   }
-
-private filterRoutesByConstraints(routes: google.maps.DirectionsRoute[], constraints: RoutingConstraints): google.maps.DirectionsRoute[] {
-  return routes.filter(route => {
-    for (const leg of route.legs) {
-      for (const step of leg.steps) {
-        const instr = step.instructions.replace(/<[^>]*>/g, ' ').toLowerCase();
-        const maneuver = (step as any).maneuver?.toLowerCase() || '';
-        const hasUTurn =
-          instr.includes('u-turn') ||
-          instr.includes('u turn') ||
-          instr.includes('turn around') ||
-          maneuver.includes('uturn');
-        if (constraints.avoidUTurns && hasUTurn) return false;
-        if (constraints.avoidSharpTurns && instr.includes('sharp turn')) return false;
-        if (constraints.avoidResidential && instr.includes('residential')) return false;
-      }
-    }
-    return true;
-  });
 }
-}
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { GoogleMapsService } from './googleMapsService';
+import { RouteChunkingService } from './routeChunkingService';
+import { GeocodeResult, RoutingProvider, RoutingRequest } from './routingProvider';
+
+/**
+ * Routing provider backed by the Google Maps Directions and Geocoding APIs.
+ */
+export class GoogleRoutingProvider implements RoutingProvider {
+  readonly id = 'google' as const;
+  readonly name = 'Google Maps';
+  readonly description = 'Google Directions API with live traffic';
+
+  isConfigured(): boolean {
+    return !!import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
+  }
+
+  async initialize(): Promise<void> {
+    await GoogleMapsService.getInstance().initialize();
+  }
+
+  async getRoutes(request: RoutingRequest): Promise<google.maps.DirectionsResult> {
+    await this.initializeForCache();
+    return RouteChunkingService.getRoutes(request, GoogleMapsService.MAX_WAYPOINTS, chunk =>
+      GoogleMapsService.getInstance().getRoutes(chunk)
+    );
+  }
+
+  async geocode(address: string): Promise<GeocodeResult[]> {
+    await this.initializeForCache();
+    const results = await GoogleMapsService.getInstance().geocodeAddress(address);
+    return results.map(result => this.toGeocodeResult(result));
+  }
+
+  async reverseGeocode(lat: number, lng: number): Promise<GeocodeResult[]> {
+    await this.initializeForCache();
+    const results = await GoogleMapsService.getInstance().reverseGeocode(lat, lng);
+    return results.map(result => this.toGeocodeResult(result));
+  }
+
+  /**
+   * Load the Maps script if possible. When it cannot load (e.g. offline), requests
+   * still go through so the request cache can answer for previously seen places.
+   */
+  private async initializeForCache(): Promise<void> {
+    try {
+      await this.initialize();
+    } catch (error) {
+      console.warn('⚠️ Google Maps unavailable, relying on cached responses:', error);
+    }
+  }
+
+  private toGeocodeResult(result: google.maps.GeocoderResult): GeocodeResult {
+    return {
+      formattedAddress: result.formatted_address,
+      location: {
+        lat: result.geometry.location.lat(),
+        lng: result.geometry.location.lng()
+      },
+      placeId: result.place_id
+    };
+  }
+}
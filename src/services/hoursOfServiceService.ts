@@ -0,0 +1,493 @@
+import { HosRestKind, LatLngCoordinates, Route, RouteSegment, StopLocation, Vehicle } from '../types';
+import { getSegmentDurations } from '../utils/tripTiming';
+import { getSegmentPath } from '../utils/routeGeometry';
+import { haversineMeters } from './osmRoadGraph';
+import { RestSite, RestSiteMatch } from './restSiteService';
+import { VehicleClassificationService } from './vehicleClassificationService';
+
+export type HosRuleSet = 'property' | 'passenger';
+export type HosLimit = 'driving' | 'duty' | 'break' | 'cycle';
+
+/**
+ * FMCSA hours-of-service limits (49 CFR 395.3 and 395.5) for one kind of carrier.
+ */
+export interface HosRules {
+  label: string;
+  maxDrivingHours: number;
+  maxDutyHours: number; // no driving once this many hours are reached
+  consecutiveDutyWindow: boolean; // the duty limit runs on the clock (property) rather than counting on-duty time only
+  breakAfterDrivingHours?: number; // a 30-minute interruption is needed after this much driving
+  breakMinutes: number;
+  offDutyHours: number; // consecutive off-duty hours that start a new duty period
+  restartHours?: number; // off-duty hours that reset the 60/70-hour cycle
+}
+
+/**
+ * Where the driver's clocks stand when the trip begins.
+ */
+export interface DriverStatus {
+  ruleSet?: HosRuleSet; // defaults by vehicle type
+  drivingHours: number; // driven since the last 10/8-hour off-duty period
+  onDutyHours: number; // since coming on duty (property) or on duty so far (passenger)
+  cycleHoursUsed: number; // on duty in the last 7 or 8 days
+  cycleDays: 7 | 8;
+}
+
+export interface HosViolation {
+  limit: HosLimit;
+  description: string;
+  at: string; // ISO time the limit is passed
+  mile: number;
+  segmentIndex: number;
+}
+
+export interface PlannedRest {
+  kind: HosRestKind;
+  reason: HosLimit;
+  start: string; // ISO
+  end: string; // ISO
+  minutes: number;
+  mile: number;
+  segmentIndex: number;
+  legIndex: number;
+  location: LatLngCoordinates;
+  site?: RestSite; // undefined when no known site was in reach; the rest is at the route position
+  offRouteMeters?: number;
+}
+
+export interface HosPlan {
+  ruleSet: HosRuleSet;
+  rules: HosRules;
+  departure: string; // ISO
+  arrival: string; // ISO, the itinerary as it stands
+  violations: HosViolation[]; // in the itinerary as it stands
+  rests: PlannedRest[]; // needed to keep the trip legal
+  plannedArrival: string; // ISO, with the planned rests
+  drivingMinutes: number;
+  warnings: string[];
+}
+
+interface Timeline {
+  segments: RouteSegment[];
+  durations: number[]; // seconds per segment
+  lengths: number[]; // metres per segment
+  starts: number[]; // driving seconds from departure to the start of each segment
+  meterStarts: number[];
+  total: number;
+  stops: { offset: number; stop: StopLocation }[]; // itinerary stops by driving offset
+}
+
+interface SitePosition {
+  site: RestSite;
+  offset: number; // driving seconds from departure
+  offRouteMeters: number;
+}
+
+interface DriverClock {
+  time: number; // ms
+  driving: number; // seconds, this duty period
+  sinceBreak: number; // seconds of driving since the last 30-minute interruption
+  duty: number; // seconds counted against the duty limit
+  cycle: number; // seconds on duty in the cycle
+}
+
+export const HOS_RULES: Record<HosRuleSet, HosRules> = {
+  property: {
+    label: 'Property-carrying',
+    maxDrivingHours: 11,
+    maxDutyHours: 14,
+    consecutiveDutyWindow: true,
+    breakAfterDrivingHours: 8,
+    breakMinutes: 30,
+    offDutyHours: 10,
+    restartHours: 34
+  },
+  passenger: {
+    label: 'Passenger-carrying',
+    maxDrivingHours: 10,
+    maxDutyHours: 15,
+    consecutiveDutyWindow: false,
+    breakMinutes: 30,
+    offDutyHours: 8
+  }
+};
+
+export const DEFAULT_DRIVER_STATUS: DriverStatus = { drivingHours: 0, onDutyHours: 0, cycleHoursUsed: 0, cycleDays: 7 };
+
+const METERS_PER_MILE = 1609.34;
+// How far back from a limit a break or rest may be taken at a known site
+const BREAK_SEARCH_SECONDS = 60 * 60;
+const REST_SEARCH_SECONDS = 2 * 60 * 60;
+// Take the full off-duty rest instead of a 30-minute break when the driving or duty
+// limit would follow within this much driving
+const BREAK_LOOKAHEAD_SECONDS = 60 * 60;
+const EPSILON = 1e-6;
+
+function pointAlong(path: LatLngCoordinates[], meters: number): LatLngCoordinates {
+  let travelled = 0;
+  for (let i = 1; i < path.length; i++) {
+    const length = haversineMeters(path[i - 1], path[i]);
+    if (travelled + length >= meters && length > 0) {
+      const t = (meters - travelled) / length;
+      return {
+        lat: path[i - 1].lat + (path[i].lat - path[i - 1].lat) * t,
+        lng: path[i - 1].lng + (path[i].lng - path[i - 1].lng) * t
+      };
+    }
+    travelled += length;
+  }
+  return path[path.length - 1];
+}
+
+/**
+ * Plans a trip against FMCSA hours-of-service rules: runs the driver's clocks along
+ * the route, flags where the itinerary breaks a limit, and places the breaks and
+ * off-duty rests that keep it legal at rest areas and truck stops near the route.
+ */
+export class HoursOfServiceService {
+  // Passenger rules apply to vehicles carrying more than 8 people, driver included
+  static defaultRuleSet(vehicle: Vehicle): HosRuleSet {
+    const isBus = VehicleClassificationService.classifyVehicle(vehicle).type === 'bus';
+    return isBus || (vehicle.passengerCapacity ?? 0) > 7 ? 'passenger' : 'property';
+  }
+
+  /**
+   * Check the itinerary as it stands and plan the rests it needs. `restSites` are the
+   * rest areas and truck stops along the route (RestSiteService.findAlongRoute); with
+   * none, rests are placed where each limit is reached.
+   */
+  static plan(route: Route, vehicle: Vehicle, departure: Date, status: DriverStatus, restSites: RestSiteMatch[] = []): HosPlan {
+    const ruleSet = status.ruleSet ?? this.defaultRuleSet(vehicle);
+    const rules = HOS_RULES[ruleSet];
+    const timeline = this.buildTimeline(route);
+    const sites = this.positionSites(restSites, timeline);
+
+    const asIs = this.simulate(timeline, rules, status, departure, null);
+    const planned = this.simulate(timeline, rules, status, departure, sites);
+
+    return {
+      ruleSet,
+      rules,
+      departure: departure.toISOString(),
+      arrival: new Date(asIs.clock.time).toISOString(),
+      violations: asIs.violations.sort((a, b) => Date.parse(a.at) - Date.parse(b.at)),
+      rests: planned.rests,
+      plannedArrival: new Date(planned.clock.time).toISOString(),
+      drivingMinutes: Math.round(timeline.total / 60),
+      warnings: planned.warnings
+    };
+  }
+
+  /**
+   * The route's stops with the planned rests inserted on the legs they fall on. Rests
+   * after the last stop of a loop (on the way back from the destination) cannot be
+   * placed as waypoints and are returned as skipped.
+   */
+  static withRestStops(route: Route, rests: PlannedRest[]): { stops: StopLocation[]; skipped: PlannedRest[] } {
+    const existing = route.stops ?? [];
+    const stops: StopLocation[] = [];
+    const restStop = (rest: PlannedRest, index: number): StopLocation => ({
+      id: `hos-rest-${rest.segmentIndex}-${index}`,
+      address: rest.site?.name ?? `${rest.location.lat.toFixed(5)},${rest.location.lng.toFixed(5)}`,
+      name: rest.site?.name ?? this.describeRest(rest.kind),
+      lat: rest.site?.location.lat ?? rest.location.lat,
+      lng: rest.site?.location.lng ?? rest.location.lng,
+      order: 0,
+      estimatedStopTime: rest.minutes,
+      hosRest: rest.kind
+    });
+
+    existing.forEach((stop, legIndex) => {
+      rests.forEach((rest, index) => {
+        if (rest.legIndex === legIndex) stops.push(restStop(rest, index));
+      });
+      stops.push(stop);
+    });
+    rests.forEach((rest, index) => {
+      if (rest.legIndex === existing.length) stops.push(restStop(rest, index));
+    });
+
+    return {
+      stops: stops.map((stop, order) => ({ ...stop, order })),
+      skipped: rests.filter(rest => rest.legIndex > existing.length)
+    };
+  }
+
+  static describeRest(kind: HosRestKind): string {
+    if (kind === 'break') return '30-minute break';
+    if (kind === 'restart') return '34-hour restart';
+    return 'Off-duty rest';
+  }
+
+  static describeLimit(limit: HosLimit, rules: HosRules, cycleDays: 7 | 8): string {
+    switch (limit) {
+      case 'driving':
+        return `${rules.maxDrivingHours}-hour driving limit`;
+      case 'duty':
+        return rules.consecutiveDutyWindow ? `${rules.maxDutyHours}-hour duty window` : `${rules.maxDutyHours}-hour on-duty limit`;
+      case 'break':
+        return `30-minute break after ${rules.breakAfterDrivingHours} hours of driving`;
+      case 'cycle':
+        return `${cycleDays === 8 ? 70 : 60}-hour/${cycleDays}-day limit`;
+    }
+  }
+
+  private static buildTimeline(route: Route): Timeline {
+    const durations = getSegmentDurations(route);
+    const lengths = route.segments.map(segment => {
+      const path = getSegmentPath(segment);
+      let length = 0;
+      for (let i = 1; i < path.length; i++) length += haversineMeters(path[i - 1], path[i]);
+      return length;
+    });
+    const starts: number[] = [];
+    const meterStarts: number[] = [];
+    const stops: Timeline['stops'] = [];
+    let total = 0;
+    let meters = 0;
+    let previousLeg = route.segments[0]?.legIndex ?? 0;
+
+    route.segments.forEach((segment, index) => {
+      const leg = segment.legIndex ?? previousLeg;
+      for (let stopLeg = previousLeg; stopLeg < leg; stopLeg++) {
+        const stop = route.stops?.[stopLeg];
+        if (stop) stops.push({ offset: total, stop });
+      }
+      previousLeg = leg;
+      starts.push(total);
+      meterStarts.push(meters);
+      total += durations[index];
+      meters += lengths[index];
+    });
+
+    return { segments: route.segments, durations, lengths, starts, meterStarts, total, stops };
+  }
+
+  private static positionSites(matches: RestSiteMatch[], timeline: Timeline): SitePosition[] {
+    return matches.filter(match => match.segmentIndex < timeline.durations.length).map(match => {
+      const length = timeline.lengths[match.segmentIndex];
+      const fraction = length > 0 ? Math.min(match.alongSegmentMeters / length, 1) : 0;
+      return {
+        site: match.site,
+        offset: timeline.starts[match.segmentIndex] + fraction * timeline.durations[match.segmentIndex],
+        offRouteMeters: match.offRouteMeters
+      };
+    });
+  }
+
+  /**
+   * Run the driver's clocks over the trip. With sites (possibly none), rests are placed
+   * before each limit; without, the itinerary is driven as it stands and each limit
+   * passed is recorded.
+   */
+  private static simulate(
+    timeline: Timeline,
+    rules: HosRules,
+    status: DriverStatus,
+    departure: Date,
+    sites: SitePosition[] | null
+  ): { clock: DriverClock; violations: HosViolation[]; rests: PlannedRest[]; warnings: string[] } {
+    const clock: DriverClock = {
+      time: departure.getTime(),
+      driving: status.drivingHours * 3600,
+      sinceBreak: status.drivingHours * 3600,
+      duty: Math.max(status.onDutyHours, status.drivingHours) * 3600,
+      cycle: status.cycleHoursUsed * 3600
+    };
+    const cycleHours = status.cycleDays === 8 ? 70 : 60;
+    const violations: HosViolation[] = [];
+    const rests: PlannedRest[] = [];
+    const warnings: string[] = [];
+    const flagged = new Set<HosLimit>();
+    // Set once a cycle limit is found that no rest on this trip can clear
+    let cycleUnresolved = false;
+    let position = 0;
+    let stopIndex = 0;
+
+    while (true) {
+      while (stopIndex < timeline.stops.length && timeline.stops[stopIndex].offset <= position + EPSILON) {
+        const { stop } = timeline.stops[stopIndex];
+        const minutes = stop.estimatedStopTime ?? 0;
+        if (stop.hosRest) this.restOffDuty(clock, rules, minutes, flagged);
+        else this.onDutyNotDriving(clock, rules, minutes, flagged);
+        stopIndex++;
+      }
+      if (position >= timeline.total - EPSILON) break;
+      const target = stopIndex < timeline.stops.length ? timeline.stops[stopIndex].offset : timeline.total;
+
+      if (sites) {
+        const remaining = this.remaining(clock, rules, cycleHours);
+        if (cycleUnresolved) remaining.cycle = Infinity;
+        const [limit, room] = (Object.entries(remaining) as [HosLimit, number][])
+          .reduce((min, entry) => (entry[1] < min[1] ? entry : min));
+        if (room < target - position) {
+          const kind = this.restKindFor(limit, room, remaining, rules);
+          if (!kind) {
+            warnings.push(`The ${this.describeLimit(limit, rules, status.cycleDays)} is reached on this trip. Passenger carriers have no 34-hour restart, so hours only come back as earlier days drop out of the cycle.`);
+            cycleUnresolved = true;
+            continue;
+          }
+          const rest = this.placeRest(timeline, sites, position, position + Math.max(room, 0), kind);
+          // A rest taken where the driver already is comes after any stops made there
+          const afterStops = rest.offset <= position + EPSILON;
+          this.drive(clock, rest.offset - position, position, timeline, rules, cycleHours, violations, flagged, status.cycleDays);
+          position = rest.offset;
+          const minutes = kind === 'break' ? rules.breakMinutes : (kind === 'restart' ? rules.restartHours! : rules.offDutyHours) * 60;
+          const start = clock.time;
+          this.restOffDuty(clock, rules, minutes, flagged);
+          const point = this.pointAt(timeline, rest.offset, afterStops);
+          rests.push({
+            kind,
+            reason: limit,
+            start: new Date(start).toISOString(),
+            end: new Date(clock.time).toISOString(),
+            minutes,
+            mile: Math.round((point.meters / METERS_PER_MILE) * 10) / 10,
+            segmentIndex: point.segmentIndex,
+            legIndex: point.legIndex,
+            location: point.location,
+            site: rest.site?.site,
+            offRouteMeters: rest.site?.offRouteMeters
+          });
+          continue;
+        }
+      }
+
+      this.drive(clock, target - position, position, timeline, rules, cycleHours, violations, flagged, status.cycleDays);
+      position = target;
+    }
+
+    return { clock, violations, rests, warnings };
+  }
+
+  private static remaining(clock: DriverClock, rules: HosRules, cycleHours: number): Record<HosLimit, number> {
+    return {
+      driving: rules.maxDrivingHours * 3600 - clock.driving,
+      duty: rules.maxDutyHours * 3600 - clock.duty,
+      break: rules.breakAfterDrivingHours !== undefined ? rules.breakAfterDrivingHours * 3600 - clock.sinceBreak : Infinity,
+      cycle: cycleHours * 3600 - clock.cycle
+    };
+  }
+
+  private static restKindFor(limit: HosLimit, room: number, remaining: Record<HosLimit, number>, rules: HosRules): HosRestKind | null {
+    if (limit === 'cycle') return rules.restartHours !== undefined ? 'restart' : null;
+    if (limit === 'break') {
+      return Math.min(remaining.driving, remaining.duty) - room > BREAK_LOOKAHEAD_SECONDS ? 'break' : 'off_duty';
+    }
+    return 'off_duty';
+  }
+
+  /**
+   * The last known site before the limit, within the search window, or the point the
+   * limit is reached when there is none. Off-duty rests skip sites with short stay limits.
+   */
+  private static placeRest(
+    timeline: Timeline,
+    sites: SitePosition[],
+    position: number,
+    limitOffset: number,
+    kind: HosRestKind
+  ): { offset: number; site?: SitePosition } {
+    const earliest = Math.max(position, limitOffset - (kind === 'break' ? BREAK_SEARCH_SECONDS : REST_SEARCH_SECONDS));
+    const candidates = sites.filter(site =>
+      site.offset >= earliest - EPSILON &&
+      site.offset <= limitOffset + EPSILON &&
+      (kind === 'break' || site.site.overnight !== false)
+    );
+    const site = candidates[candidates.length - 1];
+    const offset = Math.min(site ? site.offset : limitOffset, timeline.total);
+    return { offset: Math.max(offset, position), site };
+  }
+
+  private static drive(
+    clock: DriverClock,
+    seconds: number,
+    position: number,
+    timeline: Timeline,
+    rules: HosRules,
+    cycleHours: number,
+    violations: HosViolation[],
+    flagged: Set<HosLimit>,
+    cycleDays: 7 | 8
+  ): void {
+    if (seconds <= EPSILON) return;
+    const remaining = this.remaining(clock, rules, cycleHours);
+    (Object.entries(remaining) as [HosLimit, number][]).forEach(([limit, room]) => {
+      if (room >= seconds || flagged.has(limit)) return;
+      flagged.add(limit);
+      const offset = position + Math.max(room, 0);
+      const point = this.pointAt(timeline, offset, false);
+      violations.push({
+        limit,
+        description: `${this.describeLimit(limit, rules, cycleDays)} passed at mile ${(point.meters / METERS_PER_MILE).toFixed(1)}${point.street ? ` on ${point.street}` : ''}`,
+        at: new Date(clock.time + Math.max(room, 0) * 1000).toISOString(),
+        mile: Math.round((point.meters / METERS_PER_MILE) * 10) / 10,
+        segmentIndex: point.segmentIndex
+      });
+    });
+    clock.time += seconds * 1000;
+    clock.driving += seconds;
+    clock.sinceBreak += seconds;
+    clock.duty += seconds;
+    clock.cycle += seconds;
+  }
+
+  // Loading, unloading and passenger stops: on duty, but an interruption to driving
+  private static onDutyNotDriving(clock: DriverClock, rules: HosRules, minutes: number, flagged: Set<HosLimit>): void {
+    clock.time += minutes * 60000;
+    clock.duty += minutes * 60;
+    clock.cycle += minutes * 60;
+    if (minutes >= rules.breakMinutes) {
+      clock.sinceBreak = 0;
+      flagged.delete('break');
+    }
+  }
+
+  private static restOffDuty(clock: DriverClock, rules: HosRules, minutes: number, flagged: Set<HosLimit>): void {
+    clock.time += minutes * 60000;
+    if (rules.restartHours !== undefined && minutes >= rules.restartHours * 60) {
+      Object.assign(clock, { driving: 0, sinceBreak: 0, duty: 0, cycle: 0 });
+      flagged.clear();
+    } else if (minutes >= rules.offDutyHours * 60) {
+      Object.assign(clock, { driving: 0, sinceBreak: 0, duty: 0 });
+      flagged.delete('driving');
+      flagged.delete('duty');
+      flagged.delete('break');
+    } else {
+      // A short rest still runs down the consecutive duty window
+      if (rules.consecutiveDutyWindow) clock.duty += minutes * 60;
+      if (minutes >= rules.breakMinutes) {
+        clock.sinceBreak = 0;
+        flagged.delete('break');
+      }
+    }
+  }
+
+  /**
+   * Route position reached after `offset` seconds of driving. At a leg boundary the
+   * earlier leg is used unless `afterStops` says the stops there were already made.
+   */
+  private static pointAt(
+    timeline: Timeline,
+    offset: number,
+    afterStops: boolean
+  ): { segmentIndex: number; legIndex: number; meters: number; location: LatLngCoordinates; street?: string } {
+    const count = timeline.durations.length;
+    let index = 0;
+    while (index < count - 1 && (afterStops ? timeline.starts[index + 1] <= offset + EPSILON : timeline.starts[index + 1] < offset - EPSILON)) {
+      index++;
+    }
+    const segment = timeline.segments[index];
+    const duration = timeline.durations[index] ?? 0;
+    const fraction = duration > 0 ? Math.min(Math.max((offset - timeline.starts[index]) / duration, 0), 1) : 0;
+    const along = fraction * (timeline.lengths[index] ?? 0);
+    const path = segment ? getSegmentPath(segment) : [];
+    return {
+      segmentIndex: index,
+      legIndex: segment?.legIndex ?? 0,
+      meters: (timeline.meterStarts[index] ?? 0) + along,
+      location: path.length > 0 ? pointAlong(path, along) : { lat: 0, lng: 0 },
+      street: segment?.streetName
+    };
+  }
+}
@@ -2,6 +2,7 @@
 // Prioritizes traffic lights over stop signs, even with longer distances
 
 import { RouteSegment, Vehicle, Route } from '../types';
+import { VehicleClassificationService } from './vehicleClassificationService';
 
 interface IntersectionData {
   id: string;
@@ -388,9 +389,7 @@ class LargeVehicleRoutingAlgorithm {
   }
   
   private static estimateVehicleWeight(vehicle: Vehicle): number {
-    // Rough weight estimation based on dimensions
-    const volume = vehicle.length * vehicle.width * vehicle.height;
-    return volume * 0.02; // Rough conversion factor to tons
+    return VehicleClassificationService.getGrossWeightTons(vehicle);
   }
   
   private static findShortestRoute(route: Route): { distance: number; time: number } {
@@ -432,64 +431,9 @@ class LargeVehicleRoutingAlgorithm {
 }
 
 /**
- * Integration with existing risk calculator
+ * Large-vehicle safety advice; route risk itself is scored by RiskPipeline
  */
 export class EnhancedRiskCalculator {
-  static calculateLargeVehicleRisk(route: Route, vehicle: Vehicle): number {
-    const isLargeVehicle = vehicle.length >= 30;
-    
-    if (!isLargeVehicle) {
-      // Use existing risk calculation for smaller vehicles
-      return this.calculateStandardRisk(route, vehicle);
-    }
-    
-    // Enhanced risk calculation for large vehicles
-    let totalRisk = 0;
-    let intersectionCount = 0;
-    
-    route.segments.forEach(segment => {
-      let segmentRisk = this.calculateStandardSegmentRisk(segment, vehicle);
-      
-      // Apply large vehicle penalties
-      if (segment.riskFactors) {
-        // Heavy penalty for stop signs
-        if (segment.description?.toLowerCase().includes('stop')) {
-          segmentRisk += 40;
-        }
-        
-        // Bonus for traffic lights
-        if (segment.description?.toLowerCase().includes('traffic light')) {
-          segmentRisk -= 15;
-        }
-        
-        // Penalty for narrow roads
-        if (segment.riskFactors.roadWidth > 50) {
-          segmentRisk += 25;
-        }
-        
-        // School zone penalty
-        if (segment.description?.toLowerCase().includes('school')) {
-          segmentRisk += 30;
-        }
-      }
-      
-      totalRisk += segmentRisk;
-      intersectionCount++;
-    });
-    
-    return intersectionCount > 0 ? totalRisk / intersectionCount : 0;
-  }
-  
-  private static calculateStandardRisk(route: Route, vehicle: Vehicle): number {
-    // Placeholder for existing risk calculation
-    return 50;
-  }
-  
-  private static calculateStandardSegmentRisk(segment: RouteSegment, vehicle: Vehicle): number {
-    // Placeholder for existing segment risk calculation
-    return 30;
-  }
-  
   /**
    * Generate safety recommendations for large vehicles
    */
@@ -0,0 +1,217 @@
+import { buildDirectionsResult, ProviderRoute, ProviderStep } from '../utils/directionsBuilder';
+import { loadRoadGraph, RoadEdge, RoadGraph } from './osmRoadGraph';
+import { RoadAttributeService } from './roadAttributeService';
+import { GeocodeResult, RoutingRequest } from './routingProvider';
+import { SelfHostedRoutingProvider } from './selfHostedRoutingProvider';
+import { getTurnDeflection, TruckRouter } from './truckRouter';
+
+export interface OsmExtractInfo {
+  name: string;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+type ExtractListener = (info: OsmExtractInfo | null) => void;
+
+type RouteStep = ProviderStep & { streetName?: string };
+
+const DEFAULT_VEHICLE = { height: 6, length: 16, width: 6.5 };
+
+/**
+ * Routing provider that runs the truck-aware A* router in the browser over a local OSM
+ * extract (.osm.pbf or road GeoJSON). The extract is fetched from VITE_OSM_EXTRACT_URL
+ * or picked by the user, so no routing server is needed.
+ */
+export class LocalOsmRoutingProvider extends SelfHostedRoutingProvider {
+  readonly id = 'local' as const;
+  readonly name = 'Local OSM (truck A*)';
+  readonly description = 'In-browser truck router over a local OSM extract';
+
+  private graph: RoadGraph | null = null;
+  private router: TruckRouter | null = null;
+  private extractInfo: OsmExtractInfo | null = null;
+  private loading: Promise<void> | null = null;
+  private listeners = new Set<ExtractListener>();
+
+  protected getBaseUrl(): string {
+    return import.meta.env.VITE_OSM_EXTRACT_URL || '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.graph || super.isConfigured();
+  }
+
+  async initialize(): Promise<void> {
+    if (this.graph) return;
+    if (!this.loading) {
+      const url = this.getBaseUrl();
+      if (!url) {
+        throw new Error('No OSM extract loaded. Choose an .osm.pbf or GeoJSON file, or set VITE_OSM_EXTRACT_URL.');
+      }
+      this.loading = this.fetchExtract(url).finally(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+  }
+
+  /**
+   * Load an extract chosen by the user, replacing any previously loaded one. The same
+   * graph supplies road attributes for risk scoring.
+   */
+  async loadExtract(buffer: ArrayBuffer, name: string): Promise<OsmExtractInfo> {
+    console.log(`🗺️ Building road graph from ${name}...`);
+    const graph = await loadRoadGraph(buffer);
+    this.graph = graph;
+    this.router = new TruckRouter(graph);
+    this.extractInfo = { name, nodeCount: graph.nodes.length, edgeCount: graph.edges.length };
+    console.log(`✅ Road graph ready: ${graph.nodes.length} nodes, ${graph.edges.length} edges`);
+    RoadAttributeService.setGraph(graph, name);
+    this.listeners.forEach(listener => listener(this.extractInfo));
+    return this.extractInfo;
+  }
+
+  getExtractInfo(): OsmExtractInfo | null {
+    return this.extractInfo;
+  }
+
+  subscribe(listener: ExtractListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Street names in the extract double as an offline gazetteer before falling back to Nominatim.
+   */
+  async geocode(address: string): Promise<GeocodeResult[]> {
+    const query = address.trim().toLowerCase();
+    const match = this.graph?.edges.find(edge => edge.name && edge.name.toLowerCase() === query);
+    if (match) {
+      const midpoint = match.geometry[Math.floor(match.geometry.length / 2)];
+      return [{ formattedAddress: match.name, location: midpoint }];
+    }
+    return super.geocode(address);
+  }
+
+  async getRoutes(request: RoutingRequest): Promise<google.maps.DirectionsResult> {
+    await this.initialize();
+    const router = this.router!;
+    const stops = await this.resolveStops(request);
+    const vehicle = request.vehicle ?? DEFAULT_VEHICLE;
+
+    console.log('🚛 Running local truck router:', { locations: stops.length, vehicle });
+
+    const results = router.findRoutes(
+      stops.map(stop => stop.coordinates),
+      { vehicle, avoidHighways: request.avoidHighways, avoidTolls: request.avoidTolls }
+    );
+    if (results.length === 0) {
+      throw new Error(
+        'No route in the loaded extract satisfies this vehicle\'s restrictions (clearances, U-turn and turn-angle limits).'
+      );
+    }
+
+    const labels = stops.map(stop => stop.label);
+    const routes: ProviderRoute[] = results.map((result, index) => {
+      const allSteps: RouteStep[] = [];
+      const legs = result.legs.map((edges, legIndex) => {
+        const steps = this.buildSteps(edges);
+        allSteps.push(...steps);
+        return { startAddress: labels[legIndex], endAddress: labels[legIndex + 1], steps };
+      });
+      const warnings = result.restrictedEdgeCount > 0
+        ? [`Avoided ${result.restrictedEdgeCount} road segment(s) with posted height, width, length, weight, truck or hazmat restrictions`]
+        : [];
+      return {
+        summary: this.summarizeRoute(allSteps, `Truck Route ${index + 1}`),
+        legs,
+        warnings,
+        copyrights: 'Map data © OpenStreetMap contributors'
+      };
+    });
+
+    return buildDirectionsResult(routes, {
+      origin: request.origin,
+      destination: request.destination,
+      waypoints: labels.slice(1, -1).map(location => ({ location, stopover: true }))
+    });
+  }
+
+  private async fetchExtract(url: string): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      throw new Error(`Could not download OSM extract from ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Could not download OSM extract (${response.status}): ${response.statusText}`);
+    }
+    await this.loadExtract(await response.arrayBuffer(), url.split('/').pop() || url);
+  }
+
+  /**
+   * Merge consecutive edges on the same street into steps, starting a new step at each
+   * name change or real turn.
+   */
+  private buildSteps(edges: RoadEdge[]): RouteStep[] {
+    const steps: RouteStep[] = [];
+    let current: RouteStep | null = null;
+
+    edges.forEach((edge, index) => {
+      const previous = index > 0 ? edges[index - 1] : null;
+      const deflection = previous ? getTurnDeflection(previous, edge) : 0;
+      const startsStep = !current || edge.name !== previous?.name || Math.abs(deflection) >= 45;
+
+      if (startsStep) {
+        current = {
+          instructions: previous ? this.buildInstruction(edge, deflection) : this.buildDepartInstruction(edge),
+          distanceMeters: 0,
+          durationSeconds: 0,
+          path: [edge.geometry[0]],
+          maneuver: previous ? this.toGoogleManeuver(deflection) : '',
+          streetName: edge.name || undefined
+        };
+        steps.push(current);
+      }
+
+      const step = current!;
+      step.distanceMeters += edge.lengthMeters;
+      step.durationSeconds += edge.lengthMeters / (edge.speedMph * 0.44704);
+      step.path.push(...edge.geometry.slice(1));
+    });
+
+    return steps.map(step => ({
+      ...step,
+      distanceMeters: Math.round(step.distanceMeters),
+      durationSeconds: Math.round(step.durationSeconds)
+    }));
+  }
+
+  private buildDepartInstruction(edge: RoadEdge): string {
+    return edge.name ? `Head out on <b>${edge.name}</b>` : 'Depart';
+  }
+
+  private buildInstruction(edge: RoadEdge, deflection: number): string {
+    const onto = edge.name ? ` onto <b>${edge.name}</b>` : '';
+    const angle = Math.abs(deflection);
+    const side = deflection < 0 ? 'left' : 'right';
+    if (angle >= 165) return `Make a U-turn${onto}`;
+    if (angle >= 120) return `Turn sharp ${side}${onto}`;
+    if (angle >= 45) return `Turn ${side}${onto}`;
+    if (angle >= 20) return `Turn slight ${side}${onto}`;
+    return `Continue straight${onto}`;
+  }
+
+  private toGoogleManeuver(deflection: number): string {
+    const angle = Math.abs(deflection);
+    const side = deflection < 0 ? 'left' : 'right';
+    if (angle >= 165) return `uturn-${side}`;
+    if (angle >= 120) return `turn-sharp-${side}`;
+    if (angle >= 45) return `turn-${side}`;
+    if (angle >= 20) return `turn-slight-${side}`;
+    return 'straight';
+  }
+}
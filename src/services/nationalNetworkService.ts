@@ -0,0 +1,350 @@
+import { LatLngCoordinates, NetworkCoverageMile, RouteSegment, TruckRouteRestriction } from '../types';
+import { bearingDegrees } from './osmRoadGraph';
+import { bearingDifference, distanceToEdge, getSegmentPath } from '../utils/routeGeometry';
+
+export interface NationalNetworkRoute {
+  routeId: string;
+  designation: 'Interstate' | 'US_Highway' | 'State_Route' | 'National_Network';
+  truckFriendly: boolean;
+  staaApproved: boolean; // Surface Transportation Assistance Act approved
+  maxVehicleLength?: number; // feet, when the route posts one
+  maxVehicleHeight?: number; // feet, when the route posts one
+  maxVehicleWeight: number; // tons
+  restrictions: TruckRouteRestriction[];
+}
+
+export interface NationalNetworkInfo {
+  name: string;
+  routeCount: number;
+  lineCount: number;
+  miles: number;
+  loaded: boolean;
+}
+
+// How much of a segment's geometry runs along National Network lines
+export interface SegmentNetworkMatch {
+  meters: number;
+  coveredMeters: number;
+  routes: NationalNetworkRoute[];
+  // Consecutive stretches of the segment, in order, with the route each one runs on
+  stretches: { meters: number; routeId: string | null }[];
+}
+
+interface NetworkLine {
+  route: NationalNetworkRoute;
+  path: LatLngCoordinates[];
+}
+
+type NationalNetworkListener = (info: NationalNetworkInfo) => void;
+
+const CELL_DEGREES = 0.01;
+// A route point this close to a network line may be on it
+const MATCH_RADIUS_METERS = 40;
+// ...and only when the line runs within this many degrees of the route (either way)
+const MAX_BEARING_DIFFERENCE = 30;
+// Route geometry is checked at this spacing
+const SAMPLE_METERS = 50;
+const METERS_PER_MILE = 1609.34;
+// Federal gross weight limit on the Interstate system (80,000 lb)
+const FEDERAL_WEIGHT_TONS = 40;
+
+// Sign type codes used by NHPN (SIGNT1) and HPMS (ROUTE_SIGNING)
+const SIGN_DESIGNATIONS: Record<string, NationalNetworkRoute['designation']> = {
+  i: 'Interstate',
+  '2': 'Interstate',
+  u: 'US_Highway',
+  '3': 'US_Highway',
+  s: 'State_Route',
+  '4': 'State_Route'
+};
+
+const EMPTY_INFO: NationalNetworkInfo = { name: 'No National Network loaded', routeCount: 0, lineCount: 0, miles: 0, loaded: false };
+
+function toNumber(value: unknown): number | null {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function firstOf(properties: Record<string, unknown>, keys: string[]): string | undefined {
+  const key = keys.find(name => properties[name] !== undefined && properties[name] !== null && String(properties[name]).trim() !== '');
+  return key ? String(properties[key]).trim() : undefined;
+}
+
+function distanceMeters(a: LatLngCoordinates, b: LatLngCoordinates): number {
+  const dx = (b.lng - a.lng) * 111320 * Math.cos((a.lat * Math.PI) / 180);
+  const dy = (b.lat - a.lat) * 111320;
+  return Math.hypot(dx, dy);
+}
+
+function formatRouteId(designation: NationalNetworkRoute['designation'], number: string, state?: string): string {
+  if (designation === 'Interstate') return `I-${number}`;
+  if (designation === 'US_Highway') return `US-${number}`;
+  return `${state && state.length === 2 ? state.toUpperCase() : 'SR'}-${number}`;
+}
+
+// Each edge is indexed in every cell its bounding box touches
+function buildGrid(lines: NetworkLine[]): Map<string, [number, number][]> {
+  const grid = new Map<string, [number, number][]>();
+  lines.forEach((line, lineIndex) => {
+    for (let i = 1; i < line.path.length; i++) {
+      const a = line.path[i - 1];
+      const b = line.path[i];
+      for (let lat = Math.floor(Math.min(a.lat, b.lat) / CELL_DEGREES); lat <= Math.floor(Math.max(a.lat, b.lat) / CELL_DEGREES); lat++) {
+        for (let lng = Math.floor(Math.min(a.lng, b.lng) / CELL_DEGREES); lng <= Math.floor(Math.max(a.lng, b.lng) / CELL_DEGREES); lng++) {
+          const key = `${lat},${lng}`;
+          const cell = grid.get(key);
+          if (cell) cell.push([lineIndex, i]);
+          else grid.set(key, [[lineIndex, i]]);
+        }
+      }
+    }
+  });
+  return grid;
+}
+
+/**
+ * National Network / STAA designated routes imported as line geometry (NHPN or HPMS
+ * style GeoJSON). Route segments are matched to the lines by proximity and bearing, so
+ * coverage reflects the roads actually driven rather than the words in an instruction.
+ */
+export class NationalNetworkService {
+  private static lines: NetworkLine[] = [];
+  private static grid = new Map<string, [number, number][]>();
+  private static info: NationalNetworkInfo = EMPTY_INFO;
+  private static loadedUrl: string | null = null;
+  private static listeners = new Set<NationalNetworkListener>();
+
+  static getInfo(): NationalNetworkInfo {
+    return this.info;
+  }
+
+  static subscribe(listener: NationalNetworkListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replace the network with the LineString and MultiLineString features of a GeoJSON
+   * FeatureCollection. Routes are named from route/ROUTE_NAME/SIGN1, or a sign type
+   * (SIGNT1, ROUTE_SIGNING) and number (SIGNN1, ROUTE_NUMBER). Features with an NN
+   * property of 0 are not on the network and are skipped.
+   */
+  static loadFile(text: string, name: string): number {
+    let parsed: { features?: { geometry?: { type: string; coordinates: unknown } | null; properties?: Record<string, unknown> | null }[] };
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('National Network file is not valid JSON');
+    }
+    if (!Array.isArray(parsed.features)) {
+      throw new Error('National Network GeoJSON must be a FeatureCollection');
+    }
+
+    const lines = parsed.features.flatMap(feature => {
+      const properties = feature.properties || {};
+      const route = this.toRoute(properties);
+      const geometry = feature.geometry;
+      if (!route || !geometry) return [];
+      const parts = geometry.type === 'LineString' ? [geometry.coordinates as number[][]]
+        : geometry.type === 'MultiLineString' ? geometry.coordinates as number[][][]
+        : [];
+      return parts
+        .map(part => part.map(([lng, lat]) => ({ lat, lng })))
+        .filter(path => path.length > 1)
+        .map(path => ({ route, path }));
+    });
+    if (lines.length === 0) {
+      throw new Error('No National Network lines found in the file');
+    }
+    this.setLines(lines, name);
+    console.log(`🛣️ Loaded ${lines.length} National Network lines (${this.info.routeCount} routes) from ${name}`);
+    return lines.length;
+  }
+
+  static clear(): void {
+    this.lines = [];
+    this.grid = new Map();
+    this.info = EMPTY_INFO;
+    this.notify();
+  }
+
+  /**
+   * Download the network configured with VITE_NATIONAL_NETWORK_URL, once. Failures are
+   * logged and coverage stays unknown.
+   */
+  static async ensureLoaded(): Promise<void> {
+    const url = import.meta.env?.VITE_NATIONAL_NETWORK_URL as string | undefined;
+    if (!url || this.loadedUrl === url || this.info.loaded) return;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`National Network request failed (${response.status})`);
+      this.loadFile(await response.text(), url.split('/').pop() || url);
+      this.loadedUrl = url;
+    } catch (error) {
+      console.error('Failed to load National Network:', error);
+    }
+  }
+
+  /**
+   * Walk the segment's geometry and find, for each stretch, the network line it runs
+   * along: within 40 m and heading the same way (or the opposite way on an undivided
+   * line). Cross streets passing under or over a route do not count.
+   */
+  static matchSegment(segment: RouteSegment): SegmentNetworkMatch {
+    const path = getSegmentPath(segment);
+    const stretches: SegmentNetworkMatch['stretches'] = [];
+    const routes = new Map<string, NationalNetworkRoute>();
+    let meters = 0;
+    let coveredMeters = 0;
+
+    for (let i = 1; i < path.length; i++) {
+      const a = path[i - 1];
+      const b = path[i];
+      const edgeMeters = distanceMeters(a, b);
+      if (edgeMeters === 0) continue;
+      const bearing = bearingDegrees(a, b);
+      const samples = Math.max(1, Math.ceil(edgeMeters / SAMPLE_METERS));
+      for (let sample = 0; sample < samples; sample++) {
+        const t = (sample + 0.5) / samples;
+        const point = { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t };
+        const route = this.info.loaded ? this.findRouteAt(point, bearing) : null;
+        const stretchMeters = edgeMeters / samples;
+        meters += stretchMeters;
+        if (route) {
+          coveredMeters += stretchMeters;
+          routes.set(route.routeId, route);
+        }
+        const last = stretches[stretches.length - 1];
+        const routeId = route?.routeId ?? null;
+        if (last && last.routeId === routeId) last.meters += stretchMeters;
+        else stretches.push({ meters: stretchMeters, routeId });
+      }
+    }
+
+    return { meters, coveredMeters, routes: Array.from(routes.values()), stretches };
+  }
+
+  /**
+   * Split the matched stretches of consecutive segments into miles
+   */
+  static coverageByMile(matches: SegmentNetworkMatch[]): NetworkCoverageMile[] {
+    const miles: NetworkCoverageMile[] = [];
+    let current = { meters: 0, coveredMeters: 0, routeIds: new Set<string>() };
+    const close = () => {
+      if (current.meters === 0) return;
+      miles.push({
+        mile: miles.length + 1,
+        miles: Math.round(current.meters / METERS_PER_MILE * 100) / 100,
+        coveredFraction: Math.round(current.coveredMeters / current.meters * 100) / 100,
+        routeIds: Array.from(current.routeIds)
+      });
+      current = { meters: 0, coveredMeters: 0, routeIds: new Set<string>() };
+    };
+
+    matches.forEach(match => match.stretches.forEach(stretch => {
+      let remaining = stretch.meters;
+      while (remaining > 0) {
+        const take = Math.min(remaining, METERS_PER_MILE - current.meters);
+        current.meters += take;
+        if (stretch.routeId) {
+          current.coveredMeters += take;
+          current.routeIds.add(stretch.routeId);
+        }
+        remaining -= take;
+        if (current.meters >= METERS_PER_MILE - 1e-6) close();
+      }
+    }));
+    close();
+    return miles;
+  }
+
+  private static findRouteAt(point: LatLngCoordinates, bearing: number): NationalNetworkRoute | null {
+    let best: { distance: number; route: NationalNetworkRoute } | null = null;
+    const lat = Math.floor(point.lat / CELL_DEGREES);
+    const lng = Math.floor(point.lng / CELL_DEGREES);
+    const seen = new Set<string>();
+    for (let dLat = -1; dLat <= 1; dLat++) {
+      for (let dLng = -1; dLng <= 1; dLng++) {
+        for (const [lineIndex, edgeIndex] of this.grid.get(`${lat + dLat},${lng + dLng}`) ?? []) {
+          const key = `${lineIndex}:${edgeIndex}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          const line = this.lines[lineIndex];
+          const a = line.path[edgeIndex - 1];
+          const b = line.path[edgeIndex];
+          const distance = distanceToEdge(point, a, b);
+          if (distance > MATCH_RADIUS_METERS || (best && distance >= best.distance)) continue;
+          if (bearingDifference(bearing, bearingDegrees(a, b)) > MAX_BEARING_DIFFERENCE) continue;
+          best = { distance, route: line.route };
+        }
+      }
+    }
+    return best?.route ?? null;
+  }
+
+  private static toRoute(properties: Record<string, unknown>): NationalNetworkRoute | null {
+    const nn = firstOf(properties, ['NN', 'nn', 'national_network']);
+    if (nn !== undefined && (nn === '0' || nn.toLowerCase() === 'false' || nn.toLowerCase() === 'n')) return null;
+
+    const signType = (firstOf(properties, ['SIGNT1', 'ROUTE_SIGNING', 'sign_type']) ?? '').toLowerCase();
+    const signNumber = firstOf(properties, ['SIGNN1', 'ROUTE_NUMBER', 'route_number']);
+    const state = firstOf(properties, ['STATE', 'state', 'STUSPS']);
+    const named = firstOf(properties, ['route', 'ROUTE', 'route_id', 'ROUTE_NAME', 'SIGN1']);
+    const designation = SIGN_DESIGNATIONS[signType] ?? this.designationOf(named);
+
+    let routeId = named;
+    if (signNumber && designation !== 'National_Network') {
+      routeId = formatRouteId(designation, signNumber, state);
+    } else if (named && /^[ius]\d/i.test(named)) {
+      // NHPN SIGN1 packs the type and number together: I95, U1, S3
+      routeId = formatRouteId(designation, named.slice(1), state);
+    }
+    if (!routeId) return null;
+
+    const staa = firstOf(properties, ['STAA', 'staa']);
+    const maxLength = toNumber(properties.max_length_ft);
+    const maxHeight = toNumber(properties.max_height_ft);
+    const maxWeight = toNumber(properties.max_weight_tons);
+    return {
+      routeId,
+      designation,
+      truckFriendly: true,
+      staaApproved: staa === undefined || !['0', 'false', 'n'].includes(staa.toLowerCase()),
+      maxVehicleLength: maxLength ?? undefined,
+      maxVehicleHeight: maxHeight ?? undefined,
+      maxVehicleWeight: maxWeight ?? FEDERAL_WEIGHT_TONS,
+      restrictions: []
+    };
+  }
+
+  private static designationOf(routeName: string | undefined): NationalNetworkRoute['designation'] {
+    if (!routeName) return 'National_Network';
+    if (/^(i|interstate)[\s-]*\d/i.test(routeName)) return 'Interstate';
+    if (/^(u|us)[\s-]*\d/i.test(routeName)) return 'US_Highway';
+    if (/^(s|sr|[a-z]{2})[\s-]*\d/i.test(routeName)) return 'State_Route';
+    return 'National_Network';
+  }
+
+  private static setLines(lines: NetworkLine[], name: string): void {
+    this.lines = lines;
+    this.grid = buildGrid(lines);
+    let meters = 0;
+    lines.forEach(line => {
+      for (let i = 1; i < line.path.length; i++) meters += distanceMeters(line.path[i - 1], line.path[i]);
+    });
+    this.info = {
+      name,
+      routeCount: new Set(lines.map(line => line.route.routeId)).size,
+      lineCount: lines.length,
+      miles: Math.round(meters / METERS_PER_MILE * 10) / 10,
+      loaded: true
+    };
+    this.notify();
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener(this.info));
+  }
+}
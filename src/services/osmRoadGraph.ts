@@ -0,0 +1,303 @@
+import { LatLngCoordinates } from '../types';
+import { readOsmPbf } from '../utils/osmPbfReader';
+
+/**
+ * A directed road edge between two graph nodes (intersections or way ends).
+ * Intermediate OSM nodes are kept as geometry only.
+ */
+export interface RoadEdge {
+  id: number;
+  from: number;
+  to: number;
+  wayId: string;
+  name: string;
+  highway: string;
+  lengthMeters: number;
+  speedMph: number;
+  /** Bearing leaving `from` and arriving at `to`, in degrees */
+  bearingStart: number;
+  bearingEnd: number;
+  geometry: LatLngCoordinates[];
+  tags: Record<string, string>;
+}
+
+export interface RoadGraph {
+  nodes: LatLngCoordinates[];
+  edges: RoadEdge[];
+  /** Outgoing edge ids per node */
+  outgoing: number[][];
+}
+
+interface RawWay {
+  id: string;
+  nodeIds: string[];
+  tags: Record<string, string>;
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  id?: string | number;
+  properties: Record<string, unknown> | null;
+  geometry: { type: string; coordinates: unknown } | null;
+}
+
+const DRIVABLE_HIGHWAYS = new Set([
+  'motorway', 'motorway_link', 'trunk', 'trunk_link', 'primary', 'primary_link',
+  'secondary', 'secondary_link', 'tertiary', 'tertiary_link', 'unclassified',
+  'residential', 'living_street', 'service', 'road'
+]);
+
+// Typical US speeds when a way has no maxspeed tag
+export const DEFAULT_SPEEDS_MPH: Record<string, number> = {
+  motorway: 65,
+  motorway_link: 40,
+  trunk: 55,
+  trunk_link: 35,
+  primary: 45,
+  primary_link: 30,
+  secondary: 40,
+  secondary_link: 30,
+  tertiary: 35,
+  tertiary_link: 25,
+  unclassified: 30,
+  residential: 25,
+  living_street: 10,
+  service: 15,
+  road: 25
+};
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export const isDrivableWay = (tags: Record<string, string>): boolean =>
+  DRIVABLE_HIGHWAYS.has(tags.highway) &&
+  tags.area !== 'yes' &&
+  tags.access !== 'no' &&
+  tags.access !== 'private' &&
+  tags.motor_vehicle !== 'no';
+
+export function haversineMeters(a: LatLngCoordinates, b: LatLngCoordinates): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+export function bearingDegrees(a: LatLngCoordinates, b: LatLngCoordinates): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const y = Math.sin(toRad(b.lng - a.lng)) * Math.cos(toRad(b.lat));
+  const x = Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat)) -
+    Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(toRad(b.lng - a.lng));
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Parse an OSM speed value ("35 mph", "50", "RU:urban") to mph.
+ */
+export function parseSpeedMph(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = value.match(/^\s*(\d+(?:\.\d+)?)\s*(mph|km\/h|kmh)?/i);
+  if (!match) return null;
+  const speed = parseFloat(match[1]);
+  return match[2]?.toLowerCase() === 'mph' ? speed : speed * 0.621371;
+}
+
+/**
+ * Parse an OSM dimension tag (maxheight, maxwidth, maxlength, width) to feet.
+ * Handles metres ("4.1", "4.1 m"), feet and inches ("13'6\"", "13 ft 6 in") and "none"/"default".
+ */
+export function parseDimensionFeet(value: string | undefined): number | null {
+  if (!value) return null;
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === 'none' || trimmed === 'default' || trimmed === 'unsigned' || trimmed === 'no_sign') return null;
+
+  const imperial = trimmed.match(/^(\d+(?:\.\d+)?)\s*(?:'|ft|feet)\s*(?:(\d+(?:\.\d+)?)\s*(?:"|in|inches)?)?$/);
+  if (imperial) {
+    return parseFloat(imperial[1]) + (imperial[2] ? parseFloat(imperial[2]) / 12 : 0);
+  }
+  const inches = trimmed.match(/^(\d+(?:\.\d+)?)\s*(?:"|in|inches)$/);
+  if (inches) {
+    return parseFloat(inches[1]) / 12;
+  }
+  const metric = trimmed.match(/^(\d+(?:\.\d+)?)\s*(m|meters|metres)?$/);
+  if (metric) {
+    return parseFloat(metric[1]) * 3.28084;
+  }
+  return null;
+}
+
+/**
+ * Parse an OSM maxweight tag to short (US) tons. Bare numbers and "t" are metric tonnes;
+ * "st" is short tons and "lbs" pounds.
+ */
+export function parseWeightTons(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(t|st|lbs?|kg)?$/);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'st':
+      return amount;
+    case 'lb':
+    case 'lbs':
+      return amount / 2000;
+    case 'kg':
+      return (amount / 1000) * 1.10231;
+    default:
+      return amount * 1.10231;
+  }
+}
+
+function getOnewayDirection(tags: Record<string, string>): 0 | 1 | -1 {
+  const oneway = tags.oneway;
+  if (oneway === 'yes' || oneway === 'true' || oneway === '1') return 1;
+  if (oneway === '-1' || oneway === 'reverse') return -1;
+  if (oneway === 'no') return 0;
+  if (tags.junction === 'roundabout' || tags.highway === 'motorway') return 1;
+  return 0;
+}
+
+/**
+ * Build a directed routing graph from OSM ways. Ways are split wherever they share a node
+ * with another way so every intersection becomes a graph node.
+ */
+export function buildRoadGraph(nodes: Map<string, LatLngCoordinates>, ways: RawWay[]): RoadGraph {
+  const usage = new Map<string, number>();
+  ways.forEach(way => {
+    way.nodeIds.forEach((nodeId, index) => {
+      const isEnd = index === 0 || index === way.nodeIds.length - 1;
+      usage.set(nodeId, (usage.get(nodeId) || 0) + (isEnd ? 2 : 1));
+    });
+  });
+
+  const graph: RoadGraph = { nodes: [], edges: [], outgoing: [] };
+  const graphIndex = new Map<string, number>();
+  const getGraphNode = (nodeId: string, position: LatLngCoordinates): number => {
+    let index = graphIndex.get(nodeId);
+    if (index === undefined) {
+      index = graph.nodes.length;
+      graphIndex.set(nodeId, index);
+      graph.nodes.push(position);
+      graph.outgoing.push([]);
+    }
+    return index;
+  };
+
+  const addEdge = (from: number, to: number, geometry: LatLngCoordinates[], way: RawWay) => {
+    let lengthMeters = 0;
+    for (let i = 1; i < geometry.length; i++) {
+      lengthMeters += haversineMeters(geometry[i - 1], geometry[i]);
+    }
+    if (lengthMeters === 0) return;
+
+    const edge: RoadEdge = {
+      id: graph.edges.length,
+      from,
+      to,
+      wayId: way.id,
+      name: way.tags.name || way.tags.ref || '',
+      highway: way.tags.highway,
+      lengthMeters,
+      speedMph: parseSpeedMph(way.tags.maxspeed) ?? DEFAULT_SPEEDS_MPH[way.tags.highway] ?? 25,
+      bearingStart: bearingDegrees(geometry[0], geometry[1]),
+      bearingEnd: bearingDegrees(geometry[geometry.length - 2], geometry[geometry.length - 1]),
+      geometry,
+      tags: way.tags
+    };
+    graph.edges.push(edge);
+    graph.outgoing[from].push(edge.id);
+  };
+
+  ways.forEach(way => {
+    const positions = way.nodeIds.map(nodeId => nodes.get(nodeId));
+    if (positions.some(position => !position) || positions.length < 2) return;
+
+    const direction = getOnewayDirection(way.tags);
+    let segmentStart = 0;
+    for (let i = 1; i < way.nodeIds.length; i++) {
+      const isSplitPoint = i === way.nodeIds.length - 1 || (usage.get(way.nodeIds[i]) || 0) > 1;
+      if (!isSplitPoint) continue;
+
+      const geometry = positions.slice(segmentStart, i + 1) as LatLngCoordinates[];
+      const from = getGraphNode(way.nodeIds[segmentStart], geometry[0]);
+      const to = getGraphNode(way.nodeIds[i], geometry[geometry.length - 1]);
+      if (direction >= 0) addEdge(from, to, geometry, way);
+      if (direction <= 0) addEdge(to, from, [...geometry].reverse(), way);
+      segmentStart = i;
+    }
+  });
+
+  return graph;
+}
+
+async function loadPbf(buffer: ArrayBuffer): Promise<RoadGraph> {
+  const data = await readOsmPbf(buffer, { wayFilter: isDrivableWay });
+  const nodes = new Map<string, LatLngCoordinates>();
+  data.nodes.forEach((position, id) => nodes.set(String(id), position));
+  const ways = data.ways.map(way => ({
+    id: String(way.id),
+    nodeIds: way.nodeIds.map(String),
+    tags: way.tags
+  }));
+  return buildRoadGraph(nodes, ways);
+}
+
+/**
+ * Load a GeoJSON conversion of an OSM extract (osmtogeojson, ogr2ogr, osmium export).
+ * Nodes are identified by coordinates, so ways that share a vertex are connected.
+ */
+function loadGeoJson(text: string): RoadGraph {
+  const collection = JSON.parse(text) as { type?: string; features?: GeoJsonFeature[] };
+  if (collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('GeoJSON extract must be a FeatureCollection of road LineStrings');
+  }
+
+  const nodes = new Map<string, LatLngCoordinates>();
+  const ways: RawWay[] = [];
+
+  const toNodeIds = (coordinates: number[][]) =>
+    coordinates.map(([lng, lat]) => {
+      const key = `${lat.toFixed(7)},${lng.toFixed(7)}`;
+      if (!nodes.has(key)) nodes.set(key, { lat, lng });
+      return key;
+    });
+
+  collection.features.forEach((feature, index) => {
+    if (!feature.geometry) return;
+    const properties = feature.properties ?? {};
+    // osmtogeojson nests tags; ogr2ogr and osmium flatten them
+    const rawTags = (typeof properties.tags === 'object' && properties.tags !== null ? properties.tags : properties) as Record<string, unknown>;
+    const tags: Record<string, string> = {};
+    Object.entries(rawTags).forEach(([key, value]) => {
+      if (value !== null && value !== undefined && typeof value !== 'object') tags[key] = String(value);
+    });
+    if (!isDrivableWay(tags)) return;
+
+    const id = String(feature.id ?? properties.id ?? properties.osm_id ?? index);
+    if (feature.geometry.type === 'LineString') {
+      ways.push({ id, nodeIds: toNodeIds(feature.geometry.coordinates as number[][]), tags });
+    } else if (feature.geometry.type === 'MultiLineString') {
+      (feature.geometry.coordinates as number[][][]).forEach((line, part) => {
+        ways.push({ id: `${id}-${part}`, nodeIds: toNodeIds(line), tags });
+      });
+    }
+  });
+
+  return buildRoadGraph(nodes, ways);
+}
+
+/**
+ * Load an OSM extract (.osm.pbf or road GeoJSON) into a routing graph.
+ */
+export async function loadRoadGraph(buffer: ArrayBuffer): Promise<RoadGraph> {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 64));
+  const firstChar = Array.from(bytes).find(byte => byte !== 0x20 && byte !== 0x0a && byte !== 0x0d && byte !== 0x09 && byte !== 0xef && byte !== 0xbb && byte !== 0xbf);
+  const graph = firstChar === 0x7b // '{'
+    ? loadGeoJson(new TextDecoder().decode(buffer))
+    : await loadPbf(buffer);
+
+  if (graph.edges.length === 0) {
+    throw new Error('The OSM extract contains no drivable roads');
+  }
+  return graph;
+}
@@ -0,0 +1,172 @@
+import { buildDirectionsResult, decodePolyline, ProviderRoute, ProviderStep } from '../utils/directionsBuilder';
+import { RoutingRequest } from './routingProvider';
+import { SelfHostedRoutingProvider } from './selfHostedRoutingProvider';
+
+const DEFAULT_OSRM_URL = 'http://localhost:5000';
+
+interface OsrmStep {
+  distance: number;
+  duration: number;
+  geometry: string;
+  name: string;
+  ref?: string;
+  maneuver: { type: string; modifier?: string; exit?: number };
+}
+
+interface OsrmRoute {
+  distance: number;
+  duration: number;
+  legs: { steps: OsrmStep[]; summary: string }[];
+}
+
+interface OsrmResponse {
+  code: string;
+  message?: string;
+  routes: OsrmRoute[];
+}
+
+/**
+ * Routing provider for a self-hosted OSRM server. OSRM has no per-request vehicle
+ * costing, so truck restrictions must be baked into the server's profile.
+ */
+export class OsrmRoutingProvider extends SelfHostedRoutingProvider {
+  readonly id = 'osrm' as const;
+  readonly name = 'OSRM';
+  readonly description = 'Self-hosted OSRM (vehicle profile set on the server)';
+
+  protected getBaseUrl(): string {
+    return (import.meta.env.VITE_OSRM_URL || DEFAULT_OSRM_URL).replace(/\/$/, '');
+  }
+
+  async getRoutes(request: RoutingRequest): Promise<google.maps.DirectionsResult> {
+    const stops = await this.resolveStops(request);
+    const coordinates = stops
+      .map(stop => `${stop.coordinates.lng},${stop.coordinates.lat}`)
+      .join(';');
+    const params = new URLSearchParams({
+      alternatives: 'true',
+      steps: 'true',
+      overview: 'full',
+      geometries: 'polyline6'
+    });
+    if (request.avoidHighways || request.avoidTolls) {
+      const exclusions = [request.avoidHighways && 'motorway', request.avoidTolls && 'toll'].filter(Boolean);
+      params.set('exclude', exclusions.join(','));
+    }
+
+    console.log('🗺️ Requesting OSRM route:', { locations: stops.length });
+
+    const response = await this.fetchJson<OsrmResponse>(
+      `${this.getBaseUrl()}/route/v1/driving/${coordinates}?${params}`
+    );
+    if (response.code !== 'Ok') {
+      throw new Error(`OSRM could not find a route: ${response.message || response.code}`);
+    }
+
+    const labels = stops.map(stop => stop.label);
+    const routes = response.routes.map((route, index) => this.toProviderRoute(route, labels, index));
+
+    return buildDirectionsResult(routes, {
+      origin: request.origin,
+      destination: request.destination,
+      waypoints: labels.slice(1, -1).map(location => ({ location, stopover: true }))
+    });
+  }
+
+  private toProviderRoute(route: OsrmRoute, labels: string[], index: number): ProviderRoute {
+    const allSteps: (ProviderStep & { streetName?: string })[] = [];
+
+    const legs = route.legs.map((leg, legIndex) => {
+      const steps = leg.steps.map(osrmStep => {
+        const step = {
+          instructions: this.buildInstruction(osrmStep),
+          distanceMeters: Math.round(osrmStep.distance),
+          durationSeconds: Math.round(osrmStep.duration),
+          path: decodePolyline(osrmStep.geometry, 6),
+          maneuver: this.toGoogleManeuver(osrmStep),
+          streetName: osrmStep.name || osrmStep.ref
+        };
+        allSteps.push(step);
+        return step;
+      });
+
+      return {
+        startAddress: labels[legIndex],
+        endAddress: labels[legIndex + 1],
+        steps
+      };
+    });
+
+    return {
+      summary: this.summarizeRoute(allSteps, `OSRM Route ${index + 1}`),
+      legs,
+      copyrights: 'Routing by OSRM · Map data © OpenStreetMap contributors'
+    };
+  }
+
+  /**
+   * OSRM returns structured maneuvers without text, so synthesize Google-style instructions
+   * that the route transformer can classify (turn left/right, U-turn, etc.).
+   */
+  private buildInstruction(step: OsrmStep): string {
+    const { type, modifier, exit } = step.maneuver;
+    const road = step.name || step.ref || '';
+    const onto = road ? ` onto <b>${road}</b>` : '';
+    const direction = modifier ?? 'straight';
+
+    switch (type) {
+      case 'depart':
+        return road ? `Head ${direction === 'straight' ? 'out' : direction} on <b>${road}</b>` : 'Depart';
+      case 'arrive':
+        return 'Arrive at destination';
+      case 'roundabout':
+      case 'rotary':
+        return `Enter the roundabout and take exit ${exit ?? 1}${onto}`;
+      case 'merge':
+        return `Merge${onto}`;
+      case 'on ramp':
+        return `Take the ramp${onto}`;
+      case 'off ramp':
+        return `Take the exit${onto}`;
+      case 'fork':
+        return `Keep ${direction.replace('slight ', '')} at the fork${onto}`;
+      case 'end of road':
+        return `Turn ${direction} at the end of the road${onto}`;
+      case 'new name':
+      case 'continue':
+        return direction === 'uturn' ? 'Make a U-turn' : `Continue straight${onto}`;
+      default:
+        if (direction === 'uturn') return `Make a U-turn${onto}`;
+        if (direction === 'straight') return `Continue straight${onto}`;
+        return `Turn ${direction}${onto}`;
+    }
+  }
+
+  private toGoogleManeuver(step: OsrmStep): string {
+    const { type, modifier } = step.maneuver;
+    if (type === 'depart' || type === 'arrive') return '';
+    if (type === 'roundabout' || type === 'rotary') return 'roundabout-right';
+    if (type === 'merge') return 'merge';
+    if (type === 'fork') return modifier?.includes('left') ? 'fork-left' : 'fork-right';
+    if (type === 'on ramp' || type === 'off ramp') return modifier?.includes('left') ? 'ramp-left' : 'ramp-right';
+
+    switch (modifier) {
+      case 'uturn':
+        return 'uturn-left';
+      case 'sharp left':
+        return 'turn-sharp-left';
+      case 'left':
+        return 'turn-left';
+      case 'slight left':
+        return 'turn-slight-left';
+      case 'sharp right':
+        return 'turn-sharp-right';
+      case 'right':
+        return 'turn-right';
+      case 'slight right':
+        return 'turn-slight-right';
+      default:
+        return 'straight';
+    }
+  }
+}
@@ -0,0 +1,325 @@
+import { LatLngCoordinates, Route, Vehicle, VehicleClass } from '../types';
+import { StateBoundaryService } from './stateBoundaryService';
+import { EscortRule, PermitRule, PermitThreshold, StateRestrictionData, USTruckRoutingService } from './usTruckRoutingService';
+import { HAZMAT_CLASS_NAMES, VehicleClassificationService } from './vehicleClassificationService';
+import { getSegmentPath } from '../utils/routeGeometry';
+import { createTextPdf, PdfLine } from '../utils/pdfWriter';
+
+export interface PermitApplicant {
+  company: string;
+  usdotNumber: string;
+  contactName: string;
+  phone: string;
+  email: string;
+}
+
+/**
+ * One road of the route description a DOT expects: where the road is joined and left,
+ * and the miles driven on it within the state.
+ */
+export interface PermitRoadEntry {
+  road: string;
+  entry: string; // Origin, state line or the previous road
+  exit: string; // Destination, state line or the next road
+  entryPoint: LatLngCoordinates;
+  exitPoint: LatLngCoordinates;
+  miles: number;
+}
+
+export interface PermitEscorts {
+  front: number;
+  rear: number;
+  heightPole: boolean;
+  police: boolean;
+  notes: string[];
+}
+
+export interface PermitTrip {
+  routeName: string;
+  origin?: string;
+  destination?: string;
+  departureTime?: string;
+  totalMiles: number;
+}
+
+/**
+ * A pre-filled oversize/overweight permit application for one state on the route.
+ * Escorts, signs, flags and travel times are only listed when a permit is required
+ * and the state's own conditions are on file.
+ */
+export interface PermitPacket {
+  stateCode: string;
+  state: string;
+  required: boolean;
+  reasons: string[]; // Legal limits the vehicle exceeds in the state
+  authority: string;
+  rulesOnFile: boolean; // False when the state's permit conditions are only generic placeholders
+  dataVersion: string; // Version of the state's restriction file the packet was built from
+  preparedAt: string;
+  applicant: PermitApplicant;
+  vehicle: Vehicle;
+  trip: PermitTrip;
+  roads: PermitRoadEntry[];
+  milesInState: number;
+  escorts: PermitEscorts;
+  signs: string[];
+  flags: string[];
+  travelTimes: string[];
+}
+
+export interface PermitPacketOptions {
+  origin?: string;
+  destination?: string;
+  applicant?: PermitApplicant;
+  preparedAt?: Date;
+}
+
+interface RoadRun {
+  stateCode: string;
+  road: string;
+  entryPoint: LatLngCoordinates;
+  exitPoint: LatLngCoordinates;
+  meters: number;
+}
+
+export const EMPTY_APPLICANT: PermitApplicant = { company: '', usdotNumber: '', contactName: '', phone: '', email: '' };
+
+// Path edges are split this often (about 5 km) when assigning distance to states
+const SAMPLE_DEGREES = 0.05;
+const METERS_PER_MILE = 1609.34;
+
+const VEHICLE_TYPE_LABELS: Record<VehicleClass['type'], string> = {
+  passenger: 'Passenger vehicle',
+  delivery: 'Delivery vehicle',
+  bus: 'Bus or motorcoach',
+  truck: 'Truck',
+  oversized: 'Oversized vehicle'
+};
+
+// Printed in place of applicant details that are not filled in
+const BLANK = '______________________';
+
+function distanceMeters(a: LatLngCoordinates, b: LatLngCoordinates): number {
+  const R = 6371000;
+  const dLat = (b.lat - a.lat) * Math.PI / 180;
+  const dLng = (b.lng - a.lng) * Math.PI / 180;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+}
+
+const toMiles = (meters: number) => Math.round(meters / METERS_PER_MILE * 10) / 10;
+
+// Whether the vehicle exceeds any of the threshold's dimensions
+function exceeds(vehicle: Vehicle, over: PermitThreshold): boolean {
+  return (over.widthFt !== undefined && vehicle.width > over.widthFt) ||
+    (over.lengthFt !== undefined && vehicle.length > over.lengthFt) ||
+    (over.heightFt !== undefined && vehicle.height > over.heightFt) ||
+    (over.rearOverhangFt !== undefined && (vehicle.rearOverhangFt ?? 0) > over.rearOverhangFt);
+}
+
+/**
+ * Works out which states along a route require an oversize/overweight permit for the
+ * vehicle, and assembles each state's pre-filled application packet.
+ */
+export class PermitService {
+  /**
+   * One packet per state the route passes through, in the order they are entered
+   */
+  static buildPackets(route: Route, vehicle: Vehicle, options: PermitPacketOptions = {}): PermitPacket[] {
+    const truckRouting = USTruckRoutingService.getInstance();
+    const runs = this.buildRoadRuns(route);
+    const roads = runs.map((_, i) => this.describeRun(runs, i, options));
+    const stateCodes = Array.from(new Set(runs.map(run => run.stateCode)));
+    const trip: PermitTrip = {
+      routeName: route.name,
+      origin: options.origin,
+      destination: options.destination,
+      departureTime: route.departureTime,
+      totalMiles: toMiles(runs.reduce((sum, run) => sum + run.meters, 0))
+    };
+
+    return stateCodes
+      .map(code => truckRouting.getStateRestrictions(code))
+      .filter((stateData): stateData is StateRestrictionData => stateData !== undefined)
+      .map(stateData => {
+        const reasons = truckRouting.checkStateLimits(stateData.stateCode, vehicle)
+          .filter(violation => violation.severity === 'restriction')
+          .map(violation => violation.description);
+        const required = reasons.length > 0;
+        const rulesOnFile = !!stateData.permits && !stateData.permits.placeholder;
+        const rules = required && rulesOnFile ? stateData.permits : undefined;
+        const applies = (rule: PermitRule) => !rule.over || exceeds(vehicle, rule.over);
+
+        return {
+          stateCode: stateData.stateCode,
+          state: stateData.state,
+          required,
+          reasons,
+          authority: stateData.permits?.authority ?? `${stateData.state} Department of Transportation`,
+          rulesOnFile,
+          dataVersion: stateData.version,
+          preparedAt: (options.preparedAt ?? new Date()).toISOString(),
+          applicant: options.applicant ?? EMPTY_APPLICANT,
+          vehicle,
+          trip,
+          roads: roads.filter((_, i) => runs[i].stateCode === stateData.stateCode),
+          milesInState: toMiles(runs.filter(run => run.stateCode === stateData.stateCode).reduce((sum, run) => sum + run.meters, 0)),
+          escorts: this.combineEscorts((rules?.escorts ?? []).filter(rule => exceeds(vehicle, rule.over))),
+          signs: (rules?.signs ?? []).filter(applies).map(rule => rule.requirement),
+          flags: (rules?.flags ?? []).filter(applies).map(rule => rule.requirement),
+          travelTimes: (rules?.travelTimes ?? []).filter(applies).map(rule => rule.requirement)
+        };
+      });
+  }
+
+  static describeEscorts(escorts: PermitEscorts): string {
+    const vehicles = [
+      escorts.front > 0 ? `${escorts.front} front` : '',
+      escorts.rear > 0 ? `${escorts.rear} rear` : ''
+    ].filter(Boolean);
+    if (vehicles.length === 0 && !escorts.police) return 'No escort required';
+    const parts = vehicles.length > 0 ? [`${vehicles.join(' and ')} escort vehicle${escorts.front + escorts.rear > 1 ? 's' : ''}`] : [];
+    if (escorts.heightPole) parts.push('front escort with a height pole');
+    if (escorts.police) parts.push('police escort');
+    return parts.join(', ');
+  }
+
+  static exportJson(packet: PermitPacket): string {
+    return JSON.stringify(packet, null, 2);
+  }
+
+  static exportPdf(packet: PermitPacket): Uint8Array {
+    const { applicant, vehicle, trip } = packet;
+    const lines: PdfLine[] = [];
+    const field = (label: string, value: string | number | undefined) =>
+      lines.push({ text: `${label}: ${value === undefined || value === '' ? BLANK : value}` });
+    const list = (items: string[], empty: string) => {
+      if (items.length === 0) lines.push({ text: empty });
+      items.forEach(item => lines.push({ text: `• ${item}`, indent: 10 }));
+    };
+
+    lines.push({ text: `Oversize/Overweight Permit Application - ${packet.state}`, style: 'title' });
+    lines.push({ text: `For submission to ${packet.authority}. Prepared ${new Date(packet.preparedAt).toLocaleString()} from route analysis with ${packet.stateCode} restriction data version ${packet.dataVersion}; verify every entry before submitting.`, style: 'small' });
+
+    lines.push({ text: 'Applicant', style: 'heading' });
+    field('Company', applicant.company);
+    field('USDOT number', applicant.usdotNumber);
+    field('Contact', applicant.contactName);
+    field('Phone', applicant.phone);
+    field('Email', applicant.email);
+
+    lines.push({ text: 'Vehicle and load', style: 'heading' });
+    field('Vehicle type', VEHICLE_TYPE_LABELS[VehicleClassificationService.classifyVehicle(vehicle).type]);
+    field('Overall length', `${vehicle.length} ft`);
+    field('Overall width', `${vehicle.width} ft`);
+    field('Overall height', `${vehicle.height} ft`);
+    field('Gross weight', `${Math.round(VehicleClassificationService.getGrossWeightLbs(vehicle)).toLocaleString()} lb${vehicle.grossWeightLbs === undefined ? ' (estimated)' : ''}`);
+    field('Axles', vehicle.axleCount);
+    field('Axle spacing', vehicle.axleSpacingFt?.map(spacing => `${spacing} ft`).join(', '));
+    field('Front / rear overhang', vehicle.frontOverhangFt !== undefined || vehicle.rearOverhangFt !== undefined
+      ? `${vehicle.frontOverhangFt ?? '-'} ft / ${vehicle.rearOverhangFt ?? '-'} ft`
+      : undefined);
+    if (vehicle.trailers && vehicle.trailers.length > 0) {
+      field('Trailers', vehicle.trailers.map(trailer => `${trailer.length} ft${trailer.axleCount ? `, ${trailer.axleCount} axles` : ''}`).join('; '));
+    }
+    if (vehicle.hazmatClass !== undefined) field('Hazardous materials', HAZMAT_CLASS_NAMES[vehicle.hazmatClass]);
+    field('Load description', undefined);
+
+    lines.push({ text: 'Permit required because', style: 'heading' });
+    list(packet.reasons, `The vehicle is within ${packet.state} legal limits; no permit is required.`);
+
+    lines.push({ text: 'Trip', style: 'heading' });
+    field('Route', trip.routeName);
+    field('Origin', trip.origin);
+    field('Destination', trip.destination);
+    field('Departure', trip.departureTime ? new Date(trip.departureTime).toLocaleString() : undefined);
+    field(`Miles in ${packet.stateCode}`, `${packet.milesInState} of ${trip.totalMiles}`);
+
+    lines.push({ text: 'Route description', style: 'heading' });
+    packet.roads.forEach((road, i) => {
+      lines.push({ text: `${i + 1}. ${road.road} - ${road.miles} mi, from ${road.entry} to ${road.exit}` });
+      lines.push({
+        text: `Enter ${road.entryPoint.lat.toFixed(5)}, ${road.entryPoint.lng.toFixed(5)}; exit ${road.exitPoint.lat.toFixed(5)}, ${road.exitPoint.lng.toFixed(5)}`,
+        style: 'small',
+        indent: 14
+      });
+    });
+
+    if (packet.required && !packet.rulesOnFile) {
+      lines.push({ text: 'Escorts, signs, flags and travel times', style: 'heading' });
+      lines.push({ text: `${packet.state} permit conditions are not on file. Check with ${packet.authority} before the move.` });
+    } else {
+      lines.push({ text: 'Escorts', style: 'heading' });
+      lines.push({ text: this.describeEscorts(packet.escorts) });
+      packet.escorts.notes.forEach(note => lines.push({ text: note, style: 'small', indent: 10 }));
+
+      lines.push({ text: 'Signs and flags', style: 'heading' });
+      list([...packet.signs, ...packet.flags], 'None required');
+
+      lines.push({ text: 'Travel times', style: 'heading' });
+      list(packet.travelTimes, 'No restrictions beyond the permit');
+    }
+
+    lines.push({ text: 'Certification', style: 'heading' });
+    lines.push({ text: 'I certify that the vehicle and load described above will be moved as stated and in accordance with the conditions of the permit.' });
+    lines.push({ text: `Signature: ${BLANK}    Date: ${BLANK}` });
+
+    return createTextPdf(lines, `${packet.stateCode} OS/OW permit application`);
+  }
+
+  // Consecutive stretches of the route on the same road within the same state
+  private static buildRoadRuns(route: Route): RoadRun[] {
+    const runs: RoadRun[] = [];
+    let stateCode: string | null = null;
+
+    route.segments.forEach(segment => {
+      const road = segment.streetName.trim() || 'Unnamed road';
+      const path = getSegmentPath(segment);
+      for (let i = 1; i < path.length; i++) {
+        const from = path[i - 1];
+        const to = path[i];
+        const steps = Math.max(1, Math.ceil(Math.max(Math.abs(to.lat - from.lat), Math.abs(to.lng - from.lng)) / SAMPLE_DEGREES));
+        for (let step = 0; step < steps; step++) {
+          const start = { lat: from.lat + (to.lat - from.lat) * step / steps, lng: from.lng + (to.lng - from.lng) * step / steps };
+          const end = { lat: from.lat + (to.lat - from.lat) * (step + 1) / steps, lng: from.lng + (to.lng - from.lng) * (step + 1) / steps };
+          // Offshore stretches and gaps in the boundaries stay with the last state
+          stateCode = StateBoundaryService.getStateAt((start.lat + end.lat) / 2, (start.lng + end.lng) / 2)?.code ?? stateCode;
+          if (!stateCode) continue;
+
+          const last = runs[runs.length - 1];
+          if (last && last.stateCode === stateCode && last.road === road) {
+            last.exitPoint = end;
+            last.meters += distanceMeters(start, end);
+          } else {
+            runs.push({ stateCode, road, entryPoint: start, exitPoint: end, meters: distanceMeters(start, end) });
+          }
+        }
+      }
+    });
+
+    return runs;
+  }
+
+  private static describeRun(runs: RoadRun[], index: number, options: PermitPacketOptions): PermitRoadEntry {
+    const run = runs[index];
+    const previous = runs[index - 1];
+    const next = runs[index + 1];
+    const entry = !previous ? (options.origin ? `origin (${options.origin})` : 'origin')
+      : previous.stateCode !== run.stateCode ? `${previous.stateCode}/${run.stateCode} state line`
+      : previous.road;
+    const exit = !next ? (options.destination ? `destination (${options.destination})` : 'destination')
+      : next.stateCode !== run.stateCode ? `${run.stateCode}/${next.stateCode} state line`
+      : next.road;
+    return { road: run.road, entry, exit, entryPoint: run.entryPoint, exitPoint: run.exitPoint, miles: toMiles(run.meters) };
+  }
+
+  private static combineEscorts(rules: EscortRule[]): PermitEscorts {
+    return {
+      front: Math.max(0, ...rules.map(rule => rule.front)),
+      rear: Math.max(0, ...rules.map(rule => rule.rear)),
+      heightPole: rules.some(rule => rule.heightPole),
+      police: rules.some(rule => rule.police),
+      notes: rules.map(rule => rule.note).filter((note): note is string => !!note)
+    };
+  }
+}
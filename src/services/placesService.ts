@@ -1,5 +1,7 @@
 // Fixed src/services/placesService.ts
 
+import { RequestCacheService } from './requestCacheService';
+
 export interface PlacePrediction {
   place_id: string;
   description: string;
@@ -242,6 +244,10 @@ export class PlacesService {
   }
 
   public async getPlaceDetails(placeId: string): Promise<PlaceDetails> {
+    return RequestCacheService.getOrFetch('placeDetails', placeId, placeId, () => this.requestPlaceDetails(placeId));
+  }
+
+  private async requestPlaceDetails(placeId: string): Promise<PlaceDetails> {
     if (!this.isInitialized || !this.placesService) {
       await this.initialize();
     }
@@ -0,0 +1,289 @@
+export type CacheRequestType = 'geocode' | 'reverseGeocode' | 'directions' | 'placeDetails';
+
+export interface CacheEntry {
+  key: string;
+  type: CacheRequestType;
+  /** Human-readable description of the request, for the cache inspector */
+  label: string;
+  value: unknown;
+  createdAt: number;
+  expiresAt: number;
+  sizeBytes: number;
+}
+
+export interface CacheTypeStats {
+  type: CacheRequestType;
+  entries: number;
+  sizeBytes: number;
+  hits: number;
+  misses: number;
+  /** Expired entries served because the live request failed (e.g. offline) */
+  staleHits: number;
+}
+
+const DB_NAME = 'acadia-request-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const MAX_ENTRIES = 5000;
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+// Expired entries are kept this long so previously seen areas can still be planned offline
+const STALE_RETENTION = 90 * DAY;
+
+export const REQUEST_CACHE_TTLS: Record<CacheRequestType, number> = {
+  geocode: 30 * DAY,
+  reverseGeocode: 30 * DAY,
+  placeDetails: 30 * DAY,
+  // Directions carry live traffic, so they go stale quickly
+  directions: HOUR
+};
+
+export const REQUEST_CACHE_TYPES: CacheRequestType[] = ['geocode', 'reverseGeocode', 'directions', 'placeDetails'];
+
+type CacheListener = () => void;
+
+/**
+ * Persistent cache for geocoding, directions and place-details requests, backed by
+ * IndexedDB. Fresh entries are served without touching the network; expired entries
+ * are only served when the live request fails. Without IndexedDB (private browsing,
+ * tests) every call goes straight to the network.
+ */
+export class RequestCacheService {
+  private static dbPromise: Promise<IDBDatabase | null> | null = null;
+  private static inFlight = new Map<string, Promise<unknown>>();
+  private static counters = Object.fromEntries(
+    REQUEST_CACHE_TYPES.map(type => [type, { hits: 0, misses: 0, staleHits: 0 }])
+  ) as Record<CacheRequestType, { hits: number; misses: number; staleHits: number }>;
+  private static listeners = new Set<CacheListener>();
+
+  /**
+   * Return the cached response for key, or run fetcher and cache its result.
+   * revive restores class instances (e.g. LatLng) lost when the value was stored.
+   */
+  static async getOrFetch<T>(
+    type: CacheRequestType,
+    key: string,
+    label: string,
+    fetcher: () => Promise<T>,
+    revive: (value: T) => T = value => value
+  ): Promise<T> {
+    const entryKey = `${type}:${key}`;
+    const pending = this.inFlight.get(entryKey);
+    if (pending) return pending as Promise<T>;
+
+    const promise = (async () => {
+      const entry = await this.read(entryKey);
+      if (entry && entry.expiresAt > Date.now()) {
+        this.count(type, 'hits');
+        return revive(entry.value as T);
+      }
+
+      try {
+        const value = await fetcher();
+        this.count(type, 'misses');
+        await this.write(type, entryKey, label, value);
+        return value;
+      } catch (error) {
+        if (!entry) throw error;
+        console.warn(`📦 Serving expired cached ${type} response after the request failed:`, error);
+        this.count(type, 'staleHits');
+        return revive(entry.value as T);
+      }
+    })().finally(() => this.inFlight.delete(entryKey));
+
+    this.inFlight.set(entryKey, promise);
+    return promise;
+  }
+
+  static async getEntries(): Promise<CacheEntry[]> {
+    const db = await this.open();
+    if (!db) return [];
+    const entries = await this.request<CacheEntry[]>(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll());
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  static async getStats(): Promise<CacheTypeStats[]> {
+    const entries = await this.getEntries();
+    return REQUEST_CACHE_TYPES.map(type => {
+      const ofType = entries.filter(entry => entry.type === type);
+      return {
+        type,
+        entries: ofType.length,
+        sizeBytes: ofType.reduce((sum, entry) => sum + entry.sizeBytes, 0),
+        ...this.counters[type]
+      };
+    });
+  }
+
+  /**
+   * Remove every entry, or only those of one request type.
+   */
+  static async clear(type?: CacheRequestType): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    if (type) {
+      await this.deleteWhere(store, entry => entry.type === type);
+    } else {
+      await this.request(store.clear());
+    }
+    console.log(`🧹 Cleared ${type ?? 'all'} cached requests`);
+    this.notify();
+  }
+
+  static async remove(key: string): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(key));
+    this.notify();
+  }
+
+  static subscribe(listener: CacheListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Canonical form of an address so trivially different spellings share a cache entry.
+   * Coordinate strings are rounded instead.
+   */
+  static normalizeAddress(address: string): string {
+    const coordinates = address.trim().match(/^(?:current location\s*\()?\s*([-+]?\d+(?:\.\d+)?)\s*,\s*([-+]?\d+(?:\.\d+)?)\s*\)?$/i);
+    if (coordinates) {
+      return this.coordinateKey(parseFloat(coordinates[1]), parseFloat(coordinates[2]));
+    }
+    return address
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .replace(/\s*,\s*/g, ', ')
+      .replace(/[.#]/g, '')
+      .replace(/,\s*(usa|us|united states( of america)?)$/, '')
+      .replace(/[,\s]+$/, '')
+      .trim();
+  }
+
+  /**
+   * Coordinates rounded to the given number of decimals (5 ≈ 1 m, 4 ≈ 11 m).
+   */
+  static coordinateKey(lat: number, lng: number, precision: number = 5): string {
+    return `${lat.toFixed(precision)},${lng.toFixed(precision)}`;
+  }
+
+  private static count(type: CacheRequestType, counter: 'hits' | 'misses' | 'staleHits'): void {
+    this.counters[type][counter] += 1;
+    this.notify();
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private static async read(key: string): Promise<CacheEntry | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+    try {
+      return await this.request<CacheEntry | undefined>(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key));
+    } catch (error) {
+      console.warn('Failed to read request cache:', error);
+      return undefined;
+    }
+  }
+
+  private static async write(type: CacheRequestType, key: string, label: string, value: unknown): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    try {
+      // Round-trip through JSON so LatLng and other class instances store as plain data
+      const json = JSON.stringify(value);
+      const now = Date.now();
+      const entry: CacheEntry = {
+        key,
+        type,
+        label,
+        value: JSON.parse(json),
+        createdAt: now,
+        expiresAt: now + REQUEST_CACHE_TTLS[type],
+        sizeBytes: json.length
+      };
+      await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+      this.notify();
+    } catch (error) {
+      console.warn('Failed to write request cache:', error);
+    }
+  }
+
+  private static open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase | null>(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Request cache unavailable:', request.error);
+          resolve(null);
+        };
+      }).then(async db => {
+        if (db) await this.prune(db);
+        return db;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Drop entries past their stale retention and the oldest entries beyond MAX_ENTRIES.
+   */
+  private static async prune(db: IDBDatabase): Promise<void> {
+    try {
+      const entries = await this.request<CacheEntry[]>(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll());
+      const newestFirst = entries.map(entry => entry.createdAt).sort((a, b) => b - a);
+      const oldestKept = newestFirst.length > MAX_ENTRIES ? newestFirst[MAX_ENTRIES - 1] : 0;
+      const now = Date.now();
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      const pruned = await this.deleteWhere(
+        store,
+        entry => entry.createdAt < oldestKept || entry.expiresAt + STALE_RETENTION < now
+      );
+      if (pruned > 0) {
+        console.log(`🧹 Pruned ${pruned} old cached requests`);
+      }
+    } catch (error) {
+      console.warn('Failed to prune request cache:', error);
+    }
+  }
+
+  private static deleteWhere(store: IDBObjectStore, predicate: (entry: CacheEntry) => boolean): Promise<number> {
+    return new Promise((resolve, reject) => {
+      let deleted = 0;
+      const cursorRequest = store.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          resolve(deleted);
+          return;
+        }
+        if (predicate(cursor.value as CacheEntry)) {
+          cursor.delete();
+          deleted += 1;
+        }
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  }
+
+  private static request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,307 @@
+import { LatLngCoordinates, RouteSegment } from '../types';
+import { getPathBounds, getSegmentPath } from '../utils/routeGeometry';
+import { parseCsvRecords } from '../utils/csv';
+
+export type RestSiteKind = 'rest_area' | 'truck_stop' | 'parking';
+
+/**
+ * A place a large vehicle can pull in for a break or an off-duty rest.
+ */
+export interface RestSite {
+  id: string;
+  name: string;
+  kind: RestSiteKind;
+  location: LatLngCoordinates;
+  truckSpaces?: number;
+  overnight?: boolean; // false where stays are limited to a few hours; undefined when unknown
+}
+
+export interface RestSiteInfo {
+  name: string;
+  siteCount: number;
+  loaded: boolean;
+}
+
+// Where a rest site sits along a route
+export interface RestSiteMatch {
+  site: RestSite;
+  segmentIndex: number;
+  alongSegmentMeters: number; // from the start of the segment to the point nearest the site
+  offRouteMeters: number;
+}
+
+type RestSiteListener = (info: RestSiteInfo) => void;
+
+const CELL_DEGREES = 0.02;
+// Sites further than this from the route are not worth the detour
+const MAX_OFF_ROUTE_METERS = 1600;
+// Stays shorter than this (hours) rule a site out for a 10-hour rest
+const MIN_OVERNIGHT_HOURS = 10;
+
+const KIND_LABELS: Record<RestSiteKind, string> = {
+  rest_area: 'Rest area',
+  truck_stop: 'Truck stop',
+  parking: 'Truck parking'
+};
+
+const EMPTY_INFO: RestSiteInfo = { name: 'No rest areas loaded', siteCount: 0, loaded: false };
+
+function toNumber(value: unknown): number | null {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function firstOf(properties: Record<string, unknown>, keys: string[]): string | undefined {
+  const key = keys.find(name => properties[name] !== undefined && properties[name] !== null && String(properties[name]).trim() !== '');
+  return key ? String(properties[key]).trim() : undefined;
+}
+
+function cellKey(point: LatLngCoordinates): string {
+  return `${Math.floor(point.lat / CELL_DEGREES)},${Math.floor(point.lng / CELL_DEGREES)}`;
+}
+
+function distanceMeters(a: LatLngCoordinates, b: LatLngCoordinates): number {
+  const dx = (b.lng - a.lng) * 111320 * Math.cos((a.lat * Math.PI) / 180);
+  const dy = (b.lat - a.lat) * 111320;
+  return Math.hypot(dx, dy);
+}
+
+// Nearest point of a path to a point, on a local flat projection
+function projectOntoPath(point: LatLngCoordinates, path: LatLngCoordinates[]): { distance: number; along: number } {
+  if (path.length === 1) return { distance: distanceMeters(point, path[0]), along: 0 };
+  const metersPerDegLat = 111320;
+  const metersPerDegLng = 111320 * Math.cos((point.lat * Math.PI) / 180);
+  let best = { distance: Infinity, along: 0 };
+  let travelled = 0;
+  for (let i = 1; i < path.length; i++) {
+    const ax = (path[i - 1].lng - point.lng) * metersPerDegLng;
+    const ay = (path[i - 1].lat - point.lat) * metersPerDegLat;
+    const dx = (path[i].lng - path[i - 1].lng) * metersPerDegLng;
+    const dy = (path[i].lat - path[i - 1].lat) * metersPerDegLat;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.min(Math.max(-(ax * dx + ay * dy) / lengthSquared, 0), 1);
+    const distance = Math.hypot(ax + t * dx, ay + t * dy);
+    if (distance < best.distance) best = { distance, along: travelled + t * Math.sqrt(lengthSquared) };
+    travelled += Math.sqrt(lengthSquared);
+  }
+  return best;
+}
+
+// Kind of site described by OSM tags or a truck parking inventory's type column
+function kindOf(properties: Record<string, unknown>): RestSiteKind | null {
+  const hgv = String(properties.hgv ?? '').toLowerCase();
+  if (hgv === 'no') return null;
+  const highway = String(properties.highway ?? '').toLowerCase();
+  if (highway === 'rest_area' || highway === 'services') return 'rest_area';
+  const amenity = String(properties.amenity ?? '').toLowerCase();
+  if (amenity === 'truck_stop') return 'truck_stop';
+  if (amenity === 'fuel') return hgv === 'yes' || hgv === 'designated' ? 'truck_stop' : null;
+  if (amenity === 'parking') return hgv === 'yes' || hgv === 'designated' ? 'parking' : null;
+
+  const type = (firstOf(properties, ['kind', 'type', 'site_type', 'facility_type', 'facility']) ?? '').toLowerCase();
+  if (/rest|welcome|service plaza/.test(type)) return 'rest_area';
+  if (/truck ?stop|travel (center|plaza)|fuel/.test(type)) return 'truck_stop';
+  if (/parking|weigh|park.and.ride/.test(type)) return 'parking';
+  return null;
+}
+
+function parseOvernight(properties: Record<string, unknown>): boolean | undefined {
+  const overnight = firstOf(properties, ['overnight', 'overnight_parking']);
+  if (overnight) return !/^(no|false|0|n)$/i.test(overnight);
+  const maxStay = firstOf(properties, ['maxstay', 'max_stay', 'max_stay_hours']);
+  const hours = maxStay ? toNumber(maxStay) : null;
+  if (hours === null) return undefined;
+  const inMinutes = maxStay !== undefined && /min/i.test(maxStay);
+  return (inMinutes ? hours / 60 : hours) >= MIN_OVERNIGHT_HOURS;
+}
+
+// Centre of a polygon ring, without counting the closing point twice
+function averagePoint(ring: number[][]): LatLngCoordinates | null {
+  const closed = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+  const valid = (closed ? ring.slice(0, -1) : ring).filter(point => Number.isFinite(point[0]) && Number.isFinite(point[1]));
+  if (valid.length === 0) return null;
+  return {
+    lat: valid.reduce((sum, point) => sum + point[1], 0) / valid.length,
+    lng: valid.reduce((sum, point) => sum + point[0], 0) / valid.length
+  };
+}
+
+/**
+ * Rest areas, truck stops and truck parking, loaded from an OSM export (GeoJSON or
+ * Overpass JSON) or a truck parking inventory CSV, and matched to routes so breaks
+ * can be placed where a large vehicle can park.
+ */
+export class RestSiteService {
+  private static sites: RestSite[] = [];
+  private static grid = new Map<string, number[]>();
+  private static info: RestSiteInfo = EMPTY_INFO;
+  private static loadedUrl: string | null = null;
+  private static listeners = new Set<RestSiteListener>();
+
+  static getInfo(): RestSiteInfo {
+    return this.info;
+  }
+
+  static getSites(): RestSite[] {
+    return this.sites;
+  }
+
+  static subscribe(listener: RestSiteListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static getKindLabel(kind: RestSiteKind): string {
+    return KIND_LABELS[kind];
+  }
+
+  /**
+   * Replace the loaded sites with those in a file. GeoJSON and Overpass JSON are read
+   * by their OSM tags (highway=rest_area/services, amenity=fuel or parking with hgv=yes);
+   * CSV files need lat and lng columns and a type column naming the kind of site.
+   */
+  static loadFile(text: string, name: string): number {
+    const trimmed = text.trimStart();
+    const sites = trimmed.startsWith('{') ? this.parseJson(JSON.parse(trimmed)) : this.parseCsv(text);
+    if (sites.length === 0) {
+      throw new Error('No rest areas, truck stops or truck parking found in the file');
+    }
+    this.sites = sites;
+    this.grid = new Map();
+    sites.forEach((site, index) => {
+      const cell = cellKey(site.location);
+      const list = this.grid.get(cell);
+      if (list) list.push(index);
+      else this.grid.set(cell, [index]);
+    });
+    this.info = { name, siteCount: sites.length, loaded: true };
+    this.notify();
+    console.log(`🅿️ Loaded ${sites.length} rest sites from ${name}`);
+    return sites.length;
+  }
+
+  static clear(): void {
+    this.sites = [];
+    this.grid = new Map();
+    this.info = EMPTY_INFO;
+    this.notify();
+  }
+
+  /**
+   * Download the sites configured with VITE_REST_SITES_URL, once. Failures are logged
+   * and breaks are placed on the route itself.
+   */
+  static async ensureLoaded(): Promise<void> {
+    const url = import.meta.env?.VITE_REST_SITES_URL as string | undefined;
+    if (!url || this.loadedUrl === url || this.info.loaded) return;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Rest site request failed (${response.status})`);
+      this.loadFile(await response.text(), url.split('/').pop() || url);
+      this.loadedUrl = url;
+    } catch (error) {
+      console.error('Failed to load rest sites:', error);
+    }
+  }
+
+  /**
+   * Sites within reach of the route, each placed at the segment it is nearest to, in
+   * route order.
+   */
+  static findAlongRoute(segments: RouteSegment[]): RestSiteMatch[] {
+    if (this.sites.length === 0) return [];
+    const best = new Map<string, RestSiteMatch>();
+    segments.forEach((segment, segmentIndex) => {
+      const path = getSegmentPath(segment);
+      const bounds = getPathBounds(path);
+      if (!bounds) return;
+      const pad = Math.ceil(MAX_OFF_ROUTE_METERS / (111320 * CELL_DEGREES * Math.cos((path[0].lat * Math.PI) / 180)));
+      const minLat = Math.floor(bounds.south / CELL_DEGREES) - pad;
+      const maxLat = Math.floor(bounds.north / CELL_DEGREES) + pad;
+      const minLng = Math.floor(bounds.west / CELL_DEGREES) - pad;
+      const maxLng = Math.floor(bounds.east / CELL_DEGREES) + pad;
+      for (let lat = minLat; lat <= maxLat; lat++) {
+        for (let lng = minLng; lng <= maxLng; lng++) {
+          this.grid.get(`${lat},${lng}`)?.forEach(index => {
+            const site = this.sites[index];
+            const { distance, along } = projectOntoPath(site.location, path);
+            if (distance > MAX_OFF_ROUTE_METERS) return;
+            const current = best.get(site.id);
+            if (!current || distance < current.offRouteMeters) {
+              best.set(site.id, { site, segmentIndex, alongSegmentMeters: along, offRouteMeters: distance });
+            }
+          });
+        }
+      }
+    });
+    return [...best.values()].sort((a, b) =>
+      a.segmentIndex - b.segmentIndex || a.alongSegmentMeters - b.alongSegmentMeters
+    );
+  }
+
+  private static parseJson(data: {
+    features?: { id?: unknown; geometry?: { type: string; coordinates: unknown } | null; properties?: Record<string, unknown> | null }[];
+    elements?: { type: string; id: number; lat?: number; lon?: number; center?: { lat: number; lon: number }; tags?: Record<string, unknown> }[];
+  }): RestSite[] {
+    if (Array.isArray(data.elements)) {
+      return data.elements.flatMap(element => {
+        const lat = element.lat ?? element.center?.lat;
+        const lng = element.lon ?? element.center?.lon;
+        if (lat === undefined || lng === undefined) return [];
+        return this.toSite(element.tags ?? {}, { lat, lng }, `${element.type}/${element.id}`);
+      });
+    }
+    if (!Array.isArray(data.features)) {
+      throw new Error('Expected a GeoJSON FeatureCollection or Overpass JSON');
+    }
+    return data.features.flatMap((feature, index) => {
+      const geometry = feature.geometry;
+      if (!geometry) return [];
+      let location: LatLngCoordinates | null = null;
+      if (geometry.type === 'Point') {
+        const [lng, lat] = geometry.coordinates as number[];
+        location = { lat, lng };
+      } else if (geometry.type === 'Polygon') {
+        location = averagePoint((geometry.coordinates as number[][][])[0] ?? []);
+      } else if (geometry.type === 'MultiPolygon') {
+        location = averagePoint((geometry.coordinates as number[][][][])[0]?.[0] ?? []);
+      }
+      if (!location) return [];
+      const properties = feature.properties ?? {};
+      const id = firstOf(properties, ['@id', 'id', 'site_id']) ?? (feature.id !== undefined ? String(feature.id) : `feature-${index + 1}`);
+      return this.toSite(properties, location, id);
+    });
+  }
+
+  private static parseCsv(text: string): RestSite[] {
+    return parseCsvRecords(text).flatMap((record, index) => {
+      const lat = toNumber(firstOf(record, ['lat', 'latitude']));
+      const lng = toNumber(firstOf(record, ['lng', 'lon', 'long', 'longitude']));
+      if (lat === null || lng === null) return [];
+      return this.toSite(record, { lat, lng }, firstOf(record, ['id', 'site_id']) ?? `row-${index + 1}`);
+    });
+  }
+
+  private static toSite(properties: Record<string, unknown>, location: LatLngCoordinates, id: string): RestSite[] {
+    if (Math.abs(location.lat) > 90 || Math.abs(location.lng) > 180) return [];
+    const kind = kindOf(properties);
+    if (!kind) return [];
+    const truckSpaces = toNumber(firstOf(properties, ['capacity:hgv', 'truck_spaces', 'truck_parking_spaces', 'spaces']));
+    // A site that says it has no truck spaces is no use to a large vehicle
+    if (truckSpaces === 0) return [];
+    return [{
+      id,
+      name: firstOf(properties, ['name', 'site_name', 'facility_name', 'description']) ?? KIND_LABELS[kind],
+      kind,
+      location,
+      truckSpaces: truckSpaces ?? undefined,
+      overnight: parseOvernight(properties)
+    }];
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener(this.info));
+  }
+}
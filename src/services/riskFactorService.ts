@@ -0,0 +1,258 @@
+import { Route, RouteSegment, CriticalPoint, NamedRiskFactor, WeatherConditions, WorkZone } from '../types';
+import { formatClockTime } from '../utils/tripTiming';
+import { WeatherService } from './weatherService';
+import { WorkZoneService } from './workZoneService';
+
+// Define risk factors and their locations extending your existing NamedRiskFactor
+export interface ExtendedRiskFactor extends NamedRiskFactor {
+  type: 'construction' | 'pedestrian' | 'traffic' | 'infrastructure' | 'emergency' | 'weather';
+  impactRadius: number;
+  timeRestrictions?: {
+    startTime: string;
+    endTime: string;
+    days: string[];
+  };
+  heightRestriction?: number;
+  /** Forecast behind a weather factor; it is only active inside validFrom-validTo */
+  weather?: WeatherConditions;
+  /** Work zone behind a construction factor from a WZDx feed; matched by its geometry */
+  workZone?: WorkZone;
+}
+
+// Mock risk factors for different areas
+const riskFactors: ExtendedRiskFactor[] = [
+  {
+    id: "rf_001",
+    name: "Downtown Construction Zone",
+    description: "Active construction with lane restrictions",
+    severity: 'high',
+    location: { lat: 44.3400, lng: -68.2700 },
+    type: 'construction',
+    impactRadius: 500,
+    timeRestrictions: {
+      startTime: '07:00',
+      endTime: '17:00',
+      days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday']
+    }
+  },
+  {
+    id: "rf_002",
+    name: "School Zone - Bar Harbor Elementary",
+    description: "Heavy pedestrian traffic during school hours",
+    severity: 'medium',
+    location: { lat: 44.3355, lng: -68.2045 },
+    type: 'pedestrian',
+    impactRadius: 300,
+    timeRestrictions: {
+      startTime: '07:30',
+      endTime: '08:30',
+      days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday']
+    }
+  },
+  {
+    id: "rf_003",
+    name: "Tourist Congestion Area",
+    description: "High traffic volume during peak season",
+    severity: 'medium',
+    location: { lat: 44.3386, lng: -68.2733 },
+    type: 'traffic',
+    impactRadius: 1000,
+    timeRestrictions: {
+      startTime: '09:00',
+      endTime: '18:00',
+      days: ['saturday', 'sunday']
+    }
+  },
+  {
+    id: "rf_005",
+    name: "Emergency Services Area",
+    description: "Hospital and fire station emergency access",
+    severity: 'medium',
+    location: { lat: 44.3450, lng: -68.2600 },
+    type: 'emergency',
+    impactRadius: 400
+  }
+];
+
+/**
+ * Mapped hazards (construction, school zones, congestion, emergency access), work zones
+ * from WZDx feeds and forecast weather, with the time windows in which they apply.
+ */
+export class RiskFactorService {
+  /**
+   * Mapped hazards plus the work zones and forecast hazards along the route. Forecasts
+   * must already be loaded with WeatherService.prepareRoutes.
+   */
+  static getFactorsForRoute(route: Route): ExtendedRiskFactor[] {
+    return [...riskFactors, ...WorkZoneService.getRiskFactors(route), ...WeatherService.getRiskFactors(route)];
+  }
+
+  /**
+   * Factors within their impact radius of the segment (work zones: on its geometry) that
+   * are active when it is passed
+   */
+  static findActiveFactors(segment: RouteSegment, factors: ExtendedRiskFactor[], passTime: Date): ExtendedRiskFactor[] {
+    return this.keepNearestWeather(segment, factors.filter(factor =>
+      this.isRiskFactorActive(factor, passTime) &&
+      (factor.workZone
+        ? WorkZoneService.isOnSegment(factor.workZone, segment)
+        : this.isPointNearSegment(factor.location, segment, factor.impactRadius))
+    ));
+  }
+
+  /**
+   * Whether a risk factor's time restriction (if any) covers the given moment. Windows
+   * that end before they start run overnight.
+   */
+  static isRiskFactorActive(factor: ExtendedRiskFactor, at: Date): boolean {
+    if (factor.weather) {
+      return at.getTime() >= Date.parse(factor.weather.validFrom) && at.getTime() < Date.parse(factor.weather.validTo);
+    }
+    if (factor.workZone) return WorkZoneService.isActive(factor.workZone, at);
+    const restriction = factor.timeRestrictions;
+    if (!restriction) return true;
+
+    const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + (minutes || 0);
+    };
+    const minute = at.getHours() * 60 + at.getMinutes();
+    const start = toMinutes(restriction.startTime);
+    const end = toMinutes(restriction.endTime);
+    const overnight = end <= start;
+    // After midnight, an overnight window belongs to the previous day's schedule
+    const day = overnight && minute < end ? (at.getDay() + 6) % 7 : at.getDay();
+    if (!restriction.days.includes(days[day])) return false;
+    return overnight ? minute >= start || minute < end : minute >= start && minute < end;
+  }
+
+  /**
+   * When the factor applies, relative to the moment the vehicle passes it
+   */
+  static describeWindow(factor: ExtendedRiskFactor, passTime: Date): string {
+    if (factor.weather) {
+      return ` (forecast ${formatClockTime(new Date(factor.weather.validFrom))}-${formatClockTime(new Date(factor.weather.validTo))}, passing ${formatClockTime(passTime)})`;
+    }
+    if (factor.workZone) {
+      const until = factor.workZone.endDate ? ` until ${new Date(factor.workZone.endDate).toLocaleDateString()}` : '';
+      return ` (in place${until}, passing ${formatClockTime(passTime)})`;
+    }
+    if (factor.timeRestrictions) {
+      return ` (active ${factor.timeRestrictions.startTime}-${factor.timeRestrictions.endTime}, passing ${formatClockTime(passTime)})`;
+    }
+    return '';
+  }
+
+  /**
+   * Weather factors come from overlapping forecast samples; keep only the closest one of
+   * each hazard so a segment is not penalized once per sample point.
+   */
+  private static keepNearestWeather(segment: RouteSegment, factors: ExtendedRiskFactor[]): ExtendedRiskFactor[] {
+    const midLat = (segment.startLat + segment.endLat) / 2;
+    const midLng = (segment.startLng + segment.endLng) / 2;
+    const nearest = new Map<string, ExtendedRiskFactor>();
+    factors.forEach(factor => {
+      if (!factor.weather) return;
+      const current = nearest.get(factor.weather.hazard);
+      if (!current ||
+          this.calculateDistance(factor.location.lat, factor.location.lng, midLat, midLng) <
+          this.calculateDistance(current.location.lat, current.location.lng, midLat, midLng)) {
+        nearest.set(factor.weather.hazard, factor);
+      }
+    });
+    return factors.filter(factor => !factor.weather || nearest.get(factor.weather.hazard) === factor);
+  }
+
+  /**
+   * Check if a point is near a route segment
+   */
+  private static isPointNearSegment(
+    point: { lat: number; lng: number },
+    segment: RouteSegment,
+    radiusMeters: number
+  ): boolean {
+    // Simple distance calculation (not accounting for Earth's curvature)
+    const segmentMidLat = (segment.startLat + segment.endLat) / 2;
+    const segmentMidLng = (segment.startLng + segment.endLng) / 2;
+
+    const distance = this.calculateDistance(
+      point.lat,
+      point.lng,
+      segmentMidLat,
+      segmentMidLng
+    );
+
+    return distance <= radiusMeters;
+  }
+
+  /**
+   * Calculate distance between two points in meters
+   */
+  private static calculateDistance(
+    lat1: number,
+    lng1: number,
+    lat2: number,
+    lng2: number
+  ): number {
+    const R = 6371000; // Earth's radius in meters
+    const dLat = (lat2 - lat1) * Math.PI / 180;
+    const dLng = (lng2 - lng1) * Math.PI / 180;
+    const a =
+      Math.sin(dLat/2) * Math.sin(dLat/2) +
+      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+      Math.sin(dLng/2) * Math.sin(dLng/2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+    return R * c;
+  }
+
+  /**
+   * Convert risk factor type to critical point type
+   */
+  static getCriticalPointType(riskType: string): CriticalPoint['type'] {
+    switch (riskType) {
+      case 'construction':
+        return 'narrow_road';
+      case 'infrastructure':
+        return 'bridge';
+      case 'pedestrian':
+        return 'intersection';
+      case 'traffic':
+        return 'intersection';
+      case 'emergency':
+        return 'intersection';
+      case 'weather':
+        return 'weather';
+      default:
+        return 'intersection';
+    }
+  }
+
+  /**
+   * Get all available risk factors
+   */
+  static getAllRiskFactors(): NamedRiskFactor[] {
+    return [...riskFactors];
+  }
+
+  /**
+   * Get risk factors affecting a specific route
+   */
+  static getRiskFactorsForRoute(route: Route): NamedRiskFactor[] {
+    const affectedFactors: NamedRiskFactor[] = [];
+
+    route.segments.forEach(segment => {
+      const nearbyFactors = riskFactors.filter(factor =>
+        this.isPointNearSegment(factor.location, segment, factor.impactRadius)
+      );
+
+      nearbyFactors.forEach(factor => {
+        if (!affectedFactors.find(existing => existing.id === factor.id)) {
+          affectedFactors.push(factor);
+        }
+      });
+    });
+
+    return affectedFactors;
+  }
+}
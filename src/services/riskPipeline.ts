@@ -0,0 +1,508 @@
+import {
+  Route,
+  RouteSegment,
+  Vehicle,
+  RiskModelProfile,
+  RiskComponent,
+  NamedRiskFactor,
+  CriticalPoint,
+  RiskAdjustmentTrace,
+  SweptPathAnalysis,
+  ClearanceConflict,
+  CrashCluster,
+  RouteRiskExplanation,
+  SegmentRiskExplanation,
+  RiskConfidence
+} from '../types';
+import { EnhancedRiskBreakdown, RiskCalculator } from '../utils/riskCalculator';
+import { getSegmentPassTimes } from '../utils/tripTiming';
+import { analyzeRouteSweptPaths } from '../utils/sweptPath';
+import { assessSegmentConfidence, getConfidenceLevel } from '../utils/riskConfidence';
+import { RiskProfileService } from './riskProfileService';
+import { ExtendedRiskFactor, RiskFactorService } from './riskFactorService';
+import { WeatherService } from './weatherService';
+import { ClearanceService } from './clearanceService';
+import { CrashHistoryService } from './crashHistoryService';
+import { bearingDegrees } from './osmRoadGraph';
+
+export type RiskPipelinePhase = 'context' | 'scoring' | 'aggregation' | 'critical_points';
+
+/**
+ * Working state of one segment as it moves through the pipeline.
+ */
+export interface SegmentRiskState {
+  index: number;
+  /** Segment as the route has it */
+  source: RouteSegment;
+  /** Segment with OSM attributes, structure clearances and crash history attached */
+  segment: RouteSegment;
+  passTime: Date;
+  activeFactors: ExtendedRiskFactor[];
+  sweptPath: SweptPathAnalysis | null;
+  clearanceConflicts: ClearanceConflict[];
+  crashClusters: CrashCluster[];
+  /** Model components, set when a vehicle is given */
+  breakdown?: EnhancedRiskBreakdown;
+  adjustments: RiskAdjustmentTrace[];
+  /** Model score plus adjustments, clamped to 0-100; this becomes RouteSegment.riskScore */
+  score: number;
+  /** Score after high-risk amplification, as it counts toward the route score */
+  amplifiedScore: number;
+  explanation?: SegmentRiskExplanation;
+  confidence?: RiskConfidence;
+}
+
+/**
+ * Everything the stages read and write while scoring one route.
+ */
+export interface RiskPipelineContext {
+  route: Route;
+  vehicle?: Vehicle;
+  /** Profile the model scores with; set whenever a vehicle is given */
+  profile?: RiskModelProfile;
+  departureTime: Date;
+  segments: SegmentRiskState[];
+  stopRisks: number[];
+  /** Hazards active on at least one segment when it is passed */
+  riskFactors: NamedRiskFactor[];
+  criticalPoints: CriticalPoint[];
+  overallRisk: number;
+  explanation?: RouteRiskExplanation;
+  confidence?: RiskConfidence;
+}
+
+export interface RiskPipelineStage {
+  id: string;
+  phase: RiskPipelinePhase;
+  run: (context: RiskPipelineContext) => void;
+}
+
+export interface RiskPipelineOptions {
+  /** Score with this profile instead of the vehicle's own */
+  profile?: RiskModelProfile;
+  /** Ids of stages to skip */
+  exclude?: string[];
+}
+
+// Phases run in this order; stages within a phase run in registration order
+const PHASES: RiskPipelinePhase[] = ['context', 'scoring', 'aggregation', 'critical_points'];
+
+// Points a nearby active risk factor adds to a segment
+const FACTOR_SEVERITY_POINTS: Record<ExtendedRiskFactor['severity'], number> = {
+  low: 5,
+  medium: 15,
+  high: 30
+};
+
+// Vehicles at least this tall catch enough crosswind to be pushed across the lane
+const HIGH_PROFILE_HEIGHT_FT = 10;
+
+// Crosswind (mph) thresholds and the points they add for high-profile and other vehicles
+const CROSSWIND_POINTS: { minMph: number; highProfile: number; other: number }[] = [
+  { minMph: 40, highProfile: 45, other: 20 },
+  { minMph: 25, highProfile: 25, other: 8 },
+  { minMph: 15, highProfile: 10, other: 0 }
+];
+
+// Points a turn adds when the vehicle's swept path spills past the available lanes
+const SWEPT_PATH_POINTS: Record<SweptPathAnalysis['verdict'], number> = {
+  pass: 0,
+  marginal: 15,
+  fail: 35
+};
+
+// A structure the vehicle cannot pass under or over makes the segment impassable
+const CLEARANCE_CONFLICT_POINTS = 100;
+
+// Rush-hour windows (inclusive hours) and the points passing through one adds
+const RUSH_HOURS: { from: number; to: number; label: string }[] = [
+  { from: 7, to: 9, label: 'Morning rush hour (7-9)' },
+  { from: 17, to: 19, label: 'Evening rush hour (17-19)' }
+];
+const RUSH_HOUR_POINTS = 15;
+
+// High-risk segments count extra toward the route score, so one bad segment is not averaged away
+const AMPLIFICATION: { above: number; factor: number }[] = [
+  { above: 80, factor: 1.3 },
+  { above: 60, factor: 1.15 }
+];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const amplify = (score: number) => {
+  const band = AMPLIFICATION.find(threshold => score > threshold.above);
+  return band ? score * band.factor : score;
+};
+
+// Route score from segment scores and stop risks: the capped mean of amplified segments and stops
+const combineScores = (segmentScores: number[], stopRisks: number[]) => {
+  if (segmentScores.length === 0) return 0;
+  const total = segmentScores.reduce((sum, score) => sum + amplify(score), 0) + stopRisks.reduce((sum, risk) => sum + risk, 0);
+  return Math.min(total / (segmentScores.length + stopRisks.length), 100);
+};
+
+const clampScore = (value: number) => Math.min(Math.max(value, 0), 100);
+
+const adjust = (state: SegmentRiskState, rule: string, description: string, points: number) => {
+  state.adjustments.push({ rule, description, points });
+};
+
+const DEFAULT_STAGES: RiskPipelineStage[] = [
+  {
+    id: 'segments',
+    phase: 'context',
+    run: context => {
+      const passTimes = getSegmentPassTimes(context.route, context.departureTime);
+      context.segments = context.route.segments.map((segment, index) => ({
+        index,
+        source: segment,
+        segment: RiskCalculator.attachRoadData(segment),
+        passTime: passTimes[index],
+        activeFactors: [],
+        sweptPath: null,
+        clearanceConflicts: [],
+        crashClusters: [],
+        adjustments: [],
+        score: 0,
+        amplifiedScore: 0
+      }));
+    }
+  },
+  {
+    id: 'hazards',
+    phase: 'context',
+    run: context => {
+      // Forecast hazards must already be loaded with WeatherService.prepareRoutes
+      const factors = RiskFactorService.getFactorsForRoute(context.route);
+      context.segments.forEach(state => {
+        state.activeFactors = RiskFactorService.findActiveFactors(state.segment, factors, state.passTime);
+        state.activeFactors.forEach(factor => {
+          if (!context.riskFactors.find(existing => existing.id === factor.id)) {
+            context.riskFactors.push(factor);
+          }
+        });
+      });
+    }
+  },
+  {
+    id: 'swept_paths',
+    phase: 'context',
+    run: context => {
+      if (!context.vehicle) return;
+      const sweptPaths = analyzeRouteSweptPaths(context.route, context.vehicle);
+      context.segments.forEach(state => {
+        state.sweptPath = sweptPaths[state.index] ?? null;
+      });
+    }
+  },
+  {
+    id: 'clearance',
+    phase: 'context',
+    run: context => {
+      // Bridges, overpasses and tunnels from the clearance database that the vehicle cannot pass
+      if (!context.vehicle) return;
+      ClearanceService.checkRoute(context.route, context.vehicle).forEach(conflict => {
+        context.segments[conflict.position]?.clearanceConflicts.push(conflict);
+      });
+    }
+  },
+  {
+    id: 'crash_clusters',
+    phase: 'context',
+    run: context => {
+      // Places where several past crashes happened close together
+      CrashHistoryService.findClusters(context.route.segments).forEach(cluster => {
+        context.segments[cluster.position]?.crashClusters.push(cluster);
+      });
+    }
+  },
+  {
+    id: 'risk_model',
+    phase: 'scoring',
+    run: context => {
+      const { vehicle, profile } = context;
+      if (!vehicle || !profile) return;
+      context.segments.forEach((state, index) => {
+        state.breakdown = RiskCalculator.scoreSegment(state.segment, vehicle, context.segments[index + 1]?.segment, profile);
+      });
+    }
+  },
+  {
+    id: 'rush_hour',
+    phase: 'scoring',
+    run: context => {
+      context.segments.forEach(state => {
+        const hour = state.passTime.getHours();
+        RUSH_HOURS.filter(window => hour >= window.from && hour <= window.to).forEach(window => {
+          adjust(state, 'rush_hour', window.label, RUSH_HOUR_POINTS);
+        });
+      });
+    }
+  },
+  {
+    id: 'hazard_points',
+    phase: 'scoring',
+    run: context => {
+      const highProfile = !!context.vehicle && context.vehicle.height >= HIGH_PROFILE_HEIGHT_FT;
+      context.segments.forEach(state => {
+        const { segment } = state;
+        state.activeFactors.forEach(factor => {
+          if (factor.weather?.hazard === 'wind') {
+            const crosswind = WeatherService.getCrosswindMph(
+              factor.weather,
+              bearingDegrees({ lat: segment.startLat, lng: segment.startLng }, { lat: segment.endLat, lng: segment.endLng })
+            );
+            const band = CROSSWIND_POINTS.find(threshold => crosswind >= threshold.minMph);
+            const points = band ? (highProfile ? band.highProfile : band.other) : 0;
+            if (points > 0) {
+              adjust(
+                state,
+                'crosswind',
+                `${Math.floor(crosswind)} mph crosswind${highProfile ? ` (vehicle ${HIGH_PROFILE_HEIGHT_FT}ft or taller)` : ''}`,
+                points
+              );
+            }
+            return;
+          }
+          adjust(state, `factor_${factor.id}`, factor.name, FACTOR_SEVERITY_POINTS[factor.severity]);
+        });
+      });
+    }
+  },
+  {
+    id: 'swept_path_points',
+    phase: 'scoring',
+    run: context => {
+      context.segments.forEach(state => {
+        const sweptPath = state.sweptPath;
+        if (sweptPath && sweptPath.verdict !== 'pass') {
+          adjust(
+            state,
+            `swept_path_${sweptPath.verdict}`,
+            `Turn needs ${sweptPath.encroachmentFt}ft beyond the available lanes`,
+            SWEPT_PATH_POINTS[sweptPath.verdict]
+          );
+        }
+      });
+    }
+  },
+  {
+    id: 'clearance_points',
+    phase: 'scoring',
+    run: context => {
+      context.segments.forEach(state => {
+        state.clearanceConflicts.forEach(conflict => {
+          adjust(
+            state,
+            conflict.type === 'height' ? 'structure_clearance' : 'structure_weight',
+            conflict.type === 'height'
+              ? `${conflict.structure.name}: ${conflict.limit}ft clearance, ${conflict.required}ft needed`
+              : `${conflict.structure.name}: ${conflict.limit}-ton limit, ${conflict.required} tons`,
+            CLEARANCE_CONFLICT_POINTS
+          );
+        });
+      });
+    }
+  },
+  {
+    id: 'route_score',
+    phase: 'aggregation',
+    run: context => {
+      context.segments.forEach(state => {
+        const points = state.adjustments.reduce((sum, adjustment) => sum + adjustment.points, 0);
+        state.score = clampScore((state.breakdown?.overallRisk ?? 0) + points);
+        state.amplifiedScore = amplify(state.score);
+      });
+
+      const vehicle = context.vehicle;
+      context.stopRisks = vehicle ? context.route.stops?.map(stop => RiskCalculator.calculateStopRisk(stop, vehicle)) ?? [] : [];
+      context.overallRisk = combineScores(context.segments.map(state => state.score), context.stopRisks);
+    }
+  },
+  {
+    id: 'confidence',
+    phase: 'aggregation',
+    run: context => {
+      context.segments.forEach(state => {
+        state.confidence = assessSegmentConfidence(state.breakdown?.components, state.score);
+      });
+      if (context.segments.length === 0) return;
+
+      // The route range is the route score with every segment at the low or high end of its range
+      const segments = context.segments.map(state => state.confidence!);
+      const confidence = segments.reduce((sum, segment) => sum + segment.confidence, 0) / segments.length;
+      const gapCounts = new Map<string, number>();
+      segments.forEach(segment => segment.gaps.forEach(gap => gapCounts.set(gap, (gapCounts.get(gap) || 0) + 1)));
+      context.confidence = {
+        level: getConfidenceLevel(confidence),
+        confidence: Math.round(confidence * 100) / 100,
+        low: round1(combineScores(segments.map(segment => segment.low), context.stopRisks)),
+        high: round1(combineScores(segments.map(segment => segment.high), context.stopRisks)),
+        gaps: Array.from(gapCounts).sort((a, b) => b[1] - a[1]).slice(0, 3).map(([gap]) => gap)
+      };
+    }
+  },
+  {
+    id: 'explanation',
+    phase: 'aggregation',
+    run: context => {
+      const profile = context.profile;
+      if (!profile) return;
+      const totals = new Map<RiskComponent, number>();
+      let adjustmentTotal = 0;
+      context.segments.forEach(state => {
+        const points = state.adjustments.reduce((sum, adjustment) => sum + adjustment.points, 0);
+        adjustmentTotal += points;
+        if (!state.breakdown) return;
+        state.breakdown.components.forEach(trace => {
+          totals.set(trace.component, (totals.get(trace.component) || 0) + trace.contribution);
+        });
+        state.explanation = {
+          ...RiskCalculator.explainBreakdown(state.segment, state.breakdown, profile),
+          total: round1(state.score),
+          adjustments: state.adjustments
+        };
+      });
+
+      const segmentCount = context.segments.length;
+      const stopCount = context.stopRisks.length;
+      context.explanation = {
+        score: round1(context.overallRisk),
+        model: RiskProfileService.toRef(profile),
+        segments: context.segments.map(state => ({
+          segmentId: state.source.id,
+          streetName: state.source.streetName,
+          score: round1(state.score),
+          amplifiedScore: round1(state.amplifiedScore)
+        })),
+        stopRisks: context.stopRisks.map(round1),
+        components: Array.from(totals, ([component, total]) => ({
+          component,
+          label: RiskCalculator.getComponentLabel(component),
+          contribution: segmentCount > 0 ? round1(total / segmentCount) : 0
+        })).sort((a, b) => b.contribution - a.contribution),
+        adjustmentPoints: segmentCount > 0 ? round1(adjustmentTotal / segmentCount) : 0,
+        rules: [
+          'Segment score is the model score plus context rules, capped at 100',
+          `Segments scoring over ${AMPLIFICATION[1].above} count ×${AMPLIFICATION[1].factor}, over ${AMPLIFICATION[0].above} count ×${AMPLIFICATION[0].factor}`,
+          `Route score is the mean of ${segmentCount} segment${segmentCount === 1 ? '' : 's'}` +
+            (stopCount > 0 ? ` and ${stopCount} stop${stopCount === 1 ? '' : 's'}` : '') +
+            ', capped at 100'
+        ]
+      };
+    }
+  },
+  {
+    id: 'critical_points',
+    phase: 'critical_points',
+    run: context => {
+      context.segments.forEach(state => {
+        const { index, source: segment } = state;
+
+        state.clearanceConflicts.forEach(conflict => {
+          context.criticalPoints.push({
+            segmentId: segment.id,
+            position: index,
+            type: 'bridge',
+            riskLevel: 'critical',
+            description: `${conflict.type === 'height' ? 'Low clearance' : 'Weight-limited structure'} - ${ClearanceService.describeConflict(conflict)}`
+          });
+        });
+
+        state.crashClusters.forEach(cluster => {
+          context.criticalPoints.push({
+            segmentId: segment.id,
+            position: index,
+            type: 'crash_cluster',
+            riskLevel: cluster.stats.fatal > 0 || cluster.stats.largeVehicle > 0 ? 'critical' : 'high',
+            description: `Crash cluster on ${segment.streetName} - ${CrashHistoryService.describeCluster(cluster)}`,
+            crashCluster: cluster
+          });
+        });
+
+        const sweptPath = state.sweptPath;
+        if (sweptPath && sweptPath.verdict !== 'pass') {
+          context.criticalPoints.push({
+            segmentId: segment.id,
+            position: index,
+            type: 'turn',
+            riskLevel: sweptPath.verdict === 'fail' ? 'critical' : 'high',
+            description: `${sweptPath.direction === 'u_turn' ? 'U-turn' : `${sweptPath.angleDeg}° ${sweptPath.direction} turn`} onto ${segment.streetName}: ` +
+              `swept path is ${sweptPath.sweptWidthFt}ft wide and needs ${sweptPath.encroachmentFt}ft beyond the ${sweptPath.availableWidthFt}ft available`
+          });
+        }
+
+        // Hazards become critical points when severe, or moderate on an already risky segment
+        state.activeFactors
+          .filter(factor => factor.severity === 'high' || (factor.severity === 'medium' && state.score > 60))
+          .forEach(factor => {
+            context.criticalPoints.push({
+              segmentId: segment.id,
+              position: index,
+              type: RiskFactorService.getCriticalPointType(factor.type),
+              riskLevel: factor.severity === 'high' ? 'critical' : 'high',
+              description: `${factor.name}: ${factor.description}${RiskFactorService.describeWindow(factor, state.passTime)}`
+            });
+          });
+      });
+    }
+  }
+];
+
+/**
+ * The one place route risk is scored. A route passes through context extraction, factor
+ * scoring, aggregation and critical-point detection; each phase is a list of stages that
+ * can be replaced or extended. The analyzer stores the result on the route and every
+ * view reads it from there.
+ */
+export class RiskPipeline {
+  private static stages: RiskPipelineStage[] = [...DEFAULT_STAGES];
+
+  static getStages(): RiskPipelineStage[] {
+    return [...this.stages];
+  }
+
+  /**
+   * Add a stage at the end of its phase, replacing any stage with the same id.
+   */
+  static registerStage(stage: RiskPipelineStage): void {
+    this.stages = this.stages.filter(existing => existing.id !== stage.id);
+    const phase = PHASES.indexOf(stage.phase);
+    const insertAt = this.stages.findIndex(existing => PHASES.indexOf(existing.phase) > phase);
+    this.stages.splice(insertAt < 0 ? this.stages.length : insertAt, 0, stage);
+    console.log(`🧩 Registered risk pipeline stage ${stage.id} (${stage.phase})`);
+  }
+
+  static removeStage(id: string): void {
+    this.stages = this.stages.filter(stage => stage.id !== id);
+  }
+
+  /**
+   * Restore the built-in stages
+   */
+  static reset(): void {
+    this.stages = [...DEFAULT_STAGES];
+  }
+
+  /**
+   * Score a route as the vehicle would drive it, leaving at departureTime. Without a
+   * vehicle only the context rules score the segments.
+   */
+  static run(route: Route, vehicle?: Vehicle, departureTime: Date = new Date(), options: RiskPipelineOptions = {}): RiskPipelineContext {
+    const context: RiskPipelineContext = {
+      route,
+      vehicle,
+      profile: options.profile ?? (vehicle ? RiskProfileService.getProfileForVehicle(vehicle) : undefined),
+      departureTime,
+      segments: [],
+      stopRisks: [],
+      riskFactors: [],
+      criticalPoints: [],
+      overallRisk: 0
+    };
+    this.stages
+      .filter(stage => !options.exclude?.includes(stage.id))
+      .forEach(stage => stage.run(context));
+    return context;
+  }
+}
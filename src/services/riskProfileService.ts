@@ -0,0 +1,317 @@
+import { RiskModelProfile, RiskModelRef, Vehicle, VehicleClass } from '../types';
+import { VehicleClassificationService } from './vehicleClassificationService';
+import generalProfile from '../data/riskProfiles/general.json';
+import busProfile from '../data/riskProfiles/bus.json';
+
+const STORAGE_KEY = 'acadia-risk-profiles';
+// Versions replaced by a later save, so scores recorded against them can still be explained
+const HISTORY_KEY = 'acadia-risk-profile-history';
+
+export const VEHICLE_CLASS_TYPES: VehicleClass['type'][] = ['passenger', 'delivery', 'bus', 'truck', 'oversized'];
+
+const BUNDLED_PROFILES: RiskModelProfile[] = [generalProfile as RiskModelProfile, busProfile as RiskModelProfile];
+
+type ProfileListener = () => void;
+
+/**
+ * Loads, validates and persists the versioned risk-model profiles. Bundled JSON
+ * profiles are the defaults; edits are stored in localStorage as new versions.
+ */
+export class RiskProfileService {
+  private static profiles: RiskModelProfile[] | null = null;
+  private static history: RiskModelProfile[] | null = null;
+  private static listeners = new Set<ProfileListener>();
+
+  static getProfiles(): RiskModelProfile[] {
+    if (!this.profiles) {
+      this.profiles = this.load();
+    }
+    return this.profiles;
+  }
+
+  static getProfile(id: string): RiskModelProfile | undefined {
+    return this.getProfiles().find(profile => profile.id === id);
+  }
+
+  static getBundledProfile(id: string): RiskModelProfile | undefined {
+    return BUNDLED_PROFILES.find(profile => profile.id === id);
+  }
+
+  static getProfileForClass(type: VehicleClass['type']): RiskModelProfile {
+    const profiles = this.getProfiles();
+    return profiles.find(profile => profile.vehicleClasses.includes(type)) ?? profiles[0];
+  }
+
+  /**
+   * Any version of a profile that has been used for scoring: the current one, an
+   * earlier saved one, or the bundled defaults.
+   */
+  static getProfileVersion(id: string, version: number): RiskModelProfile | undefined {
+    return this.getProfileHistory(id).find(profile => profile.version === version);
+  }
+
+  /** Every known version of a profile, newest first */
+  static getProfileHistory(id: string): RiskModelProfile[] {
+    const versions = [this.getProfile(id), ...this.getHistory().filter(profile => profile.id === id), this.getBundledProfile(id)]
+      .filter((profile): profile is RiskModelProfile => Boolean(profile));
+    return versions
+      .filter((profile, index) => versions.findIndex(other => other.version === profile.version) === index)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  /**
+   * The profile is picked by vehicle class. Before profiles existed every vehicle of
+   * 35 ft or more was scored with the bus weights; now only vehicles classified as
+   * buses are, so 35-45 ft trucks use the general profile and short buses the bus one.
+   */
+  static getProfileForVehicle(vehicle: Vehicle): RiskModelProfile {
+    return this.getProfileForClass(VehicleClassificationService.classifyVehicle(vehicle).type);
+  }
+
+  static toRef(profile: RiskModelProfile): RiskModelRef {
+    return { profileId: profile.id, profileName: profile.name, version: profile.version };
+  }
+
+  /**
+   * Check a profile's shape and ranges, and that together with the other profiles
+   * every vehicle class is still scored by some profile. Returns readable errors.
+   */
+  static validate(candidate: unknown, others: RiskModelProfile[] = this.otherProfiles(candidate)): string[] {
+    if (!candidate || typeof candidate !== 'object') {
+      return ['Profile must be a JSON object'];
+    }
+    const profile = candidate as RiskModelProfile;
+    const errors: string[] = [];
+
+    if (typeof profile.id !== 'string' || !/^[a-z0-9-]+$/.test(profile.id)) {
+      errors.push('id must use lowercase letters, digits and dashes');
+    }
+    if (typeof profile.name !== 'string' || !profile.name.trim()) {
+      errors.push('name is required');
+    }
+    if (!Number.isInteger(profile.version) || profile.version < 1) {
+      errors.push('version must be a positive whole number');
+    }
+
+    // Every number in the bundled template must be present, and nothing else
+    this.collectShapeErrors(BUNDLED_PROFILES[0].weights, profile.weights, 'weights', errors);
+    this.collectShapeErrors(BUNDLED_PROFILES[0].thresholds, profile.thresholds, 'thresholds', errors);
+    this.collectShapeErrors(BUNDLED_PROFILES[0].roadTypeMultipliers, profile.roadTypeMultipliers, 'roadTypeMultipliers', errors);
+    this.collectShapeErrors(BUNDLED_PROFILES[0].penalties, profile.penalties, 'penalties', errors);
+    if (errors.length > 0) return errors;
+
+    Object.entries(profile.weights).forEach(([key, value]) => {
+      if (value < 0 || value > 1) errors.push(`weights.${key} must be between 0 and 1`);
+    });
+    if (Object.values(profile.weights).every(value => value === 0)) {
+      errors.push('at least one weight must be above 0');
+    }
+    Object.entries(profile.thresholds).forEach(([key, value]) => {
+      if (value <= 0 || value > 200) errors.push(`thresholds.${key} must be between 0 and 200 ft`);
+    });
+    Object.entries(profile.roadTypeMultipliers).forEach(([key, value]) => {
+      if (value <= 0 || value > 5) errors.push(`roadTypeMultipliers.${key} must be above 0 and at most 5`);
+    });
+    Object.entries(profile.penalties).forEach(([group, values]) => {
+      Object.entries(values as Record<string, number>).forEach(([key, value]) => {
+        if (key.endsWith('Factor')) {
+          if (value <= 0 || value > 5) errors.push(`penalties.${group}.${key} must be above 0 and at most 5`);
+        } else if (value < 0 || value > 100) {
+          errors.push(`penalties.${group}.${key} must be between 0 and 100`);
+        }
+      });
+    });
+
+    if (!Array.isArray(profile.vehicleClasses)) {
+      errors.push('vehicleClasses must be a list of vehicle classes');
+      return errors;
+    }
+    profile.vehicleClasses.forEach(type => {
+      if (!VEHICLE_CLASS_TYPES.includes(type)) errors.push(`unknown vehicle class "${type}"`);
+    });
+    VEHICLE_CLASS_TYPES.forEach(type => {
+      if (!profile.vehicleClasses.includes(type) && !others.some(other => other.vehicleClasses.includes(type))) {
+        errors.push(`no profile would score "${type}" vehicles`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Save an edited profile as the next version of its id. Vehicle classes it lists
+   * are moved off whichever profile scored them before.
+   */
+  static saveProfile(profile: RiskModelProfile): RiskModelProfile {
+    const current = this.getProfile(profile.id);
+    const saved: RiskModelProfile = {
+      ...profile,
+      version: (current?.version ?? profile.version - 1) + 1,
+      updatedAt: new Date().toISOString()
+    };
+    const others = this.otherProfiles(saved).map(other =>
+      other.vehicleClasses.some(type => saved.vehicleClasses?.includes(type))
+        ? { ...other, vehicleClasses: other.vehicleClasses.filter(type => !saved.vehicleClasses.includes(type)) }
+        : other
+    );
+    const errors = this.validate(saved, others);
+    if (errors.length > 0) {
+      throw new Error(`Invalid risk profile: ${errors.join('; ')}`);
+    }
+
+    if (current) {
+      this.history = [...this.getHistory().filter(old => old.id !== current.id || old.version !== current.version), current];
+    }
+    const merged = current ? this.getProfiles() : [...this.getProfiles(), saved];
+    this.profiles = merged.map(existing =>
+      existing.id === saved.id ? saved : others.find(other => other.id === existing.id) ?? existing
+    );
+    this.persist();
+    console.log(`⚖️ Saved risk profile ${saved.id} v${saved.version}`);
+    return saved;
+  }
+
+  /**
+   * Restore a bundled profile's values. This is saved as a new version so earlier
+   * scores stay traceable to the values that produced them.
+   */
+  static resetProfile(id: string): RiskModelProfile {
+    const bundled = this.getBundledProfile(id);
+    if (!bundled) {
+      throw new Error(`No bundled defaults for risk profile "${id}"`);
+    }
+    return this.saveProfile({ ...bundled, vehicleClasses: this.getProfile(id)?.vehicleClasses ?? bundled.vehicleClasses });
+  }
+
+  static removeProfile(id: string): void {
+    if (this.getBundledProfile(id)) {
+      throw new Error('Bundled risk profiles cannot be removed');
+    }
+    const remaining = this.getProfiles().filter(profile => profile.id !== id);
+    const uncovered = VEHICLE_CLASS_TYPES.filter(type => !remaining.some(profile => profile.vehicleClasses.includes(type)));
+    if (uncovered.length > 0) {
+      throw new Error(`Reassign ${uncovered.join(', ')} to another profile before removing this one`);
+    }
+    this.profiles = remaining;
+    this.persist();
+  }
+
+  static importProfile(json: string): RiskModelProfile {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('Risk profile file is not valid JSON');
+    }
+    return this.saveProfile(parsed as RiskModelProfile);
+  }
+
+  static exportProfile(profile: RiskModelProfile): string {
+    return JSON.stringify(profile, null, 2);
+  }
+
+  static subscribe(listener: ProfileListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static otherProfiles(candidate: unknown): RiskModelProfile[] {
+    const id = (candidate as RiskModelProfile | null)?.id;
+    return this.getProfiles().filter(profile => profile.id !== id);
+  }
+
+  private static collectShapeErrors(template: object, value: unknown, path: string, errors: string[]): void {
+    if (!value || typeof value !== 'object') {
+      errors.push(`${path} is missing`);
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    Object.entries(template).forEach(([key, expected]) => {
+      if (typeof expected === 'object') {
+        this.collectShapeErrors(expected, record[key], `${path}.${key}`, errors);
+      } else if (typeof record[key] !== 'number' || !Number.isFinite(record[key])) {
+        errors.push(`${path}.${key} must be a number`);
+      }
+    });
+    Object.keys(record).forEach(key => {
+      if (!(key in template)) errors.push(`${path}.${key} is not a known setting`);
+    });
+  }
+
+  /**
+   * Fill settings added to the model since a profile was stored with the bundled
+   * defaults, so stored edits survive new risk components.
+   */
+  private static withNewSettings(profile: RiskModelProfile): RiskModelProfile {
+    if (!profile || typeof profile !== 'object') return profile;
+    const template = this.getBundledProfile(profile.id) ?? BUNDLED_PROFILES[0];
+    return {
+      ...profile,
+      weights: this.fillMissing(template.weights, profile.weights) as RiskModelProfile['weights'],
+      thresholds: this.fillMissing(template.thresholds, profile.thresholds) as RiskModelProfile['thresholds'],
+      roadTypeMultipliers: this.fillMissing(template.roadTypeMultipliers, profile.roadTypeMultipliers) as RiskModelProfile['roadTypeMultipliers'],
+      penalties: this.fillMissing(template.penalties, profile.penalties) as RiskModelProfile['penalties']
+    };
+  }
+
+  private static fillMissing(template: object, value: unknown): unknown {
+    if (!value || typeof value !== 'object') return value;
+    const filled: Record<string, unknown> = { ...value };
+    Object.entries(template).forEach(([key, expected]) => {
+      if (!(key in filled)) {
+        filled[key] = expected;
+      } else if (typeof expected === 'object') {
+        filled[key] = this.fillMissing(expected, filled[key]);
+      }
+    });
+    return filled;
+  }
+
+  private static getHistory(): RiskModelProfile[] {
+    if (!this.history) {
+      try {
+        const raw = localStorage.getItem(HISTORY_KEY);
+        this.history = raw ? JSON.parse(raw) : [];
+      } catch (error) {
+        console.error('Failed to load risk profile history:', error);
+        this.history = [];
+      }
+    }
+    return this.history ?? [];
+  }
+
+  private static load(): RiskModelProfile[] {
+    let stored: RiskModelProfile[] = [];
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      stored = raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error('Failed to load risk profiles:', error);
+    }
+
+    stored = stored.map(profile => this.withNewSettings(profile));
+    const profiles = BUNDLED_PROFILES.map(bundled => stored.find(profile => profile.id === bundled.id) ?? bundled);
+    stored.filter(profile => !this.getBundledProfile(profile.id)).forEach(profile => profiles.push(profile));
+
+    // A stored set that no longer validates (e.g. after a schema change) falls back to the defaults
+    const invalid = profiles.find(profile => this.validate(profile, profiles.filter(other => other !== profile)).length > 0);
+    if (invalid) {
+      console.warn(`⚠️ Stored risk profile "${invalid.id}" is invalid, using bundled defaults`);
+      return [...BUNDLED_PROFILES];
+    }
+    return profiles;
+  }
+
+  private static persist(): void {
+    try {
+      const edited = this.getProfiles().filter(profile => profile !== this.getBundledProfile(profile.id));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(edited));
+      localStorage.setItem(HISTORY_KEY, JSON.stringify(this.getHistory()));
+    } catch (error) {
+      console.error('Failed to save risk profiles:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
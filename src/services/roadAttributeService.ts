@@ -0,0 +1,442 @@
+import {
+  LatLngCoordinates,
+  RiskFactors,
+  RiskFactorSources,
+  RoadAttributes,
+  RouteSegment
+} from '../types';
+import { getSegmentPath } from '../utils/routeGeometry';
+import {
+  bearingDegrees,
+  DEFAULT_SPEEDS_MPH,
+  haversineMeters,
+  loadRoadGraph,
+  parseDimensionFeet,
+  parseWeightTons,
+  parseSpeedMph,
+  RoadEdge,
+  RoadGraph
+} from './osmRoadGraph';
+
+export interface RoadAttributeExtractInfo {
+  name: string;
+  edgeCount: number;
+}
+
+export interface ResolvedRiskFactors {
+  riskFactors: RiskFactors;
+  sources: RiskFactorSources;
+  attributes?: RoadAttributes;
+}
+
+type AttributeListener = (info: RoadAttributeExtractInfo | null) => void;
+
+// Grid cells of about 200 m; matches are searched in the sample's cell and its neighbours
+const CELL_DEGREES = 0.002;
+const MATCH_RADIUS_METERS = 25;
+const MAX_BEARING_DIFFERENCE = 45;
+const SAMPLE_SPACING_METERS = 30;
+const MAX_SAMPLES = 20;
+// Samples this close to either end sit in the intersection and may hit the cross street
+const END_MARGIN_METERS = 8;
+const MIN_COVERAGE = 0.5;
+const LANE_WIDTH_FT = 12;
+// roadWidth is a narrowness score: 0 at this width or wider, 100 at NARROWEST_ROAD_FT
+const WIDEST_ROAD_FT = 40;
+const NARROWEST_ROAD_FT = 10;
+
+// Typical paved width when a way has neither width nor lanes tagged
+const DEFAULT_WIDTHS_FT: Record<string, number> = {
+  motorway: 48,
+  trunk: 44,
+  primary: 36,
+  secondary: 32,
+  tertiary: 28,
+  unclassified: 22,
+  residential: 26,
+  living_street: 16,
+  service: 14,
+  road: 22
+};
+
+// Typical pedestrian activity by highway class (0-100)
+const PEDESTRIAN_BY_HIGHWAY: Record<string, number> = {
+  motorway: 0,
+  trunk: 10,
+  primary: 50,
+  secondary: 45,
+  tertiary: 40,
+  unclassified: 25,
+  residential: 45,
+  living_street: 80,
+  service: 30,
+  road: 30
+};
+
+// Typical congestion by highway class when there is no live traffic (0-100)
+const CONGESTION_BY_HIGHWAY: Record<string, number> = {
+  motorway: 60,
+  trunk: 55,
+  primary: 60,
+  secondary: 50,
+  tertiary: 40,
+  unclassified: 30,
+  residential: 25,
+  living_street: 15,
+  service: 20,
+  road: 35
+};
+
+const LIVE_CONGESTION: Record<NonNullable<RouteSegment['liveTrafficData']>['congestionLevel'], number> = {
+  low: 20,
+  moderate: 45,
+  heavy: 70,
+  severe: 90
+};
+
+const UNPAVED_SURFACES = new Set(['unpaved', 'gravel', 'fine_gravel', 'dirt', 'earth', 'ground', 'grass', 'sand', 'mud', 'compacted']);
+const UNPAVED_WIDTH_PENALTY = 15;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// "primary_link" behaves like a narrow "primary" for width and pedestrians
+const baseHighway = (highway: string) => highway.replace(/_link$/, '');
+
+/**
+ * Looks up the real road attributes of route segments (lanes, width, clearance, speed
+ * limit, surface, highway class) in a local OSM extract, matching segments to ways by
+ * geometry, and turns them into segment risk factors tagged with where each value came from.
+ */
+export class RoadAttributeService {
+  private static graph: RoadGraph | null = null;
+  private static grid = new Map<string, number[]>();
+  private static info: RoadAttributeExtractInfo | null = null;
+  private static matches = new Map<string, RoadAttributes | null>();
+  private static listeners = new Set<AttributeListener>();
+
+  /**
+   * Use an already-built road graph (e.g. the local router's) for attribute lookups.
+   */
+  static setGraph(graph: RoadGraph, name: string): RoadAttributeExtractInfo {
+    this.graph = graph;
+    this.grid = this.buildGrid(graph);
+    this.matches.clear();
+    this.info = { name, edgeCount: graph.edges.length };
+    console.log(`🛣️ Road attributes ready from ${name}: ${graph.edges.length} edges`);
+    this.listeners.forEach(listener => listener(this.info));
+    return this.info;
+  }
+
+  static async loadExtract(buffer: ArrayBuffer, name: string): Promise<RoadAttributeExtractInfo> {
+    return this.setGraph(await loadRoadGraph(buffer), name);
+  }
+
+  static getExtractInfo(): RoadAttributeExtractInfo | null {
+    return this.info;
+  }
+
+  static subscribe(listener: AttributeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Risk factors for a segment from its matched OSM way, falling back to typical values
+   * for the street type when no extract is loaded or nothing matched.
+   */
+  static resolveRiskFactors(segment: RouteSegment): ResolvedRiskFactors {
+    const attributes = this.matchSegment(segment);
+    return attributes ? this.fromAttributes(segment, attributes) : this.fromDefaults(segment);
+  }
+
+  /**
+   * Copy of the segment with resolved risk factors, their sources and road attributes.
+   */
+  static annotateSegment(segment: RouteSegment): RouteSegment {
+    const { riskFactors, sources, attributes } = this.resolveRiskFactors(segment);
+    return { ...segment, riskFactors, riskFactorSources: sources, roadAttributes: attributes };
+  }
+
+  /**
+   * Attributes of the way nearest to a single point, ignoring direction.
+   */
+  static lookupPoint(point: LatLngCoordinates): RoadAttributes | null {
+    const nearest = this.findNearestEdge(point, null);
+    return nearest ? this.toAttributes(nearest, [nearest], 1) : null;
+  }
+
+  /**
+   * Match a segment to the OSM way most of its sampled points lie on, travelling in a
+   * compatible direction. Returns null when under half the samples agree.
+   */
+  static matchSegment(segment: RouteSegment): RoadAttributes | null {
+    if (!this.graph) return null;
+    const path = getSegmentPath(segment);
+    const key = path.map(point => `${point.lat.toFixed(6)},${point.lng.toFixed(6)}`).join(';');
+    const cached = this.matches.get(key);
+    if (cached !== undefined) return cached;
+
+    const samples = this.samplePath(path);
+    const votes = new Map<string, { edge: RoadEdge; count: number }>();
+    const matchedEdges: RoadEdge[] = [];
+    samples.forEach(sample => {
+      const edge = this.findNearestEdge(sample.point, sample.bearing);
+      if (!edge) return;
+      matchedEdges.push(edge);
+      const vote = votes.get(edge.wayId);
+      if (vote) vote.count++;
+      else votes.set(edge.wayId, { edge, count: 1 });
+    });
+
+    let winner: { edge: RoadEdge; count: number } | null = null;
+    for (const vote of votes.values()) {
+      if (!winner || vote.count > winner.count) winner = vote;
+    }
+    const coverage = winner && samples.length > 0 ? winner.count / samples.length : 0;
+    const attributes = winner && coverage >= MIN_COVERAGE ? this.toAttributes(winner.edge, matchedEdges, coverage) : null;
+    this.matches.set(key, attributes);
+    return attributes;
+  }
+
+  private static fromAttributes(segment: RouteSegment, attributes: RoadAttributes): ResolvedRiskFactors {
+    const highway = baseHighway(attributes.highway);
+    const description = segment.description.toLowerCase();
+
+    let widthFt: number;
+    let widthSource: RiskFactorSources['roadWidth'];
+    if (attributes.widthFt) {
+      widthFt = attributes.widthFt;
+      widthSource = 'measured';
+    } else {
+      widthFt = attributes.lanes
+        ? attributes.lanes * LANE_WIDTH_FT
+        : (DEFAULT_WIDTHS_FT[highway] ?? DEFAULT_WIDTHS_FT.road) * (attributes.highway.endsWith('_link') ? 0.6 : 1);
+      widthSource = 'inferred';
+    }
+    let roadWidth = clamp(((WIDEST_ROAD_FT - widthFt) / (WIDEST_ROAD_FT - NARROWEST_ROAD_FT)) * 100, 0, 100);
+    if (attributes.surface && UNPAVED_SURFACES.has(attributes.surface)) {
+      roadWidth = Math.min(roadWidth + UNPAVED_WIDTH_PENALTY, 100);
+    }
+
+    let pedestrianTraffic = PEDESTRIAN_BY_HIGHWAY[highway] ?? PEDESTRIAN_BY_HIGHWAY.road;
+    if (attributes.sidewalk && ['both', 'left', 'right', 'yes', 'separate'].includes(attributes.sidewalk)) {
+      pedestrianTraffic += 10;
+    } else if (attributes.sidewalk === 'no' || attributes.sidewalk === 'none') {
+      pedestrianTraffic -= 10;
+    }
+    if (description.includes('school')) pedestrianTraffic += 30;
+
+    const live = segment.liveTrafficData;
+    return {
+      riskFactors: {
+        pedestrianTraffic: clamp(pedestrianTraffic, 0, 100),
+        roadWidth: Math.round(roadWidth),
+        trafficCongestion: live
+          ? LIVE_CONGESTION[live.congestionLevel]
+          : CONGESTION_BY_HIGHWAY[highway] ?? CONGESTION_BY_HIGHWAY.road,
+        speedLimit: Math.round(attributes.speedLimitMph ?? DEFAULT_SPEEDS_MPH[attributes.highway] ?? 25),
+        heightRestriction: attributes.maxHeightFt ? Math.round(attributes.maxHeightFt * 10) / 10 : 0
+      },
+      sources: {
+        pedestrianTraffic: 'inferred',
+        roadWidth: widthSource,
+        trafficCongestion: live ? 'measured' : 'inferred',
+        speedLimit: attributes.speedLimitMph ? 'measured' : 'inferred',
+        // A matched way without maxheight has no posted clearance
+        heightRestriction: attributes.maxHeightFt ? 'measured' : 'inferred'
+      },
+      attributes
+    };
+  }
+
+  /**
+   * Typical values for the street type named in the instructions, used without road data.
+   */
+  private static fromDefaults(segment: RouteSegment): ResolvedRiskFactors {
+    const streetName = segment.streetName.toLowerCase();
+    const description = segment.description.toLowerCase();
+
+    let pedestrianTraffic = 30;
+    let roadWidth = 50;
+    let trafficCongestion = 40;
+    let speedLimit = 35;
+
+    if (streetName.includes('highway') || streetName.includes('interstate')) {
+      pedestrianTraffic = 5;
+      roadWidth = 20; // Lower number = wider road (less risk)
+      trafficCongestion = 60;
+      speedLimit = 65;
+    } else if (streetName.includes('main') || streetName.includes('commercial') || streetName.includes('broadway')) {
+      pedestrianTraffic = 70;
+      roadWidth = 40;
+      trafficCongestion = 65;
+      speedLimit = 30;
+    } else if (streetName.includes('residential') || streetName.includes('subdivision') || streetName.includes('lane')) {
+      pedestrianTraffic = 45;
+      roadWidth = 60; // Higher number = narrower road (more risk)
+      trafficCongestion = 25;
+      speedLimit = 25;
+    } else if (streetName.includes('industrial') || streetName.includes('truck')) {
+      pedestrianTraffic = 15;
+      roadWidth = 25;
+      trafficCongestion = 35;
+      speedLimit = 40;
+    }
+
+    if (description.includes('school')) {
+      pedestrianTraffic += 30;
+      speedLimit = Math.min(speedLimit, 20);
+    }
+
+    const live = segment.liveTrafficData;
+    return {
+      riskFactors: {
+        pedestrianTraffic: clamp(pedestrianTraffic, 0, 100),
+        roadWidth,
+        trafficCongestion: live ? LIVE_CONGESTION[live.congestionLevel] : trafficCongestion,
+        speedLimit,
+        // Clearances are only known from road data
+        heightRestriction: 0
+      },
+      sources: {
+        pedestrianTraffic: 'default',
+        roadWidth: 'default',
+        trafficCongestion: live ? 'measured' : 'default',
+        speedLimit: 'default',
+        heightRestriction: 'default'
+      }
+    };
+  }
+
+  private static toAttributes(edge: RoadEdge, matchedEdges: RoadEdge[], coverage: number): RoadAttributes {
+    const tags = edge.tags;
+    const lanes = parseInt(tags.lanes, 10);
+    const clearances = matchedEdges
+      .map(matched => parseDimensionFeet(matched.tags.maxheight ?? matched.tags['maxheight:physical']))
+      .filter((height): height is number => height !== null);
+
+    return {
+      wayId: edge.wayId,
+      name: edge.name || undefined,
+      highway: edge.highway,
+      lanes: Number.isFinite(lanes) && lanes > 0 ? lanes : undefined,
+      widthFt: parseDimensionFeet(tags.width) ?? undefined,
+      maxHeightFt: clearances.length > 0 ? Math.min(...clearances) : undefined,
+      speedLimitMph: parseSpeedMph(tags.maxspeed) ?? undefined,
+      surface: tags.surface,
+      hgv: tags.hgv,
+      hazmat: tags.hazmat,
+      maxWeightTons: parseWeightTons(tags.maxweight) ?? undefined,
+      sidewalk: tags.sidewalk,
+      matchCoverage: Math.round(coverage * 100) / 100
+    };
+  }
+
+  /**
+   * Evenly spaced points along the path with the travel bearing at each.
+   */
+  private static samplePath(path: LatLngCoordinates[]): { point: LatLngCoordinates; bearing: number }[] {
+    const lengths: number[] = [];
+    let total = 0;
+    for (let i = 1; i < path.length; i++) {
+      const length = haversineMeters(path[i - 1], path[i]);
+      lengths.push(length);
+      total += length;
+    }
+    const usable = total - 2 * END_MARGIN_METERS;
+    if (usable <= 0) return [];
+
+    const count = clamp(Math.round(usable / SAMPLE_SPACING_METERS), 1, MAX_SAMPLES);
+    const samples: { point: LatLngCoordinates; bearing: number }[] = [];
+    let index = 0;
+    let travelled = 0;
+    for (let k = 0; k < count; k++) {
+      const target = END_MARGIN_METERS + ((k + 0.5) / count) * usable;
+      while (index < lengths.length - 1 && travelled + lengths[index] < target) {
+        travelled += lengths[index];
+        index++;
+      }
+      const from = path[index];
+      const to = path[index + 1];
+      const t = lengths[index] > 0 ? (target - travelled) / lengths[index] : 0;
+      samples.push({
+        point: { lat: from.lat + (to.lat - from.lat) * t, lng: from.lng + (to.lng - from.lng) * t },
+        bearing: bearingDegrees(from, to)
+      });
+    }
+    return samples;
+  }
+
+  /**
+   * Closest edge within MATCH_RADIUS_METERS whose direction at that spot is within
+   * MAX_BEARING_DIFFERENCE of bearing (either way, since two-way roads have both edges).
+   */
+  private static findNearestEdge(point: LatLngCoordinates, bearing: number | null): RoadEdge | null {
+    if (!this.graph) return null;
+    const cellLat = Math.floor(point.lat / CELL_DEGREES);
+    const cellLng = Math.floor(point.lng / CELL_DEGREES);
+    const metersPerDegLat = 111320;
+    const metersPerDegLng = 111320 * Math.cos((point.lat * Math.PI) / 180);
+
+    let best: RoadEdge | null = null;
+    let bestDistance = MATCH_RADIUS_METERS;
+    const seen = new Set<number>();
+    for (let dLat = -1; dLat <= 1; dLat++) {
+      for (let dLng = -1; dLng <= 1; dLng++) {
+        for (const edgeId of this.grid.get(`${cellLat + dLat},${cellLng + dLng}`) ?? []) {
+          if (seen.has(edgeId)) continue;
+          seen.add(edgeId);
+          const edge = this.graph.edges[edgeId];
+          for (let i = 1; i < edge.geometry.length; i++) {
+            const a = edge.geometry[i - 1];
+            const b = edge.geometry[i];
+            // Local flat projection in metres around the sample point
+            const ax = (a.lng - point.lng) * metersPerDegLng;
+            const ay = (a.lat - point.lat) * metersPerDegLat;
+            const bx = (b.lng - point.lng) * metersPerDegLng;
+            const by = (b.lat - point.lat) * metersPerDegLat;
+            const dx = bx - ax;
+            const dy = by - ay;
+            const lengthSquared = dx * dx + dy * dy;
+            const t = lengthSquared > 0 ? clamp(-(ax * dx + ay * dy) / lengthSquared, 0, 1) : 0;
+            const distance = Math.hypot(ax + t * dx, ay + t * dy);
+            if (distance >= bestDistance) continue;
+            if (bearing !== null) {
+              const difference = Math.abs(((bearingDegrees(a, b) - bearing + 540) % 360) - 180);
+              if (Math.min(difference, 180 - difference) > MAX_BEARING_DIFFERENCE) continue;
+            }
+            best = edge;
+            bestDistance = distance;
+          }
+        }
+      }
+    }
+    return best;
+  }
+
+  private static buildGrid(graph: RoadGraph): Map<string, number[]> {
+    const grid = new Map<string, number[]>();
+    graph.edges.forEach(edge => {
+      const cells = new Set<string>();
+      for (let i = 1; i < edge.geometry.length; i++) {
+        const a = edge.geometry[i - 1];
+        const b = edge.geometry[i];
+        const minLat = Math.floor(Math.min(a.lat, b.lat) / CELL_DEGREES);
+        const maxLat = Math.floor(Math.max(a.lat, b.lat) / CELL_DEGREES);
+        const minLng = Math.floor(Math.min(a.lng, b.lng) / CELL_DEGREES);
+        const maxLng = Math.floor(Math.max(a.lng, b.lng) / CELL_DEGREES);
+        for (let lat = minLat; lat <= maxLat; lat++) {
+          for (let lng = minLng; lng <= maxLng; lng++) cells.add(`${lat},${lng}`);
+        }
+      }
+      cells.forEach(cell => {
+        const list = grid.get(cell);
+        if (list) list.push(edge.id);
+        else grid.set(cell, [edge.id]);
+      });
+    });
+    return grid;
+  }
+}
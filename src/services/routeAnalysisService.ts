@@ -1,82 +1,11 @@
 // routeAnalysisService.ts - Fixed version matching your existing types
-import { Route, RouteSegment, RiskFactor, CriticalPoint, Vehicle, NamedRiskFactor } from '../types';
-
-// Define risk factors and their locations extending your existing NamedRiskFactor
-interface ExtendedRiskFactor extends NamedRiskFactor {
-  type: 'construction' | 'pedestrian' | 'traffic' | 'infrastructure' | 'emergency' | 'weather';
-  impactRadius: number;
-  timeRestrictions?: {
-    startTime: string;
-    endTime: string;
-    days: string[];
-  };
-  heightRestriction?: number;
-}
-
-// Mock risk factors for different areas
-const riskFactors: ExtendedRiskFactor[] = [
-  {
-    id: "rf_001",
-    name: "Downtown Construction Zone",
-    description: "Active construction with lane restrictions",
-    severity: 'high',
-    location: { lat: 44.3400, lng: -68.2700 },
-    type: 'construction',
-    impactRadius: 500,
-    timeRestrictions: {
-      startTime: '07:00',
-      endTime: '17:00',
-      days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday']
-    }
-  },
-  {
-    id: "rf_002",
-    name: "School Zone - Bar Harbor Elementary",
-    description: "Heavy pedestrian traffic during school hours",
-    severity: 'medium',
-    location: { lat: 44.3355, lng: -68.2045 },
-    type: 'pedestrian',
-    impactRadius: 300,
-    timeRestrictions: {
-      startTime: '07:30',
-      endTime: '08:30',
-      days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday']
-    }
-  },
-  {
-    id: "rf_003",
-    name: "Tourist Congestion Area",
-    description: "High traffic volume during peak season",
-    severity: 'medium',
-    location: { lat: 44.3386, lng: -68.2733 },
-    type: 'traffic',
-    impactRadius: 1000,
-    timeRestrictions: {
-      startTime: '09:00',
-      endTime: '18:00',
-      days: ['saturday', 'sunday']
-    }
-  },
-  {
-    id: "rf_004",
-    name: "Narrow Bridge",
-    description: "Single lane bridge with height restriction",
-    severity: 'high',
-    location: { lat: 44.3200, lng: -68.2900 },
-    type: 'infrastructure',
-    impactRadius: 100,
-    heightRestriction: 12.5
-  },
-  {
-    id: "rf_005",
-    name: "Emergency Services Area",
-    description: "Hospital and fire station emergency access",
-    severity: 'medium',
-    location: { lat: 44.3450, lng: -68.2600 },
-    type: 'emergency',
-    impactRadius: 400
-  }
-];
+import { Route, NamedRiskFactor, Vehicle } from '../types';
+import { getArrivalTime } from '../utils/tripTiming';
+import { RiskProfileService } from './riskProfileService';
+import { RoadAttributeService } from './roadAttributeService';
+import { RiskFactorService } from './riskFactorService';
+import { RiskPipeline } from './riskPipeline';
+import { USTruckRoutingService } from './usTruckRoutingService';
 
 /**
  * Enhanced route analysis service with comprehensive risk assessment
@@ -84,267 +13,71 @@ const riskFactors: ExtendedRiskFactor[] = [
 export class RouteAnalysisService {
   
   /**
-   * Analyze a route and identify risk factors and critical points
+   * Analyze a route and identify risk factors and critical points. Each segment is
+   * evaluated at the time the vehicle is projected to pass through it, so time-windowed
+   * factors (school hours, construction shifts, weekend congestion) only count when active.
+   * Scoring happens in RiskPipeline; the result, and the government compliance check
+   * when a vehicle is given, are stored on the returned route.
    */
-  static analyzeRouteRisk(route: Route, vehicle?: Vehicle): {
+  static analyzeRouteRisk(route: Route, vehicle?: Vehicle, departureTime: Date = new Date()): {
     route: Route;
     riskFactors: NamedRiskFactor[];
     overallRiskScore: number;
   } {
-    const affectedRiskFactors: NamedRiskFactor[] = [];
-    const criticalPoints: CriticalPoint[] = [];
-    let totalRiskScore = 0;
-    let segmentCount = 0;
-
-    // Analyze each segment for risk factors
-    route.segments.forEach((segment, index) => {
-      const segmentRisks = this.analyzeSegmentRisks(segment, vehicle);
-      
-      // Find nearby risk factors
-      const nearbyFactors = riskFactors.filter(factor => 
-        this.isPointNearSegment(factor.location, segment, factor.impactRadius)
-      );
-
-      nearbyFactors.forEach(factor => {
-        if (!affectedRiskFactors.find(existing => existing.id === factor.id)) {
-          affectedRiskFactors.push(factor);
-        }
-
-        // Create critical point if severity is high enough
-        if (factor.severity === 'high' || (factor.severity === 'medium' && segmentRisks.totalRisk > 60)) {
-          criticalPoints.push({
-            segmentId: segment.id,
-            position: index,
-            type: this.getCriticalPointType(factor.type),
-            riskLevel: factor.severity === 'high' ? 'critical' : 'high',
-            description: `${factor.name}: ${factor.description}`
-          });
-        }
-      });
-
-      totalRiskScore += segmentRisks.totalRisk;
-      segmentCount++;
-    });
-
-    const overallRiskScore = segmentCount > 0 ? totalRiskScore / segmentCount : 0;
+    const result = RiskPipeline.run(route, vehicle, departureTime);
 
     // Update route with analysis results
     const analyzedRoute: Route = {
       ...route,
-      criticalPoints,
-      overallRisk: overallRiskScore,
-      segments: route.segments.map(segment => ({
-        ...segment,
-        riskFactors: this.calculateSegmentRiskFactors(segment, vehicle),
-        riskScore: this.analyzeSegmentRisks(segment, vehicle).totalRisk
+      criticalPoints: result.criticalPoints,
+      overallRisk: result.overallRisk,
+      departureTime: departureTime.toISOString(),
+      arrivalTime: getArrivalTime(route, departureTime).toISOString(),
+      riskModel: result.profile ? RiskProfileService.toRef(result.profile) : route.riskModel,
+      riskExplanation: result.explanation ?? route.riskExplanation,
+      riskConfidence: result.confidence,
+      segments: result.segments.map(state => ({
+        ...RoadAttributeService.annotateSegment(state.source),
+        riskScore: state.score,
+        passTime: state.passTime.toISOString(),
+        sweptPath: state.sweptPath ?? undefined,
+        crashHistory: state.segment.crashHistory,
+        riskExplanation: state.explanation,
+        riskConfidence: state.confidence
       }))
     };
+    // Government rules depend on the vehicle, not on when the route is driven
+    analyzedRoute.complianceAnalysis = vehicle
+      ? USTruckRoutingService.getInstance().evaluateRouteCompliance(analyzedRoute.segments, vehicle)
+      : undefined;
 
     return {
       route: analyzedRoute,
-      riskFactors: affectedRiskFactors,
-      overallRiskScore
-    };
-  }
-
-  /**
-   * Analyze risks for a specific segment
-   */
-  private static analyzeSegmentRisks(segment: RouteSegment, vehicle?: Vehicle): {
-    totalRisk: number;
-    factors: string[];
-  } {
-    let totalRisk = 0;
-    const factors: string[] = [];
-
-    // Base risk from segment type
-    if (segment.streetName.toLowerCase().includes('main')) {
-      totalRisk += 20;
-      factors.push('main_street');
-    }
-    if (segment.streetName.toLowerCase().includes('school')) {
-      totalRisk += 30;
-      factors.push('school_zone');
-    }
-
-    // Intersection and Turn Type Risks
-    if (segment.intersectionType === 'stop_sign') {
-      let stopSignPenalty = 15; // Base penalty for stop signs
-      if (segment.turnType === 'left') {
-        stopSignPenalty += 25; // Higher penalty for left turns at stop signs
-        factors.push('stop_sign_left_turn');
-      } else {
-        factors.push('stop_sign_intersection');
-      }
-      // Increase penalty for large vehicles
-      if (vehicle && (vehicle.length > 30 || vehicle.height > 12)) {
-        stopSignPenalty += 15; 
-      }
-      totalRisk += stopSignPenalty;
-    } else if (segment.intersectionType === 'traffic_light') {
-      totalRisk -= 10; // Reward traffic lights (safer)
-      factors.push('traffic_light_intersection');
-    }
-
-    // Vehicle-specific risks
-    if (vehicle) {
-      if (vehicle.height > 12 && segment.description.toLowerCase().includes('bridge')) {
-        totalRisk += 40;
-        factors.push('height_restriction');
-      }
-      if (vehicle.length > 40 && segment.description.toLowerCase().includes('narrow')) {
-        totalRisk += 35;
-        factors.push('narrow_road');
-      }
-    }
-
-    // Time-based risks (simplified)
-    const currentHour = new Date().getHours();
-    if (currentHour >= 7 && currentHour <= 9) {
-      totalRisk += 15; // Morning rush
-      factors.push('rush_hour');
-    }
-    if (currentHour >= 17 && currentHour <= 19) {
-      totalRisk += 15; // Evening rush
-      factors.push('rush_hour');
-    }
-
-    return {
-      totalRisk: Math.min(totalRisk, 100),
-      factors
+      riskFactors: result.riskFactors,
+      overallRiskScore: result.overallRisk
     };
   }
 
-  /**
-   * Calculate risk factors for a segment matching your RiskFactors interface
-   */
-  private static calculateSegmentRiskFactors(segment: RouteSegment, vehicle?: Vehicle) {
-    const riskFactors = {
-      trafficCongestion: Math.random() * 80, // Mock data
-      pedestrianTraffic: Math.random() * 60,
-      roadWidth: Math.random() * 80,
-      speedLimit: 25 + Math.random() * 30, // 25-55 mph
-      heightRestriction: 0
-    };
-
-    // Add height restrictions for bridges
-    if (segment.description.toLowerCase().includes('bridge')) {
-      riskFactors.heightRestriction = 12.5 + Math.random() * 3;
-    }
-
-    // Adjust for vehicle type
-    if (vehicle) {
-      if (vehicle.length > 40) {
-        riskFactors.roadWidth += 20; // Narrow roads are riskier for large vehicles
-      }
-      if (vehicle.height > 12) {
-        // More concern about height restrictions
-        if (riskFactors.heightRestriction > 0 && riskFactors.heightRestriction < vehicle.height + 1) {
-          riskFactors.roadWidth = Math.max(riskFactors.roadWidth, 80);
-        }
-      }
-    }
-
-    return riskFactors;
-  }
-
-  /**
-   * Check if a point is near a route segment
-   */
-  private static isPointNearSegment(
-    point: { lat: number; lng: number },
-    segment: RouteSegment,
-    radiusMeters: number
-  ): boolean {
-    // Simple distance calculation (not accounting for Earth's curvature)
-    const segmentMidLat = (segment.startLat + segment.endLat) / 2;
-    const segmentMidLng = (segment.startLng + segment.endLng) / 2;
-    
-    const distance = this.calculateDistance(
-      point.lat,
-      point.lng,
-      segmentMidLat,
-      segmentMidLng
-    );
-    
-    return distance <= radiusMeters;
-  }
-
-  /**
-   * Calculate distance between two points in meters
-   */
-  private static calculateDistance(
-    lat1: number,
-    lng1: number,
-    lat2: number,
-    lng2: number
-  ): number {
-    const R = 6371000; // Earth's radius in meters
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLng/2) * Math.sin(dLng/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  }
-
-  /**
-   * Convert risk factor type to critical point type
-   */
-  private static getCriticalPointType(riskType: string): CriticalPoint['type'] {
-    switch (riskType) {
-      case 'construction':
-        return 'narrow_road';
-      case 'infrastructure':
-        return 'bridge';
-      case 'pedestrian':
-        return 'intersection';
-      case 'traffic':
-        return 'intersection';
-      case 'emergency':
-        return 'intersection';
-      default:
-        return 'intersection';
-    }
-  }
-
   /**
    * Get all available risk factors
    */
   static getAllRiskFactors(): NamedRiskFactor[] {
-    return [...riskFactors];
+    return RiskFactorService.getAllRiskFactors();
   }
 
   /**
    * Get risk factors affecting a specific route
    */
   static getRiskFactorsForRoute(route: Route): NamedRiskFactor[] {
-    const affectedFactors: NamedRiskFactor[] = [];
-    
-    route.segments.forEach(segment => {
-      const nearbyFactors = riskFactors.filter(factor => 
-        this.isPointNearSegment(factor.location, segment, factor.impactRadius)
-      );
-      
-      nearbyFactors.forEach(factor => {
-        if (!affectedFactors.find(existing => existing.id === factor.id)) {
-          affectedFactors.push(factor);
-        }
-      });
-    });
-    
-    return affectedFactors;
+    return RiskFactorService.getRiskFactorsForRoute(route);
   }
 
   /**
-   * Calculate risk score for current time and conditions
+   * Calculate the time-of-day risk multiplier for a trip starting at `at` (default now)
    */
-  static calculateTimeBasedRisk(): number {
-    const now = new Date();
-    const hour = now.getHours();
-    const dayOfWeek = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
+  static calculateTimeBasedRisk(at: Date = new Date()): number {
+    const hour = at.getHours();
+    const dayOfWeek = at.getDay(); // 0 = Sunday, 1 = Monday, etc.
     
     let riskMultiplier = 1.0;
     
@@ -376,7 +109,7 @@ export class RouteAnalysisService {
     vehicle?: Vehicle
   ): string[] {
     const recommendations: string[] = [];
-    const timeRisk = this.calculateTimeBasedRisk();
+    const timeRisk = this.calculateTimeBasedRisk(route.departureTime ? new Date(route.departureTime) : undefined);
     
     // Time-based recommendations
     if (timeRisk > 1.2) {
@@ -392,6 +125,11 @@ export class RouteAnalysisService {
         recommendations.push("Check vehicle height clearance before proceeding through bridge areas");
       }
       
+      const crashClusters = route.criticalPoints.filter(cp => cp.type === 'crash_cluster');
+      if (crashClusters.length > 0) {
+        recommendations.push(`${crashClusters.length} crash cluster(s) on the route - reduce speed and brief the driver on these locations`);
+      }
+      
       const intersectionPoints = route.criticalPoints.filter(cp => cp.type === 'intersection');
       if (intersectionPoints.length > 2) {
         recommendations.push("Multiple high-risk intersections detected - reduce speed and increase following distance");
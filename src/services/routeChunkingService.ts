@@ -0,0 +1,199 @@
+import { RouteStitchInfo } from '../types';
+import { PlainLatLngBounds, encodePolyline, formatDistanceText, formatDurationText } from '../utils/directionsBuilder';
+import { RoutingRequest } from './routingProvider';
+
+/**
+ * A DirectionsRoute assembled from several provider requests. The stitching details
+ * travel with the route so the transformer can copy them onto the app's Route.
+ */
+export type StitchedDirectionsRoute = google.maps.DirectionsRoute & { stitching?: RouteStitchInfo };
+
+interface RouteChunk {
+  request: RoutingRequest;
+  /** Whether the location this chunk ends on is a real stop (false for via points) */
+  endsAtStopover: boolean;
+}
+
+type WaypointLocation = google.maps.DirectionsWaypoint['location'];
+
+/**
+ * Routes with more waypoints than a provider accepts in one request are split into
+ * consecutive requests that share the stop where one ends and the next begins, then
+ * stitched back into a single DirectionsRoute with every leg intact.
+ */
+export class RouteChunkingService {
+  static async getRoutes(
+    request: RoutingRequest,
+    maxWaypoints: number,
+    fetchChunk: (chunk: RoutingRequest) => Promise<google.maps.DirectionsResult>
+  ): Promise<google.maps.DirectionsResult> {
+    const waypoints = this.normalizeWaypoints(request.waypoints);
+    if (waypoints.length <= maxWaypoints) {
+      return fetchChunk(request);
+    }
+
+    const chunks = this.splitRequest(request, waypoints, maxWaypoints);
+    console.log(`🧩 Splitting ${waypoints.length} waypoints into ${chunks.length} routing requests`);
+
+    const results: google.maps.DirectionsResult[] = [];
+    let elapsedSeconds = 0;
+    for (const chunk of chunks) {
+      // Later chunks depart when the vehicle actually reaches their first stop
+      const departureTime = request.departureTime
+        ? new Date(request.departureTime.getTime() + elapsedSeconds * 1000)
+        : undefined;
+      const result = await fetchChunk({ ...chunk.request, departureTime });
+      if (!result.routes.length) {
+        throw new Error(`No route found between ${chunk.request.origin} and ${chunk.request.destination}`);
+      }
+      elapsedSeconds += result.routes[0].legs.reduce((sum, leg) => sum + (leg.duration?.value || 0), 0);
+      results.push(result);
+    }
+
+    return this.stitch(request, waypoints, chunks, results);
+  }
+
+  /**
+   * Split into requests of at most maxWaypoints waypoints each. Consecutive requests
+   * overlap at one location, preferring a real stop over a via point as the boundary.
+   */
+  static splitRequest(
+    request: RoutingRequest,
+    waypoints: google.maps.DirectionsWaypoint[],
+    maxWaypoints: number
+  ): RouteChunk[] {
+    if (maxWaypoints < 1) {
+      throw new Error('Route chunking needs room for at least one waypoint per request');
+    }
+
+    // Index 0 is the origin, 1..n the waypoints, n + 1 the destination
+    const last = waypoints.length + 1;
+    const locationAt = (index: number): string =>
+      index === 0 ? request.origin : index === last ? request.destination : this.locationToString(waypoints[index - 1].location);
+
+    const chunks: RouteChunk[] = [];
+    let start = 0;
+    while (start < last) {
+      let end = Math.min(start + maxWaypoints + 1, last);
+      if (end < last) {
+        // Pull the boundary back to the nearest stopover so legs line up with stops
+        let boundary = end;
+        while (boundary > start + 1 && waypoints[boundary - 1].stopover === false) boundary--;
+        if (waypoints[boundary - 1].stopover !== false) end = boundary;
+      }
+
+      chunks.push({
+        request: {
+          ...request,
+          origin: locationAt(start),
+          destination: locationAt(end),
+          waypoints: waypoints.slice(start, end - 1),
+          // Reordering within one chunk could not move stops across chunk boundaries
+          optimizeWaypoints: false
+        },
+        endsAtStopover: end === last || waypoints[end - 1].stopover !== false
+      });
+      start = end;
+    }
+    return chunks;
+  }
+
+  private static stitch(
+    request: RoutingRequest,
+    waypoints: google.maps.DirectionsWaypoint[],
+    chunks: RouteChunk[],
+    results: google.maps.DirectionsResult[]
+  ): google.maps.DirectionsResult {
+    const routes = results.map(result => result.routes[0]);
+    const legs: google.maps.DirectionsLeg[] = [];
+    const overview: google.maps.LatLng[] = [];
+    const joins: RouteStitchInfo['joins'] = [];
+
+    routes.forEach((route, index) => {
+      const routeLegs = [...route.legs];
+      if (index > 0) {
+        const previous = legs[legs.length - 1];
+        joins.push({
+          address: chunks[index].request.origin,
+          location: { lat: previous.end_location.lat(), lng: previous.end_location.lng() }
+        });
+        // A via-point boundary splits what should be one leg in two; join them back up
+        if (!chunks[index - 1].endsAtStopover && routeLegs.length > 0) {
+          legs[legs.length - 1] = this.mergeLegs(previous, routeLegs.shift()!);
+        }
+      }
+      legs.push(...routeLegs);
+      overview.push(...(index === 0 ? route.overview_path : route.overview_path.slice(1)));
+    });
+
+    const summaries = Array.from(new Set(routes.map(route => route.summary).filter(Boolean)));
+    const warnings = Array.from(new Set(routes.flatMap(route => route.warnings ?? [])));
+    warnings.push(`Route assembled from ${chunks.length} requests joined at ${joins.map(join => join.address).join('; ')}`);
+    if (request.optimizeWaypoints) {
+      warnings.push('Stop order was not optimized because the route was split across requests');
+    }
+
+    const overviewPoints = overview.map(point => ({ lat: point.lat(), lng: point.lng() }));
+    const stitched: StitchedDirectionsRoute = {
+      bounds: new PlainLatLngBounds(overviewPoints),
+      copyrights: routes[0].copyrights,
+      legs,
+      overview_path: overview,
+      overview_polyline: encodePolyline(overviewPoints),
+      summary: summaries.join(' / '),
+      warnings,
+      waypoint_order: waypoints.map((_, i) => i),
+      stitching: { chunkCount: chunks.length, joins }
+    };
+
+    return {
+      request: { ...results[0].request, origin: request.origin, destination: request.destination, waypoints },
+      routes: [stitched],
+      geocoded_waypoints: results.every(result => result.geocoded_waypoints)
+        ? results.flatMap((result, index) => (index === 0 ? result.geocoded_waypoints! : result.geocoded_waypoints!.slice(1)))
+        : undefined
+    };
+  }
+
+  private static mergeLegs(first: google.maps.DirectionsLeg, second: google.maps.DirectionsLeg): google.maps.DirectionsLeg {
+    const distance = (first.distance?.value || 0) + (second.distance?.value || 0);
+    const duration = (first.duration?.value || 0) + (second.duration?.value || 0);
+    const merged: google.maps.DirectionsLeg = {
+      ...first,
+      distance: { value: distance, text: formatDistanceText(distance) },
+      duration: { value: duration, text: formatDurationText(duration) },
+      end_address: second.end_address,
+      end_location: second.end_location,
+      steps: [...first.steps, ...second.steps],
+      via_waypoints: [...first.via_waypoints, first.end_location, ...second.via_waypoints]
+    };
+    if (first.duration_in_traffic && second.duration_in_traffic) {
+      const inTraffic = first.duration_in_traffic.value + second.duration_in_traffic.value;
+      merged.duration_in_traffic = { value: inTraffic, text: formatDurationText(inTraffic) };
+    }
+    return merged;
+  }
+
+  private static normalizeWaypoints(waypoints: RoutingRequest['waypoints']): google.maps.DirectionsWaypoint[] {
+    return ((waypoints ?? []) as (string | google.maps.DirectionsWaypoint)[]).map(waypoint =>
+      typeof waypoint === 'string' ? { location: waypoint, stopover: true } : waypoint
+    );
+  }
+
+  private static locationToString(location: WaypointLocation): string {
+    if (!location) {
+      throw new Error('Route request contains an empty waypoint');
+    }
+    if (typeof location === 'string') return location;
+    if ('lat' in location) {
+      return typeof location.lat === 'function'
+        ? `${(location as google.maps.LatLng).lat()},${(location as google.maps.LatLng).lng()}`
+        : `${location.lat},${location.lng}`;
+    }
+    const place = location as google.maps.Place;
+    if (place.location) return this.locationToString(place.location);
+    if (place.query) return place.query;
+    if (place.placeId) return `place_id:${place.placeId}`;
+    throw new Error('Waypoint location cannot be used as a route boundary');
+  }
+}
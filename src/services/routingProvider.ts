@@ -0,0 +1,37 @@
+import { LatLngCoordinates, Vehicle } from '../types';
+
+export type RoutingProviderId = 'google' | 'valhalla' | 'osrm' | 'local' | 'demo';
+
+export interface RoutingRequest {
+  origin: string;
+  destination: string;
+  waypoints?: string[] | google.maps.DirectionsWaypoint[];
+  avoidHighways?: boolean;
+  avoidTolls?: boolean;
+  departureTime?: Date;
+  vehicle?: Vehicle;
+  optimizeWaypoints?: boolean;
+}
+
+export interface GeocodeResult {
+  formattedAddress: string;
+  location: LatLngCoordinates;
+  placeId?: string;
+}
+
+/**
+ * A routing backend. Every provider returns DirectionsResult-shaped data so route
+ * transformation and risk analysis are identical regardless of the engine used.
+ */
+export interface RoutingProvider {
+  readonly id: RoutingProviderId;
+  readonly name: string;
+  readonly description: string;
+
+  /** Whether the provider has the configuration (API key, server URL) it needs */
+  isConfigured(): boolean;
+  initialize(): Promise<void>;
+  getRoutes(request: RoutingRequest): Promise<google.maps.DirectionsResult>;
+  geocode(address: string): Promise<GeocodeResult[]>;
+  reverseGeocode(lat: number, lng: number): Promise<GeocodeResult[]>;
+}
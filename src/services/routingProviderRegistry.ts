@@ -0,0 +1,69 @@
+import { FixtureRoutingProvider } from './fixtureRoutingProvider';
+import { GoogleRoutingProvider } from './googleRoutingProvider';
+import { LocalOsmRoutingProvider } from './localOsmRoutingProvider';
+import { OsrmRoutingProvider } from './osrmRoutingProvider';
+import { RoutingProvider, RoutingProviderId } from './routingProvider';
+import { ValhallaRoutingProvider } from './valhallaRoutingProvider';
+
+const STORAGE_KEY = 'acadia-routing-provider';
+
+type ProviderListener = (provider: RoutingProvider) => void;
+
+/**
+ * Holds the available routing providers and the one currently selected by the user.
+ * The selection is persisted so it survives reloads; VITE_ROUTING_PROVIDER sets the default,
+ * otherwise Google is used when an API key is present and the offline demo provider when not.
+ */
+export class RoutingProviderRegistry {
+  private static providers: Record<RoutingProviderId, RoutingProvider> = {
+    google: new GoogleRoutingProvider(),
+    valhalla: new ValhallaRoutingProvider(),
+    osrm: new OsrmRoutingProvider(),
+    local: new LocalOsmRoutingProvider(),
+    demo: new FixtureRoutingProvider()
+  };
+  private static listeners = new Set<ProviderListener>();
+
+  static getProviders(): RoutingProvider[] {
+    return Object.values(this.providers);
+  }
+
+  static getProvider(id: RoutingProviderId): RoutingProvider {
+    return this.providers[id];
+  }
+
+  static isProviderId(value: unknown): value is RoutingProviderId {
+    return typeof value === 'string' && value in this.providers;
+  }
+
+  static getActiveProviderId(): RoutingProviderId {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (this.isProviderId(saved)) {
+      return saved;
+    }
+    const fromEnv = import.meta.env.VITE_ROUTING_PROVIDER;
+    if (this.isProviderId(fromEnv)) {
+      return fromEnv;
+    }
+    // Without a Google key, fall back to the offline demo fixtures
+    return this.providers.google.isConfigured() ? 'google' : 'demo';
+  }
+
+  static getActiveProvider(): RoutingProvider {
+    return this.providers[this.getActiveProviderId()];
+  }
+
+  static setActiveProvider(id: RoutingProviderId): void {
+    localStorage.setItem(STORAGE_KEY, id);
+    const provider = this.providers[id];
+    console.log(`🧭 Routing provider set to ${provider.name}`);
+    this.listeners.forEach(listener => listener(provider));
+  }
+
+  static subscribe(listener: ProviderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,181 @@
+import { LatLngCoordinates } from '../types';
+import { ProviderStep } from '../utils/directionsBuilder';
+import { GeocodeResult, RoutingProvider, RoutingProviderId, RoutingRequest } from './routingProvider';
+
+const DEFAULT_GEOCODER_URL = 'https://nominatim.openstreetmap.org';
+
+export interface ResolvedLocation {
+  label: string;
+  coordinates: LatLngCoordinates;
+}
+
+interface NominatimResult {
+  place_id?: number;
+  display_name: string;
+  lat: string;
+  lon: string;
+}
+
+/**
+ * Shared plumbing for self-hosted OSM engines (Valhalla, OSRM): Nominatim-compatible
+ * geocoding, waypoint resolution and route naming.
+ */
+export abstract class SelfHostedRoutingProvider implements RoutingProvider {
+  abstract readonly id: RoutingProviderId;
+  abstract readonly name: string;
+  abstract readonly description: string;
+
+  protected abstract getBaseUrl(): string;
+
+  abstract getRoutes(request: RoutingRequest): Promise<google.maps.DirectionsResult>;
+
+  isConfigured(): boolean {
+    return !!this.getBaseUrl();
+  }
+
+  async initialize(): Promise<void> {
+    // Self-hosted engines are plain HTTP services; nothing to load up front
+  }
+
+  async geocode(address: string): Promise<GeocodeResult[]> {
+    const coordinates = this.parseCoordinates(address);
+    if (coordinates) {
+      return [{ formattedAddress: address, location: coordinates }];
+    }
+
+    const params = new URLSearchParams({
+      q: address,
+      format: 'jsonv2',
+      countrycodes: 'us',
+      limit: '5'
+    });
+    const results = await this.fetchJson<NominatimResult[]>(`${this.getGeocoderUrl()}/search?${params}`);
+    if (!results.length) {
+      throw new Error(`Geocoding failed: no results for "${address}"`);
+    }
+    return results.map(result => this.toGeocodeResult(result));
+  }
+
+  async reverseGeocode(lat: number, lng: number): Promise<GeocodeResult[]> {
+    const params = new URLSearchParams({
+      lat: lat.toString(),
+      lon: lng.toString(),
+      format: 'jsonv2'
+    });
+    try {
+      const result = await this.fetchJson<NominatimResult>(`${this.getGeocoderUrl()}/reverse?${params}`);
+      return [this.toGeocodeResult(result)];
+    } catch (error) {
+      console.warn('Reverse geocoding unavailable, using coordinates:', error);
+      return [{ formattedAddress: `${lat.toFixed(6)},${lng.toFixed(6)}`, location: { lat, lng } }];
+    }
+  }
+
+  /**
+   * Resolve origin, waypoints and destination to coordinates in travel order.
+   */
+  protected async resolveStops(request: RoutingRequest): Promise<ResolvedLocation[]> {
+    const waypoints = (request.waypoints ?? []) as (string | google.maps.DirectionsWaypoint)[];
+    const locations = [
+      request.origin,
+      ...waypoints.map(waypoint => (typeof waypoint === 'string' ? waypoint : waypoint.location)),
+      request.destination
+    ];
+
+    const resolved: ResolvedLocation[] = [];
+    for (const location of locations) {
+      resolved.push(await this.resolveLocation(location));
+    }
+    return resolved;
+  }
+
+  protected async resolveLocation(
+    location: string | google.maps.LatLng | google.maps.LatLngLiteral | google.maps.Place | undefined
+  ): Promise<ResolvedLocation> {
+    if (!location) {
+      throw new Error('Route request contains an empty location');
+    }
+    if (typeof location === 'string') {
+      const [result] = await this.geocode(location);
+      return { label: location, coordinates: result.location };
+    }
+    if ('lat' in location && typeof location.lat === 'function') {
+      const latLng = location as google.maps.LatLng;
+      return {
+        label: `${latLng.lat()},${latLng.lng()}`,
+        coordinates: { lat: latLng.lat(), lng: latLng.lng() }
+      };
+    }
+    if ('lat' in location && typeof location.lat === 'number') {
+      const literal = location as google.maps.LatLngLiteral;
+      return { label: `${literal.lat},${literal.lng}`, coordinates: literal };
+    }
+
+    const place = location as google.maps.Place;
+    if (place.location) {
+      return this.resolveLocation(place.location);
+    }
+    if (place.query) {
+      return this.resolveLocation(place.query);
+    }
+    throw new Error('Unsupported waypoint location');
+  }
+
+  /**
+   * Name a route after the streets it spends the most distance on, similar to Google's summary.
+   */
+  protected summarizeRoute(steps: (ProviderStep & { streetName?: string })[], fallback: string): string {
+    const distanceByStreet = new Map<string, number>();
+    steps.forEach(step => {
+      if (step.streetName) {
+        distanceByStreet.set(step.streetName, (distanceByStreet.get(step.streetName) || 0) + step.distanceMeters);
+      }
+    });
+    const topStreets = Array.from(distanceByStreet.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 2)
+      .map(([street]) => street);
+    return topStreets.length > 0 ? topStreets.join(' and ') : fallback;
+  }
+
+  protected async fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw new Error(`${this.name} is unreachable at ${new URL(url).origin}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (!response.ok) {
+      let detail = response.statusText;
+      try {
+        const body = await response.json();
+        detail = body.error || body.message || detail;
+      } catch {
+        // Non-JSON error body
+      }
+      throw new Error(`${this.name} request failed (${response.status}): ${detail}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  private getGeocoderUrl(): string {
+    return (import.meta.env.VITE_GEOCODER_URL || DEFAULT_GEOCODER_URL).replace(/\/$/, '');
+  }
+
+  private parseCoordinates(value: string): LatLngCoordinates | null {
+    const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+    const lat = parseFloat(match[1]);
+    const lng = parseFloat(match[2]);
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+    return { lat, lng };
+  }
+
+  private toGeocodeResult(result: NominatimResult): GeocodeResult {
+    return {
+      formattedAddress: result.display_name,
+      location: { lat: parseFloat(result.lat), lng: parseFloat(result.lon) },
+      placeId: result.place_id !== undefined ? String(result.place_id) : undefined
+    };
+  }
+}
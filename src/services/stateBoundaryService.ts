@@ -0,0 +1,199 @@
+import { LatLngCoordinates } from '../types';
+import bundledBoundaries from '../data/stateBoundaries.json';
+
+export interface StateRegion {
+  code: string; // USPS abbreviation, e.g. 'ME'
+  name: string;
+}
+
+export interface StateBoundaryInfo {
+  name: string;
+  stateCount: number;
+  bundled: boolean;
+}
+
+interface StatePolygon {
+  state: StateRegion;
+  rings: number[][][]; // Outer ring first, then holes; [lng, lat] pairs
+  bbox: [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+}
+
+interface BoundaryFeature {
+  properties?: Record<string, unknown> | null;
+  geometry?: { type: string; coordinates: unknown } | null;
+}
+
+const CELL_DEGREES = 1;
+// Path edges are sampled this often (about 5 km) so short crossings between vertices are found
+const SAMPLE_DEGREES = 0.05;
+// Property names used for the state abbreviation and name by Census, Natural Earth and common exports
+const CODE_KEYS = ['STUSPS', 'stusps', 'postal', 'POSTAL', 'STATE_ABBR', 'state_code', 'code'];
+const NAME_KEYS = ['NAME', 'name', 'STATE_NAME', 'state_name'];
+
+function parseFeatures(features: BoundaryFeature[]): StatePolygon[] {
+  const polygons: StatePolygon[] = [];
+  features.forEach(feature => {
+    const properties = feature.properties || {};
+    const code = CODE_KEYS.map(key => properties[key]).find(value => typeof value === 'string' && value.length === 2);
+    const name = NAME_KEYS.map(key => properties[key]).find(value => typeof value === 'string');
+    const geometry = feature.geometry;
+    if (typeof code !== 'string' || !geometry) return;
+
+    const state = { code: code.toUpperCase(), name: typeof name === 'string' ? name : code.toUpperCase() };
+    const parts = geometry.type === 'Polygon' ? [geometry.coordinates as number[][][]]
+      : geometry.type === 'MultiPolygon' ? geometry.coordinates as number[][][][]
+      : [];
+    parts.forEach(rings => {
+      if (!rings[0] || rings[0].length < 3) return;
+      const bbox: StatePolygon['bbox'] = [Infinity, Infinity, -Infinity, -Infinity];
+      rings[0].forEach(([lng, lat]) => {
+        bbox[0] = Math.min(bbox[0], lng);
+        bbox[1] = Math.min(bbox[1], lat);
+        bbox[2] = Math.max(bbox[2], lng);
+        bbox[3] = Math.max(bbox[3], lat);
+      });
+      polygons.push({ state, rings, bbox });
+    });
+  });
+  return polygons;
+}
+
+function buildGrid(polygons: StatePolygon[]): Map<string, number[]> {
+  const grid = new Map<string, number[]>();
+  polygons.forEach((polygon, index) => {
+    const [minLng, minLat, maxLng, maxLat] = polygon.bbox;
+    for (let lat = Math.floor(minLat / CELL_DEGREES); lat <= Math.floor(maxLat / CELL_DEGREES); lat++) {
+      for (let lng = Math.floor(minLng / CELL_DEGREES); lng <= Math.floor(maxLng / CELL_DEGREES); lng++) {
+        const key = `${lat},${lng}`;
+        const cell = grid.get(key);
+        if (cell) cell.push(index);
+        else grid.set(key, [index]);
+      }
+    }
+  });
+  return grid;
+}
+
+// Ray casting; points exactly on an edge may fall either way
+function ringContains(ring: number[][], lng: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < (xj - xi) * (lat - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+const BUNDLED_POLYGONS = parseFeatures(bundledBoundaries.features as BoundaryFeature[]);
+
+function countStates(polygons: StatePolygon[]): number {
+  return new Set(polygons.map(polygon => polygon.state.code)).size;
+}
+
+/**
+ * Which U.S. state a coordinate lies in, by point-in-polygon tests against state
+ * boundary GeoJSON. The bundled boundaries are the Census cartographic boundaries
+ * simplified to 1:10m; load the full cb_500k file for lookups right at state lines.
+ */
+export class StateBoundaryService {
+  private static polygons = BUNDLED_POLYGONS;
+  private static grid = buildGrid(BUNDLED_POLYGONS);
+  private static info: StateBoundaryInfo = { name: bundledBoundaries.name, stateCount: countStates(BUNDLED_POLYGONS), bundled: true };
+  private static loadedUrl: string | null = null;
+
+  static getInfo(): StateBoundaryInfo {
+    return this.info;
+  }
+
+  /**
+   * Replace the boundaries with a GeoJSON FeatureCollection of state polygons
+   */
+  static loadFile(text: string, name: string): number {
+    let data: { features?: BoundaryFeature[] };
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('State boundary file is not valid JSON');
+    }
+    const polygons = parseFeatures(Array.isArray(data.features) ? data.features : []);
+    if (polygons.length === 0) {
+      throw new Error('No state polygons with a two-letter state code found in the file');
+    }
+    this.setPolygons(polygons, name, false);
+    console.log(`🗺️ Loaded boundaries for ${this.info.stateCount} states from ${name}`);
+    return this.info.stateCount;
+  }
+
+  static resetToBundled(): void {
+    this.setPolygons(BUNDLED_POLYGONS, bundledBoundaries.name, true);
+  }
+
+  /**
+   * Download the boundaries configured with VITE_STATE_BOUNDARIES_URL, once. Failures are
+   * logged and the current boundaries are kept.
+   */
+  static async ensureLoaded(): Promise<void> {
+    const url = import.meta.env?.VITE_STATE_BOUNDARIES_URL as string | undefined;
+    if (!url || this.loadedUrl === url || !this.info.bundled) return;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`State boundary request failed (${response.status})`);
+      this.loadFile(await response.text(), url.split('/').pop() || url);
+      this.loadedUrl = url;
+    } catch (error) {
+      console.error('Failed to load state boundaries:', error);
+    }
+  }
+
+  /**
+   * The state containing the point, or null offshore and outside the United States
+   */
+  static getStateAt(lat: number, lng: number): StateRegion | null {
+    const cell = this.grid.get(`${Math.floor(lat / CELL_DEGREES)},${Math.floor(lng / CELL_DEGREES)}`);
+    if (!cell) return null;
+    for (const index of cell) {
+      const polygon = this.polygons[index];
+      const [minLng, minLat, maxLng, maxLat] = polygon.bbox;
+      if (lng < minLng || lng > maxLng || lat < minLat || lat > maxLat) continue;
+      const [outer, ...holes] = polygon.rings;
+      if (ringContains(outer, lng, lat) && !holes.some(hole => ringContains(hole, lng, lat))) {
+        return polygon.state;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * States a path passes through, in the order it enters them. Edges are sampled between
+   * vertices, so a path that crosses a state line between two points still reports both.
+   */
+  static getStatesAlong(path: LatLngCoordinates[]): StateRegion[] {
+    const states: StateRegion[] = [];
+    const visit = (lat: number, lng: number) => {
+      const state = this.getStateAt(lat, lng);
+      if (state && states[states.length - 1]?.code !== state.code) states.push(state);
+    };
+    path.forEach((point, i) => {
+      if (i > 0) {
+        const previous = path[i - 1];
+        const steps = Math.floor(Math.max(Math.abs(point.lat - previous.lat), Math.abs(point.lng - previous.lng)) / SAMPLE_DEGREES);
+        for (let step = 1; step <= steps; step++) {
+          const t = step / (steps + 1);
+          visit(previous.lat + (point.lat - previous.lat) * t, previous.lng + (point.lng - previous.lng) * t);
+        }
+      }
+      visit(point.lat, point.lng);
+    });
+    // A path that leaves a state and comes back lists it again; callers want each state once
+    return states.filter((state, i) => states.findIndex(other => other.code === state.code) === i);
+  }
+
+  private static setPolygons(polygons: StatePolygon[], name: string, bundled: boolean): void {
+    this.polygons = polygons;
+    this.grid = buildGrid(polygons);
+    this.info = { name, stateCount: countStates(polygons), bundled };
+  }
+}
@@ -0,0 +1,343 @@
+import { LatLngCoordinates, StopLocation, StopTimeWindow, Vehicle } from '../types';
+import { VehicleClassificationService } from './vehicleClassificationService';
+import { bearingDegrees, haversineMeters } from './osmRoadGraph';
+
+/**
+ * Pairwise travel costs between the origin (index 0), the stops in input order (1..n)
+ * and the destination (n + 1).
+ */
+export interface TravelMatrix {
+  distances: number[][]; // meters
+  durations: number[][]; // seconds
+  /** Optional 0-100 risk per leg, e.g. from analyzed routes */
+  risks?: number[][];
+  /** Location of every index, used to detect orders that double back at a stop */
+  points?: LatLngCoordinates[];
+}
+
+export interface StopSequencingOptions {
+  topN?: number;
+  departureTime?: Date;
+  vehicle?: Vehicle;
+  /** Relative weight of extra distance vs risk when ranking orders */
+  distanceWeight?: number;
+  riskWeight?: number;
+}
+
+export interface StopArrival {
+  stopId: string;
+  arrival: Date;
+  departure: Date;
+  waitMinutes: number;
+  lateMinutes: number;
+}
+
+export interface StopOrderCandidate {
+  stops: StopLocation[];
+  totalDistanceMeters: number;
+  drivingSeconds: number;
+  /** Driving plus stop and waiting time */
+  totalSeconds: number;
+  riskScore: number;
+  /** Combined ranking score, lower is better */
+  score: number;
+  arrivals: StopArrival[];
+  timeWindowViolations: number;
+  reversals: number;
+}
+
+const DEFAULT_STOP_MINUTES = 15;
+// Orders are enumerated exhaustively up to this many movable stops (7! = 5040)
+const MAX_EXHAUSTIVE_STOPS = 7;
+// Road distance is rarely a straight line; typical urban circuity factor
+const CIRCUITY_FACTOR = 1.3;
+const REVERSAL_ANGLE = 135;
+
+// A stop's arrival window in minutes after departure, resolved once per run
+interface ResolvedWindow {
+  earliest: number | null;
+  latest: number | null;
+}
+
+/**
+ * Orders delivery/pickup stops, replacing the PuLP TSP in backend/route_analyzer.py.
+ * Returns several good orders rather than one so the driver can trade distance for risk.
+ */
+export class StopSequencingService {
+  /**
+   * Rank stop orders by combined distance and risk. The risk is per-leg road risk when
+   * the matrix has `risks`, plus turnarounds and missed time windows. Orders that meet
+   * every time window always rank ahead of orders that miss one.
+   */
+  static getTopStopOrders(
+    stops: StopLocation[],
+    matrix: TravelMatrix,
+    options: StopSequencingOptions = {}
+  ): StopOrderCandidate[] {
+    const { topN = 3, distanceWeight = 0.6, riskWeight = 0.4 } = options;
+    const departureTime = options.departureTime ?? new Date();
+    const canUTurn = options.vehicle
+      ? VehicleClassificationService.classifyVehicle(options.vehicle).canMakeUTurns
+      : true;
+
+    const windows = stops.map(stop => this.resolveWindow(stop.timeWindow, departureTime));
+
+    const indices = stops.map((_, index) => index);
+    const first = indices.filter(i => stops[i].fixedPosition === 'first');
+    const last = indices.filter(i => stops[i].fixedPosition === 'last');
+    const free = indices.filter(i => !stops[i].fixedPosition);
+
+    const middles = free.length <= MAX_EXHAUSTIVE_STOPS
+      ? this.permutations(free)
+      : this.searchOrders(free, first, last, matrix, stops, windows);
+
+    const evaluated = middles.map(middle =>
+      this.evaluate([...first, ...middle, ...last], stops, matrix, departureTime, windows, canUTurn)
+    );
+
+    const shortest = Math.min(...evaluated.map(candidate => candidate.totalDistanceMeters));
+    evaluated.forEach(candidate => {
+      const extraDistancePercent = shortest > 0 ? (candidate.totalDistanceMeters / shortest - 1) * 100 : 0;
+      candidate.score = distanceWeight * extraDistancePercent + riskWeight * candidate.riskScore;
+    });
+
+    return evaluated
+      .sort((a, b) => a.timeWindowViolations - b.timeWindowViolations || a.score - b.score)
+      .slice(0, topN);
+  }
+
+  /**
+   * Estimate a travel matrix from coordinates when no routing engine matrix is available.
+   */
+  static buildEstimatedMatrix(points: LatLngCoordinates[], vehicle?: Vehicle): TravelMatrix {
+    const vehicleClass = vehicle ? VehicleClassificationService.classifyVehicle(vehicle).type : 'passenger';
+    const averageSpeedMps = (vehicleClass === 'passenger' || vehicleClass === 'delivery' ? 30 : 25) * 0.44704;
+
+    const distances = points.map(from => points.map(to => haversineMeters(from, to) * CIRCUITY_FACTOR));
+    return {
+      distances,
+      durations: distances.map(row => row.map(distance => distance / averageSpeedMps)),
+      points
+    };
+  }
+
+  /**
+   * Parse an "HH:MM" time window bound on the departure date.
+   */
+  static resolveWindowTime(value: string | undefined, departureTime: Date): Date | null {
+    const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    const time = new Date(departureTime);
+    time.setHours(parseInt(match[1], 10), parseInt(match[2], 10), 0, 0);
+    return time;
+  }
+
+  static formatTimeWindow(window: StopTimeWindow | undefined): string | null {
+    if (!window || (!window.earliest && !window.latest)) return null;
+    if (window.earliest && window.latest) return `${window.earliest}–${window.latest}`;
+    return window.earliest ? `after ${window.earliest}` : `by ${window.latest}`;
+  }
+
+  private static resolveWindow(window: StopTimeWindow | undefined, departureTime: Date): ResolvedWindow {
+    const toMinutes = (value: string | undefined) => {
+      const time = this.resolveWindowTime(value, departureTime);
+      return time ? (time.getTime() - departureTime.getTime()) / 60000 : null;
+    };
+    return { earliest: toMinutes(window?.earliest), latest: toMinutes(window?.latest) };
+  }
+
+  private static evaluate(
+    order: number[],
+    stops: StopLocation[],
+    matrix: TravelMatrix,
+    departureTime: Date,
+    windows: ResolvedWindow[],
+    canUTurn: boolean
+  ): StopOrderCandidate {
+    const destination = stops.length + 1;
+    const sequence = [0, ...order.map(i => i + 1), destination];
+    const arrivals: StopArrival[] = [];
+    const start = departureTime.getTime();
+    let minutes = 0;
+    let totalDistanceMeters = 0;
+    let drivingSeconds = 0;
+    let weightedLegRisk = 0;
+    let reversals = 0;
+
+    for (let k = 1; k < sequence.length; k++) {
+      const from = sequence[k - 1];
+      const to = sequence[k];
+      const distance = matrix.distances[from][to];
+      totalDistanceMeters += distance;
+      drivingSeconds += matrix.durations[from][to];
+      weightedLegRisk += (matrix.risks?.[from][to] ?? 0) * distance;
+      minutes += matrix.durations[from][to] / 60;
+
+      if (to === destination) break;
+
+      const stop = stops[to - 1];
+      const { earliest, latest } = windows[to - 1];
+      const arrival = new Date(start + minutes * 60000);
+      const waitMinutes = earliest !== null && minutes < earliest ? earliest - minutes : 0;
+      const lateMinutes = latest !== null && minutes > latest ? minutes - latest : 0;
+      minutes += waitMinutes + (stop.estimatedStopTime ?? DEFAULT_STOP_MINUTES);
+      arrivals.push({ stopId: stop.id, arrival, departure: new Date(start + minutes * 60000), waitMinutes, lateMinutes });
+
+      if (matrix.points && this.isReversal(matrix.points[from], matrix.points[to], matrix.points[sequence[k + 1]])) {
+        reversals++;
+      }
+    }
+
+    const timeWindowViolations = arrivals.filter(arrival => arrival.lateMinutes > 0).length;
+    const legRisk = totalDistanceMeters > 0 ? weightedLegRisk / totalDistanceMeters : 0;
+    // Doubling back at a stop means a U-turn or turnaround, which large vehicles cannot make safely
+    const reversalRisk = reversals * (canUTurn ? 8 : 20);
+    const riskScore = Math.min(100, legRisk + reversalRisk + timeWindowViolations * 15);
+
+    return {
+      stops: order.map((index, position) => ({ ...stops[index], order: position })),
+      totalDistanceMeters,
+      drivingSeconds,
+      totalSeconds: minutes * 60,
+      riskScore,
+      score: 0,
+      arrivals,
+      timeWindowViolations,
+      reversals
+    };
+  }
+
+  private static isReversal(previous: LatLngCoordinates, current: LatLngCoordinates, next: LatLngCoordinates): boolean {
+    if (haversineMeters(previous, current) < 1 || haversineMeters(current, next) < 1) return false;
+    const inbound = bearingDegrees(previous, current);
+    const outbound = bearingDegrees(current, next);
+    const deflection = Math.abs(((outbound - inbound + 540) % 360) - 180);
+    return deflection > REVERSAL_ANGLE;
+  }
+
+  private static permutations(items: number[]): number[][] {
+    if (items.length <= 1) return [items];
+    return items.flatMap((item, index) =>
+      this.permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+    );
+  }
+
+  /**
+   * Search cost of an order: driving time, with lateness dominating so 2-opt repairs
+   * time windows before shortening the tour. The fixed ends and the searched middle are
+   * passed separately so the full order is not rebuilt for every candidate.
+   */
+  private static orderCost(
+    first: number[],
+    middle: number[],
+    last: number[],
+    stops: StopLocation[],
+    matrix: TravelMatrix,
+    windows: ResolvedWindow[]
+  ): number {
+    const count = first.length + middle.length + last.length;
+    const stopAt = (k: number) =>
+      k < first.length ? first[k] : k < first.length + middle.length ? middle[k - first.length] : last[k - first.length - middle.length];
+    let previous = 0;
+    let beforePrevious = -1;
+    let minutes = 0;
+    let drivingSeconds = 0;
+    let violations = 0;
+    let reversals = 0;
+    for (let k = 0; k <= count; k++) {
+      const stop = k < count ? stopAt(k) : -1;
+      const to = k < count ? stop + 1 : stops.length + 1;
+      drivingSeconds += matrix.durations[previous][to];
+      minutes += matrix.durations[previous][to] / 60;
+      if (matrix.points && beforePrevious >= 0 && this.isReversal(matrix.points[beforePrevious], matrix.points[previous], matrix.points[to])) {
+        reversals++;
+      }
+      if (k < count) {
+        const { earliest, latest } = windows[stop];
+        if (latest !== null && minutes > latest) violations++;
+        if (earliest !== null && minutes < earliest) minutes = earliest;
+        minutes += stops[stop].estimatedStopTime ?? DEFAULT_STOP_MINUTES;
+      }
+      beforePrevious = previous;
+      previous = to;
+    }
+    return drivingSeconds + violations * 3600 + reversals * 120;
+  }
+
+  /**
+   * For larger stop sets: nearest-neighbour tours from every starting stop, each improved
+   * with 2-opt, plus adjacent swaps of the best tour so there are alternatives to rank.
+   */
+  private static searchOrders(
+    free: number[],
+    first: number[],
+    last: number[],
+    matrix: TravelMatrix,
+    stops: StopLocation[],
+    windows: ResolvedWindow[]
+  ): number[][] {
+    const cost = (middle: number[]) => this.orderCost(first, middle, last, stops, matrix, windows);
+
+    const seen = new Set<string>();
+    const orders: number[][] = [];
+    const addOrder = (order: number[]) => {
+      const key = order.join(',');
+      if (!seen.has(key)) {
+        seen.add(key);
+        orders.push(order);
+      }
+    };
+
+    const startIndex = first.length > 0 ? first[first.length - 1] + 1 : 0;
+    const tours = free.map(start => {
+      const tour = [start];
+      const remaining = new Set(free.filter(i => i !== start));
+      while (remaining.size > 0) {
+        const current = tour[tour.length - 1] + 1;
+        let nearest = -1;
+        remaining.forEach(candidate => {
+          if (nearest < 0 || matrix.distances[current][candidate + 1] < matrix.distances[current][nearest + 1]) {
+            nearest = candidate;
+          }
+        });
+        tour.push(nearest);
+        remaining.delete(nearest);
+      }
+      return tour;
+    });
+    // Seed with the tour that leaves the origin (or last fixed stop) towards its nearest stop first
+    tours.sort((a, b) => matrix.distances[startIndex][a[0] + 1] - matrix.distances[startIndex][b[0] + 1]);
+
+    tours.forEach(tour => addOrder(this.twoOpt(tour, cost)));
+    addOrder(free);
+
+    const best = orders.reduce((a, b) => (cost(a) <= cost(b) ? a : b));
+    for (let i = 0; i < best.length - 1; i++) {
+      const swapped = [...best];
+      [swapped[i], swapped[i + 1]] = [swapped[i + 1], swapped[i]];
+      addOrder(swapped);
+    }
+    return orders;
+  }
+
+  private static twoOpt(tour: number[], cost: (order: number[]) => number): number[] {
+    let best = tour;
+    let bestCost = cost(best);
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (let i = 0; i < best.length - 1; i++) {
+        for (let j = i + 1; j < best.length; j++) {
+          const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+          const candidateCost = cost(candidate);
+          if (candidateCost < bestCost - 1e-6) {
+            best = candidate;
+            bestCost = candidateCost;
+            improved = true;
+          }
+        }
+      }
+    }
+    return best;
+  }
+}
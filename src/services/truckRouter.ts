@@ -0,0 +1,373 @@
+import { LatLngCoordinates, RoutingConstraints, Vehicle, VehicleClass } from '../types';
+import { VehicleClassificationService } from './vehicleClassificationService';
+import { haversineMeters, parseDimensionFeet, parseWeightTons, RoadEdge, RoadGraph } from './osmRoadGraph';
+
+export interface TruckRouteOptions {
+  vehicle: Vehicle;
+  avoidHighways?: boolean;
+  avoidTolls?: boolean;
+}
+
+export interface TruckRouteResult {
+  /** Edges travelled between each consecutive pair of stops */
+  legs: RoadEdge[][];
+  distanceMeters: number;
+  durationSeconds: number;
+  /** Road segments excluded because posted limits are below the vehicle's dimensions or weight */
+  restrictedEdgeCount: number;
+}
+
+interface CostModel {
+  vehicleClass: VehicleClass;
+  constraints: RoutingConstraints;
+  edgeSeconds: Float64Array;
+  restrictedEdgeCount: number;
+}
+
+const MPH_TO_MPS = 0.44704;
+const MAX_SNAP_DISTANCE_METERS = 2000;
+const GRID_CELL_DEGREES = 0.01;
+// Cheapest multiplier applied to any edge, used to keep the A* heuristic admissible
+const MIN_COST_MULTIPLIER = 0.8;
+
+const HIGHWAY_CLASSES = new Set(['motorway', 'motorway_link', 'trunk', 'trunk_link']);
+const TRUCK_FRIENDLY_CLASSES = new Set(['motorway', 'motorway_link', 'trunk', 'trunk_link', 'primary', 'primary_link']);
+const RESIDENTIAL_CLASSES = new Set(['residential', 'living_street']);
+
+/**
+ * Signed turn angle from one edge onto the next: 0 is straight on, positive turns right,
+ * negative turns left, ±180 is a U-turn.
+ */
+export function getTurnDeflection(incoming: RoadEdge, outgoing: RoadEdge): number {
+  return ((outgoing.bearingStart - incoming.bearingEnd + 540) % 360) - 180;
+}
+
+/**
+ * Binary min-heap keyed by priority, used as the A* open set.
+ */
+class MinHeap {
+  private items: { key: number; priority: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(key: number, priority: number): void {
+    const items = this.items;
+    items.push({ key, priority });
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].priority <= items[index].priority) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): number | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === index) break;
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top.key;
+  }
+}
+
+/**
+ * Truck-aware A* router over a local OSM road graph.
+ *
+ * The search runs over edges rather than nodes so every expansion knows the incoming
+ * direction: U-turns can be forbidden outright and each turn is priced by its angle, the
+ * vehicle's turning radius and its maximum turn angle. Posted maxheight/maxwidth/maxlength
+ * limits below the vehicle's dimensions make a road impassable instead of being filtered
+ * out of finished car routes after the fact.
+ */
+export class TruckRouter {
+  private grid = new Map<string, number[]>();
+  private incomingCount: Uint32Array;
+  private maxSpeedMps: number;
+
+  constructor(private readonly graph: RoadGraph) {
+    this.incomingCount = new Uint32Array(graph.nodes.length);
+    graph.edges.forEach(edge => this.incomingCount[edge.to]++);
+    graph.nodes.forEach((node, index) => {
+      const key = this.getCellKey(Math.floor(node.lat / GRID_CELL_DEGREES), Math.floor(node.lng / GRID_CELL_DEGREES));
+      const cell = this.grid.get(key);
+      if (cell) cell.push(index);
+      else this.grid.set(key, [index]);
+    });
+    // A loop rather than Math.max(...): extracts have far more edges than a call takes arguments
+    let maxSpeedMph = 0;
+    for (const edge of graph.edges) {
+      if (edge.speedMph > maxSpeedMph) maxSpeedMph = edge.speedMph;
+    }
+    this.maxSpeedMps = maxSpeedMph * MPH_TO_MPS;
+  }
+
+  /**
+   * Route through the stops in order. Returns null when no path satisfies the vehicle's restrictions.
+   */
+  route(stops: LatLngCoordinates[], options: TruckRouteOptions, edgePenalties?: Map<string, number>): TruckRouteResult | null {
+    const model = this.buildCostModel(options, edgePenalties);
+    const stopNodes = stops.map(stop => this.findNearestNode(stop));
+
+    const legs: RoadEdge[][] = [];
+    let previousEdge: RoadEdge | undefined;
+    for (let i = 0; i < stopNodes.length - 1; i++) {
+      const leg = this.findPath(stopNodes[i], stopNodes[i + 1], model, previousEdge);
+      if (!leg) return null;
+      legs.push(leg);
+      // Carry the heading into the next leg so leaving a stop obeys the same turn rules
+      previousEdge = leg[leg.length - 1] ?? previousEdge;
+    }
+
+    return { ...this.measure(legs, options), restrictedEdgeCount: model.restrictedEdgeCount };
+  }
+
+  /**
+   * Best route plus up to `count - 1` alternatives found by penalising roads already used.
+   */
+  findRoutes(stops: LatLngCoordinates[], options: TruckRouteOptions, count: number = 3): TruckRouteResult[] {
+    const best = this.route(stops, options);
+    if (!best) return [];
+
+    const results = [best];
+    const penalties = new Map<string, number>();
+    for (let attempt = 0; attempt < count * 2 && results.length < count; attempt++) {
+      results[results.length - 1].legs.flat().forEach(edge => {
+        penalties.set(edge.wayId, (penalties.get(edge.wayId) || 1) * 1.6);
+      });
+      const candidate = this.route(stops, options, penalties);
+      if (!candidate) break;
+
+      // Keep alternatives that are meaningfully different and not wildly slower
+      const isDistinct = results.every(existing => this.getSharedFraction(candidate, existing) < 0.7);
+      if (isDistinct && candidate.durationSeconds <= best.durationSeconds * 1.6) {
+        results.push(candidate);
+      }
+    }
+    return results;
+  }
+
+  findNearestNode(point: LatLngCoordinates): number {
+    const row = Math.floor(point.lat / GRID_CELL_DEGREES);
+    const col = Math.floor(point.lng / GRID_CELL_DEGREES);
+    let bestNode = -1;
+    let bestDistance = Infinity;
+
+    for (let ring = 0; ring <= 3; ring++) {
+      for (let r = row - ring; r <= row + ring; r++) {
+        for (let c = col - ring; c <= col + ring; c++) {
+          if (Math.max(Math.abs(r - row), Math.abs(c - col)) !== ring) continue;
+          this.grid.get(this.getCellKey(r, c))?.forEach(nodeIndex => {
+            // Snap only to nodes that can be both entered and left
+            if (this.graph.outgoing[nodeIndex].length === 0 || this.incomingCount[nodeIndex] === 0) return;
+            const distance = haversineMeters(point, this.graph.nodes[nodeIndex]);
+            if (distance < bestDistance) {
+              bestDistance = distance;
+              bestNode = nodeIndex;
+            }
+          });
+        }
+      }
+      // A match in this ring may still be beaten by one in the next ring
+      if (bestNode >= 0 && ring > 0) break;
+    }
+
+    if (bestNode < 0 || bestDistance > MAX_SNAP_DISTANCE_METERS) {
+      throw new Error(`Location ${point.lat.toFixed(5)},${point.lng.toFixed(5)} is outside the loaded OSM extract`);
+    }
+    return bestNode;
+  }
+
+  private findPath(start: number, goal: number, model: CostModel, previousEdge?: RoadEdge): RoadEdge[] | null {
+    if (start === goal) return [];
+
+    const { edges, outgoing, nodes } = this.graph;
+    const goalPosition = nodes[goal];
+    const heuristic = (node: number) =>
+      haversineMeters(nodes[node], goalPosition) / (this.maxSpeedMps / MIN_COST_MULTIPLIER);
+
+    const costs = new Map<number, number>();
+    const parents = new Map<number, number>();
+    const closed = new Set<number>();
+    const open = new MinHeap();
+
+    outgoing[start].forEach(edgeId => {
+      const edge = edges[edgeId];
+      const turn = previousEdge ? this.getTurnSeconds(previousEdge, edge, model) : 0;
+      const cost = turn + model.edgeSeconds[edgeId];
+      if (!Number.isFinite(cost)) return;
+      costs.set(edgeId, cost);
+      open.push(edgeId, cost + heuristic(edge.to));
+    });
+
+    while (open.size > 0) {
+      const edgeId = open.pop()!;
+      if (closed.has(edgeId)) continue;
+      closed.add(edgeId);
+
+      const edge = edges[edgeId];
+      if (edge.to === goal) {
+        const path: RoadEdge[] = [];
+        let current: number | undefined = edgeId;
+        while (current !== undefined) {
+          path.unshift(edges[current]);
+          current = parents.get(current);
+        }
+        return path;
+      }
+
+      const baseCost = costs.get(edgeId)!;
+      outgoing[edge.to].forEach(nextId => {
+        if (closed.has(nextId)) return;
+        const next = edges[nextId];
+        const cost = baseCost + this.getTurnSeconds(edge, next, model) + model.edgeSeconds[nextId];
+        if (!Number.isFinite(cost)) return;
+        if (cost < (costs.get(nextId) ?? Infinity)) {
+          costs.set(nextId, cost);
+          parents.set(nextId, edgeId);
+          open.push(nextId, cost + heuristic(next.to));
+        }
+      });
+    }
+
+    return null;
+  }
+
+  private buildCostModel(options: TruckRouteOptions, edgePenalties?: Map<string, number>): CostModel {
+    const { vehicle } = options;
+    const vehicleClass = VehicleClassificationService.classifyVehicle(vehicle);
+    const constraints = VehicleClassificationService.getRoutingConstraints(vehicleClass);
+    const isHeavyVehicle = vehicleClass.type === 'truck' || vehicleClass.type === 'oversized';
+    const weightTons = VehicleClassificationService.getGrossWeightTons(vehicle);
+    const carriesHazmat = vehicle.hazmatClass !== undefined;
+    const edgeSeconds = new Float64Array(this.graph.edges.length);
+    let restrictedEdgeCount = 0;
+
+    this.graph.edges.forEach(edge => {
+      const { tags } = edge;
+      const maxHeight = parseDimensionFeet(tags['maxheight:physical'] ?? tags.maxheight);
+      const maxWidth = parseDimensionFeet(tags['maxwidth:physical'] ?? tags.maxwidth);
+      const maxLength = parseDimensionFeet(tags.maxlength);
+      const maxWeight = parseWeightTons(tags.maxweight);
+      const exceedsLimits =
+        (maxHeight !== null && vehicle.height > maxHeight) ||
+        (maxWidth !== null && vehicle.width > maxWidth) ||
+        (maxLength !== null && vehicle.length > maxLength) ||
+        (maxWeight !== null && weightTons > maxWeight);
+      const prohibited = exceedsLimits || (isHeavyVehicle && tags.hgv === 'no') || (carriesHazmat && tags.hazmat === 'no');
+      if (prohibited) {
+        restrictedEdgeCount++;
+        edgeSeconds[edge.id] = Infinity;
+        return;
+      }
+
+      let multiplier = 1;
+      if (options.avoidHighways && HIGHWAY_CLASSES.has(edge.highway)) multiplier *= 5;
+      if (options.avoidTolls && tags.toll === 'yes') multiplier *= 5;
+      if (constraints.avoidResidential && RESIDENTIAL_CLASSES.has(edge.highway)) {
+        multiplier *= edge.highway === 'living_street' ? 6 : 3;
+      }
+      if (constraints.avoidNarrowStreets) {
+        const roadWidth = parseDimensionFeet(tags.width);
+        if (roadWidth !== null && roadWidth < constraints.minRoadWidth) multiplier *= 4;
+        else if (tags.lanes === '1' && tags.oneway !== 'yes') multiplier *= 2;
+      }
+      if (isHeavyVehicle && tags.hgv === 'destination') multiplier *= 4;
+      if (vehicleClass.preferTruckRoutes) {
+        if (tags.hgv === 'designated') multiplier *= MIN_COST_MULTIPLIER;
+        else if (TRUCK_FRIENDLY_CLASSES.has(edge.highway)) multiplier *= 0.9;
+      }
+      multiplier *= edgePenalties?.get(edge.wayId) ?? 1;
+
+      edgeSeconds[edge.id] = (edge.lengthMeters / (edge.speedMph * MPH_TO_MPS)) * multiplier;
+    });
+
+    return { vehicleClass, constraints, edgeSeconds, restrictedEdgeCount };
+  }
+
+  /**
+   * Seconds added for turning from one edge onto the next; Infinity when the turn is not allowed.
+   */
+  private getTurnSeconds(incoming: RoadEdge, outgoing: RoadEdge, model: CostModel): number {
+    const deflection = getTurnDeflection(incoming, outgoing);
+    const angle = Math.abs(deflection);
+    const isUTurn = (outgoing.to === incoming.from && outgoing.wayId === incoming.wayId) || angle >= 165;
+
+    if (isUTurn && model.constraints.avoidUTurns) return Infinity;
+    if (angle < 20) return 0;
+
+    // Larger vehicles take longer to swing through the same turn
+    const radiusFactor = Math.max(1, model.vehicleClass.minTurningRadius / 20);
+    let seconds = (angle / 90) ** 2 * 5 * radiusFactor;
+    // Left turns cross oncoming traffic
+    if (deflection < -30) seconds *= 1.5;
+    if (isUTurn) seconds += 45;
+
+    if (angle > model.constraints.maxTurnAngle) {
+      seconds += 120 * ((angle - model.constraints.maxTurnAngle) / 45) * radiusFactor;
+    }
+    // Tight corners between minor streets are where long vehicles mount curbs
+    if (model.constraints.avoidSharpTurns && angle > 60 &&
+        (RESIDENTIAL_CLASSES.has(incoming.highway) || RESIDENTIAL_CLASSES.has(outgoing.highway) || outgoing.highway === 'service')) {
+      seconds += 30 * radiusFactor;
+    }
+    return seconds;
+  }
+
+  private measure(legs: RoadEdge[][], options: TruckRouteOptions): Pick<TruckRouteResult, 'legs' | 'distanceMeters' | 'durationSeconds'> {
+    const edges = legs.flat();
+    const turnModel = this.buildTurnOnlyModel(options);
+    let durationSeconds = 0;
+    edges.forEach((edge, index) => {
+      durationSeconds += edge.lengthMeters / (edge.speedMph * MPH_TO_MPS);
+      if (index > 0) {
+        const turn = this.getTurnSeconds(edges[index - 1], edge, turnModel);
+        // Only the physical time of a turn counts towards the ETA, not avoidance penalties
+        if (Number.isFinite(turn)) durationSeconds += Math.min(turn, 30);
+      }
+    });
+    return {
+      legs,
+      distanceMeters: edges.reduce((sum, edge) => sum + edge.lengthMeters, 0),
+      durationSeconds
+    };
+  }
+
+  private buildTurnOnlyModel(options: TruckRouteOptions): CostModel {
+    const vehicleClass = VehicleClassificationService.classifyVehicle(options.vehicle);
+    return {
+      vehicleClass,
+      constraints: VehicleClassificationService.getRoutingConstraints(vehicleClass),
+      edgeSeconds: new Float64Array(0),
+      restrictedEdgeCount: 0
+    };
+  }
+
+  private getSharedFraction(candidate: TruckRouteResult, existing: TruckRouteResult): number {
+    const existingWays = new Set(existing.legs.flat().map(edge => edge.wayId));
+    const shared = candidate.legs.flat()
+      .filter(edge => existingWays.has(edge.wayId))
+      .reduce((sum, edge) => sum + edge.lengthMeters, 0);
+    return candidate.distanceMeters > 0 ? shared / candidate.distanceMeters : 1;
+  }
+
+  private getCellKey(row: number, col: number): string {
+    return `${row}:${col}`;
+  }
+}
@@ -1,37 +1,85 @@
-import { Vehicle } from '../types';
+import { RouteComplianceAnalysis, RouteSegment, TruckRouteRestriction, Vehicle } from '../types';
+import { HAZMAT_CLASS_NAMES, VehicleClassificationService } from './vehicleClassificationService';
+import { ClearanceService } from './clearanceService';
+import { StateBoundaryService, StateRegion } from './stateBoundaryService';
+import { NationalNetworkRoute, NationalNetworkService } from './nationalNetworkService';
+import { WorkZoneService } from './workZoneService';
+import { getSegmentPath } from '../utils/routeGeometry';
+
+// Size and weight a vehicle may have without an oversize/overweight permit
+export interface StateLegalLimits {
+  heightFt: number;
+  widthFt: number;
+  singleUnitLengthFt: number;
+  busLengthFt: number;
+  semitrailerLengthFt: number;
+  grossWeightLbs: number;
+}
 
-export interface TruckRouteRestriction {
-  type: 'height' | 'weight' | 'length' | 'width' | 'hazmat' | 'commercial_ban' | 'bridge' | 'tunnel';
-  value?: number; // feet for height, tons for weight
+export interface StateRestrictedRoad {
+  name: string;
+  aliases?: string[]; // Other street name fragments that identify the road
   description: string;
-  severity: 'advisory' | 'restriction' | 'prohibition';
-  source: 'FHWA' | 'FMCSA' | 'State_DOT' | 'Local';
-  coordinates?: { lat: number; lng: number };
+  severity: TruckRouteRestriction['severity'];
+}
+
+// Dimensions a vehicle must exceed, any one of them, for a permit rule to apply
+export interface PermitThreshold {
+  widthFt?: number;
+  lengthFt?: number;
+  heightFt?: number;
+  rearOverhangFt?: number;
+}
+
+export interface PermitRule {
+  over?: PermitThreshold; // Applies to every permitted move when missing
+  requirement: string;
 }
 
-export interface NationalNetworkRoute {
-  routeId: string;
-  designation: 'Interstate' | 'US_Highway' | 'State_Route' | 'National_Network';
-  truckFriendly: boolean;
-  staaApproved: boolean; // Surface Transportation Assistance Act approved
-  maxVehicleLength: number; // feet
-  maxVehicleHeight: number; // feet
-  maxVehicleWeight: number; // tons
-  restrictions: TruckRouteRestriction[];
+export interface EscortRule {
+  over: PermitThreshold;
+  front: number; // Escort vehicles ahead of the load
+  rear: number;
+  heightPole?: boolean; // The front escort carries a height pole
+  police?: boolean;
+  note?: string;
+}
+
+// Conditions a state attaches to oversize/overweight permits
+export interface StatePermitRules {
+  authority: string; // Office that issues the permits
+  placeholder?: boolean; // Generic rules rather than the state's own; not listed as requirements
+  escorts: EscortRule[];
+  signs: PermitRule[];
+  flags: PermitRule[];
+  travelTimes: PermitRule[];
 }
 
 export interface StateRestrictionData {
   state: string;
   stateCode: string;
+  version: string; // Bumped whenever the state's entry is revised
+  effectiveDate: string;
+  source: string;
+  limits: StateLegalLimits;
   parkwayBans: boolean; // e.g., NY parkways ban commercial vehicles
-  specialRestrictions: TruckRouteRestriction[];
+  specialRestrictions: TruckRouteRestriction[]; // Statewide when they have no coordinates
   approvedTruckRoutes: string[];
-  restrictedRoads: string[];
+  restrictedRoads: StateRestrictedRoad[];
+  permits?: StatePermitRules;
 }
 
+// One versioned file per state and DC, keyed by path
+const STATE_RESTRICTION_FILES = import.meta.glob<StateRestrictionData>('../data/stateRestrictions/*.json', {
+  eager: true,
+  import: 'default'
+});
+
+// A location-specific restriction applies when the route passes this close, in miles
+const RESTRICTION_RADIUS_MILES = 1;
+
 export class USTruckRoutingService {
   private static instance: USTruckRoutingService;
-  private fhwaData: Map<string, NationalNetworkRoute> = new Map();
   private stateRestrictions: Map<string, StateRestrictionData> = new Map();
   private realTimeRestrictions: TruckRouteRestriction[] = [];
 
@@ -46,84 +94,17 @@ export class USTruckRoutingService {
     this.initializeGovernmentData();
   }
 
-  private async initializeGovernmentData() {
+  private initializeGovernmentData() {
     console.log('🏛️ Initializing U.S. Government truck routing data...');
-    
-    // Load FHWA National Network data
-    await this.loadFHWANationalNetwork();
-    
-    // Load FMCSA restriction data
-    await this.loadFMCSARestrictions();
-    
-    // Load state-specific restrictions
-    await this.loadStateRestrictions();
-    
-    console.log('✅ Government truck routing data initialized');
-  }
 
-  private async loadFHWANationalNetwork() {
-    // In production, this would fetch from FHWA APIs or cached government data
-    // For now, we'll simulate key National Network routes
-    
-    const nationalNetworkRoutes: NationalNetworkRoute[] = [
-      {
-        routeId: 'I-10',
-        designation: 'Interstate',
-        truckFriendly: true,
-        staaApproved: true,
-        maxVehicleLength: 65, // feet (tractor-trailer)
-        maxVehicleHeight: 13.5, // feet
-        maxVehicleWeight: 80, // tons
-        restrictions: []
-      },
-      {
-        routeId: 'I-49',
-        designation: 'Interstate',
-        truckFriendly: true,
-        staaApproved: true,
-        maxVehicleLength: 65,
-        maxVehicleHeight: 13.5,
-        maxVehicleWeight: 80,
-        restrictions: []
-      },
-      {
-        routeId: 'US-90',
-        designation: 'US_Highway',
-        truckFriendly: true,
-        staaApproved: true,
-        maxVehicleLength: 60,
-        maxVehicleHeight: 13.5,
-        maxVehicleWeight: 80,
-        restrictions: []
-      },
-      {
-        routeId: 'LA-14',
-        designation: 'State_Route',
-        truckFriendly: false,
-        staaApproved: false,
-        maxVehicleLength: 40,
-        maxVehicleHeight: 12,
-        maxVehicleWeight: 40,
-        restrictions: [
-          {
-            type: 'height',
-            value: 12,
-            description: 'Low bridge clearance on LA-14 near Delcambre',
-            severity: 'restriction',
-            source: 'State_DOT'
-          }
-        ]
-      }
-    ];
-
-    nationalNetworkRoutes.forEach(route => {
-      this.fhwaData.set(route.routeId, route);
-    });
+    // National Network geometry is loaded separately by NationalNetworkService
+    this.loadFMCSARestrictions();
+    this.loadStateRestrictions();
 
-    console.log(`📊 Loaded ${nationalNetworkRoutes.length} FHWA National Network routes`);
+    console.log('✅ Government truck routing data initialized');
   }
 
-  private async loadFMCSARestrictions() {
+  private loadFMCSARestrictions() {
     // Load FMCSA safety and HazMat restrictions
     // In production, this would connect to FMCSA APIs
     
@@ -142,12 +123,11 @@ export class USTruckRoutingService {
         source: 'FMCSA'
       },
       {
-        type: 'height',
-        value: 11.5,
-        description: 'Low clearance bridge on US-167 near Ville Platte',
-        severity: 'restriction',
-        source: 'FMCSA',
-        coordinates: { lat: 30.6885, lng: -92.2626 }
+        type: 'hazmat',
+        description: 'Holland Tunnel prohibits hazardous materials',
+        severity: 'prohibition',
+        source: 'Local',
+        coordinates: { lat: 40.7267, lng: -74.0110 }
       }
     ];
 
@@ -155,210 +135,301 @@ export class USTruckRoutingService {
     console.log(`🚛 Loaded ${fmcsaRestrictions.length} FMCSA restrictions`);
   }
 
-  private async loadStateRestrictions() {
-    // Load state-specific truck routing data
-    
-    const stateData: StateRestrictionData[] = [
-      {
-        state: 'Louisiana',
-        stateCode: 'LA',
-        parkwayBans: false,
-        specialRestrictions: [
-          {
-            type: 'length',
-            value: 65,
-            description: 'Louisiana allows 65ft vehicles on designated routes',
-            severity: 'advisory',
-            source: 'State_DOT'
-          }
-        ],
-        approvedTruckRoutes: ['I-10', 'I-49', 'I-20', 'US-90', 'US-165', 'US-167'],
-        restrictedRoads: ['LA-14 (height restrictions)', 'Local residential streets']
-      },
-      {
-        state: 'Texas',
-        stateCode: 'TX',
-        parkwayBans: false,
-        specialRestrictions: [
-          {
-            type: 'length',
-            value: 75,
-            description: 'Texas allows longer vehicles on approved routes',
-            severity: 'advisory',
-            source: 'State_DOT'
-          }
-        ],
-        approvedTruckRoutes: ['I-10', 'I-20', 'I-35', 'US-59', 'US-90'],
-        restrictedRoads: ['Farm-to-Market roads with weight limits']
-      },
-      {
-        state: 'New York',
-        stateCode: 'NY',
-        parkwayBans: true, // Critical: NY parkways ban ALL commercial vehicles
-        specialRestrictions: [
-          {
-            type: 'commercial_ban',
-            description: 'All parkways (Belt, Cross Island, FDR, etc.) prohibit trucks and buses',
-            severity: 'prohibition',
-            source: 'State_DOT'
-          }
-        ],
-        approvedTruckRoutes: ['I-95', 'I-87', 'I-84', 'I-90', 'US-1', 'US-9'],
-        restrictedRoads: ['All parkways', 'Many NYC streets have truck restrictions']
+  private loadStateRestrictions() {
+    Object.entries(STATE_RESTRICTION_FILES).forEach(([file, data]) => {
+      try {
+        const stateData = this.validateStateRestrictions(data, file.split('/').pop() || file);
+        this.stateRestrictions.set(stateData.stateCode, stateData);
+      } catch (error) {
+        console.error('Skipping state restriction file:', error);
       }
-    ];
-
-    stateData.forEach(state => {
-      this.stateRestrictions.set(state.stateCode, state);
     });
 
-    console.log(`🗺️ Loaded restrictions for ${stateData.length} states`);
+    console.log(`🗺️ Loaded restrictions for ${this.stateRestrictions.size} states`);
+  }
+
+  private validateStateRestrictions(data: StateRestrictionData, file: string): StateRestrictionData {
+    if (!/^[A-Z]{2}$/.test(data.stateCode ?? '')) {
+      throw new Error(`${file}: stateCode must be a two-letter postal code`);
+    }
+    if (!data.version) {
+      throw new Error(`${file}: missing version`);
+    }
+    const limits = data.limits ?? {};
+    const missing = (['heightFt', 'widthFt', 'singleUnitLengthFt', 'busLengthFt', 'semitrailerLengthFt', 'grossWeightLbs'] as const)
+      .filter(key => !(typeof limits[key] === 'number' && limits[key] > 0));
+    if (missing.length > 0) {
+      throw new Error(`${file}: invalid limits ${missing.join(', ')}`);
+    }
+    if (data.permits && !data.permits.authority) {
+      throw new Error(`${file}: permits need an issuing authority`);
+    }
+    return {
+      ...data,
+      specialRestrictions: (data.specialRestrictions ?? []).map(restriction => ({ ...restriction, stateCode: data.stateCode })),
+      approvedTruckRoutes: data.approvedTruckRoutes ?? [],
+      restrictedRoads: data.restrictedRoads ?? [],
+      permits: data.permits && {
+        ...data.permits,
+        escorts: data.permits.escorts ?? [],
+        signs: data.permits.signs ?? [],
+        flags: data.permits.flags ?? [],
+        travelTimes: data.permits.travelTimes ?? []
+      }
+    };
+  }
+
+  /**
+   * Restriction data for a state, by postal code
+   */
+  public getStateRestrictions(stateCode: string): StateRestrictionData | undefined {
+    return this.stateRestrictions.get(stateCode.toUpperCase());
   }
 
   // Main method to evaluate route compliance for large buses
   public evaluateRouteCompliance(
-    routeSegments: Array<{ streetName: string; startLat: number; startLng: number }>,
+    routeSegments: RouteSegment[],
     vehicle: Vehicle
-  ): {
-    compliant: boolean;
-    violations: TruckRouteRestriction[];
-    recommendations: string[];
-    nationalNetworkCoverage: number; // percentage of route on approved network
-  } {
-    console.log('🔍 Evaluating route compliance for large vehicle...');
-    
+  ): RouteComplianceAnalysis {
     const violations: TruckRouteRestriction[] = [];
     const recommendations: string[] = [];
-    let nationalNetworkSegments = 0;
+    const statesCrossed: StateRegion[] = [];
+    const networkRoutes = new Map<string, NationalNetworkRoute>();
+    const workZoneKeys = new Set<string>();
 
     // Check each route segment against government data
-    routeSegments.forEach((segment, _index) => {
-      const streetName = segment.streetName.toLowerCase();
-      
-      // Check against FHWA National Network
-      const networkRoute = this.findNationalNetworkRoute(streetName);
-      if (networkRoute) {
-        nationalNetworkSegments++;
-        
-        // Check vehicle compliance with route limits
-        if (vehicle.length > networkRoute.maxVehicleLength) {
-          violations.push({
-            type: 'length',
-            value: networkRoute.maxVehicleLength,
-            description: `Vehicle length ${vehicle.length}ft exceeds ${networkRoute.routeId} limit of ${networkRoute.maxVehicleLength}ft`,
-            severity: 'restriction',
-            source: 'FHWA'
-          });
-        }
-        
-        if (vehicle.height > networkRoute.maxVehicleHeight) {
-          violations.push({
-            type: 'height',
-            value: networkRoute.maxVehicleHeight,
-            description: `Vehicle height ${vehicle.height}ft exceeds ${networkRoute.routeId} limit of ${networkRoute.maxVehicleHeight}ft`,
-            severity: 'restriction',
-            source: 'FHWA'
-          });
-        }
-      }
-      
-      // Check state-specific restrictions
-      const stateRestrictions = this.checkStateRestrictions(segment, vehicle);
+    const networkMatches = routeSegments.map(segment => {
+      // Match the segment's geometry to National Network lines
+      const match = NationalNetworkService.matchSegment(segment);
+      match.routes.forEach(route => networkRoutes.set(route.routeId, route));
+
+      // Check the restrictions of every state the segment actually lies in
+      const segmentStates = StateBoundaryService.getStatesAlong(getSegmentPath(segment));
+      segmentStates.forEach(state => {
+        if (!statesCrossed.some(crossed => crossed.code === state.code)) statesCrossed.push(state);
+      });
+      const stateRestrictions = this.checkStateRestrictions(segment, segmentStates, vehicle);
       violations.push(...stateRestrictions);
       
       // Check real-time restrictions from FMCSA
       const fmcsaRestrictions = this.checkFMCSARestrictions(segment, vehicle);
       violations.push(...fmcsaRestrictions);
+
+      // Work zones in place when the segment is passed, each reported once
+      const passTime = segment.passTime ? new Date(segment.passTime) : new Date();
+      WorkZoneService.findZonesOnSegment(segment, passTime).forEach(zone => {
+        const key = `${zone.feedId}:${zone.id}`;
+        if (workZoneKeys.has(key)) return;
+        workZoneKeys.add(key);
+        violations.push(...WorkZoneService.toRestrictions(zone, vehicle));
+      });
+      return match;
     });
 
-    const nationalNetworkCoverage = (nationalNetworkSegments / routeSegments.length) * 100;
+    // Limits posted for the National Network routes driven, once per route
+    networkRoutes.forEach(route => violations.push(...this.checkNetworkRouteLimits(route, vehicle)));
+
+    // Legal size and weight limits apply once per state entered
+    statesCrossed.forEach(state => violations.push(...this.checkStateLimits(state.code, vehicle)));
+
+    // Bridges and overpasses on the route geometry that the vehicle cannot pass
+    violations.push(...ClearanceService.checkSegments(routeSegments, vehicle).map(conflict => ClearanceService.toRestriction(conflict)));
+
+    // Share of the distance driven on the network; unknown until network geometry is loaded
+    const totalMeters = networkMatches.reduce((sum, match) => sum + match.meters, 0);
+    const coveredMeters = networkMatches.reduce((sum, match) => sum + match.coveredMeters, 0);
+    const nationalNetworkCoverage = NationalNetworkService.getInfo().loaded && totalMeters > 0
+      ? Math.round(coveredMeters / totalMeters * 1000) / 10
+      : null;
 
     // Generate recommendations based on analysis
-    if (nationalNetworkCoverage < 70) {
+    if (nationalNetworkCoverage !== null && nationalNetworkCoverage < 70) {
       recommendations.push('Route primarily uses non-National Network roads - consider alternatives via Interstate or US Highways');
     }
     
+    if (statesCrossed.length > 1) {
+      recommendations.push(`Route crosses ${statesCrossed.length} states (${statesCrossed.map(state => state.code).join(', ')}) - each state's limits and restricted roads apply`);
+    }
+
+    const permitStates = Array.from(new Set(violations.filter(v => v.stateCode && v.severity === 'restriction').map(v => v.stateCode)));
+    if (permitStates.length > 0) {
+      recommendations.push(`Vehicle exceeds legal limits in ${permitStates.join(', ')} - an oversize/overweight permit is required from each state`);
+    }
+
     if (violations.some(v => v.severity === 'prohibition')) {
       recommendations.push('🚨 CRITICAL: Route contains prohibited roads for commercial vehicles - must use alternative route');
     }
     
-    if (violations.some(v => v.type === 'height')) {
+    if (workZoneKeys.size > 0) {
+      recommendations.push(`Route passes ${workZoneKeys.size} active work zone${workZoneKeys.size === 1 ? '' : 's'} - refresh the work zone feeds before departure`);
+    }
+
+    if (violations.some(v => v.type === 'height' || v.structureId)) {
       recommendations.push('⚠️ Height clearance issues detected - verify exact vehicle height and consider alternative route');
     }
     
-    if (vehicle.length >= 40) { // Bus-specific advice
+    if (violations.some(v => v.type === 'hazmat') && vehicle.hazmatClass !== undefined) {
+      recommendations.push(`⚠️ Route passes a hazardous materials ban - carrying ${HAZMAT_CLASS_NAMES[vehicle.hazmatClass].toLowerCase()} requires a designated hazmat route`);
+    }
+    
+    if (VehicleClassificationService.classifyVehicle(vehicle).type === 'bus') { // Bus-specific advice
       recommendations.push('Large bus detected - prioritize Interstate and US Highway routes when possible');
       
-      if (nationalNetworkCoverage >= 80) {
+      if (nationalNetworkCoverage !== null && nationalNetworkCoverage >= 80) {
         recommendations.push('✅ Excellent route choice - primarily uses truck-approved infrastructure');
       }
     }
 
     const compliant = violations.filter(v => v.severity === 'prohibition').length === 0;
 
-    console.log(`📋 Route compliance: ${compliant ? 'COMPLIANT' : 'NON-COMPLIANT'}`);
-    console.log(`📊 National Network coverage: ${nationalNetworkCoverage.toFixed(1)}%`);
-    console.log(`⚠️ Violations found: ${violations.length}`);
+    console.log(`📋 Route compliance: ${compliant ? 'COMPLIANT' : 'NON-COMPLIANT'}, ${violations.length} violation(s), National Network coverage ${nationalNetworkCoverage !== null ? `${nationalNetworkCoverage}%` : 'unknown'}`);
 
     return {
       compliant,
       violations,
       recommendations,
-      nationalNetworkCoverage
+      nationalNetworkCoverage,
+      coverageByMile: NationalNetworkService.getInfo().loaded ? NationalNetworkService.coverageByMile(networkMatches) : [],
+      statesCrossed: statesCrossed.map(state => state.code)
     };
   }
 
-  private findNationalNetworkRoute(streetName: string): NationalNetworkRoute | null {
-    // Match street names to National Network routes
-    for (const [routeId, route] of this.fhwaData) {
-      if (streetName.includes(routeId.toLowerCase()) || 
-          streetName.includes(routeId.replace('-', ' ')) ||
-          streetName.includes('interstate') && routeId.startsWith('I-') ||
-          streetName.includes('highway') && routeId.startsWith('US-')) {
-        return route;
-      }
+  // Length, height and weight limits posted for a National Network route
+  private checkNetworkRouteLimits(route: NationalNetworkRoute, vehicle: Vehicle): TruckRouteRestriction[] {
+    const violations: TruckRouteRestriction[] = [];
+    const weightTons = Math.round(VehicleClassificationService.getGrossWeightTons(vehicle) * 10) / 10;
+
+    if (route.maxVehicleLength !== undefined && vehicle.length > route.maxVehicleLength) {
+      violations.push({
+        type: 'length',
+        value: route.maxVehicleLength,
+        description: `Vehicle length ${vehicle.length}ft exceeds ${route.routeId} limit of ${route.maxVehicleLength}ft`,
+        severity: 'restriction',
+        source: 'FHWA'
+      });
+    }
+
+    if (route.maxVehicleHeight !== undefined && vehicle.height > route.maxVehicleHeight) {
+      violations.push({
+        type: 'height',
+        value: route.maxVehicleHeight,
+        description: `Vehicle height ${vehicle.height}ft exceeds ${route.routeId} limit of ${route.maxVehicleHeight}ft`,
+        severity: 'restriction',
+        source: 'FHWA'
+      });
+    }
+
+    if (weightTons > route.maxVehicleWeight) {
+      violations.push({
+        type: 'weight',
+        value: route.maxVehicleWeight,
+        description: `Gross weight ${weightTons} tons exceeds ${route.routeId} limit of ${route.maxVehicleWeight} tons`,
+        severity: 'restriction',
+        source: 'FHWA'
+      });
     }
-    return null;
+
+    return violations;
   }
 
   private checkStateRestrictions(
-    segment: { streetName: string; startLat: number; startLng: number },
-    _vehicle: Vehicle
+    segment: RouteSegment,
+    states: StateRegion[],
+    vehicle: Vehicle
   ): TruckRouteRestriction[] {
     const violations: TruckRouteRestriction[] = [];
     const streetName = segment.streetName.toLowerCase();
-    
-    // Determine state from coordinates (simplified - in production use geocoding)
-    const state = this.getStateFromCoordinates(segment.startLat, segment.startLng);
-    const stateData = this.stateRestrictions.get(state);
-    
-    if (!stateData) return violations;
-
-    // Check for parkway restrictions (critical for NY)
-    if (stateData.parkwayBans && streetName.includes('parkway')) {
-      violations.push({
+    const isCommercial = VehicleClassificationService.classifyVehicle(vehicle).type !== 'passenger';
+    const path = getSegmentPath(segment);
+
+    states.forEach(({ code }) => {
+      const stateData = this.stateRestrictions.get(code);
+      if (!stateData) return;
+
+      // Roads the state closes to large vehicles
+      const closedRoads = isCommercial
+        ? stateData.restrictedRoads.filter(road => [road.name, ...(road.aliases || [])].some(name => streetName.includes(name.toLowerCase())))
+        : [];
+      closedRoads.forEach(road => violations.push({
         type: 'commercial_ban',
-        description: `${state} parkways prohibit all commercial vehicles including buses`,
-        severity: 'prohibition',
-        source: 'State_DOT'
-      });
+        description: `${road.name} (${code}): ${road.description}`,
+        severity: road.severity,
+        source: 'State_DOT',
+        stateCode: code
+      }));
+
+      // Check for parkway restrictions (critical for NY) on parkways not listed by name
+      if (isCommercial && closedRoads.length === 0 && stateData.parkwayBans && streetName.includes('parkway')) {
+        violations.push({
+          type: 'commercial_ban',
+          description: `${stateData.state} parkways prohibit all commercial vehicles including buses`,
+          severity: 'prohibition',
+          source: 'State_DOT',
+          stateCode: code
+        });
+      }
+
+      // Tunnels and other located restrictions the segment passes
+      violations.push(...stateData.specialRestrictions.filter(restriction =>
+        restriction.coordinates &&
+        path.some(point => this.calculateDistance(point.lat, point.lng, restriction.coordinates!.lat, restriction.coordinates!.lng) < RESTRICTION_RADIUS_MILES) &&
+        this.isViolatedBy(restriction, vehicle)
+      ));
+    });
+
+    return violations;
+  }
+
+  /**
+   * Legal limits of a state, and its statewide restrictions, that the vehicle exceeds
+   */
+  public checkStateLimits(stateCode: string, vehicle: Vehicle): TruckRouteRestriction[] {
+    const stateData = this.stateRestrictions.get(stateCode);
+    if (!stateData) return [];
+
+    const { limits, state } = stateData;
+    const violations: TruckRouteRestriction[] = [];
+    const exceeds = (type: TruckRouteRestriction['type'], value: number, description: string) => violations.push({
+      type,
+      value,
+      description: `${description} without an oversize/overweight permit`,
+      severity: 'restriction',
+      source: 'State_DOT',
+      stateCode
+    });
+
+    if (vehicle.height > limits.heightFt) {
+      exceeds('height', limits.heightFt, `Vehicle height ${vehicle.height}ft exceeds the ${state} limit of ${limits.heightFt}ft`);
+    }
+    if (vehicle.width > limits.widthFt) {
+      exceeds('width', limits.widthFt, `Vehicle width ${vehicle.width}ft exceeds the ${state} limit of ${limits.widthFt}ft`);
     }
 
-    // Check if route is on restricted roads list
-    const isRestricted = stateData.restrictedRoads.some(restrictedRoad => 
-      streetName.includes(restrictedRoad.toLowerCase()) ||
-      restrictedRoad.toLowerCase().includes(streetName)
-    );
+    // Trailers are limited individually; rigid vehicles by their overall length
+    const trailers = vehicle.trailers || [];
+    if (trailers.length > 0) {
+      const longest = Math.max(...trailers.map(trailer => trailer.length));
+      if (longest > limits.semitrailerLengthFt) {
+        exceeds('length', limits.semitrailerLengthFt, `Trailer length ${longest}ft exceeds the ${state} limit of ${limits.semitrailerLengthFt}ft`);
+      }
+    } else {
+      const isBus = VehicleClassificationService.classifyVehicle(vehicle).type === 'bus';
+      const maxLength = isBus ? limits.busLengthFt : limits.singleUnitLengthFt;
+      if (vehicle.length > maxLength) {
+        exceeds('length', maxLength, `${isBus ? 'Bus' : 'Vehicle'} length ${vehicle.length}ft exceeds the ${state} limit of ${maxLength}ft`);
+      }
+    }
 
-    if (isRestricted) {
-      violations.push({
-        type: 'commercial_ban',
-        description: `Road appears on ${state} restricted routes list for large vehicles`,
-        severity: 'restriction',
-        source: 'State_DOT'
-      });
+    const weightLbs = VehicleClassificationService.getGrossWeightLbs(vehicle);
+    if (weightLbs > limits.grossWeightLbs) {
+      exceeds('weight', limits.grossWeightLbs / 2000, `Gross weight ${Math.round(weightLbs).toLocaleString()} lb exceeds the ${state} limit of ${limits.grossWeightLbs.toLocaleString()} lb`);
     }
 
+    // Statewide restrictions with a threshold (located ones are checked per segment)
+    violations.push(...stateData.specialRestrictions.filter(restriction =>
+      !restriction.coordinates && restriction.value !== undefined && this.isViolatedBy(restriction, vehicle)
+    ));
+
     return violations;
   }
 
@@ -366,7 +437,7 @@ export class USTruckRoutingService {
     segment: { streetName: string; startLat: number; startLng: number },
     vehicle: Vehicle
   ): TruckRouteRestriction[] {
-    // Check against real-time FMCSA restrictions
+    // Check against real-time FMCSA restrictions near the segment that apply to this vehicle
     return this.realTimeRestrictions.filter(restriction => {
       if (restriction.coordinates) {
         // Check if segment is near restriction coordinates (within ~1 mile)
@@ -374,18 +445,28 @@ export class USTruckRoutingService {
           segment.startLat, segment.startLng,
           restriction.coordinates.lat, restriction.coordinates.lng
         );
-        return distance < 1; // within 1 mile
+        return distance < 1 && this.isViolatedBy(restriction, vehicle); // within 1 mile
       }
       return false;
     });
   }
 
-  private getStateFromCoordinates(lat: number, lng: number): string {
-    // Simplified state detection - in production, use proper geocoding
-    if (lat >= 29 && lat <= 33 && lng >= -94 && lng <= -89) return 'LA';
-    if (lat >= 25.5 && lat <= 36.5 && lng >= -106.5 && lng <= -93.5) return 'TX';
-    if (lat >= 40.5 && lat <= 45 && lng >= -79.5 && lng <= -71.5) return 'NY';
-    return 'UNKNOWN';
+  // Whether a restriction applies to the vehicle's dimensions, weight and cargo
+  private isViolatedBy(restriction: TruckRouteRestriction, vehicle: Vehicle): boolean {
+    if (restriction.type === 'hazmat') return vehicle.hazmatClass !== undefined;
+    if (restriction.value === undefined) return true;
+    switch (restriction.type) {
+      case 'height':
+        return vehicle.height > restriction.value;
+      case 'weight':
+        return VehicleClassificationService.getGrossWeightTons(vehicle) > restriction.value;
+      case 'length':
+        return vehicle.length > restriction.value;
+      case 'width':
+        return vehicle.width > restriction.value;
+      default:
+        return true;
+    }
   }
 
   private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
@@ -407,47 +488,47 @@ export class USTruckRoutingService {
     _vehicle: Vehicle
   ): string[] {
     const alternatives: string[] = [];
-    
+    const states = StateBoundaryService.getStatesAlong([origin, destination])
+      .map(state => this.stateRestrictions.get(state.code))
+      .filter((stateData): stateData is StateRestrictionData => stateData !== undefined);
+    const routes = Array.from(new Set(states.flatMap(stateData => stateData.approvedTruckRoutes)));
+    const interstates = routes.filter(route => route.startsWith('I-')).slice(0, 3);
+    const usHighways = routes.filter(route => route.startsWith('US-')).slice(0, 3);
+
     // Recommend National Network routes based on vehicle type
-    if (_vehicle.length >= 35) { // Large bus
-      alternatives.push('Prioritize Interstate highways (I-10, I-49, I-20)');
-      alternatives.push('Use US Highways for regional travel (US-90, US-165, US-167)');
+    const vehicleType = VehicleClassificationService.classifyVehicle(_vehicle).type;
+    if (vehicleType !== 'passenger' && vehicleType !== 'delivery') { // Large bus or truck
+      alternatives.push(`Prioritize Interstate highways${interstates.length > 0 ? ` (${interstates.join(', ')})` : ''}`);
+      alternatives.push(`Use US Highways for regional travel${usHighways.length > 0 ? ` (${usHighways.join(', ')})` : ''}`);
       alternatives.push('Avoid local roads and residential streets');
     }
-    
+
     // State-specific recommendations
-    const originState = this.getStateFromCoordinates(origin.lat, origin.lng);
-    const destState = this.getStateFromCoordinates(destination.lat, destination.lng);
-    
-    if (originState === 'NY' || destState === 'NY') {
-      alternatives.push('🚨 NEW YORK: Avoid ALL parkways - use I-95, I-87, I-84, or I-90 only');
-    }
-    
-    if (originState === 'LA' || destState === 'LA') {
-      alternatives.push('LOUISIANA: I-10 and I-49 are optimal for large vehicles');
-      alternatives.push('US-90 acceptable but monitor bridge clearances');
-    }
+    states.forEach(stateData => {
+      const stateInterstates = stateData.approvedTruckRoutes.filter(route => route.startsWith('I-')).slice(0, 4);
+      if (stateData.parkwayBans) {
+        alternatives.push(`🚨 ${stateData.state.toUpperCase()}: Avoid ALL parkways - use ${stateInterstates.join(', ')} only`);
+      }
+      const closedRoads = stateData.restrictedRoads.filter(road => road.severity === 'prohibition').map(road => road.name);
+      if (closedRoads.length > 0) {
+        alternatives.push(`${stateData.state.toUpperCase()}: ${closedRoads.join(', ')} ${closedRoads.length === 1 ? 'is' : 'are'} closed to commercial vehicles`);
+      }
+    });
 
     return alternatives;
   }
 
-  // Real-time 511 service integration (simplified)
+  /**
+   * Restrictions from the work zones in a state that are in place now, from the loaded
+   * WZDx feeds
+   */
   public async getRealTimeRestrictions(state: string): Promise<TruckRouteRestriction[]> {
-    console.log(`🚧 Checking real-time restrictions for ${state}...`);
-    
-    // In production, this would call state 511 APIs
-    // For now, simulate common real-time restrictions
-    
-    const mockRestrictions: TruckRouteRestriction[] = [
-      {
-        type: 'weight',
-        value: 25,
-        description: 'Temporary weight restriction due to bridge construction on I-10 near Lafayette',
-        severity: 'restriction',
-        source: 'State_DOT'
-      }
-    ];
-
-    return mockRestrictions;
+    await WorkZoneService.ensureLoaded();
+    const now = new Date();
+    const restrictions = WorkZoneService.getWorkZones()
+      .filter(zone => zone.stateCode === state.toUpperCase() && WorkZoneService.isActive(zone, now))
+      .flatMap(zone => WorkZoneService.toRestrictions(zone));
+    console.log(`🚧 ${restrictions.length} work zone restriction(s) in place in ${state}`);
+    return restrictions;
   }
 }
@@ -0,0 +1,169 @@
+import { Vehicle } from '../types';
+import { buildDirectionsResult, decodePolyline, ProviderRoute, ProviderStep } from '../utils/directionsBuilder';
+import { toDateTimeInputValue } from '../utils/tripTiming';
+import { RouteChunkingService } from './routeChunkingService';
+import { RoutingRequest } from './routingProvider';
+import { SelfHostedRoutingProvider } from './selfHostedRoutingProvider';
+import { VehicleClassificationService } from './vehicleClassificationService';
+
+const DEFAULT_VALHALLA_URL = 'http://localhost:8002';
+const FEET_TO_METERS = 0.3048;
+// Valhalla's default service limit is 20 locations per route request
+const MAX_WAYPOINTS = 18;
+
+interface ValhallaManeuver {
+  type: number;
+  instruction: string;
+  street_names?: string[];
+  length: number; // kilometers
+  time: number; // seconds
+  begin_shape_index: number;
+  end_shape_index: number;
+}
+
+interface ValhallaTrip {
+  legs: { shape: string; maneuvers: ValhallaManeuver[] }[];
+  summary: { length: number; time: number };
+  warnings?: { code: number; text: string }[];
+}
+
+interface ValhallaResponse {
+  trip: ValhallaTrip;
+  alternates?: { trip: ValhallaTrip }[];
+}
+
+// Valhalla maneuver type → Google Directions maneuver string
+const MANEUVER_TYPES: Record<number, string> = {
+  2: 'turn-right',
+  3: 'turn-left',
+  8: 'straight',
+  9: 'turn-slight-right',
+  10: 'turn-right',
+  11: 'turn-sharp-right',
+  12: 'uturn-right',
+  13: 'uturn-left',
+  14: 'turn-sharp-left',
+  15: 'turn-left',
+  16: 'turn-slight-left',
+  17: 'straight',
+  18: 'ramp-right',
+  19: 'ramp-left',
+  20: 'ramp-right',
+  21: 'ramp-left',
+  22: 'straight',
+  23: 'keep-right',
+  24: 'keep-left',
+  25: 'merge',
+  26: 'roundabout-right',
+  27: 'roundabout-right',
+  28: 'ferry'
+};
+
+/**
+ * Routing provider for a self-hosted Valhalla server using truck costing
+ * derived from the vehicle's dimensions and classification.
+ */
+export class ValhallaRoutingProvider extends SelfHostedRoutingProvider {
+  readonly id = 'valhalla' as const;
+  readonly name = 'Valhalla';
+  readonly description = 'Self-hosted Valhalla with truck-aware costing';
+
+  protected getBaseUrl(): string {
+    return (import.meta.env.VITE_VALHALLA_URL || DEFAULT_VALHALLA_URL).replace(/\/$/, '');
+  }
+
+  async getRoutes(request: RoutingRequest): Promise<google.maps.DirectionsResult> {
+    return RouteChunkingService.getRoutes(request, MAX_WAYPOINTS, chunk => this.requestRoutes(chunk));
+  }
+
+  private async requestRoutes(request: RoutingRequest): Promise<google.maps.DirectionsResult> {
+    const stops = await this.resolveStops(request);
+    const isTruck = !!request.vehicle &&
+      VehicleClassificationService.classifyVehicle(request.vehicle).type !== 'passenger';
+
+    const body = {
+      locations: stops.map(stop => ({ lat: stop.coordinates.lat, lon: stop.coordinates.lng, type: 'break' })),
+      costing: isTruck ? 'truck' : 'auto',
+      costing_options: {
+        [isTruck ? 'truck' : 'auto']: this.buildCostingOptions(request, request.vehicle)
+      },
+      units: 'kilometers',
+      alternates: 2,
+      // Type 1 is a departure in local time at the origin, not UTC
+      date_time: request.departureTime
+        ? { type: 1, value: toDateTimeInputValue(request.departureTime) }
+        : undefined
+    };
+
+    console.log('🚚 Requesting Valhalla route:', { costing: body.costing, locations: body.locations.length });
+
+    const response = await this.fetchJson<ValhallaResponse>(`${this.getBaseUrl()}/route`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    const trips = [response.trip, ...(response.alternates ?? []).map(alt => alt.trip)];
+    const labels = stops.map(stop => stop.label);
+    const routes = trips.map((trip, index) => this.toProviderRoute(trip, labels, index));
+
+    return buildDirectionsResult(routes, {
+      origin: request.origin,
+      destination: request.destination,
+      waypoints: labels.slice(1, -1).map(location => ({ location, stopover: true }))
+    });
+  }
+
+  private buildCostingOptions(request: RoutingRequest, vehicle?: Vehicle): Record<string, number> {
+    const options: Record<string, number> = {
+      use_highways: request.avoidHighways ? 0 : 1,
+      use_tolls: request.avoidTolls ? 0 : 0.5
+    };
+    if (!vehicle) return options;
+
+    const constraints = VehicleClassificationService.getRoutingConstraints(
+      VehicleClassificationService.classifyVehicle(vehicle)
+    );
+    return {
+      ...options,
+      height: Math.round(vehicle.height * FEET_TO_METERS * 100) / 100,
+      width: Math.round(vehicle.width * FEET_TO_METERS * 100) / 100,
+      length: Math.round(vehicle.length * FEET_TO_METERS * 100) / 100,
+      use_living_streets: constraints.avoidResidential ? 0 : 0.5,
+      maneuver_penalty: constraints.avoidSharpTurns ? 30 : 5
+    };
+  }
+
+  private toProviderRoute(trip: ValhallaTrip, labels: string[], index: number): ProviderRoute {
+    const allSteps: (ProviderStep & { streetName?: string })[] = [];
+
+    const legs = trip.legs.map((leg, legIndex) => {
+      const shape = decodePolyline(leg.shape, 6);
+      const steps = leg.maneuvers.map(maneuver => {
+        const step = {
+          instructions: maneuver.instruction,
+          distanceMeters: Math.round(maneuver.length * 1000),
+          durationSeconds: Math.round(maneuver.time),
+          path: shape.slice(maneuver.begin_shape_index, maneuver.end_shape_index + 1),
+          maneuver: MANEUVER_TYPES[maneuver.type],
+          streetName: maneuver.street_names?.[0]
+        };
+        allSteps.push(step);
+        return step;
+      });
+
+      return {
+        startAddress: labels[legIndex],
+        endAddress: labels[legIndex + 1],
+        steps
+      };
+    });
+
+    return {
+      summary: this.summarizeRoute(allSteps, `Valhalla Route ${index + 1}`),
+      legs,
+      warnings: trip.warnings?.map(w => w.text),
+      copyrights: 'Routing by Valhalla · Map data © OpenStreetMap contributors'
+    };
+  }
+}
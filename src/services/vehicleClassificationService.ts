@@ -1,12 +1,53 @@
-import { Vehicle, VehicleClass, RoutingConstraints } from '../types';
+import { HazmatClass, Vehicle, VehicleClass, RoutingConstraints } from '../types';
+
+export const HAZMAT_CLASS_NAMES: Record<HazmatClass, string> = {
+  1: 'Explosives',
+  2: 'Gases',
+  3: 'Flammable liquids',
+  4: 'Flammable solids',
+  5: 'Oxidizers and organic peroxides',
+  6: 'Toxic and infectious substances',
+  7: 'Radioactive material',
+  8: 'Corrosives',
+  9: 'Miscellaneous'
+};
+
+// Federal gross weight limit on the Interstate system without a permit
+export const FEDERAL_GROSS_WEIGHT_LIMIT_LBS = 80000;
+// Above this gross weight a commercial driver's license is required
+export const CDL_GROSS_WEIGHT_LBS = 26000;
+// Vehicles designed for this many passengers plus the driver are commercial buses
+const BUS_PASSENGER_CAPACITY = 15;
+
+// Typical loaded gross weights when the vehicle's own weight is not given
+const TYPICAL_GROSS_WEIGHT_LBS: Record<VehicleClass['type'], number> = {
+  passenger: 5000,
+  delivery: 16000,
+  bus: 36000,
+  truck: 33000,
+  oversized: FEDERAL_GROSS_WEIGHT_LIMIT_LBS
+};
 
 export class VehicleClassificationService {
   
+  /**
+   * Class from the vehicle's dimensions, refined by its specification when given: trailers
+   * make it a combination vehicle, seating 15 or more passengers makes it a bus, and a
+   * gross weight over the federal limit makes it oversized.
+   */
   static classifyVehicle(vehicle: Vehicle): VehicleClass {
     const { length, width, height } = vehicle;
+    const articulated = (vehicle.trailers?.length ?? 0) > 0;
+    const grossWeight = vehicle.grossWeightLbs ?? 0;
+    const busCapacity = (vehicle.passengerCapacity ?? 0) >= BUS_PASSENGER_CAPACITY;
+
+    // Overweight (permit) loads, whatever their size
+    if (grossWeight > FEDERAL_GROSS_WEIGHT_LIMIT_LBS) {
+      return this.oversizedClass();
+    }
     
     // Passenger Vehicle (cars, small vans)
-    if (length <= 20 && width <= 7 && height <= 7) {
+    if (!articulated && !busCapacity && grossWeight <= 10000 && length <= 20 && width <= 7 && height <= 7) {
       return {
         type: 'passenger',
         canMakeUTurns: true,
@@ -20,7 +61,7 @@ export class VehicleClassificationService {
     }
     
     // Delivery Vehicle (box trucks, delivery vans)
-    if (length <= 26 && width <= 8 && height <= 10) {
+    if (!articulated && !busCapacity && grossWeight <= CDL_GROSS_WEIGHT_LBS && length <= 26 && width <= 8 && height <= 10) {
       return {
         type: 'delivery',
         canMakeUTurns: length <= 22, // Smaller delivery vehicles can still U-turn
@@ -33,8 +74,8 @@ export class VehicleClassificationService {
       };
     }
     
-    // Bus (city bus, school bus, coach)
-    if (length >= 30 && length <= 45 && width <= 8.5) {
+    // Bus (city bus, school bus, coach); a vehicle with no seats is a truck whatever its length
+    if (!articulated && length <= 45 && width <= 8.5 && (busCapacity || (length >= 30 && vehicle.passengerCapacity !== 0))) {
       return {
         type: 'bus',
         canMakeUTurns: false, // Buses should NEVER make U-turns
@@ -48,7 +89,7 @@ export class VehicleClassificationService {
     }
     
     // Large Truck (semi-truck, large delivery)
-    if (length >= 35 || width >= 8.5 || height >= 12) {
+    if (articulated || length >= 35 || width >= 8.5 || height >= 12 || grossWeight > CDL_GROSS_WEIGHT_LBS) {
       return {
         type: 'truck',
         canMakeUTurns: false,
@@ -62,6 +103,10 @@ export class VehicleClassificationService {
     }
     
     // Oversized (anything larger)
+    return this.oversizedClass();
+  }
+
+  private static oversizedClass(): VehicleClass {
     return {
       type: 'oversized',
       canMakeUTurns: false,
@@ -74,6 +119,61 @@ export class VehicleClassificationService {
     };
   }
   
+  /**
+   * Gross vehicle weight in pounds: the vehicle's own figure, or a typical loaded weight
+   * for its class.
+   */
+  static getGrossWeightLbs(vehicle: Vehicle): number {
+    return vehicle.grossWeightLbs ?? TYPICAL_GROSS_WEIGHT_LBS[this.classifyVehicle(vehicle).type];
+  }
+
+  static getGrossWeightTons(vehicle: Vehicle): number {
+    return this.getGrossWeightLbs(vehicle) / 2000;
+  }
+
+  /**
+   * Whether the vehicle tows trailers. Without a trailer list, 50 ft and longer is
+   * taken to be a tractor-trailer.
+   */
+  static isArticulated(vehicle: Vehicle): boolean {
+    return vehicle.trailers ? vehicle.trailers.length > 0 : vehicle.length >= 50;
+  }
+
+  /**
+   * Inconsistencies in a vehicle specification, for the vehicle form to show.
+   */
+  static validateVehicle(vehicle: Vehicle): string[] {
+    const problems: string[] = [];
+    const { axleCount, axleSpacingFt, wheelbaseFt, frontOverhangFt = 0, rearOverhangFt = 0, trailers = [] } = vehicle;
+    if (axleCount !== undefined && axleCount < 2) {
+      problems.push('A vehicle needs at least 2 axles');
+    }
+    if (axleCount !== undefined && axleSpacingFt && axleSpacingFt.length > 0 && axleSpacingFt.length !== axleCount - 1) {
+      problems.push(`${axleCount} axles need ${axleCount - 1} spacings, not ${axleSpacingFt.length}`);
+    }
+    const trailerAxles = trailers.reduce((sum, trailer) => sum + (trailer.axleCount ?? 0), 0);
+    if (axleCount !== undefined && trailerAxles > 0 && trailerAxles + 2 > axleCount) {
+      problems.push(`Trailers have ${trailerAxles} axles, leaving too few for the power unit`);
+    }
+    const spannedLength = (wheelbaseFt ?? 0) + frontOverhangFt + rearOverhangFt +
+      trailers.reduce((sum, trailer) => sum + trailer.kingpinToAxleFt, 0);
+    if (wheelbaseFt !== undefined && spannedLength > vehicle.length + 0.5) {
+      problems.push(`Wheelbase, overhangs and trailer spans add up to ${Math.round(spannedLength)}ft, more than the ${vehicle.length}ft overall length`);
+    }
+    trailers.forEach((trailer, index) => {
+      if (trailer.kingpinToAxleFt > trailer.length) {
+        problems.push(`Trailer ${index + 1}: kingpin-to-axle distance is longer than the trailer`);
+      }
+    });
+    if (vehicle.grossWeightLbs !== undefined && vehicle.grossWeightLbs > FEDERAL_GROSS_WEIGHT_LIMIT_LBS) {
+      problems.push(`Gross weight is over the ${FEDERAL_GROSS_WEIGHT_LIMIT_LBS.toLocaleString()} lb federal limit; an overweight permit is required`);
+    }
+    if (vehicle.hazmatClass !== undefined && this.classifyVehicle(vehicle).type === 'bus') {
+      problems.push('Most hazardous materials may not be carried on a bus with passengers (49 CFR 177.870)');
+    }
+    return problems;
+  }
+
   static getRoutingConstraints(vehicleClass: VehicleClass): RoutingConstraints {
     return {
       avoidUTurns: !vehicleClass.canMakeUTurns,
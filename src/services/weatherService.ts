@@ -0,0 +1,441 @@
+import {
+  LatLngCoordinates,
+  NamedRiskFactor,
+  Route,
+  WeatherConditions,
+  WeatherHazard,
+  WeatherRiskFactor
+} from '../types';
+import { haversineMeters } from './osmRoadGraph';
+
+export type WeatherSourceKind = 'off' | 'nws' | 'file';
+
+export interface WeatherSourceConfig {
+  kind: WeatherSourceKind;
+  /** NWS API base URL, or the URL of a gridpoint JSON file for the file source */
+  url: string;
+}
+
+export interface WeatherStatus {
+  source: WeatherSourceConfig;
+  gridCount: number;
+  fileName?: string;
+  updatedAt?: string;
+  error?: string;
+}
+
+interface NwsLayer {
+  uom?: string;
+  values: { validTime: string; value: unknown }[];
+}
+
+interface NwsGridpoint {
+  id?: string;
+  geometry?: { type: string; coordinates: number[][][] } | null;
+  properties?: {
+    updateTime?: string;
+    windSpeed?: NwsLayer;
+    windGust?: NwsLayer;
+    windDirection?: NwsLayer;
+    quantitativePrecipitation?: NwsLayer;
+    visibility?: NwsLayer;
+    iceAccumulation?: NwsLayer;
+    weather?: NwsLayer;
+    hazards?: NwsLayer;
+  };
+}
+
+interface WeatherGrid {
+  key: string;
+  polygon: LatLngCoordinates[] | null;
+  conditions: (WeatherConditions & { severity: NamedRiskFactor['severity'] })[];
+  fetchedAt: number;
+}
+
+type WeatherListener = (status: WeatherStatus) => void;
+
+const STORAGE_KEY = 'acadia-weather-source';
+const DEFAULT_NWS_URL = 'https://api.weather.gov';
+const GRID_TTL = 60 * 60 * 1000;
+// Route points closer than this share one forecast lookup
+const SAMPLE_CELL_DEGREES = 0.05;
+const MAX_SAMPLES_PER_ROUTE = 40;
+const FACTOR_RADIUS_METERS = 5000;
+const FETCH_BATCH_SIZE = 4;
+
+const HAZARD_NAMES: Record<WeatherHazard, string> = {
+  wind: 'High wind',
+  rain: 'Heavy rain',
+  fog: 'Dense fog',
+  ice: 'Ice',
+  flood: 'Flooding'
+};
+
+/**
+ * Parse an NWS validTime ("2026-10-19T06:00:00+00:00/PT3H") into start and end times.
+ */
+function parseValidTime(validTime: string): { start: number; end: number } | null {
+  const [startText, durationText] = validTime.split('/');
+  const start = Date.parse(startText);
+  const duration = durationText?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (Number.isNaN(start) || !duration) return null;
+  const [, days, hours, minutes] = duration.map(part => Number(part) || 0);
+  return { start, end: start + ((days * 24 + hours) * 60 + minutes) * 60000 };
+}
+
+function toMph(value: number, uom = 'wmoUnit:km_h-1'): number {
+  if (uom.endsWith('m_s-1')) return value * 2.23694;
+  if (uom.endsWith(':kn')) return value * 1.15078;
+  return value * 0.621371;
+}
+
+function toMillimeters(value: number, uom = 'wmoUnit:mm'): number {
+  return uom.endsWith(':m') ? value * 1000 : value;
+}
+
+function valueAt(layer: NwsLayer | undefined, time: number): number | null {
+  const match = layer?.values.find(entry => {
+    const window = parseValidTime(entry.validTime);
+    return window && time >= window.start && time < window.end;
+  });
+  return typeof match?.value === 'number' ? match.value : null;
+}
+
+function pointInPolygon(point: LatLngCoordinates, polygon: LatLngCoordinates[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat) &&
+        point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Turns NWS-style gridpoint forecasts along a route into time-windowed 'weather' risk
+ * factors: high wind, heavy rain, dense fog, ice and flooding. Forecasts come from the
+ * NWS API or, for testing and offline use, from a local gridpoint JSON file.
+ */
+export class WeatherService {
+  private static source: WeatherSourceConfig = this.loadSource();
+  private static grids = new Map<string, WeatherGrid>();
+  // Sample-point cell -> grid key, so repeated lookups skip the NWS points endpoint
+  private static pointGrids = new Map<string, string>();
+  private static fileGrids: WeatherGrid[] = [];
+  private static fileName: string | undefined;
+  private static error: string | undefined;
+  private static listeners = new Set<WeatherListener>();
+
+  static getSource(): WeatherSourceConfig {
+    return this.source;
+  }
+
+  static setSource(source: WeatherSourceConfig): void {
+    this.source = source;
+    this.error = undefined;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(source));
+    this.notify();
+  }
+
+  static getStatus(): WeatherStatus {
+    const grids = this.source.kind === 'file' ? this.fileGrids : Array.from(this.grids.values());
+    const updatedAt = grids.reduce((latest, grid) => Math.max(latest, grid.fetchedAt), 0);
+    return {
+      source: this.source,
+      gridCount: this.source.kind === 'off' ? 0 : grids.length,
+      fileName: this.source.kind === 'file' ? this.fileName : undefined,
+      updatedAt: updatedAt > 0 ? new Date(updatedAt).toISOString() : undefined,
+      error: this.error
+    };
+  }
+
+  static subscribe(listener: WeatherListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Use a local gridpoint file (one NWS gridpoint response, or a FeatureCollection of
+   * them) as the weather source. A file without geometry applies to the whole route.
+   */
+  static loadFile(text: string, name: string): number {
+    const parsed = JSON.parse(text) as NwsGridpoint | { type: 'FeatureCollection'; features: NwsGridpoint[] };
+    const features = 'features' in parsed && Array.isArray(parsed.features) ? parsed.features : [parsed as NwsGridpoint];
+    const grids = features.map((feature, index) => this.parseGridpoint(feature, `${name}#${index}`));
+    if (grids.every(grid => grid.conditions.length === 0 && !grid.polygon)) {
+      throw new Error('No NWS gridpoint forecast layers found in the weather file');
+    }
+    this.fileGrids = grids;
+    this.fileName = name;
+    this.source = { ...this.source, kind: 'file' };
+    this.error = undefined;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.source));
+    console.log(`🌦️ Loaded ${grids.length} weather grid(s) from ${name}`);
+    this.notify();
+    return grids.length;
+  }
+
+  /**
+   * Fetch forecasts covering the routes. Failures are recorded in the status rather
+   * than thrown, so routes are still analyzed without weather.
+   */
+  static async prepareRoutes(routes: Route[]): Promise<void> {
+    if (this.source.kind === 'off') return;
+    try {
+      if (this.source.kind === 'file') {
+        if (this.fileGrids.length === 0 && this.source.url) {
+          const response = await fetch(this.source.url);
+          if (!response.ok) throw new Error(`Weather file request failed (${response.status})`);
+          this.loadFile(await response.text(), this.source.url.split('/').pop() || this.source.url);
+        }
+        return;
+      }
+
+      const cells = new Map<string, LatLngCoordinates>();
+      routes.forEach(route => this.samplePoints(route).forEach(point => cells.set(this.cellKey(point), point)));
+      const pending = Array.from(cells).filter(([cell]) => {
+        const grid = this.grids.get(this.pointGrids.get(cell) ?? '');
+        return !grid || Date.now() - grid.fetchedAt > GRID_TTL;
+      });
+      for (let i = 0; i < pending.length; i += FETCH_BATCH_SIZE) {
+        await Promise.all(pending.slice(i, i + FETCH_BATCH_SIZE).map(([cell, point]) => this.fetchNwsGrid(cell, point)));
+      }
+      this.error = undefined;
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : 'Weather request failed';
+      console.warn('⚠️ Weather unavailable:', this.error);
+    } finally {
+      this.notify();
+    }
+  }
+
+  /**
+   * Weather risk factors along a route from the forecasts already loaded, each placed at
+   * a sampled route point and active only during its forecast window.
+   */
+  static getRiskFactors(route: Route): WeatherRiskFactor[] {
+    if (this.source.kind === 'off') return [];
+    const factors: WeatherRiskFactor[] = [];
+    this.samplePoints(route).forEach(point => {
+      const grid = this.findGrid(point);
+      grid?.conditions.forEach(condition => {
+        const { severity, ...weather } = condition;
+        factors.push({
+          id: `wx-${grid.key}-${weather.hazard}-${weather.validFrom}-${this.cellKey(point)}`,
+          name: HAZARD_NAMES[weather.hazard],
+          description: this.describe(weather),
+          severity,
+          location: point,
+          type: 'weather',
+          impactRadius: FACTOR_RADIUS_METERS,
+          weather
+        });
+      });
+    });
+    return factors;
+  }
+
+  /**
+   * Wind component blowing across a road with the given bearing, in mph (gusts if known).
+   */
+  static getCrosswindMph(weather: WeatherConditions, bearingDeg: number): number {
+    const speed = Math.max(weather.windSpeedMph ?? 0, weather.windGustMph ?? 0);
+    if (weather.windDirectionDeg === undefined) return speed;
+    const angle = ((weather.windDirectionDeg - bearingDeg) * Math.PI) / 180;
+    return Math.abs(Math.sin(angle)) * speed;
+  }
+
+  private static loadSource(): WeatherSourceConfig {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      if (stored) return JSON.parse(stored) as WeatherSourceConfig;
+    } catch (error) {
+      console.warn('Ignoring stored weather source:', error);
+    }
+    const kind = (import.meta.env?.VITE_WEATHER_SOURCE as WeatherSourceKind | undefined) ?? 'off';
+    const url = import.meta.env?.VITE_WEATHER_URL || (kind === 'nws' ? DEFAULT_NWS_URL : '');
+    return { kind, url };
+  }
+
+  private static notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  private static cellKey(point: LatLngCoordinates): string {
+    return `${Math.floor(point.lat / SAMPLE_CELL_DEGREES)},${Math.floor(point.lng / SAMPLE_CELL_DEGREES)}`;
+  }
+
+  /**
+   * Segment midpoints, one per sample cell, thinned evenly to MAX_SAMPLES_PER_ROUTE.
+   */
+  private static samplePoints(route: Route): LatLngCoordinates[] {
+    const byCell = new Map<string, LatLngCoordinates>();
+    route.segments.forEach(segment => {
+      const midpoint = { lat: (segment.startLat + segment.endLat) / 2, lng: (segment.startLng + segment.endLng) / 2 };
+      const key = this.cellKey(midpoint);
+      if (!byCell.has(key)) byCell.set(key, midpoint);
+    });
+    const points = Array.from(byCell.values());
+    if (points.length <= MAX_SAMPLES_PER_ROUTE) return points;
+    return Array.from({ length: MAX_SAMPLES_PER_ROUTE }, (_, i) =>
+      points[Math.floor((i * points.length) / MAX_SAMPLES_PER_ROUTE)]);
+  }
+
+  private static findGrid(point: LatLngCoordinates): WeatherGrid | undefined {
+    if (this.source.kind === 'nws') {
+      return this.grids.get(this.pointGrids.get(this.cellKey(point)) ?? '');
+    }
+    const containing = this.fileGrids.find(grid => grid.polygon && pointInPolygon(point, grid.polygon));
+    if (containing) return containing;
+    // Files without geometry stand in for the weather everywhere along the route
+    return this.fileGrids.find(grid => !grid.polygon) ??
+      this.fileGrids.find(grid => grid.polygon && haversineMeters(point, grid.polygon[0]) < FACTOR_RADIUS_METERS);
+  }
+
+  private static async fetchNwsGrid(cell: string, point: LatLngCoordinates): Promise<void> {
+    const base = (this.source.url || DEFAULT_NWS_URL).replace(/\/$/, '');
+    const pointResponse = await fetch(`${base}/points/${point.lat.toFixed(4)},${point.lng.toFixed(4)}`, {
+      headers: { Accept: 'application/geo+json' }
+    });
+    if (!pointResponse.ok) {
+      throw new Error(`NWS points request failed (${pointResponse.status}) at ${point.lat.toFixed(3)},${point.lng.toFixed(3)}`);
+    }
+    const pointData = await pointResponse.json() as { properties?: { forecastGridData?: string } };
+    const gridUrl = pointData.properties?.forecastGridData;
+    if (!gridUrl) throw new Error('NWS points response has no forecastGridData link');
+
+    const cached = this.grids.get(gridUrl);
+    if (!cached || Date.now() - cached.fetchedAt > GRID_TTL) {
+      const gridResponse = await fetch(gridUrl, { headers: { Accept: 'application/geo+json' } });
+      if (!gridResponse.ok) throw new Error(`NWS gridpoint request failed (${gridResponse.status})`);
+      this.grids.set(gridUrl, this.parseGridpoint(await gridResponse.json() as NwsGridpoint, gridUrl));
+    }
+    this.pointGrids.set(cell, gridUrl);
+  }
+
+  private static parseGridpoint(gridpoint: NwsGridpoint, key: string): WeatherGrid {
+    const properties = gridpoint.properties ?? {};
+    const ring = gridpoint.geometry?.type === 'Polygon' ? gridpoint.geometry.coordinates[0] : null;
+    const conditions: WeatherGrid['conditions'] = [];
+    const add = (
+      hazard: WeatherHazard,
+      window: { start: number; end: number },
+      severity: NamedRiskFactor['severity'],
+      values: Partial<WeatherConditions> = {}
+    ) => {
+      // Extend the previous window when the same hazard continues at the same severity
+      const previous = conditions[conditions.length - 1];
+      if (previous && previous.hazard === hazard && previous.severity === severity && Date.parse(previous.validTo) === window.start) {
+        previous.validTo = new Date(window.end).toISOString();
+        const peak = (a?: number, b?: number) => (a === undefined ? b : b === undefined ? a : Math.max(a, b));
+        previous.windSpeedMph = peak(previous.windSpeedMph, values.windSpeedMph);
+        previous.windGustMph = peak(previous.windGustMph, values.windGustMph);
+        previous.precipitationInPerHour = peak(previous.precipitationInPerHour, values.precipitationInPerHour);
+        previous.iceInches = peak(previous.iceInches, values.iceInches);
+        if (values.visibilityMiles !== undefined) {
+          previous.visibilityMiles = Math.min(previous.visibilityMiles ?? Infinity, values.visibilityMiles);
+        }
+        return;
+      }
+      conditions.push({
+        hazard,
+        severity,
+        validFrom: new Date(window.start).toISOString(),
+        validTo: new Date(window.end).toISOString(),
+        ...values
+      });
+    };
+
+    properties.windSpeed?.values.forEach(entry => {
+      const window = parseValidTime(entry.validTime);
+      if (!window || typeof entry.value !== 'number') return;
+      const speed = toMph(entry.value, properties.windSpeed!.uom);
+      const gustValue = valueAt(properties.windGust, window.start);
+      const gust = gustValue === null ? undefined : toMph(gustValue, properties.windGust!.uom);
+      const peak = Math.max(speed, gust ?? 0);
+      if (peak < 25) return;
+      add('wind', window, peak >= 45 ? 'high' : peak >= 35 ? 'medium' : 'low', {
+        windSpeedMph: Math.round(speed),
+        windGustMph: gust === undefined ? undefined : Math.round(gust),
+        windDirectionDeg: valueAt(properties.windDirection, window.start) ?? undefined
+      });
+    });
+
+    properties.quantitativePrecipitation?.values.forEach(entry => {
+      const window = parseValidTime(entry.validTime);
+      if (!window || typeof entry.value !== 'number') return;
+      const hours = (window.end - window.start) / 3600000;
+      const inchesPerHour = toMillimeters(entry.value, properties.quantitativePrecipitation!.uom) / 25.4 / Math.max(hours, 1 / 60);
+      if (inchesPerHour < 0.1) return;
+      add('rain', window, inchesPerHour >= 0.3 ? 'high' : 'medium', {
+        precipitationInPerHour: Math.round(inchesPerHour * 100) / 100
+      });
+    });
+
+    properties.visibility?.values.forEach(entry => {
+      const window = parseValidTime(entry.validTime);
+      if (!window || typeof entry.value !== 'number') return;
+      const miles = toMillimeters(entry.value, properties.visibility!.uom) / 1609344;
+      if (miles >= 1) return;
+      add('fog', window, miles < 0.25 ? 'high' : 'medium', { visibilityMiles: Math.round(miles * 100) / 100 });
+    });
+
+    properties.iceAccumulation?.values.forEach(entry => {
+      const window = parseValidTime(entry.validTime);
+      if (!window || typeof entry.value !== 'number' || entry.value <= 0) return;
+      add('ice', window, 'high', { iceInches: Math.round((toMillimeters(entry.value, properties.iceAccumulation!.uom) / 25.4) * 100) / 100 });
+    });
+
+    properties.weather?.values.forEach(entry => {
+      const window = parseValidTime(entry.validTime);
+      if (!window || !Array.isArray(entry.value)) return;
+      (entry.value as { weather?: string | null }[]).forEach(({ weather }) => {
+        if (weather === 'freezing_rain' || weather === 'freezing_drizzle' || weather === 'freezing_spray') {
+          add('ice', window, 'high');
+        } else if (weather === 'fog' && !properties.visibility) {
+          add('fog', window, 'medium');
+        }
+      });
+    });
+
+    properties.hazards?.values.forEach(entry => {
+      const window = parseValidTime(entry.validTime);
+      if (!window || !Array.isArray(entry.value)) return;
+      (entry.value as { phenomenon?: string; significance?: string }[]).forEach(({ phenomenon, significance }) => {
+        // Areal flood (FA), flash flood (FF) and river flood (FL) warnings, watches and advisories
+        if (phenomenon !== 'FA' && phenomenon !== 'FF' && phenomenon !== 'FL') return;
+        add('flood', window, significance === 'W' ? 'high' : significance === 'A' ? 'medium' : 'low');
+      });
+    });
+
+    conditions.sort((a, b) => Date.parse(a.validFrom) - Date.parse(b.validFrom));
+    return {
+      key,
+      polygon: ring ? ring.map(([lng, lat]) => ({ lat, lng })) : null,
+      conditions,
+      fetchedAt: properties.updateTime ? Date.parse(properties.updateTime) || Date.now() : Date.now()
+    };
+  }
+
+  private static describe(weather: WeatherConditions): string {
+    switch (weather.hazard) {
+      case 'wind':
+        return `Wind ${weather.windSpeedMph} mph${weather.windGustMph ? `, gusts ${weather.windGustMph} mph` : ''}` +
+          (weather.windDirectionDeg !== undefined ? ` from ${Math.round(weather.windDirectionDeg)}°` : '');
+      case 'rain':
+        return `Rain ${weather.precipitationInPerHour} in/hr`;
+      case 'fog':
+        return weather.visibilityMiles !== undefined ? `Visibility ${weather.visibilityMiles} mi` : 'Fog forecast';
+      case 'ice':
+        return weather.iceInches ? `Ice accumulation ${weather.iceInches} in` : 'Freezing rain forecast';
+      case 'flood':
+        return 'Flood watch or warning in effect';
+    }
+  }
+}
@@ -0,0 +1,480 @@
+import { LatLngCoordinates, Route, RouteSegment, TruckRouteRestriction, Vehicle, WorkZone, WorkZoneLane, WorkZoneRestriction, WorkZoneRiskFactor } from '../types';
+import { StateBoundaryService } from './stateBoundaryService';
+import { VehicleClassificationService } from './vehicleClassificationService';
+import { bearingDegrees, haversineMeters } from './osmRoadGraph';
+import { bearingDifference, distanceToEdge, getPathBounds, getRouteGeometry, getSegmentPath, samplePath } from '../utils/routeGeometry';
+
+export interface WorkZoneFeedInfo {
+  id: string; // Feed URL, or file name for an imported file
+  name: string; // Publisher named by the feed, or the file name
+  url?: string;
+  updatedAt?: string; // The feed's own update_date
+  fetchedAt: string;
+  workZoneCount: number;
+  error?: string; // Set when the last refresh failed; the previous work zones are kept
+}
+
+export type FeedFreshness = 'fresh' | 'aging' | 'stale' | 'unknown';
+
+interface WorkZoneFeed {
+  info: WorkZoneFeedInfo;
+  zones: WorkZone[];
+}
+
+// A restriction and the vehicles it applies to
+interface ZoneRestriction {
+  restriction: TruckRouteRestriction;
+  appliesTo: (vehicle: Vehicle) => boolean;
+}
+
+type WorkZoneListener = (feeds: WorkZoneFeedInfo[]) => void;
+
+// Feed URLs added in the panel, restored on the next visit
+const STORAGE_KEY = 'acadia-wzdx-feeds';
+// A feed updated within this many minutes is fresh, within STALE_HOURS aging, then stale
+const FRESH_MINUTES = 60;
+const STALE_HOURS = 24;
+// A route point this close to a work zone's geometry passes through it
+const MATCH_RADIUS_METERS = 30;
+// ...when the work zone runs within this many degrees of the route (either way)
+const MAX_BEARING_DIFFERENCE = 30;
+// Route geometry is checked at this spacing
+const SAMPLE_METERS = 50;
+// Grid cell size for the work zone index; one cell covers well over MATCH_RADIUS_METERS
+const CELL_DEGREES = 0.01;
+const KPH_PER_MPH = 1.609344;
+
+// Severity of the construction risk factor for each WZDx vehicle_impact
+const IMPACT_SEVERITY: Record<string, WorkZoneRiskFactor['severity']> = {
+  'all-lanes-closed': 'high',
+  'some-lanes-closed': 'medium',
+  'some-lanes-closed-merge-left': 'medium',
+  'some-lanes-closed-merge-right': 'medium',
+  'some-lanes-closed-split': 'medium',
+  'alternating-one-way': 'high',
+  'all-lanes-open-shift-left': 'low',
+  'all-lanes-open-shift-right': 'low',
+  'all-lanes-open': 'low'
+};
+
+// Conversions of WZDx restriction units to feet and to short tons
+const FEET_PER_UNIT: Record<string, number> = { feet: 1, inches: 1 / 12, meters: 3.28084, centimeters: 0.0328084 };
+const TONS_PER_UNIT: Record<string, number> = { pounds: 1 / 2000, tons: 1, kilograms: 1 / 907.185, 'metric-tons': 1.10231 };
+
+const DIMENSION_RESTRICTIONS: Record<string, 'height' | 'width' | 'length'> = {
+  'reduced-height': 'height',
+  'reduced-width': 'width',
+  'reduced-length': 'length'
+};
+
+type JsonObject = Record<string, unknown>;
+
+const asObject = (value: unknown): JsonObject => (value && typeof value === 'object' ? value as JsonObject : {});
+const asString = (value: unknown): string | undefined => (typeof value === 'string' && value !== '' ? value : undefined);
+const asNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Each zone is indexed in every cell its edges' bounding boxes touch
+function buildGrid(zones: WorkZone[]): Map<string, number[]> {
+  const grid = new Map<string, number[]>();
+  zones.forEach((zone, zoneIndex) => {
+    zone.path.forEach((b, i) => {
+      const a = zone.path[Math.max(0, i - 1)];
+      for (let lat = Math.floor(Math.min(a.lat, b.lat) / CELL_DEGREES); lat <= Math.floor(Math.max(a.lat, b.lat) / CELL_DEGREES); lat++) {
+        for (let lng = Math.floor(Math.min(a.lng, b.lng) / CELL_DEGREES); lng <= Math.floor(Math.max(a.lng, b.lng) / CELL_DEGREES); lng++) {
+          const key = `${lat},${lng}`;
+          const cell = grid.get(key);
+          if (!cell) grid.set(key, [zoneIndex]);
+          else if (cell[cell.length - 1] !== zoneIndex) cell.push(zoneIndex);
+        }
+      }
+    });
+  });
+  return grid;
+}
+
+function toPath(geometry: JsonObject): LatLngCoordinates[] {
+  const coordinates = geometry.coordinates;
+  const points = geometry.type === 'LineString' || geometry.type === 'MultiPoint' ? coordinates as number[][]
+    : geometry.type === 'MultiLineString' ? (coordinates as number[][][]).flat()
+    : [];
+  return (Array.isArray(points) ? points : [])
+    .filter(point => Array.isArray(point) && Number.isFinite(point[0]) && Number.isFinite(point[1]))
+    .map(([lng, lat]) => ({ lat, lng }));
+}
+
+// WZDx 4.x restrictions are { type, value, unit }; 3.x lane restrictions use restriction_* names
+function toRestriction(value: unknown): WorkZoneRestriction | null {
+  const restriction = asObject(value);
+  const type = asString(restriction.type) ?? asString(restriction.restriction_type);
+  if (!type) return null;
+  return {
+    type,
+    value: asNumber(restriction.value ?? restriction.restriction_value),
+    unit: asString(restriction.unit) ?? asString(restriction.restriction_units)
+  };
+}
+
+function describeZone(zone: WorkZone): string {
+  const closed = zone.lanes.filter(lane => lane.status === 'closed' && lane.type !== 'shoulder').length;
+  const parts = [zone.description || zone.vehicleImpact.replace(/-/g, ' ')];
+  if (closed > 0) parts.push(`${closed} of ${zone.lanes.filter(lane => lane.type !== 'shoulder').length} lanes closed`);
+  if (zone.reducedSpeedLimitMph) parts.push(`${zone.reducedSpeedLimitMph} mph`);
+  zone.restrictions.forEach(restriction => parts.push(
+    `${restriction.type.replace(/-/g, ' ')}${restriction.value !== undefined ? ` ${restriction.value}${restriction.unit ? ` ${restriction.unit}` : ''}` : ''}`
+  ));
+  return parts.join('; ');
+}
+
+/**
+ * Work zones from USDOT Work Zone Data Exchange (WZDx) GeoJSON feeds, fetched from
+ * configured URLs or imported from files. Each zone is time-bounded and matched to
+ * route segments by its geometry, as a construction risk factor and as restrictions.
+ */
+export class WorkZoneService {
+  private static feeds = new Map<string, WorkZoneFeed>();
+  private static zones: WorkZone[] = [];
+  private static grid = new Map<string, number[]>();
+  private static loadedUrls = new Set<string>();
+  private static listeners = new Set<WorkZoneListener>();
+
+  static getFeeds(): WorkZoneFeedInfo[] {
+    return Array.from(this.feeds.values()).map(feed => feed.info);
+  }
+
+  static getWorkZones(): WorkZone[] {
+    return this.zones;
+  }
+
+  static subscribe(listener: WorkZoneListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add or replace a feed from WZDx GeoJSON. Work zone and restriction road events are
+   * kept; detours and events without line geometry are skipped.
+   */
+  static loadFile(text: string, name: string, url?: string): number {
+    let data: JsonObject;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Work zone feed is not valid JSON');
+    }
+    if (!Array.isArray(data.features)) {
+      throw new Error('Work zone feed is not a GeoJSON FeatureCollection');
+    }
+
+    const id = url ?? name;
+    // 4.x has feed_info; 3.x has road_event_feed_info
+    const feedInfo = asObject(data.feed_info ?? data.road_event_feed_info);
+    const zones = (data.features as unknown[])
+      .map((feature, index) => this.toWorkZone(asObject(feature), id, index))
+      .filter((zone): zone is WorkZone => zone !== null);
+
+    this.feeds.set(id, {
+      info: {
+        id,
+        name: asString(feedInfo.publisher) ?? name,
+        url,
+        updatedAt: asString(feedInfo.update_date) ?? asString(feedInfo.feed_update_date),
+        fetchedAt: new Date().toISOString(),
+        workZoneCount: zones.length
+      },
+      zones
+    });
+    this.reindex();
+    this.notify();
+    console.log(`🚧 Loaded ${zones.length} work zones from ${name}`);
+    return zones.length;
+  }
+
+  /**
+   * Fetch a feed URL and keep it, so it is fetched again on the next visit
+   */
+  static async addFeedUrl(url: string): Promise<number> {
+    const count = await this.fetchFeed(url);
+    this.saveUrls();
+    return count;
+  }
+
+  static removeFeed(id: string): void {
+    this.feeds.delete(id);
+    this.loadedUrls.delete(id);
+    this.reindex();
+    this.saveUrls();
+    this.notify();
+  }
+
+  /**
+   * Fetch every feed that has a URL again. A failed refresh is recorded on the feed and
+   * its previous work zones are kept.
+   */
+  static async refresh(): Promise<void> {
+    const urls = this.getFeeds().filter(feed => feed.url).map(feed => feed.url!);
+    for (const url of urls) {
+      try {
+        await this.fetchFeed(url);
+      } catch (error) {
+        const feed = this.feeds.get(url);
+        if (feed) feed.info = { ...feed.info, error: error instanceof Error ? error.message : 'Refresh failed' };
+        this.notify();
+        console.error(`Failed to refresh work zone feed ${url}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Fetch the feeds configured with VITE_WZDX_FEED_URLS (comma-separated) and the ones
+   * added in the panel, once each. Failures are logged and the other feeds still load.
+   */
+  static async ensureLoaded(): Promise<void> {
+    const configured = ((import.meta.env?.VITE_WZDX_FEED_URLS as string | undefined) ?? '').split(',').map(url => url.trim());
+    const urls = Array.from(new Set([...configured, ...this.getSavedUrls()])).filter(url => url && !this.loadedUrls.has(url));
+    await Promise.all(urls.map(url => this.fetchFeed(url).catch(error => console.error(`Failed to load work zone feed ${url}:`, error))));
+  }
+
+  /**
+   * How recently the feed's publisher updated it
+   */
+  static getFreshness(feed: WorkZoneFeedInfo, now: Date = new Date()): FeedFreshness {
+    const updated = feed.updatedAt ? Date.parse(feed.updatedAt) : NaN;
+    if (!Number.isFinite(updated)) return 'unknown';
+    const minutes = (now.getTime() - updated) / 60000;
+    if (minutes <= FRESH_MINUTES) return 'fresh';
+    return minutes <= STALE_HOURS * 60 ? 'aging' : 'stale';
+  }
+
+  static isActive(zone: WorkZone, at: Date): boolean {
+    return at.getTime() >= Date.parse(zone.startDate) && (!zone.endDate || at.getTime() < Date.parse(zone.endDate));
+  }
+
+  /**
+   * Work zones near the route's geometry as construction risk factors; whether one is
+   * on a given segment and active when it is passed is decided per segment.
+   */
+  static getRiskFactors(route: Route): WorkZoneRiskFactor[] {
+    const bounds = getPathBounds(getRouteGeometry(route));
+    if (!bounds) return [];
+    const margin = MATCH_RADIUS_METERS / 111320;
+    const [south, north, west, east] = [bounds.south - margin, bounds.north + margin, bounds.west - margin * 2, bounds.east + margin * 2];
+
+    return this.getWorkZones()
+      .filter(zone => zone.path.some(point => point.lat >= south && point.lat <= north && point.lng >= west && point.lng <= east))
+      .map(zone => ({
+        id: `wzdx-${zone.feedId}-${zone.id}`,
+        name: `Work zone${zone.roadNames.length > 0 ? ` on ${zone.roadNames.join(' / ')}` : ''}`,
+        description: describeZone(zone),
+        severity: IMPACT_SEVERITY[zone.vehicleImpact] ?? 'medium',
+        location: zone.path[Math.floor(zone.path.length / 2)],
+        type: 'construction',
+        impactRadius: MATCH_RADIUS_METERS,
+        workZone: zone
+      }));
+  }
+
+  /**
+   * Whether the segment runs through the work zone: a point of the segment lies close to
+   * the zone's geometry and heads the same way, so crossings and overpasses do not count.
+   */
+  static isOnSegment(zone: WorkZone, segment: RouteSegment): boolean {
+    const path = getSegmentPath(segment);
+    const segmentBounds = getPathBounds(path);
+    const zoneBounds = getPathBounds(zone.path);
+    if (!segmentBounds || !zoneBounds) return false;
+    // Zones nowhere near the segment's bounding box are skipped before any sampling; the
+    // longitude margin is tripled so it still covers the radius up to 70° north
+    const margin = MATCH_RADIUS_METERS / 111320;
+    if (zoneBounds.south > segmentBounds.north + margin || zoneBounds.north < segmentBounds.south - margin ||
+        zoneBounds.west > segmentBounds.east + margin * 3 || zoneBounds.east < segmentBounds.west - margin * 3) {
+      return false;
+    }
+
+    const zoneEdges = zone.path.slice(1).map((point, i) => ({ from: zone.path[i], to: point, bearing: bearingDegrees(zone.path[i], point) }));
+    // A zone given as a single point (or MultiPoint start and end) has no direction
+    if (zoneEdges.length === 0) {
+      return path.some(point => haversineMeters(point, zone.path[0]) <= MATCH_RADIUS_METERS);
+    }
+    return samplePath(path, SAMPLE_METERS).some(sample => zoneEdges.some(edge =>
+      distanceToEdge(sample.point, edge.from, edge.to) <= MATCH_RADIUS_METERS &&
+      bearingDifference(sample.bearing, edge.bearing) <= MAX_BEARING_DIFFERENCE
+    ));
+  }
+
+  /**
+   * Work zones the segment runs through that are in place at the given time
+   */
+  static findZonesOnSegment(segment: RouteSegment, at: Date): WorkZone[] {
+    const bounds = getPathBounds(getSegmentPath(segment));
+    if (!bounds || this.zones.length === 0) return [];
+
+    // Neighbouring cells are included so zones just across a cell edge are still found
+    const candidates = new Set<number>();
+    for (let lat = Math.floor(bounds.south / CELL_DEGREES) - 1; lat <= Math.floor(bounds.north / CELL_DEGREES) + 1; lat++) {
+      for (let lng = Math.floor(bounds.west / CELL_DEGREES) - 1; lng <= Math.floor(bounds.east / CELL_DEGREES) + 1; lng++) {
+        this.grid.get(`${lat},${lng}`)?.forEach(index => candidates.add(index));
+      }
+    }
+    return Array.from(candidates)
+      .sort((a, b) => a - b)
+      .map(index => this.zones[index])
+      .filter(zone => this.isActive(zone, at) && this.isOnSegment(zone, segment));
+  }
+
+  /**
+   * The zone's closure and vehicle restrictions as time-bounded restrictions; with a
+   * vehicle, only the ones that apply to it.
+   */
+  static toRestrictions(zone: WorkZone, vehicle?: Vehicle): TruckRouteRestriction[] {
+    const base = {
+      source: 'WZDx' as const,
+      coordinates: zone.path[Math.floor(zone.path.length / 2)],
+      stateCode: zone.stateCode,
+      workZoneId: zone.id,
+      validFrom: zone.startDate,
+      validTo: zone.endDate
+    };
+    const where = `work zone${zone.roadNames.length > 0 ? ` on ${zone.roadNames.join(' / ')}` : ''}`;
+    const isCommercial = (v: Vehicle) => VehicleClassificationService.classifyVehicle(v).type !== 'passenger';
+    const restrictions: ZoneRestriction[] = [];
+
+    if (zone.vehicleImpact === 'all-lanes-closed') {
+      restrictions.push({
+        restriction: { ...base, type: 'closure', description: `All lanes closed in ${where}`, severity: 'prohibition' },
+        appliesTo: () => true
+      });
+    }
+
+    zone.restrictions.forEach(({ type, value, unit }) => {
+      const dimension = DIMENSION_RESTRICTIONS[type];
+      // Narrowed lanes and lowered clearances physically stop a vehicle that does not fit
+      if (dimension && value !== undefined) {
+        const feet = Math.round(value * (FEET_PER_UNIT[unit ?? 'feet'] ?? 1) * 10) / 10;
+        restrictions.push({
+          restriction: { ...base, type: dimension, value: feet, description: `${dimension[0].toUpperCase()}${dimension.slice(1)} limited to ${feet}ft in ${where}`, severity: 'prohibition' },
+          appliesTo: v => v[dimension] > feet
+        });
+      } else if ((type === 'reduced-weight' || type === 'gross-weight-limit') && value !== undefined) {
+        const tons = Math.round(value * (TONS_PER_UNIT[unit ?? 'tons'] ?? 1) * 10) / 10;
+        restrictions.push({
+          restriction: { ...base, type: 'weight', value: tons, description: `Gross weight limited to ${tons} tons in ${where}`, severity: 'restriction' },
+          appliesTo: v => VehicleClassificationService.getGrossWeightTons(v) > tons
+        });
+      } else if (type === 'no-trucks') {
+        restrictions.push({
+          restriction: { ...base, type: 'commercial_ban', description: `Trucks prohibited in ${where}`, severity: 'prohibition' },
+          appliesTo: isCommercial
+        });
+      } else if (type === 'permitted-oversize-loads-prohibited') {
+        restrictions.push({
+          restriction: { ...base, type: 'commercial_ban', description: `Permitted oversize loads prohibited in ${where}`, severity: 'prohibition' },
+          appliesTo: v => VehicleClassificationService.classifyVehicle(v).type === 'oversized'
+        });
+      } else if (type === 'towing-prohibited') {
+        restrictions.push({
+          restriction: { ...base, type: 'commercial_ban', description: `Towing prohibited in ${where}`, severity: 'prohibition' },
+          appliesTo: v => (v.trailers?.length ?? 0) > 0
+        });
+      }
+    });
+
+    return restrictions
+      .filter(({ appliesTo }) => !vehicle || appliesTo(vehicle))
+      .map(({ restriction }) => restriction);
+  }
+
+  private static async fetchFeed(url: string): Promise<number> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Work zone feed request failed (${response.status})`);
+    const count = this.loadFile(await response.text(), url.split('/').pop() || url, url);
+    this.loadedUrls.add(url);
+    return count;
+  }
+
+  private static toWorkZone(feature: JsonObject, feedId: string, index: number): WorkZone | null {
+    const properties = asObject(feature.properties);
+    // 4.x nests the shared fields in core_details; 3.x has them on the properties
+    const core = { ...properties, ...asObject(properties.core_details) };
+    const eventType = asString(core.event_type) ?? 'work-zone';
+    if (eventType !== 'work-zone' && eventType !== 'restriction') return null;
+
+    const path = toPath(asObject(feature.geometry));
+    const startDate = asString(properties.start_date);
+    if (path.length === 0 || !startDate || !Number.isFinite(Date.parse(startDate))) return null;
+
+    const lanes: WorkZoneLane[] = (Array.isArray(properties.lanes) ? properties.lanes : []).map((value, i) => {
+      const lane = asObject(value);
+      return { order: asNumber(lane.order) ?? i + 1, type: asString(lane.type) ?? 'general', status: asString(lane.status) ?? 'open' };
+    });
+    const laneRestrictions = (Array.isArray(properties.lanes) ? properties.lanes : []).flatMap(value => {
+      const lane = asObject(value);
+      const list = lane.restrictions ?? lane.lane_restrictions;
+      return Array.isArray(list) ? list : [];
+    });
+    const roadRestrictions = Array.isArray(properties.restrictions) ? properties.restrictions : [];
+    const restrictions = [...roadRestrictions, ...laneRestrictions]
+      .map(toRestriction)
+      .filter((restriction): restriction is WorkZoneRestriction => restriction !== null)
+      // The same restriction on several lanes is listed once
+      .filter((restriction, i, all) => all.findIndex(other => other.type === restriction.type && other.value === restriction.value) === i);
+
+    const roadNames = Array.isArray(core.road_names) ? core.road_names.filter((name): name is string => typeof name === 'string')
+      : asString(core.road_name) ? [core.road_name as string] : [];
+    const speedKph = asNumber(properties.reduced_speed_limit_kph);
+    const speedMph = asNumber(properties.reduced_speed_limit);
+
+    return {
+      id: asString(feature.id) ?? asString(properties.road_event_id) ?? `event-${index + 1}`,
+      feedId,
+      roadNames,
+      direction: asString(core.direction),
+      description: asString(core.description),
+      startDate: new Date(startDate).toISOString(),
+      endDate: asString(properties.end_date) && Number.isFinite(Date.parse(properties.end_date as string))
+        ? new Date(properties.end_date as string).toISOString()
+        : undefined,
+      vehicleImpact: asString(properties.vehicle_impact) ?? (eventType === 'restriction' ? 'all-lanes-open' : 'unknown'),
+      lanes,
+      restrictions,
+      reducedSpeedLimitMph: speedKph !== undefined ? Math.round(speedKph / KPH_PER_MPH) : speedMph,
+      stateCode: StateBoundaryService.getStateAt(path[0].lat, path[0].lng)?.code,
+      path
+    };
+  }
+
+  private static getSavedUrls(): string[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const urls = stored ? JSON.parse(stored) : [];
+      return Array.isArray(urls) ? urls.filter((url): url is string => typeof url === 'string') : [];
+    } catch (error) {
+      console.error('Failed to read saved work zone feeds:', error);
+      return [];
+    }
+  }
+
+  private static saveUrls(): void {
+    const configured = ((import.meta.env?.VITE_WZDX_FEED_URLS as string | undefined) ?? '').split(',').map(url => url.trim());
+    const urls = this.getFeeds().map(feed => feed.url).filter((url): url is string => !!url && !configured.includes(url));
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(urls));
+    } catch (error) {
+      console.error('Failed to save work zone feeds:', error);
+    }
+  }
+
+  private static reindex(): void {
+    this.zones = Array.from(this.feeds.values()).flatMap(feed => feed.zones);
+    this.grid = buildGrid(this.zones);
+  }
+
+  private static notify(): void {
+    const feeds = this.getFeeds();
+    this.listeners.forEach(listener => listener(feeds));
+  }
+}
@@ -1,7 +1,31 @@
+/**
+ * US DOT hazardous materials class (49 CFR 173.2), 1 explosives through 9 miscellaneous.
+ */
+export type HazmatClass = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+export interface TrailerUnit {
+  length: number; // feet
+  kingpinToAxleFt: number; // Kingpin or drawbar hitch to the center of the trailer's axle group
+  axleCount?: number;
+}
+
+/**
+ * Vehicle dimensions and specification. Only height, length and width are required;
+ * the rest are estimated from the vehicle's class when missing.
+ */
 export interface Vehicle {
   height: number; // feet
-  length: number; // feet
+  length: number; // feet, overall
   width: number; // feet
+  grossWeightLbs?: number;
+  axleCount?: number; // Including trailer axles
+  axleSpacingFt?: number[]; // Between consecutive axles, front to rear
+  wheelbaseFt?: number; // Power unit, front axle to the center of the rear axle group
+  frontOverhangFt?: number;
+  rearOverhangFt?: number; // Behind the rearmost axle of the last unit
+  trailers?: TrailerUnit[]; // Empty for a rigid vehicle
+  hazmatClass?: HazmatClass;
+  passengerCapacity?: number; // Seated and standing, excluding the driver
 }
 
 export interface VehicleClass {
@@ -33,6 +57,58 @@ export interface RiskFactors {
   heightRestriction: number;
 }
 
+/**
+ * Where a risk factor value came from: an explicit OSM tag (measured), derived from
+ * other road attributes such as highway class or lane count (inferred), or a typical
+ * value used when no road data matched the segment (default).
+ */
+export type RiskFactorSource = 'measured' | 'inferred' | 'default';
+
+export type RiskFactorSources = Record<keyof RiskFactors, RiskFactorSource>;
+
+/**
+ * Road attributes of the OSM way a segment was matched to by geometry.
+ */
+export interface RoadAttributes {
+  wayId: string;
+  name?: string;
+  highway: string;
+  lanes?: number;
+  widthFt?: number;
+  maxHeightFt?: number; // Lowest posted clearance along the segment
+  speedLimitMph?: number; // Posted maxspeed
+  surface?: string;
+  hgv?: string;
+  hazmat?: string; // OSM hazmat access tag ("no" bans hazardous loads)
+  maxWeightTons?: number; // Posted weight limit in short tons
+  sidewalk?: string;
+  /** Share of sample points along the segment that matched this way (0-1) */
+  matchCoverage: number;
+}
+
+export type SweptPathVerdict = 'pass' | 'marginal' | 'fail';
+
+/**
+ * Steady-state swept path of the vehicle through the turn at the start of a segment,
+ * from the route geometry and the intersection's corner radius. Distances in feet.
+ */
+export interface SweptPathAnalysis {
+  direction: 'left' | 'right' | 'u_turn';
+  angleDeg: number;
+  cornerRadiusFt: number;
+  cornerRadiusSource: RiskFactorSource;
+  laneWidthFt: number;
+  availableWidthFt: number;
+  steerRadiusFt: number; // Front axle path radius
+  offTrackingFt: number; // Inner rear wheels inside the front axle path
+  tailSwingFt: number; // Outer rear corner swinging outside the rear wheel path
+  sweptWidthFt: number;
+  encroachmentFt: number; // Beyond the available lanes; zero or less fits
+  verdict: SweptPathVerdict;
+  vertex: LatLngCoordinates;
+  envelope: LatLngCoordinates[]; // Outline of the swept area
+}
+
 // Added this interface for the routeAnalysisService
 export interface RiskFactor {
   name?: string;
@@ -60,6 +136,16 @@ export interface RouteSegment {
   description: string;
   intersectionType?: 'stop_sign' | 'traffic_light' | 'none'; // New: Type of intersection
   turnType?: 'left' | 'right' | 'straight' | 'none'; // New: Type of turn at the end of the segment
+  path?: LatLngCoordinates[]; // Decoded road geometry from start to end
+  riskFactorSources?: RiskFactorSources;
+  roadAttributes?: RoadAttributes; // Set when the segment matched a way in the loaded OSM extract
+  riskExplanation?: SegmentRiskExplanation;
+  durationSeconds?: number; // Provider's travel time for the step
+  legIndex?: number; // Leg of the route the segment belongs to; stops sit between legs
+  passTime?: string; // ISO time the vehicle is projected to pass through the segment
+  sweptPath?: SweptPathAnalysis; // Set when the segment starts with a turn
+  crashHistory?: SegmentCrashHistory; // Set when crash records are loaded
+  riskConfidence?: RiskConfidence; // Set by route analysis
   liveTrafficData?: { // 🚦 NEW: Live traffic information
     congestionLevel: 'low' | 'moderate' | 'heavy' | 'severe';
     currentSpeed: number;
@@ -79,14 +165,311 @@ export interface Route {
   waypoints?: string[]; // Added waypoints support
   stops?: StopLocation[];
   googleRoute?: google.maps.DirectionsRoute; // Store the original Google Maps DirectionsRoute object
+  path?: LatLngCoordinates[]; // Full route geometry as plain coordinates, so it survives serialization
+  stitching?: RouteStitchInfo; // Set when the route was assembled from several provider requests
+  riskModel?: RiskModelRef; // Risk profile version that produced overallRisk
+  riskExplanation?: RouteRiskExplanation;
+  riskConfidence?: RiskConfidence; // Range overallRisk may be off by, given its inputs
+  complianceAnalysis?: RouteComplianceAnalysis; // Set by route analysis for a vehicle
+  departureTime?: string; // ISO departure the risk was evaluated for
+  arrivalTime?: string; // ISO projected arrival, including stop dwell times
+}
+
+/**
+ * How a route with more stops than one provider request allows was split and re-joined.
+ */
+export interface RouteStitchInfo {
+  chunkCount: number;
+  /** Stops where one request ends and the next begins */
+  joins: { address: string; location: LatLngCoordinates }[];
+}
+
+export type RoadType = 'residential' | 'commercial' | 'industrial' | 'highway' | 'arterial' | 'truck_route';
+
+export interface RiskModelWeights {
+  pedestrianTraffic: number;
+  maneuvering: number;
+  infrastructure: number;
+  traffic: number;
+  roadContext: number;
+  intersection: number;
+  uTurn: number;
+  crashHistory: number;
+}
+
+/**
+ * Versioned set of weights, thresholds and penalties the risk calculator scores with.
+ * Each vehicle class is scored by exactly one profile.
+ */
+export interface RiskModelProfile {
+  id: string;
+  name: string;
+  version: number; // Incremented on every saved edit
+  description?: string;
+  vehicleClasses: VehicleClass['type'][];
+  weights: RiskModelWeights;
+  thresholds: {
+    largeVehicleLength: number; // feet; at or above this the large-vehicle penalties apply
+    largeVehicleWidth: number; // feet
+    uTurnProhibitedLength: number; // feet; U-turns are prohibited at or above this
+  };
+  /** Pedestrian-risk multiplier for large vehicles on each road type */
+  roadTypeMultipliers: Record<RoadType, number>;
+  penalties: {
+    maneuvering: {
+      residential: number;
+      designatedRouteRelief: number;
+      majorRoadRelief: number;
+      turn: number;
+      smallVehicleTurn: number;
+      signalizedTurnFactor: number;
+      stopSignTurnFactor: number;
+    };
+    roadContext: Record<RoadType, number> & {
+      commercialUnsignalized: number;
+      smallVehicleResidential: number;
+      smallVehicle: number;
+      designatedRouteRelief: number;
+      schoolZone: number;
+    };
+    pedestrian: {
+      residential: number;
+      schoolZone: number;
+      unsignalizedCommercialFactor: number;
+    };
+    intersection: {
+      signalized: number;
+      signalizedTruckFriendly: number;
+      stopSign: number;
+      majorRoadCrossing: number;
+      unprotectedLeft: number;
+      uncontrolled: number;
+      residential: number;
+      highwayRelief: number;
+    };
+    uTurn: {
+      largeVehicle: number;
+      smallVehicle: number;
+    };
+    crashHistory: {
+      pointsPerWeightedCrash: number; // Per severity-weighted crash per mile-year (or per year at an intersection)
+      largeVehicleFactor: number; // Extra weight of crashes involving a truck or bus
+    };
+  };
+  updatedAt?: string; // ISO timestamp of the last saved edit
+}
+
+export interface RiskModelRef {
+  profileId: string;
+  profileName: string;
+  version: number;
+}
+
+export type RiskComponent = keyof RiskModelWeights;
+
+/**
+ * A value a risk component was computed from, with where it came from. Vehicle
+ * dimensions entered by the user count as measured.
+ */
+export interface RiskTraceInput {
+  name: string;
+  value: number | string | boolean;
+  unit?: string;
+  source: RiskFactorSource;
+}
+
+/**
+ * How one weighted component of the risk model scored a segment.
+ */
+export interface RiskComponentTrace {
+  component: RiskComponent;
+  label: string;
+  inputs: RiskTraceInput[];
+  risk: number; // Component risk 0-100
+  weight: number;
+  contribution: number; // risk × weight, in points of the segment score
+  rules: string[]; // Rules that fired, in the order they were applied
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+/**
+ * How far a score can be trusted, from how many of its inputs were measured rather
+ * than inferred or defaulted. The true score is expected to lie in low-high.
+ */
+export interface RiskConfidence {
+  level: ConfidenceLevel;
+  confidence: number; // 0-1, share of the model weight backed by measured inputs
+  low: number;
+  high: number;
+  /** Inputs that fell back to defaults, most influential first */
+  gaps: string[];
+}
+
+/**
+ * A context rule (time of day, active hazards, swept path, structure conflicts) that
+ * added points to a segment's riskScore on top of the model score.
+ */
+export interface RiskAdjustmentTrace {
+  rule: string;
+  description: string;
+  points: number;
+}
+
+/**
+ * Where a segment's risk came from, component by component.
+ */
+export interface SegmentRiskExplanation {
+  score: number; // Risk-model score: sum of component contributions, clamped to 0-100
+  total: number; // RouteSegment.riskScore: model score plus adjustments, clamped to 0-100
+  model: RiskModelRef;
+  roadType: RoadType;
+  roadTypeSource: RiskFactorSource;
+  components: RiskComponentTrace[];
+  /** Context rules added on top of the model score */
+  adjustments?: RiskAdjustmentTrace[];
+}
+
+/**
+ * How segment scores combine into the route score.
+ */
+export interface RouteRiskExplanation {
+  score: number;
+  model: RiskModelRef;
+  /** Segment scores after amplifying high-risk segments, which the route score averages */
+  segments: { segmentId: string; streetName: string; score: number; amplifiedScore: number }[];
+  stopRisks: number[];
+  /** Mean contribution of each component across segments, largest first */
+  components: { component: RiskComponent; label: string; contribution: number }[];
+  /** Mean points the context rules add per segment */
+  adjustmentPoints: number;
+  rules: string[];
+}
+
+/**
+ * A past trip with its outcome, for backtesting the risk model.
+ */
+export interface LabelledTrip {
+  id: string;
+  route: Route;
+  vehicle: Vehicle;
+  incident: boolean; // Whether a crash or reportable incident happened on the trip
+  date?: string; // ISO date
+}
+
+/**
+ * Trips whose score fell in [lower, upper), with the incident rate observed among them
+ * and the probability the fitted calibration gives their mean score.
+ */
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  tripCount: number;
+  incidentCount: number;
+  meanScore: number;
+  observedRate: number;
+  predictedRate: number;
+}
+
+/**
+ * How well one component separates incident trips from the rest, and the weight the
+ * backtest suggests for it.
+ */
+export interface ComponentCalibration {
+  component: RiskComponent;
+  label: string;
+  auc: number;
+  meanRiskIncident: number;
+  meanRiskNoIncident: number;
+  currentWeight: number;
+  suggestedWeight?: number;
+}
+
+export interface CalibrationReport {
+  model: RiskModelRef;
+  dataset: string;
+  generatedAt: string; // ISO timestamp
+  tripCount: number;
+  incidentCount: number;
+  auc: number; // Probability an incident trip outscores a trip without one
+  brierScore: number; // Mean squared error of the calibrated probabilities
+  /** Logistic calibration: P(incident) = 1 / (1 + e^-(intercept + slope × score)) */
+  calibration: { intercept: number; slope: number };
+  bins: CalibrationBin[];
+  components: ComponentCalibration[];
+  /** Why weight suggestions were withheld, when they were */
+  suggestionNote?: string;
+}
+
+export type WeatherHazard = 'wind' | 'rain' | 'fog' | 'ice' | 'flood';
+
+/**
+ * Forecast conditions behind a weather risk factor, valid from validFrom until validTo.
+ */
+export interface WeatherConditions {
+  hazard: WeatherHazard;
+  validFrom: string; // ISO
+  validTo: string; // ISO
+  windSpeedMph?: number;
+  windGustMph?: number;
+  windDirectionDeg?: number; // Direction the wind blows from
+  precipitationInPerHour?: number;
+  visibilityMiles?: number;
+  iceInches?: number;
+}
+
+export interface WeatherRiskFactor extends NamedRiskFactor {
+  type: 'weather';
+  impactRadius: number; // meters
+  weather: WeatherConditions;
+}
+
+// A restriction a WZDx work zone places on a lane or the whole road
+export interface WorkZoneRestriction {
+  type: string; // WZDx restriction type, e.g. 'reduced-height' or 'no-trucks'
+  value?: number;
+  unit?: string;
+}
+
+export interface WorkZoneLane {
+  order: number; // 1 is the leftmost lane
+  type: string; // 'general', 'shoulder', 'exit-ramp', ...
+  status: string; // 'open', 'closed', 'shift-left', ...
+}
+
+/**
+ * A work zone from a WZDx feed. It applies from startDate until endDate; a zone
+ * without an end date is open-ended.
+ */
+export interface WorkZone {
+  id: string;
+  feedId: string;
+  roadNames: string[];
+  direction?: string;
+  description?: string;
+  startDate: string;
+  endDate?: string;
+  vehicleImpact: string; // WZDx vehicle_impact, e.g. 'some-lanes-closed'
+  lanes: WorkZoneLane[];
+  restrictions: WorkZoneRestriction[]; // Of the road and of its lanes
+  reducedSpeedLimitMph?: number;
+  stateCode?: string;
+  path: LatLngCoordinates[];
+}
+
+export interface WorkZoneRiskFactor extends NamedRiskFactor {
+  type: 'construction';
+  impactRadius: number; // meters
+  workZone: WorkZone;
 }
 
 export interface CriticalPoint {
   segmentId: string;
-  type: 'turn' | 'intersection' | 'bridge' | 'narrow_road';
+  type: 'turn' | 'intersection' | 'bridge' | 'narrow_road' | 'weather' | 'crash_cluster';
   riskLevel: 'high' | 'critical';
   description: string;
   position: number; // segment index
+  crashCluster?: CrashCluster; // Set on crash_cluster points
 }
 
 export interface SavedLocation {
@@ -115,15 +498,130 @@ export interface StopLocation {
   lng?: number;
   order: number;
   estimatedStopTime?: number; // minutes
+  timeWindow?: StopTimeWindow;
+  fixedPosition?: 'first' | 'last'; // Pinned when the stop order is optimized
+  demand?: number; // load units, defaults to 1 when dispatching
+  accessLimits?: StopAccessLimits;
+  hosRest?: HosRestKind; // Added by the hours-of-service planner; the stop time is spent off duty
+}
+
+export type HosRestKind = 'break' | 'off_duty' | 'restart';
+
+export interface StopAccessLimits {
+  maxLength?: number; // feet
+  maxWidth?: number; // feet
+  maxHeight?: number; // feet
+}
+
+export interface FleetVehicle {
+  id: string;
+  name: string;
+  vehicle: Vehicle;
+  capacity: number; // load units
+  shiftHours: number;
+}
+
+export interface StopTimeWindow {
+  earliest?: string; // "HH:MM" local time
+  latest?: string; // "HH:MM" local time
+}
+
+export type CrashSeverity = 'fatal' | 'serious_injury' | 'minor_injury' | 'possible_injury' | 'property_damage';
+
+/**
+ * One historical crash from a FARS or state DOT export.
+ */
+export interface CrashRecord {
+  id: string;
+  location: LatLngCoordinates;
+  date?: string; // ISO date
+  severity: CrashSeverity;
+  largeVehicle: boolean; // A truck or bus was involved
+  vehicleTypes?: string[];
+}
+
+/**
+ * Crash counts for a stretch of road or an intersection. Weighted counts scale each
+ * crash by its severity.
+ */
+export interface CrashStats {
+  count: number;
+  fatal: number;
+  injury: number;
+  largeVehicle: number;
+  weighted: number;
+  largeVehicleWeighted: number; // Part of `weighted` from crashes involving large vehicles
+}
+
+export interface SegmentCrashHistory {
+  segment: CrashStats; // Crashes along the segment's geometry
+  intersection: CrashStats; // Crashes at the intersection the segment starts from
+  miles: number;
+  years: number; // Period the loaded records cover
+}
+
+export interface CrashCluster {
+  location: LatLngCoordinates;
+  segmentId: string;
+  position: number; // segment index
+  stats: CrashStats;
+  radiusMeters: number;
+}
+
+/**
+ * A bridge, overpass or tunnel with a posted vertical clearance, imported from an
+ * NBI-style CSV or GeoJSON file.
+ */
+export interface ClearanceStructure {
+  id: string; // NBI structure number, or the record's own id
+  name: string;
+  kind: 'bridge' | 'overpass' | 'tunnel';
+  location: LatLngCoordinates;
+  alignment?: LatLngCoordinates[]; // Roadway the clearance applies to, when the record has line geometry
+  roadway?: string; // Name of the road the clearance applies to
+  clearanceFt: number;
+  maxWeightTons?: number;
+  state?: string;
+}
+
+export interface ClearanceConflict {
+  structure: ClearanceStructure;
+  segmentId: string;
+  position: number; // segment index
+  type: 'height' | 'weight';
+  limit: number; // ft of clearance, or tons
+  required: number; // Vehicle height plus the safety margin, or gross weight
 }
 
 export interface TruckRouteRestriction {
-  type: 'height' | 'weight' | 'length' | 'width' | 'hazmat' | 'commercial_ban' | 'bridge' | 'tunnel';
+  type: 'height' | 'weight' | 'length' | 'width' | 'hazmat' | 'commercial_ban' | 'bridge' | 'tunnel' | 'closure';
   value?: number; // feet for height, tons for weight
   description: string;
   severity: 'advisory' | 'restriction' | 'prohibition';
-  source: 'FHWA' | 'FMCSA' | 'State_DOT' | 'Local';
+  source: 'FHWA' | 'FMCSA' | 'State_DOT' | 'Local' | 'WZDx';
   coordinates?: { lat: number; lng: number };
+  structureId?: string; // Clearance database structure the restriction comes from
+  stateCode?: string; // State whose law imposes the restriction
+  workZoneId?: string; // Work zone the restriction comes from
+  validFrom?: string; // ISO; temporary restrictions apply from validFrom until validTo
+  validTo?: string;
+}
+
+// One mile of a route and how much of it runs on National Network routes
+export interface NetworkCoverageMile {
+  mile: number; // 1-based; the last mile may be partial
+  miles: number; // Length of this stretch, 1 except for the last
+  coveredFraction: number; // 0-1
+  routeIds: string[]; // National Network routes matched in this mile
+}
+
+export interface RouteComplianceAnalysis {
+  compliant: boolean;
+  violations: TruckRouteRestriction[];
+  recommendations: string[];
+  nationalNetworkCoverage: number | null; // Percent of distance on the network; null without network geometry
+  coverageByMile: NetworkCoverageMile[];
+  statesCrossed: string[]; // Postal codes, in route order
 }
 
 export interface RouteAnalysisRequest {
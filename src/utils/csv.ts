@@ -0,0 +1,45 @@
+/**
+ * Split one CSV line, honouring double-quoted fields with embedded commas and quotes.
+ * Fields are trimmed, and single quotes around a whole field (as in NBI and FARS
+ * exports) are removed.
+ */
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(value => value.trim().replace(/^'(.*)'$/, '$1').trim());
+}
+
+/**
+ * Rows of a CSV file keyed by lowercased header.
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length < 2) return [];
+  const headers = splitCsvLine(lines[0]).map(header => header.toLowerCase());
+  return lines.slice(1).map(line => {
+    const fields = splitCsvLine(line);
+    return Object.fromEntries(headers.map((header, i) => [header, fields[i] ?? '']));
+  });
+}
@@ -0,0 +1,365 @@
+// Builds google.maps.DirectionsResult-shaped objects from non-Google routing engines
+// so the rest of the app (route transformation, risk analysis, map overlays) can stay
+// provider-agnostic.
+
+import { LatLngCoordinates } from '../types';
+
+const METERS_PER_MILE = 1609.34;
+
+/**
+ * Minimal LatLng implementation that works without the Google Maps script loaded.
+ */
+export class PlainLatLng implements google.maps.LatLng {
+  private readonly latitude: number;
+  private readonly longitude: number;
+
+  constructor(lat: number, lng: number) {
+    this.latitude = lat;
+    this.longitude = lng;
+  }
+
+  lat(): number {
+    return this.latitude;
+  }
+
+  lng(): number {
+    return this.longitude;
+  }
+
+  equals(other: google.maps.LatLng | null): boolean {
+    return !!other && other.lat() === this.latitude && other.lng() === this.longitude;
+  }
+
+  toJSON(): google.maps.LatLngLiteral {
+    return { lat: this.latitude, lng: this.longitude };
+  }
+
+  toString(): string {
+    return `(${this.latitude}, ${this.longitude})`;
+  }
+
+  toUrlValue(precision: number = 6): string {
+    return `${this.latitude.toFixed(precision)},${this.longitude.toFixed(precision)}`;
+  }
+}
+
+/**
+ * Minimal LatLngBounds implementation matching the Google Maps API surface.
+ */
+export class PlainLatLngBounds implements google.maps.LatLngBounds {
+  private south = Infinity;
+  private west = Infinity;
+  private north = -Infinity;
+  private east = -Infinity;
+
+  constructor(points: LatLngCoordinates[] = []) {
+    points.forEach(point => this.extend(point));
+  }
+
+  contains(latLng: google.maps.LatLng | google.maps.LatLngLiteral): boolean {
+    const { lat, lng } = toLiteral(latLng);
+    return lat >= this.south && lat <= this.north && lng >= this.west && lng <= this.east;
+  }
+
+  equals(other: google.maps.LatLngBounds | google.maps.LatLngBoundsLiteral | null): boolean {
+    if (!other) return false;
+    const literal = 'toJSON' in other ? other.toJSON() : other;
+    const own = this.toJSON();
+    return own.north === literal.north && own.south === literal.south &&
+      own.east === literal.east && own.west === literal.west;
+  }
+
+  extend(point: google.maps.LatLng | google.maps.LatLngLiteral): google.maps.LatLngBounds {
+    const { lat, lng } = toLiteral(point);
+    this.south = Math.min(this.south, lat);
+    this.north = Math.max(this.north, lat);
+    this.west = Math.min(this.west, lng);
+    this.east = Math.max(this.east, lng);
+    return this;
+  }
+
+  getCenter(): google.maps.LatLng {
+    return new PlainLatLng((this.south + this.north) / 2, (this.west + this.east) / 2);
+  }
+
+  getNorthEast(): google.maps.LatLng {
+    return new PlainLatLng(this.north, this.east);
+  }
+
+  getSouthWest(): google.maps.LatLng {
+    return new PlainLatLng(this.south, this.west);
+  }
+
+  intersects(other: google.maps.LatLngBounds | google.maps.LatLngBoundsLiteral): boolean {
+    const literal = 'toJSON' in other ? other.toJSON() : other;
+    return !(literal.south > this.north || literal.north < this.south ||
+      literal.west > this.east || literal.east < this.west);
+  }
+
+  isEmpty(): boolean {
+    return this.south > this.north || this.west > this.east;
+  }
+
+  toJSON(): google.maps.LatLngBoundsLiteral {
+    return { north: this.north, south: this.south, east: this.east, west: this.west };
+  }
+
+  toSpan(): google.maps.LatLng {
+    return new PlainLatLng(this.north - this.south, this.east - this.west);
+  }
+
+  toString(): string {
+    return `(${this.getSouthWest().toString()}, ${this.getNorthEast().toString()})`;
+  }
+
+  toUrlValue(precision: number = 6): string {
+    return `${this.getSouthWest().toUrlValue(precision)},${this.getNorthEast().toUrlValue(precision)}`;
+  }
+
+  union(other: google.maps.LatLngBounds | google.maps.LatLngBoundsLiteral): google.maps.LatLngBounds {
+    const literal = 'toJSON' in other ? other.toJSON() : other;
+    this.extend({ lat: literal.south, lng: literal.west });
+    this.extend({ lat: literal.north, lng: literal.east });
+    return this;
+  }
+}
+
+function toLiteral(point: google.maps.LatLng | google.maps.LatLngLiteral): LatLngCoordinates {
+  return typeof point.lat === 'function'
+    ? { lat: (point as google.maps.LatLng).lat(), lng: (point as google.maps.LatLng).lng() }
+    : (point as google.maps.LatLngLiteral);
+}
+
+/**
+ * Decode an encoded polyline. Valhalla and OSRM (polyline6) use precision 6,
+ * Google uses precision 5.
+ */
+export function decodePolyline(encoded: string, precision: number = 5): LatLngCoordinates[] {
+  const factor = Math.pow(10, precision);
+  const points: LatLngCoordinates[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  while (index < encoded.length) {
+    for (const axis of ['lat', 'lng'] as const) {
+      let result = 0;
+      let shift = 0;
+      let byte: number;
+      do {
+        byte = encoded.charCodeAt(index++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20 && index < encoded.length);
+      const delta = result & 1 ? ~(result >> 1) : result >> 1;
+      if (axis === 'lat') lat += delta;
+      else lng += delta;
+    }
+    points.push({ lat: lat / factor, lng: lng / factor });
+  }
+
+  return points;
+}
+
+/**
+ * Encode points as a polyline string (precision 5 by default, matching Google).
+ */
+export function encodePolyline(points: LatLngCoordinates[], precision: number = 5): string {
+  const factor = Math.pow(10, precision);
+  let output = '';
+  let prevLat = 0;
+  let prevLng = 0;
+
+  const encodeValue = (value: number) => {
+    let v = value < 0 ? ~(value << 1) : value << 1;
+    while (v >= 0x20) {
+      output += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+      v >>= 5;
+    }
+    output += String.fromCharCode(v + 63);
+  };
+
+  points.forEach(point => {
+    const lat = Math.round(point.lat * factor);
+    const lng = Math.round(point.lng * factor);
+    encodeValue(lat - prevLat);
+    encodeValue(lng - prevLng);
+    prevLat = lat;
+    prevLng = lng;
+  });
+
+  return output;
+}
+
+export function formatDistanceText(meters: number): string {
+  const miles = meters / METERS_PER_MILE;
+  if (miles < 0.1) {
+    return `${Math.round(meters * 3.28084)} ft`;
+  }
+  return `${Math.round(miles * 10) / 10} mi`;
+}
+
+export function formatDurationText(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) {
+    return `${minutes} min${minutes !== 1 ? 's' : ''}`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  return `${hours} hour${hours !== 1 ? 's' : ''}${remainder ? ` ${remainder} mins` : ''}`;
+}
+
+export interface ProviderStep {
+  instructions: string;
+  distanceMeters: number;
+  durationSeconds: number;
+  path: LatLngCoordinates[];
+  maneuver?: string;
+}
+
+export interface ProviderLeg {
+  startAddress: string;
+  endAddress: string;
+  steps: ProviderStep[];
+}
+
+export interface ProviderRoute {
+  summary: string;
+  legs: ProviderLeg[];
+  warnings?: string[];
+  copyrights?: string;
+}
+
+function buildStep(step: ProviderStep): google.maps.DirectionsStep {
+  const path = step.path.map(p => new PlainLatLng(p.lat, p.lng));
+  const start = path[0] ?? new PlainLatLng(0, 0);
+  const end = path[path.length - 1] ?? start;
+  const encoded = encodePolyline(step.path);
+
+  return {
+    distance: { value: step.distanceMeters, text: formatDistanceText(step.distanceMeters) },
+    duration: { value: step.durationSeconds, text: formatDurationText(step.durationSeconds) },
+    encoded_lat_lngs: encoded,
+    end_location: end,
+    end_point: end,
+    instructions: step.instructions,
+    lat_lngs: path,
+    maneuver: step.maneuver ?? '',
+    path,
+    polyline: { points: encoded },
+    start_location: start,
+    start_point: start,
+    travel_mode: 'DRIVING' as google.maps.TravelMode
+  };
+}
+
+function buildLeg(leg: ProviderLeg): google.maps.DirectionsLeg {
+  const steps = leg.steps.map(buildStep);
+  const distanceMeters = leg.steps.reduce((sum, s) => sum + s.distanceMeters, 0);
+  const durationSeconds = leg.steps.reduce((sum, s) => sum + s.durationSeconds, 0);
+  const start = steps[0]?.start_location ?? new PlainLatLng(0, 0);
+  const end = steps[steps.length - 1]?.end_location ?? start;
+
+  return {
+    distance: { value: distanceMeters, text: formatDistanceText(distanceMeters) },
+    duration: { value: durationSeconds, text: formatDurationText(durationSeconds) },
+    end_address: leg.endAddress,
+    end_location: end,
+    start_address: leg.startAddress,
+    start_location: start,
+    steps,
+    traffic_speed_entry: [],
+    via_waypoints: []
+  };
+}
+
+/**
+ * Wrap provider routes in a DirectionsResult so they flow through the same
+ * transformation and risk-analysis pipeline as Google Directions responses.
+ */
+export function buildDirectionsResult(
+  routes: ProviderRoute[],
+  request: { origin: string; destination: string; waypoints?: google.maps.DirectionsWaypoint[] }
+): google.maps.DirectionsResult {
+  return {
+    request: {
+      origin: request.origin,
+      destination: request.destination,
+      waypoints: request.waypoints,
+      travelMode: 'DRIVING' as google.maps.TravelMode
+    },
+    routes: routes.map(route => {
+      const legs = route.legs.map(buildLeg);
+      const overviewPoints = route.legs.flatMap(leg => leg.steps.flatMap(step => step.path));
+      return {
+        bounds: new PlainLatLngBounds(overviewPoints),
+        copyrights: route.copyrights ?? '',
+        legs,
+        overview_path: overviewPoints.map(p => new PlainLatLng(p.lat, p.lng)),
+        overview_polyline: encodePolyline(overviewPoints),
+        summary: route.summary,
+        warnings: route.warnings ?? [],
+        waypoint_order: (request.waypoints ?? []).map((_, i) => i)
+      };
+    })
+  };
+}
+
+/**
+ * Flatten every step path of a DirectionsRoute into plain coordinates.
+ */
+export function getRoutePath(route: google.maps.DirectionsRoute): LatLngCoordinates[] {
+  const path: LatLngCoordinates[] = [];
+  route.legs.forEach(leg => {
+    leg.steps.forEach(step => {
+      (step.path || []).forEach(point => path.push({ lat: point.lat(), lng: point.lng() }));
+    });
+  });
+  return path;
+}
+
+/**
+ * Restore the LatLng and LatLngBounds objects of a DirectionsResult that went through
+ * JSON (e.g. the request cache), where they became plain literals.
+ */
+export function reviveDirectionsResult(result: google.maps.DirectionsResult): google.maps.DirectionsResult {
+  const point = (value: google.maps.LatLng | google.maps.LatLngLiteral) => {
+    const { lat, lng } = toLiteral(value);
+    return new PlainLatLng(lat, lng);
+  };
+
+  return {
+    ...result,
+    routes: result.routes.map(route => ({
+      ...route,
+      bounds: reviveBounds(route.bounds),
+      overview_path: route.overview_path.map(point),
+      legs: route.legs.map(leg => ({
+        ...leg,
+        start_location: point(leg.start_location),
+        end_location: point(leg.end_location),
+        via_waypoints: (leg.via_waypoints ?? []).map(point),
+        steps: leg.steps.map(step => ({
+          ...step,
+          start_location: point(step.start_location),
+          end_location: point(step.end_location),
+          start_point: point(step.start_point ?? step.start_location),
+          end_point: point(step.end_point ?? step.end_location),
+          path: (step.path ?? []).map(point),
+          lat_lngs: (step.lat_lngs ?? step.path ?? []).map(point)
+        }))
+      }))
+    }))
+  };
+}
+
+/**
+ * Bounds from a LatLngBounds or its JSON literal.
+ */
+export function reviveBounds(bounds: google.maps.LatLngBounds | google.maps.LatLngBoundsLiteral): PlainLatLngBounds {
+  const literal = 'toJSON' in bounds ? bounds.toJSON() : bounds;
+  return new PlainLatLngBounds([
+    { lat: literal.south, lng: literal.west },
+    { lat: literal.north, lng: literal.east }
+  ]);
+}
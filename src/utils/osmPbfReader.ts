@@ -0,0 +1,264 @@
+// Minimal OSM PBF reader (https://wiki.openstreetmap.org/wiki/PBF_Format).
+// Decodes nodes, dense nodes and ways; relations and metadata are skipped.
+// zlib blobs are inflated with the platform DecompressionStream, so no dependencies are needed.
+
+export interface OsmPbfData {
+  nodes: Map<number, { lat: number; lng: number }>;
+  ways: { id: number; nodeIds: number[]; tags: Record<string, string> }[];
+}
+
+interface PbfReadOptions {
+  /** Keep only ways whose tags pass this filter (e.g. drivable highways) */
+  wayFilter?: (tags: Record<string, string>) => boolean;
+}
+
+const WIRE_VARINT = 0;
+const WIRE_64BIT = 1;
+const WIRE_BYTES = 2;
+const WIRE_32BIT = 5;
+
+/**
+ * Protobuf wire-format reader. Varints are decoded with floating point arithmetic so
+ * 64-bit OSM ids stay exact up to 2^53.
+ */
+class ProtoReader {
+  pos = 0;
+  private readonly end: number;
+
+  constructor(private readonly buf: Uint8Array, start: number = 0, end: number = buf.length) {
+    this.pos = start;
+    this.end = end;
+  }
+
+  get eof(): boolean {
+    return this.pos >= this.end;
+  }
+
+  readTag(): { field: number; wireType: number } {
+    const tag = this.readVarint();
+    return { field: Math.floor(tag / 8), wireType: tag % 8 };
+  }
+
+  readVarint(): number {
+    let result = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      if (this.pos >= this.end) throw new Error('Truncated varint in OSM PBF data');
+      byte = this.buf[this.pos++];
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    return result;
+  }
+
+  readSVarint(): number {
+    const n = this.readVarint();
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readVarint();
+    const bytes = this.buf.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  readString(): string {
+    return textDecoder.decode(this.readBytes());
+  }
+
+  readPacked(signed: boolean): number[] {
+    const bytes = this.readBytes();
+    const inner = new ProtoReader(bytes);
+    const values: number[] = [];
+    while (!inner.eof) {
+      values.push(signed ? inner.readSVarint() : inner.readVarint());
+    }
+    return values;
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.readVarint();
+        break;
+      case WIRE_64BIT:
+        this.pos += 8;
+        break;
+      case WIRE_BYTES:
+        this.pos += this.readVarint();
+        break;
+      case WIRE_32BIT:
+        this.pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+}
+
+const textDecoder = new TextDecoder();
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readBlob(bytes: Uint8Array): Promise<Uint8Array> {
+  const reader = new ProtoReader(bytes);
+  while (!reader.eof) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) return reader.readBytes(); // raw
+    if (field === 3) return inflate(reader.readBytes()); // zlib_data
+    if (field === 4 || field === 7) {
+      throw new Error('LZMA/ZSTD-compressed OSM PBF blobs are not supported; re-export with zlib compression');
+    }
+    reader.skip(wireType);
+  }
+  throw new Error('OSM PBF blob has no data');
+}
+
+function readTags(keys: number[], vals: number[], strings: string[]): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (let i = 0; i < keys.length; i++) {
+    tags[strings[keys[i]]] = strings[vals[i]];
+  }
+  return tags;
+}
+
+function readPrimitiveBlock(bytes: Uint8Array, data: OsmPbfData, options: PbfReadOptions): void {
+  const reader = new ProtoReader(bytes);
+  let strings: string[] = [];
+  const groups: Uint8Array[] = [];
+  let granularity = 100;
+  let latOffset = 0;
+  let lonOffset = 0;
+
+  while (!reader.eof) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) {
+      const table = new ProtoReader(reader.readBytes());
+      strings = [];
+      while (!table.eof) {
+        const tag = table.readTag();
+        if (tag.field === 1) strings.push(table.readString());
+        else table.skip(tag.wireType);
+      }
+    } else if (field === 2) {
+      groups.push(reader.readBytes());
+    } else if (field === 17) {
+      granularity = reader.readVarint();
+    } else if (field === 19) {
+      latOffset = reader.readVarint();
+    } else if (field === 20) {
+      lonOffset = reader.readVarint();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  const toDegrees = (value: number, offset: number) => 1e-9 * (offset + granularity * value);
+
+  groups.forEach(groupBytes => {
+    const group = new ProtoReader(groupBytes);
+    while (!group.eof) {
+      const { field, wireType } = group.readTag();
+      if (field === 1) {
+        // Plain node
+        const node = new ProtoReader(group.readBytes());
+        let id = 0;
+        let lat = 0;
+        let lon = 0;
+        while (!node.eof) {
+          const tag = node.readTag();
+          if (tag.field === 1) id = node.readSVarint();
+          else if (tag.field === 8) lat = node.readSVarint();
+          else if (tag.field === 9) lon = node.readSVarint();
+          else node.skip(tag.wireType);
+        }
+        data.nodes.set(id, { lat: toDegrees(lat, latOffset), lng: toDegrees(lon, lonOffset) });
+      } else if (field === 2) {
+        // Dense nodes: delta-coded ids and coordinates
+        const dense = new ProtoReader(group.readBytes());
+        let ids: number[] = [];
+        let lats: number[] = [];
+        let lons: number[] = [];
+        while (!dense.eof) {
+          const tag = dense.readTag();
+          if (tag.field === 1) ids = dense.readPacked(true);
+          else if (tag.field === 8) lats = dense.readPacked(true);
+          else if (tag.field === 9) lons = dense.readPacked(true);
+          else dense.skip(tag.wireType);
+        }
+        let id = 0;
+        let lat = 0;
+        let lon = 0;
+        for (let i = 0; i < ids.length; i++) {
+          id += ids[i];
+          lat += lats[i];
+          lon += lons[i];
+          data.nodes.set(id, { lat: toDegrees(lat, latOffset), lng: toDegrees(lon, lonOffset) });
+        }
+      } else if (field === 3) {
+        const way = new ProtoReader(group.readBytes());
+        let id = 0;
+        let keys: number[] = [];
+        let vals: number[] = [];
+        let refs: number[] = [];
+        while (!way.eof) {
+          const tag = way.readTag();
+          if (tag.field === 1) id = way.readVarint();
+          else if (tag.field === 2) keys = way.readPacked(false);
+          else if (tag.field === 3) vals = way.readPacked(false);
+          else if (tag.field === 8) refs = way.readPacked(true);
+          else way.skip(tag.wireType);
+        }
+        const tags = readTags(keys, vals, strings);
+        if (options.wayFilter && !options.wayFilter(tags)) continue;
+        let ref = 0;
+        const nodeIds = refs.map(delta => (ref += delta));
+        data.ways.push({ id, nodeIds, tags });
+      } else {
+        group.skip(wireType);
+      }
+    }
+  });
+}
+
+/**
+ * Read an .osm.pbf file into nodes and (optionally filtered) ways.
+ */
+export async function readOsmPbf(buffer: ArrayBuffer, options: PbfReadOptions = {}): Promise<OsmPbfData> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const data: OsmPbfData = { nodes: new Map(), ways: [] };
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const headerLength = view.getUint32(offset);
+    offset += 4;
+
+    const header = new ProtoReader(bytes, offset, offset + headerLength);
+    let type = '';
+    let dataSize = 0;
+    while (!header.eof) {
+      const { field, wireType } = header.readTag();
+      if (field === 1) type = header.readString();
+      else if (field === 3) dataSize = header.readVarint();
+      else header.skip(wireType);
+    }
+    offset += headerLength;
+
+    const blobBytes = bytes.subarray(offset, offset + dataSize);
+    offset += dataSize;
+
+    if (type === 'OSMData') {
+      readPrimitiveBlock(await readBlob(blobBytes), data, options);
+    } else if (type !== 'OSMHeader') {
+      console.warn(`Skipping unknown OSM PBF blob type "${type}"`);
+    }
+  }
+
+  return data;
+}
@@ -0,0 +1,134 @@
+/**
+ * Minimal PDF 1.4 writer for plain text documents: US Letter pages in the built-in
+ * Helvetica fonts, with lines wrapped to the page width and a page footer.
+ */
+
+export type PdfLineStyle = 'title' | 'heading' | 'body' | 'small';
+
+export interface PdfLine {
+  text: string;
+  style?: PdfLineStyle;
+  indent?: number; // Points from the left margin
+}
+
+interface PlacedLine {
+  text: string;
+  font: string;
+  size: number;
+  x: number;
+  y: number;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const FOOTER_Y = 30;
+
+const STYLES: Record<PdfLineStyle, { font: string; size: number; leading: number }> = {
+  title: { font: 'F2', size: 16, leading: 24 },
+  heading: { font: 'F2', size: 11, leading: 20 },
+  body: { font: 'F1', size: 10, leading: 13 },
+  small: { font: 'F1', size: 8, leading: 11 }
+};
+
+// Average Helvetica glyph width as a share of the font size, for wrapping
+const AVERAGE_GLYPH_WIDTH = 0.52;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has, and plain stand-ins for common symbols
+const WIN_ANSI: Record<string, string> = {
+  '•': '\x95', '‘': '\x91', '’': '\x92', '“': '\x93', '”': '\x94', '–': '\x96', '—': '\x97', '…': '\x85',
+  '→': '->', '←': '<-', '≤': '<=', '≥': '>='
+};
+
+function encodeText(text: string): string {
+  return Array.from(text)
+    .map(char => WIN_ANSI[char] ?? (char.charCodeAt(0) <= 0xff ? char : '?'))
+    .join('')
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function wrap(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).forEach(word => {
+    if (current && current.length + 1 + word.length > maxChars) {
+      lines.push(current);
+      current = '';
+    }
+    // Words longer than a line are broken
+    while (word.length > maxChars) {
+      lines.push(word.slice(0, maxChars));
+      word = word.slice(maxChars);
+    }
+    current = current ? `${current} ${word}` : word;
+  });
+  lines.push(current);
+  return lines;
+}
+
+function layout(lines: PdfLine[]): PlacedLine[][] {
+  const pages: PlacedLine[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  lines.forEach(line => {
+    const style = STYLES[line.style || 'body'];
+    const x = MARGIN + (line.indent || 0);
+    const maxChars = Math.floor((PAGE_WIDTH - MARGIN - x) / (style.size * AVERAGE_GLYPH_WIDTH));
+    // Keep a heading with at least one line after it
+    const reserve = line.style === 'heading' ? STYLES.body.leading : 0;
+    wrap(line.text, maxChars).forEach(text => {
+      if (y - style.leading - reserve < MARGIN && pages[pages.length - 1].length > 0) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= style.leading;
+      pages[pages.length - 1].push({ text, font: style.font, size: style.size, x, y });
+    });
+  });
+  return pages;
+}
+
+/**
+ * A PDF document of the lines, as bytes ready for a Blob. Text outside WinAnsiEncoding
+ * is replaced, since the built-in fonts have no Unicode mapping.
+ */
+export function createTextPdf(lines: PdfLine[], title: string): Uint8Array {
+  const pages = layout(lines);
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((placed, i) => {
+    const footer = { text: `${title} - page ${i + 1} of ${pages.length}`, font: 'F1', size: 8, x: MARGIN, y: FOOTER_Y };
+    const content = [...placed, footer]
+      .map(line => `BT /${line.font} ${line.size} Tf ${line.x} ${line.y.toFixed(1)} Td (${encodeText(line.text)}) Tj ET`)
+      .join('\n');
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  const infoId = objects.length;
+  objects[infoId] = `<< /Title (${encodeText(title)}) /Producer (Acadia Transit Sentinel) >>`;
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i);
+  return bytes;
+}
@@ -1,7 +1,27 @@
-import { Vehicle, RouteSegment, Route, StopLocation } from '../types';
+import {
+  Vehicle,
+  RouteSegment,
+  Route,
+  StopLocation,
+  RoadType,
+  RiskModelProfile,
+  RiskComponent,
+  RiskComponentTrace,
+  RiskFactorSource,
+  RiskTraceInput,
+  CrashStats,
+  SegmentRiskExplanation,
+  SweptPathAnalysis
+} from '../types';
+import { RiskProfileService } from '../services/riskProfileService';
+import { CDL_GROSS_WEIGHT_LBS, HAZMAT_CLASS_NAMES, VehicleClassificationService } from '../services/vehicleClassificationService';
+import { analyzeTurnSweptPath } from './sweptPath';
+import { RoadAttributeService } from '../services/roadAttributeService';
+import { ClearanceService } from '../services/clearanceService';
+import { CrashHistoryService } from '../services/crashHistoryService';
 
 export interface RoadContext {
-  type: 'residential' | 'commercial' | 'industrial' | 'highway' | 'arterial' | 'truck_route';
+  type: RoadType;
   isTruckFriendly: boolean;
   hasTrafficSignals: boolean;
   hasStopSigns: boolean;
@@ -18,6 +38,7 @@ export interface TurnAnalysis {
   difficulty: 'easy' | 'moderate' | 'difficult' | 'very_difficult';
   clearanceRequired: number;
   recommendation: string;
+  sweptPath: SweptPathAnalysis | null;
 }
 
 export interface EnhancedRiskBreakdown {
@@ -28,50 +49,60 @@ export interface EnhancedRiskBreakdown {
   roadContextRisk: number;
   intersectionRisk: number;
   uTurnRisk: number;
+  crashHistoryRisk: number;
   overallRisk: number;
   roadContext: RoadContext;
   primaryConcerns: string[];
   recommendations: string[];
   riskMitigators: string[];
   prohibitedManeuvers?: string[];
+  components: RiskComponentTrace[];
 }
 
+const COMPONENT_LABELS: Record<RiskComponent, string> = {
+  pedestrianTraffic: 'Pedestrians',
+  maneuvering: 'Maneuvering space',
+  infrastructure: 'Posted limits',
+  traffic: 'Traffic',
+  roadContext: 'Road suitability',
+  intersection: 'Intersections',
+  uTurn: 'U-turns',
+  crashHistory: 'Crash history'
+};
+
+// Short segments are rated as if they were this long so a single crash does not dominate
+const MIN_CRASH_RATE_MILES = 0.25;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
 export class RiskCalculator {
-  // Enhanced weights for large vehicle and bus operations
-  private static readonly WEIGHTS = {
-    pedestrianTraffic: 0.15, 
-    maneuvering: 0.25, // Increased for large vehicles       
-    infrastructure: 0.20,       
-    traffic: 0.10, // Reduced - traffic is manageable for large vehicles             
-    roadContext: 0.15,
-    intersection: 0.15, // Critical for bus operations
-    uTurn: 0.15
-  };
-
-  // 🚌 BUS-SPECIFIC WEIGHTS (prioritize intersection safety)
-  private static readonly BUS_WEIGHTS = {
-    pedestrianTraffic: 0.20, // Higher - buses interact more with pedestrians
-    maneuvering: 0.20,       
-    infrastructure: 0.15,       
-    traffic: 0.05, // Lower - buses expect some traffic             
-    roadContext: 0.20, // Higher - road type is critical for buses
-    intersection: 0.20, // Highest - intersection type is crucial for buses
-    uTurn: 0.20
-  };
-
-  // 🔧 DETERMINISTIC SEED GENERATOR - Creates consistent "random" values based on input
-  private static generateDeterministicValue(seed: string, min: number = 0, max: number = 100): number {
-    let hash = 0;
-    for (let i = 0; i < seed.length; i++) {
-      const char = seed.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      // Force hash to 32-bit integer
-      hash |= 0;
-    }
-    
-    // Normalize to 0-1 range, then scale to min-max
-    const normalized = Math.abs(hash) / 2147483647; // Max 32-bit int
-    return min + (normalized * (max - min));
+  // Weights, thresholds and penalties come from the risk-model profile for the vehicle's class
+  private static isLargeVehicle(vehicle: Vehicle, profile: RiskModelProfile): boolean {
+    return vehicle.length >= profile.thresholds.largeVehicleLength ||
+      vehicle.width >= profile.thresholds.largeVehicleWidth ||
+      (vehicle.grossWeightLbs ?? 0) > CDL_GROSS_WEIGHT_LBS;
+  }
+
+  private static isBus(vehicle: Vehicle): boolean {
+    return VehicleClassificationService.classifyVehicle(vehicle).type === 'bus';
+  }
+
+  // Risk factors come from the segment's road attributes, not from the instruction text alone.
+  // A lower clearance from the structure database takes the place of the OSM maxheight,
+  // and crashes from the loaded crash history are attached.
+  static attachRoadData(segment: RouteSegment): RouteSegment {
+    const annotated = RoadAttributeService.annotateSegment(segment);
+    const withCrashes = { ...annotated, crashHistory: CrashHistoryService.getSegmentHistory(annotated) ?? undefined };
+    const structure = ClearanceService.getLowestClearance(annotated);
+    const posted = annotated.riskFactors.heightRestriction;
+    if (!structure || !Number.isFinite(structure.clearanceFt) || (posted > 0 && posted <= structure.clearanceFt)) {
+      return withCrashes;
+    }
+    return {
+      ...withCrashes,
+      riskFactors: { ...annotated.riskFactors, heightRestriction: structure.clearanceFt },
+      riskFactorSources: annotated.riskFactorSources && { ...annotated.riskFactorSources, heightRestriction: 'measured' }
+    };
   }
 
   private static detectUTurnFromSegment(segment: RouteSegment): boolean {
@@ -127,110 +158,45 @@ export class RiskCalculator {
     return sameStart && angle > 150 && returnDist < 50 && sameStreet;
   }
 
-  // 🔧 CONSISTENT RISK FACTORS - Generate deterministic risk factors based on segment characteristics
-  private static generateConsistentRiskFactors(segment: RouteSegment): typeof segment.riskFactors {
-    const streetName = segment.streetName.toLowerCase();
-    const description = segment.description.toLowerCase();
-    
-    // Create a unique seed based on segment characteristics
-    const seed = `${streetName}-${description}-${segment.startLat.toFixed(4)}-${segment.startLng.toFixed(4)}`;
-    
-    // Generate consistent values based on road type
-    let basePedestrianTraffic = 30;
-    let baseRoadWidth = 50;
-    let baseTrafficCongestion = 40;
-    let baseSpeedLimit = 35;
-    let baseHeightRestriction = 0;
-    
-    // Adjust base values based on road characteristics
-    if (streetName.includes('highway') || streetName.includes('interstate')) {
-      basePedestrianTraffic = 5;
-      baseRoadWidth = 20; // Lower number = wider road (less risk)
-      baseTrafficCongestion = 60;
-      baseSpeedLimit = 65;
-    } else if (streetName.includes('main') || streetName.includes('commercial') || streetName.includes('broadway')) {
-      basePedestrianTraffic = 70;
-      baseRoadWidth = 40;
-      baseTrafficCongestion = 65;
-      baseSpeedLimit = 30;
-    } else if (streetName.includes('residential') || streetName.includes('subdivision') || streetName.includes('lane')) {
-      basePedestrianTraffic = 45;
-      baseRoadWidth = 60; // Higher number = narrower road (more risk)
-      baseTrafficCongestion = 25;
-      baseSpeedLimit = 25;
-    } else if (streetName.includes('industrial') || streetName.includes('truck')) {
-      basePedestrianTraffic = 15;
-      baseRoadWidth = 25;
-      baseTrafficCongestion = 35;
-      baseSpeedLimit = 40;
-    }
-    
-    // Add school zone detection
-    if (description.includes('school')) {
-      basePedestrianTraffic += 30;
-      baseSpeedLimit = Math.min(baseSpeedLimit, 20);
-    }
-    
-    // Add bridge/height restriction detection
-    if (description.includes('bridge') || description.includes('overpass')) {
-      baseHeightRestriction = this.generateDeterministicValue(seed + '-height', 11, 14);
-    }
-    
-    // Generate small variations for realism, but keep them consistent
-    const variation = 10; // ±10% variation
-    
-    return {
-      pedestrianTraffic: Math.max(0, Math.min(100, 
-        basePedestrianTraffic + this.generateDeterministicValue(seed + '-ped', -variation, variation)
-      )),
-      roadWidth: Math.max(0, Math.min(100, 
-        baseRoadWidth + this.generateDeterministicValue(seed + '-width', -variation, variation)
-      )),
-      trafficCongestion: Math.max(0, Math.min(100, 
-        baseTrafficCongestion + this.generateDeterministicValue(seed + '-traffic', -variation, variation)
-      )),
-      speedLimit: Math.max(15, Math.min(80, 
-        baseSpeedLimit + this.generateDeterministicValue(seed + '-speed', -5, 5)
-      )),
-      heightRestriction: baseHeightRestriction
-    };
-  }
-
-  static calculateSegmentRisk(segment: RouteSegment, vehicle: Vehicle, nextSegmentContext: RoadContext | null = null): number {
-    // 🔧 ENSURE CONSISTENT RISK FACTORS
-    const consistentSegment = {
-      ...segment,
-      riskFactors: this.generateConsistentRiskFactors(segment)
-    };
-    
-    const roadContext = this.analyzeRoadContext(consistentSegment);
-    const enhancedBreakdown = this.calculateEnhancedRisk(consistentSegment, vehicle, roadContext, nextSegmentContext);
-    
-    return enhancedBreakdown.overallRisk;
+  /**
+   * Model score of a segment whose road data is already attached, with the next
+   * segment (if any) for the turn into it.
+   */
+  static scoreSegment(
+    segment: RouteSegment,
+    vehicle: Vehicle,
+    nextSegment: RouteSegment | undefined,
+    profile: RiskModelProfile = RiskProfileService.getProfileForVehicle(vehicle)
+  ): EnhancedRiskBreakdown {
+    const nextSegmentContext = nextSegment ? this.analyzeRoadContext(nextSegment) : null;
+    return this.calculateEnhancedRisk(segment, vehicle, this.analyzeRoadContext(segment), nextSegmentContext, profile);
   }
 
   static calculateEnhancedRisk(
     segment: RouteSegment, 
     vehicle: Vehicle,
     roadContext: RoadContext,
-    nextSegmentContext: RoadContext | null = null
+    nextSegmentContext: RoadContext | null = null,
+    profile: RiskModelProfile = RiskProfileService.getProfileForVehicle(vehicle)
   ): EnhancedRiskBreakdown {
     
     const context = roadContext || this.analyzeRoadContext(segment);
     const factors = segment.riskFactors;
-    const isBus = vehicle.length >= 35;
+    const weights = profile.weights;
     
-    // Use bus-specific weights for buses
-    const weights = isBus ? this.BUS_WEIGHTS : this.WEIGHTS;
+    const rules: Record<RiskComponent, string[]> = {
+      pedestrianTraffic: [], maneuvering: [], infrastructure: [], traffic: [], roadContext: [], intersection: [], uTurn: [], crashHistory: []
+    };
     
     // Calculate risk components with context awareness
-    const pedestrianRisk = this.calculateContextualPedestrianRisk(factors.pedestrianTraffic, vehicle, context);
-    const maneuveringRisk = this.calculateVehicleSpecificManeuveringRisk(segment, vehicle, context);
-    const infrastructureRisk = this.calculateInfrastructureRisk(factors.heightRestriction, vehicle.height);
-    const trafficRisk = this.calculateIntelligentTrafficRisk(factors, context);
-    const roadContextRisk = this.calculateRoadContextRisk(vehicle, context);
-    const intersectionRisk = this.calculateIntersectionRisk(segment, vehicle, context, nextSegmentContext);
-    const uTurnRisk = this.calculateUTurnRisk(segment, vehicle, context);
+    const pedestrianRisk = this.calculateContextualPedestrianRisk(factors.pedestrianTraffic, vehicle, context, profile, rules.pedestrianTraffic);
+    const maneuveringRisk = this.calculateVehicleSpecificManeuveringRisk(segment, vehicle, context, profile, rules.maneuvering);
+    const infrastructureRisk = this.calculateInfrastructureRisk(segment, vehicle, rules.infrastructure);
+    const trafficRisk = this.calculateIntelligentTrafficRisk(factors, context, rules.traffic);
+    const roadContextRisk = this.calculateRoadContextRisk(vehicle, context, profile, rules.roadContext);
+    const intersectionRisk = this.calculateIntersectionRisk(segment, vehicle, context, nextSegmentContext, profile, rules.intersection);
+    const uTurnRisk = this.calculateUTurnRisk(segment, vehicle, context, profile, rules.uTurn);
+    const crashHistoryRisk = this.calculateCrashHistoryRisk(segment, profile, rules.crashHistory);
     
     // Apply weights with context modifiers
     const weightedRisk = 
@@ -240,15 +206,17 @@ export class RiskCalculator {
       (trafficRisk * weights.traffic) +
       (roadContextRisk * weights.roadContext) +
       (intersectionRisk * weights.intersection) +
-      (uTurnRisk * (weights as any).uTurn);
+      (uTurnRisk * weights.uTurn) +
+      (crashHistoryRisk * weights.crashHistory);
 
     const overallRisk = Math.min(Math.max(weightedRisk, 0), 100);
     
     const analysis = this.generateRiskAnalysis(
-      { pedestrianRisk, maneuveringRisk, infrastructureRisk, trafficRisk, roadContextRisk, intersectionRisk, uTurnRisk },
+      { pedestrianRisk, maneuveringRisk, infrastructureRisk, trafficRisk, roadContextRisk, intersectionRisk, uTurnRisk, crashHistoryRisk },
       vehicle,
       context,
-      overallRisk
+      overallRisk,
+      profile
     );
 
     return {
@@ -259,9 +227,110 @@ export class RiskCalculator {
       roadContextRisk,
       intersectionRisk,
       uTurnRisk,
+      crashHistoryRisk,
       overallRisk,
       roadContext: context,
-      ...analysis
+      ...analysis,
+      components: this.traceComponents(
+        segment,
+        vehicle,
+        context,
+        { pedestrianTraffic: pedestrianRisk, maneuvering: maneuveringRisk, infrastructure: infrastructureRisk, traffic: trafficRisk, roadContext: roadContextRisk, intersection: intersectionRisk, uTurn: uTurnRisk, crashHistory: crashHistoryRisk },
+        weights,
+        rules
+      )
+    };
+  }
+
+  /**
+   * Inputs, weight and contribution of each component, alongside the rules that fired.
+   */
+  private static traceComponents(
+    segment: RouteSegment,
+    vehicle: Vehicle,
+    context: RoadContext,
+    risks: Record<RiskComponent, number>,
+    weights: RiskModelProfile['weights'],
+    rules: Record<RiskComponent, string[]>
+  ): RiskComponentTrace[] {
+    const factors = segment.riskFactors;
+    const sources = segment.riskFactorSources;
+    const factorSource = (factor: keyof RouteSegment['riskFactors']): RiskFactorSource => sources?.[factor] ?? 'default';
+    const contextSource = this.getRoadTypeSource(segment);
+    const roadType: RiskTraceInput = { name: 'Road type', value: context.type, source: contextSource };
+    const inputs: Record<RiskComponent, RiskTraceInput[]> = {
+      pedestrianTraffic: [
+        { name: 'Pedestrian activity', value: factors.pedestrianTraffic, unit: '%', source: factorSource('pedestrianTraffic') },
+        roadType,
+        { name: 'School zone', value: context.schoolZone, source: contextSource }
+      ],
+      maneuvering: [
+        { name: 'Road narrowness', value: factors.roadWidth, unit: '%', source: factorSource('roadWidth') },
+        roadType,
+        { name: 'Vehicle length', value: vehicle.length, unit: 'ft', source: 'measured' }
+      ],
+      infrastructure: [
+        { name: 'Posted clearance', value: factors.heightRestriction || 'none', unit: factors.heightRestriction ? 'ft' : undefined, source: factorSource('heightRestriction') },
+        { name: 'Vehicle height', value: vehicle.height, unit: 'ft', source: 'measured' },
+        { name: 'Weight limit', value: segment.roadAttributes?.maxWeightTons ?? 'none', unit: segment.roadAttributes?.maxWeightTons ? 'tons' : undefined, source: segment.roadAttributes?.maxWeightTons ? 'measured' : 'default' },
+        { name: 'Vehicle weight', value: round1(VehicleClassificationService.getGrossWeightTons(vehicle)), unit: 'tons', source: vehicle.grossWeightLbs !== undefined ? 'measured' : 'default' },
+        { name: 'Hazmat', value: vehicle.hazmatClass !== undefined ? `class ${vehicle.hazmatClass}` : 'none', source: 'measured' }
+      ],
+      traffic: [
+        { name: 'Congestion', value: factors.trafficCongestion, unit: '%', source: factorSource('trafficCongestion') },
+        { name: 'Speed limit', value: factors.speedLimit, unit: 'mph', source: factorSource('speedLimit') },
+        roadType
+      ],
+      roadContext: [
+        roadType,
+        { name: 'Designated truck route', value: context.designatedTruckRoute, source: contextSource },
+        { name: 'Traffic signals', value: context.hasTrafficSignals, source: contextSource }
+      ],
+      intersection: [
+        { name: 'Traffic control', value: context.hasTrafficSignals ? 'signals' : context.hasStopSigns ? 'stop signs' : 'none', source: contextSource },
+        { name: 'Turn', value: context.turnDirection ?? 'straight', source: 'measured' }
+      ],
+      uTurn: [
+        { name: 'U-turn', value: context.hasUTurn, source: 'measured' },
+        { name: 'Vehicle length', value: vehicle.length, unit: 'ft', source: 'measured' }
+      ],
+      crashHistory: segment.crashHistory
+        ? [
+            { name: 'Crashes on segment', value: segment.crashHistory.segment.count, source: 'measured' },
+            { name: 'Crashes at intersection', value: segment.crashHistory.intersection.count, source: 'measured' },
+            { name: 'Involving trucks or buses', value: Math.max(segment.crashHistory.segment.largeVehicle, segment.crashHistory.intersection.largeVehicle), source: 'measured' },
+            { name: 'Period', value: segment.crashHistory.years, unit: 'years', source: 'measured' }
+          ]
+        : [{ name: 'Crash history', value: 'not loaded', source: 'default' }]
+    };
+
+    return (Object.keys(COMPONENT_LABELS) as RiskComponent[]).map(component => ({
+      component,
+      label: COMPONENT_LABELS[component],
+      inputs: inputs[component],
+      risk: round1(risks[component]),
+      weight: weights[component],
+      contribution: round1(risks[component] * weights[component]),
+      rules: rules[component]
+    }));
+  }
+
+  // Road type comes from the OSM highway class when the segment matched a way, else the street name
+  private static getRoadTypeSource(segment: RouteSegment): RiskFactorSource {
+    return segment.roadAttributes ? 'inferred' : 'default';
+  }
+
+  /**
+   * Component-by-component explanation of a segment's model score.
+   */
+  static explainBreakdown(segment: RouteSegment, breakdown: EnhancedRiskBreakdown, profile: RiskModelProfile): SegmentRiskExplanation {
+    return {
+      score: round1(breakdown.overallRisk),
+      total: round1(breakdown.overallRisk),
+      model: RiskProfileService.toRef(profile),
+      roadType: breakdown.roadContext.type,
+      roadTypeSource: this.getRoadTypeSource(segment),
+      components: breakdown.components
     };
   }
 
@@ -312,6 +381,27 @@ export class RiskCalculator {
       isTruckFriendly = false;
     }
     
+    // OSM highway class and truck access override guesses from the street name
+    const attributes = segment.roadAttributes;
+    if (attributes) {
+      const highway = attributes.highway.replace(/_link$/, '');
+      if (highway === 'motorway' || highway === 'trunk') {
+        type = 'highway';
+        isTruckFriendly = true;
+        designatedTruckRoute = true;
+      } else if ((highway === 'residential' || highway === 'living_street') && type === 'arterial') {
+        type = 'residential';
+        isTruckFriendly = false;
+      }
+      if (attributes.hgv === 'designated') {
+        isTruckFriendly = true;
+        designatedTruckRoute = true;
+      } else if (attributes.hgv === 'no') {
+        isTruckFriendly = false;
+        designatedTruckRoute = false;
+      }
+    }
+    
     // 🚦 ENHANCED TRAFFIC CONTROL DETECTION for buses
     // Arterial roads and highways typically have traffic signals
     const hasTrafficSignals = type === 'highway' || type === 'arterial' || 
@@ -361,41 +451,53 @@ export class RiskCalculator {
   private static calculateContextualPedestrianRisk(
     pedestrianTraffic: number, 
     vehicle: Vehicle, 
-    context: RoadContext
+    context: RoadContext,
+    profile: RiskModelProfile,
+    rules: string[] = []
   ): number {
     let risk = pedestrianTraffic;
-    const isBus = vehicle.length >= 35;
+    const penalties = profile.penalties.pedestrian;
+    rules.push(`Starts at pedestrian activity ${pedestrianTraffic}`);
     
     // Context-based adjustments
     switch (context.type) {
       case 'highway':
         risk = Math.max(risk - 70, 0); // Highways have minimal pedestrians
+        rules.push('Highway: -70');
         break;
       case 'truck_route':
         risk = Math.max(risk - 40, 0); // Truck routes expect large vehicles
+        rules.push('Truck route: -40');
         break;
       case 'industrial':
         risk = Math.max(risk - 30, 10); // Industrial areas have some foot traffic
+        rules.push('Industrial area: -30, at least 10');
         break;
       case 'commercial':
         // Commercial areas have expected pedestrian activity
         if (context.hasTrafficSignals) {
           risk = Math.max(risk - 15, 0); // Signals manage pedestrian flow
+          rules.push('Signalized commercial street: -15');
         }
         break;
       case 'residential':
-        risk += isBus ? 30 : 20; // Buses especially shouldn't be in residential
+        risk += penalties.residential;
+        rules.push(`Residential street: +${penalties.residential}`);
         break;
     }
     
     // School zone penalty (especially for buses)
     if (context.schoolZone) {
-      risk += isBus ? 40 : 30;
+      risk += penalties.schoolZone;
+      rules.push(`School zone: +${penalties.schoolZone}`);
     }
     
     // Vehicle size adjustment
-    const sizeMultiplier = this.getContextAwareSizeMultiplier(vehicle, context);
+    const sizeMultiplier = this.getContextAwareSizeMultiplier(vehicle, context, profile);
     risk *= sizeMultiplier;
+    if (sizeMultiplier !== 1) {
+      rules.push(`Large vehicle on ${context.type} road: ×${round1(sizeMultiplier)}`);
+    }
     
     return Math.min(risk, 100);
   }
@@ -403,12 +505,14 @@ export class RiskCalculator {
   private static calculateVehicleSpecificManeuveringRisk(
     segment: RouteSegment, 
     vehicle: Vehicle, 
-    context: RoadContext
+    context: RoadContext,
+    profile: RiskModelProfile,
+    rules: string[] = []
   ): number {
     let risk = 0;
     
-    const isLargeVehicle = vehicle.length >= 35 || vehicle.width >= 8.5;
-    const isBus = vehicle.length >= 35;
+    const isLargeVehicle = this.isLargeVehicle(vehicle, profile);
+    const penalties = profile.penalties.maneuvering;
     
     // Road width assessment - context matters!
     const roadWidthFactor = segment.riskFactors.roadWidth;
@@ -416,34 +520,42 @@ export class RiskCalculator {
     if (context.isTruckFriendly) {
       // On truck-friendly roads, high roadWidth factor means GOOD (wide roads)
       risk = Math.max(100 - roadWidthFactor, 0);
+      rules.push(`Truck-friendly road: starts at 100 - narrowness ${roadWidthFactor}`);
     } else {
       // On non-truck roads, roadWidth factor represents narrowness
       risk = roadWidthFactor;
+      rules.push(`Starts at road narrowness ${roadWidthFactor}`);
     }
     
     // Vehicle-specific adjustments
     if (isLargeVehicle) {
       if (context.type === 'residential') {
-        risk += isBus ? 50 : 40; // Buses especially don't belong in residential
+        risk += penalties.residential;
+        rules.push(`Large vehicle on residential street: +${penalties.residential}`);
       } else if (context.designatedTruckRoute) {
-        risk = Math.max(risk - 30, 0); // Designated routes are designed for this
+        risk = Math.max(risk - penalties.designatedRouteRelief, 0); // Designated routes are designed for this
+        rules.push(`Designated truck route: -${penalties.designatedRouteRelief}`);
       } else if (context.type === 'highway' || context.type === 'arterial') {
-        risk = Math.max(risk - 20, 0); // Highways and arterials can handle large vehicles
+        risk = Math.max(risk - penalties.majorRoadRelief, 0); // Highways and arterials can handle large vehicles
+        rules.push(`Large vehicle on ${context.type}: -${penalties.majorRoadRelief}`);
       }
     }
     
     // Turn detection and analysis
     const streetName = segment.streetName.toLowerCase();
     if (streetName.includes('turn') || segment.description.includes('turn')) {
-      const turnPenalty = isBus ? 30 : (isLargeVehicle ? 25 : 10);
+      const turnPenalty = isLargeVehicle ? penalties.turn : penalties.smallVehicleTurn;
       
       // 🚦 CRITICAL: Traffic lights vs stop signs for turns
       if (context.hasTrafficSignals) {
-        risk += turnPenalty * 0.5; // Traffic lights allow controlled, planned turns
+        risk += turnPenalty * penalties.signalizedTurnFactor; // Traffic lights allow controlled, planned turns
+        rules.push(`Turn at traffic signals: +${round1(turnPenalty * penalties.signalizedTurnFactor)}`);
       } else if (context.hasStopSigns) {
-        risk += turnPenalty * 1.2; // Stop signs require complete stops and careful navigation
+        risk += turnPenalty * penalties.stopSignTurnFactor; // Stop signs require complete stops and careful navigation
+        rules.push(`Turn at stop sign: +${round1(turnPenalty * penalties.stopSignTurnFactor)}`);
       } else {
         risk += turnPenalty; // Uncontrolled turns
+        rules.push(`Uncontrolled turn: +${turnPenalty}`);
       }
     }
     
@@ -452,77 +564,70 @@ export class RiskCalculator {
 
   private static calculateIntelligentTrafficRisk(
     factors: { pedestrianTraffic: number; roadWidth: number; trafficCongestion: number; speedLimit: number; heightRestriction: number; }, 
-    context: RoadContext
+    context: RoadContext,
+    rules: string[] = []
   ): number {
     let risk = factors.trafficCongestion;
+    rules.push(`Starts at congestion ${factors.trafficCongestion}`);
     
     // Context adjustments
     if (context.type === 'highway' && factors.speedLimit >= 55) {
       // Highway congestion is more manageable for large vehicles
       risk *= 0.6;
+      rules.push('Highway at 55 mph or more: ×0.6');
     } else if (context.type === 'commercial' && context.hasTrafficSignals) {
       // Signalized commercial areas manage traffic flow better
       risk *= 0.7;
+      rules.push('Signalized commercial street: ×0.7');
     } else if (context.type === 'residential') {
       // Any congestion in residential is problematic for large vehicles
       risk *= 1.4;
+      rules.push('Residential street: ×1.4');
     }
     
     // Speed limit considerations
     if (factors.speedLimit >= 45) {
       risk *= 0.8; // Higher speeds mean better flow
+      rules.push('Speed limit 45 mph or more: ×0.8');
     } else if (factors.speedLimit <= 20) {
       risk *= 1.3; // Very low speeds indicate problematic areas
+      rules.push('Speed limit 20 mph or less: ×1.3');
     }
     
     return Math.min(risk, 100);
   }
 
-  private static calculateRoadContextRisk(vehicle: Vehicle, context: RoadContext): number {
-    const isLargeVehicle = vehicle.length >= 35 || vehicle.width >= 8.5;
-    const isBus = vehicle.length >= 35;
+  private static calculateRoadContextRisk(vehicle: Vehicle, context: RoadContext, profile: RiskModelProfile, rules: string[] = []): number {
+    const isLargeVehicle = this.isLargeVehicle(vehicle, profile);
+    const penalties = profile.penalties.roadContext;
     
     // Base risk by context appropriateness
-    let risk = 0;
+    let risk: number;
     
     if (isLargeVehicle) {
-      switch (context.type) {
-        case 'highway':
-          risk = 5; // Highways are ideal for large vehicles
-          break;
-        case 'truck_route':
-          risk = 8; // Designated truck routes are very good
-          break;
-        case 'arterial':
-          risk = isBus ? 15 : 25; // Arterials are good for buses, okay for trucks
-          break;
-        case 'industrial':
-          risk = 20; // Industrial areas expect large vehicles
-          break;
-        case 'commercial':
-          // 🚦 CRITICAL: Traffic signals make commercial areas much safer for buses
-          if (context.hasTrafficSignals) {
-            risk = isBus ? 25 : 35; // Buses prefer signalized commercial areas
-          } else {
-            risk = isBus ? 50 : 45; // Stop signs in commercial areas are problematic
-          }
-          break;
-        case 'residential':
-          risk = isBus ? 85 : 75; // Buses especially don't belong in residential
-          break;
+      // 🚦 CRITICAL: Traffic signals make commercial areas much safer for large vehicles
+      if (context.type === 'commercial' && !context.hasTrafficSignals) {
+        risk = penalties.commercialUnsignalized;
+        rules.push(`Large vehicle on unsignalized commercial street: ${risk}`);
+      } else {
+        risk = penalties[context.type];
+        rules.push(`Large vehicle on ${context.type} road: ${risk}`);
       }
     } else {
       // Small vehicles have low context risk everywhere
-      risk = context.type === 'residential' ? 10 : 5;
+      risk = context.type === 'residential' ? penalties.smallVehicleResidential : penalties.smallVehicle;
+      rules.push(`Small vehicle${context.type === 'residential' ? ' on residential street' : ''}: ${risk}`);
     }
     
     // Mitigating factors
     if (context.designatedTruckRoute) {
-      risk = Math.max(risk - 25, 0);
+      risk = Math.max(risk - penalties.designatedRouteRelief, 0);
+      rules.push(`Designated truck route: -${penalties.designatedRouteRelief}`);
     }
     
     if (context.schoolZone && isLargeVehicle) {
-      risk += isBus ? 30 : 25;
+      risk += penalties.schoolZone;
+      rules.push(`School zone: +${penalties.schoolZone}`);
     }
     
     return Math.min(risk, 100);
@@ -532,101 +637,179 @@ export class RiskCalculator {
     segment: RouteSegment,
     vehicle: Vehicle,
     context: RoadContext,
-    nextSegmentContext: RoadContext | null
+    nextSegmentContext: RoadContext | null,
+    profile: RiskModelProfile,
+    rules: string[] = []
   ): number {
     let risk = 0;
-    const isLargeVehicle = vehicle.length >= 35;
-    const isBus = vehicle.length >= 35;
+    const isLargeVehicle = this.isLargeVehicle(vehicle, profile);
+    const penalties = profile.penalties.intersection;
     const description = segment.description.toLowerCase();
     
     const hasIntersection = description.includes('turn') || 
                            description.includes('intersection') ||
                            description.includes('cross');
     
-    if (!hasIntersection) return 0;
+    if (!hasIntersection) {
+      rules.push('No turn, crossing or intersection in the instruction');
+      return 0;
+    }
     
     // Base intersection risk
     risk = 30;
     
     // 🚦 CRITICAL BUS LOGIC: Traffic lights are MUCH better than stop signs
     if (context.hasTrafficSignals) {
-      risk = isBus ? 10 : 15; // Buses strongly prefer traffic lights
+      risk = penalties.signalized; // Large vehicles strongly prefer traffic lights
       
       if (isLargeVehicle && context.isTruckFriendly) {
-        risk = isBus ? 8 : 12; // Even better on truck-friendly roads
+        risk = penalties.signalizedTruckFriendly; // Even better on truck-friendly roads
+        rules.push(`Signalized, truck-friendly intersection: ${risk}`);
+      } else {
+        rules.push(`Signalized intersection: ${risk}`);
       }
     } else if (context.hasStopSigns) {
       // 🛑 STOP SIGNS ARE PROBLEMATIC FOR BUSES
-      risk = isBus ? 60 : 45; // Heavy penalty for buses at stop signs
+      risk = penalties.stopSign; // Heavy penalty for large vehicles at stop signs
+      rules.push(`Stop sign: ${risk}`);
       
       // Major road crossing penalty
       if (nextSegmentContext && isLargeVehicle) {
         if (nextSegmentContext.type === 'arterial' || nextSegmentContext.type === 'highway' || nextSegmentContext.type === 'commercial') {
-           risk += isBus ? 40 : 30; // Buses get extra penalty for crossing major roads at stop signs
+           risk += penalties.majorRoadCrossing; // Extra penalty for crossing major roads at stop signs
+           rules.push(`Large vehicle entering a ${nextSegmentContext.type} road from a stop sign: +${penalties.majorRoadCrossing}`);
         }
       }
       
       // Unprotected left turns at stop signs
       if (context.turnDirection === 'left') {
-        risk += isBus ? 25 : 20;
+        risk += penalties.unprotectedLeft;
+        rules.push(`Unprotected left turn: +${penalties.unprotectedLeft}`);
       }
     } else {
       // Uncontrolled intersections
-      risk = isBus ? 70 : 55; // Very problematic for large vehicles
+      risk = penalties.uncontrolled; // Very problematic for large vehicles
+      rules.push(`Uncontrolled intersection: ${risk}`);
     }
     
     // Additional context penalties
     if (context.type === 'residential' && isLargeVehicle) {
-      risk += isBus ? 30 : 25;
+      risk += penalties.residential;
+      rules.push(`Large vehicle in residential intersection: +${penalties.residential}`);
     } else if (context.type === 'highway') {
-      risk = Math.max(risk - 20, 5); // Highway intersections are generally better designed
+      risk = Math.max(risk - penalties.highwayRelief, 5); // Highway intersections are generally better designed
+      rules.push(`Highway interchange: -${penalties.highwayRelief}, at least 5`);
     }
     
     return Math.min(risk, 100);
   }
 
-  private static calculateUTurnRisk(segment: RouteSegment, vehicle: Vehicle, context: RoadContext): number {
+  private static calculateUTurnRisk(
+    segment: RouteSegment,
+    vehicle: Vehicle,
+    context: RoadContext,
+    profile: RiskModelProfile,
+    rules: string[] = []
+  ): number {
     if (!context.hasUTurn && !this.detectUTurnFromSegment(segment)) {
       return 0;
     }
-    const isLargeVehicle = vehicle.length >= 30;
-    return isLargeVehicle ? 100 : 60;
+    const uTurnProhibited = vehicle.length >= profile.thresholds.uTurnProhibitedLength;
+    const risk = uTurnProhibited ? profile.penalties.uTurn.largeVehicle : profile.penalties.uTurn.smallVehicle;
+    rules.push(uTurnProhibited
+      ? `U-turn prohibited at ${profile.thresholds.uTurnProhibitedLength}ft or longer: ${risk}`
+      : `U-turn: ${risk}`);
+    return risk;
+  }
+
+  /**
+   * Severity-weighted crash rate, per mile-year along the segment or per year at the
+   * intersection it starts from, whichever is worse. Crashes involving a truck or bus
+   * count largeVehicleFactor times.
+   */
+  private static calculateCrashHistoryRisk(segment: RouteSegment, profile: RiskModelProfile, rules: string[] = []): number {
+    const history = segment.crashHistory;
+    if (!history) {
+      rules.push('No crash history loaded');
+      return 0;
+    }
+    const { pointsPerWeightedCrash, largeVehicleFactor } = profile.penalties.crashHistory;
+    const adjusted = (stats: CrashStats) => stats.weighted + stats.largeVehicleWeighted * (largeVehicleFactor - 1);
+    const segmentRate = adjusted(history.segment) / (Math.max(history.miles, MIN_CRASH_RATE_MILES) * history.years);
+    const intersectionRate = adjusted(history.intersection) / history.years;
+    if (segmentRate === 0 && intersectionRate === 0) {
+      rules.push(`No crashes in ${history.years} years`);
+      return 0;
+    }
+    const atIntersection = intersectionRate > segmentRate;
+    const risk = Math.min(pointsPerWeightedCrash * Math.max(segmentRate, intersectionRate), 100);
+    const stats = atIntersection ? history.intersection : history.segment;
+    rules.push(atIntersection
+      ? `${stats.count} crashes at the intersection (${round1(intersectionRate)} weighted per year): ${round1(risk)}`
+      : `${stats.count} crashes on the segment (${round1(segmentRate)} weighted per mile-year): ${round1(risk)}`);
+    if (stats.largeVehicle > 0) {
+      rules.push(`${stats.largeVehicle} involving a truck or bus, weighted ×${largeVehicleFactor}`);
+    }
+    return risk;
   }
 
-  private static calculateInfrastructureRisk(clearanceHeight: number, vehicleHeight: number): number {
-    if (clearanceHeight === 0) return 0;
+  // Worst of the height, weight and hazmat limits posted on the segment
+  private static calculateInfrastructureRisk(segment: RouteSegment, vehicle: Vehicle, rules: string[] = []): number {
+    return Math.max(
+      this.calculateHeightRisk(segment.riskFactors.heightRestriction, vehicle.height, rules),
+      this.calculateWeightRisk(segment.roadAttributes?.maxWeightTons, vehicle, rules),
+      this.calculateHazmatRisk(segment, vehicle, rules)
+    );
+  }
+
+  private static calculateHeightRisk(clearanceHeight: number, vehicleHeight: number, rules: string[]): number {
+    if (clearanceHeight === 0) {
+      rules.push('No posted clearance');
+      return 0;
+    }
     
     const clearance = clearanceHeight - vehicleHeight;
     
-    if (clearance <= 0) return 100; // Cannot pass
-    if (clearance <= 0.5) return 95; // Extremely risky
-    if (clearance <= 1) return 80;   // Very risky
-    if (clearance <= 2) return 40;   // Moderate risk
-    return 10; // Low risk
+    let risk: number;
+    if (clearance <= 0) risk = 100; // Cannot pass
+    else if (clearance <= 0.5) risk = 95; // Extremely risky
+    else if (clearance <= 1) risk = 80;   // Very risky
+    else if (clearance <= 2) risk = 40;   // Moderate risk
+    else risk = 10; // Low risk
+    rules.push(clearance <= 0 ? `${round1(-clearance)}ft too tall to pass: ${risk}` : `${round1(clearance)}ft of clearance: ${risk}`);
+    return risk;
   }
 
-  private static getContextAwareSizeMultiplier(vehicle: Vehicle, context: RoadContext): number {
-    const isLargeVehicle = vehicle.length >= 35;
-    const isBus = vehicle.length >= 35;
-    
-    if (!isLargeVehicle) return 1.0;
+  private static calculateWeightRisk(limitTons: number | undefined, vehicle: Vehicle, rules: string[]): number {
+    if (!limitTons) return 0;
+
+    const weightTons = VehicleClassificationService.getGrossWeightTons(vehicle);
+    const margin = limitTons - weightTons;
+    let risk: number;
+    if (margin < 0) risk = 100; // Over the posted limit
+    else if (margin <= limitTons * 0.1) risk = 60; // Within 10% of the limit
+    else risk = 5;
+    rules.push(margin < 0
+      ? `${round1(-margin)} tons over the ${limitTons}-ton limit: ${risk}`
+      : `${round1(margin)} tons under the ${limitTons}-ton limit: ${risk}`);
+    return risk;
+  }
+
+  private static calculateHazmatRisk(segment: RouteSegment, vehicle: Vehicle, rules: string[]): number {
+    if (vehicle.hazmatClass === undefined || segment.roadAttributes?.hazmat !== 'no') return 0;
+    rules.push(`Hazardous materials prohibited, carrying ${HAZMAT_CLASS_NAMES[vehicle.hazmatClass].toLowerCase()}: 100`);
+    return 100;
+  }
+
+  private static getContextAwareSizeMultiplier(vehicle: Vehicle, context: RoadContext, profile: RiskModelProfile): number {
+    if (!this.isLargeVehicle(vehicle, profile)) return 1.0;
     
     // Large vehicle multipliers based on context appropriateness
-    switch (context.type) {
-      case 'highway':
-      case 'truck_route':
-        return 0.7; // Actually SAFER for large vehicles on appropriate roads
-      case 'arterial':
-        return isBus ? 0.8 : 0.9; // Buses do well on arterials
-      case 'industrial':
-        return 0.9;
-      case 'commercial':
-        return context.hasTrafficSignals ? (isBus ? 1.0 : 1.1) : (isBus ? 1.4 : 1.3);
-      case 'residential':
-        return isBus ? 2.0 : 1.8; // Very high penalty, especially for buses
-      default:
-        return 1.2;
+    const multiplier = profile.roadTypeMultipliers[context.type];
+    if (context.type === 'commercial' && !context.hasTrafficSignals) {
+      return multiplier * profile.penalties.pedestrian.unsignalizedCommercialFactor;
     }
+    return multiplier;
   }
 
   private static generateRiskAnalysis(
@@ -638,28 +821,35 @@ export class RiskCalculator {
       roadContextRisk: number;
       intersectionRisk: number;
       uTurnRisk: number;
+      crashHistoryRisk: number;
     },
     vehicle: Vehicle,
     context: RoadContext,
-    overallRisk: number
+    overallRisk: number,
+    profile: RiskModelProfile
   ): { primaryConcerns: string[]; recommendations: string[]; riskMitigators: string[]; prohibitedManeuvers: string[] } {
     
     const concerns: string[] = [];
     const recommendations: string[] = [];
     const mitigators: string[] = [];
     const prohibited: string[] = [];
-    const isBus = vehicle.length >= 35;
+    const isBus = this.isBus(vehicle);
     
     // Risk analysis
-    if (risks.uTurnRisk > 95 && vehicle.length >= 30) {
+    if (risks.uTurnRisk > 95 && vehicle.length >= profile.thresholds.uTurnProhibitedLength) {
       concerns.push('🚫 PROHIBITED MANEUVER: U-turn detected');
       recommendations.push('Find alternative route without U-turns');
       prohibited.push('U-turn');
     }
 
     if (risks.infrastructureRisk > 80) {
-      concerns.push('Critical height clearance issue');
-      recommendations.push('Verify exact vehicle height and find alternative route');
+      concerns.push('Critical height, weight or hazmat restriction');
+      recommendations.push('Verify exact vehicle height and weight and find alternative route');
+    }
+    
+    if (risks.crashHistoryRisk > 60) {
+      concerns.push('Crash history: frequent or severe crashes here');
+      recommendations.push('Reduce speed and allow extra space through this stretch');
     }
     
     if (risks.roadContextRisk > 60) {
@@ -700,7 +890,7 @@ export class RiskCalculator {
       mitigators.push(isBus ? 'Designated truck route - road designed for large vehicles and buses' : 'Designated truck route - road designed for large vehicles');
     }
     
-    if (context.hasTrafficSignals && vehicle.length >= 35) {
+    if (context.hasTrafficSignals && this.isLargeVehicle(vehicle, profile)) {
       mitigators.push(isBus ? '🚦 Traffic signals provide controlled intersection environment - ideal for bus operations' : 'Traffic signals provide controlled intersection environment');
     }
     
@@ -717,56 +907,21 @@ export class RiskCalculator {
 
   // Existing methods with minor updates...
   static calculateStopRisk(stop: StopLocation, vehicle: Vehicle): number {
-    let risk = (stop.estimatedStopTime || 15) * 0.5;
+    // An off-duty rest is parked at a site picked for large vehicles, so its length adds no risk
+    let risk = (stop.hosRest ? 15 : stop.estimatedStopTime || 15) * 0.5;
     const sizeMultiplier = this.getVehicleSizeMultiplier(vehicle);
     risk *= sizeMultiplier;
     return Math.min(risk, 100);
   }
 
-  static calculateRouteRisk(route: Route, vehicle: Vehicle): number {
-    if (route.segments.length === 0) return 0;
-
-    const segmentRisks = route.segments.map((segment, index) => {
-      const nextSegment = route.segments[index + 1];
-      const nextSegmentContext = nextSegment ? this.analyzeRoadContext(nextSegment) : null;
-      return this.calculateSegmentRisk(segment, vehicle, nextSegmentContext);
-    });
-    
-    const weightedRisks = segmentRisks.map(risk => {
-      if (risk > 80) return risk * 1.3;
-      if (risk > 60) return risk * 1.15;
-      return risk;
-    });
-
-    const stopRisks = route.stops?.map((stop: StopLocation) => this.calculateStopRisk(stop, vehicle)) || [];
-    const totalRisk = weightedRisks.reduce((sum: number, risk: number) => sum + risk, 0) + 
-                     stopRisks.reduce((sum: number, risk: number) => sum + risk, 0);
-    const totalItems = weightedRisks.length + stopRisks.length;
-
-    return totalItems > 0 ? Math.min(totalRisk / totalItems, 100) : 0;
-  }
-
-  static compareRoutes(routes: Route[], vehicle: Vehicle): Route[] {
-    return routes.map(route => {
-      const overallRisk = this.calculateRouteRisk(route, vehicle);
-      const riskBreakdowns = route.segments.map((segment, index) => {
-        const nextSegment = route.segments[index + 1];
-        const nextSegmentContext = nextSegment ? this.analyzeRoadContext(nextSegment) : null;
-        return this.calculateEnhancedRisk(segment, vehicle, this.analyzeRoadContext(segment), nextSegmentContext)
-      });
-      
-      return {
-        ...route,
-        overallRisk,
-        enhancedRiskBreakdowns: riskBreakdowns
-      };
-    }).sort((a, b) => a.overallRisk - b.overallRisk);
+  static getComponentLabel(component: RiskComponent): string {
+    return COMPONENT_LABELS[component];
   }
 
   private static getVehicleSizeMultiplier(vehicle: Vehicle): number {
-    if (vehicle.length >= 35) return 1.4;
+    if (vehicle.length >= RiskProfileService.getProfileForVehicle(vehicle).thresholds.largeVehicleLength) return 1.4;
+    if (vehicle.width >= 8 || (vehicle.grossWeightLbs ?? 0) > CDL_GROSS_WEIGHT_LBS) return 1.3;
     if (vehicle.length >= 25) return 1.2;
-    if (vehicle.width >= 8) return 1.3;
     return 1.0;
   }
 
@@ -787,16 +942,38 @@ export class RiskCalculator {
   }
 
   static calculateDetailedRisk(segment: RouteSegment, vehicle: Vehicle): EnhancedRiskBreakdown {
-    return this.calculateEnhancedRisk(segment, vehicle, this.analyzeRoadContext(segment));
+    const segmentWithRoadData = this.attachRoadData(segment);
+    return this.calculateEnhancedRisk(segmentWithRoadData, vehicle, this.analyzeRoadContext(segmentWithRoadData));
   }
 
-  static analyzeTurn(segment: RouteSegment, vehicle: Vehicle): TurnAnalysis {
-    const isLargeVehicle = vehicle.length >= 35;
-    const roadWidth = segment.riskFactors.roadWidth;
-    
-    // 🔧 DETERMINISTIC TURN ANALYSIS
-    const seed = `${segment.streetName}-${segment.startLat.toFixed(4)}-${segment.startLng.toFixed(4)}`;
-    const angle = this.generateDeterministicValue(seed + '-angle', 60, 120);
+  /**
+   * Turn at the start of a segment. With the previous segment, the turn is measured from
+   * the route geometry and run through the swept-path model; otherwise the angle comes
+   * from the routing instruction and the clearance is a rough allowance.
+   */
+  static analyzeTurn(segment: RouteSegment, vehicle: Vehicle, previousSegment?: RouteSegment): TurnAnalysis {
+    const sweptPath = segment.sweptPath ?? (previousSegment ? analyzeTurnSweptPath(previousSegment, segment, vehicle) : null);
+    if (sweptPath) {
+      const difficulty: TurnAnalysis['difficulty'] = sweptPath.verdict === 'fail'
+        ? 'very_difficult'
+        : sweptPath.verdict === 'marginal' ? 'difficult' : sweptPath.offTrackingFt > 5 ? 'moderate' : 'easy';
+      return {
+        angle: sweptPath.angleDeg,
+        radius: sweptPath.steerRadiusFt,
+        difficulty,
+        clearanceRequired: sweptPath.sweptWidthFt,
+        recommendation: sweptPath.verdict === 'pass'
+          ? 'Turn fits within the lane'
+          : sweptPath.verdict === 'marginal'
+            ? `Swing wide: needs ${sweptPath.encroachmentFt}ft of the adjacent lane`
+            : `Avoid: needs ${sweptPath.encroachmentFt}ft beyond the available lanes`,
+        sweptPath
+      };
+    }
+
+    const isLargeVehicle = this.isLargeVehicle(vehicle, RiskProfileService.getProfileForVehicle(vehicle));
+    const roadWidth = this.attachRoadData(segment).riskFactors.roadWidth;
+    const angle = this.estimateTurnAngle(segment);
     const clearanceRequired = vehicle.width * 1.5 + (isLargeVehicle ? 10 : 5);
     
     let difficulty: TurnAnalysis['difficulty'] = 'easy';
@@ -813,15 +990,27 @@ export class RiskCalculator {
       radius: roadWidth / 2,
       difficulty,
       clearanceRequired,
-      recommendation: 'Proceed with caution'
+      recommendation: 'Proceed with caution',
+      sweptPath: null
     };
   }
 
+  /**
+   * Turn angle implied by the routing instruction ("sharp left", "slight right", ...).
+   */
+  private static estimateTurnAngle(segment: RouteSegment): number {
+    const description = segment.description.toLowerCase();
+    if (this.detectUTurnFromSegment(segment)) return 180;
+    if (!/\b(turn|left|right)\b/.test(description)) return 0;
+    if (description.includes('sharp')) return 135;
+    if (description.includes('slight')) return 45;
+    return 90;
+  }
+
   static getBusSpecificAdvice(vehicle: Vehicle, route: Route): string[] {
     const advice: string[] = [];
-    const isBus = vehicle.length >= 35;
     
-    if (isBus) {
+    if (this.isBus(vehicle)) {
       advice.push('🚌 Account for 42ft turning radius and rear overhang swing during turns');
       advice.push('🚦 Prefer routes with traffic lights over stop signs for schedule reliability');
       advice.push('👁️ Use mirrors and blind spot monitoring systems actively');
@@ -842,7 +1031,7 @@ export class RiskCalculator {
   }
 
   static isRouteSuitableForLargeVehicle(route: Route, vehicle: Vehicle): { suitable: boolean; reasons: string[]; prohibitedManeuvers: string[] } {
-    if (vehicle.length < 30) {
+    if (vehicle.length < RiskProfileService.getProfileForVehicle(vehicle).thresholds.uTurnProhibitedLength) {
       return { suitable: true, reasons: [], prohibitedManeuvers: [] };
     }
     const reasons: string[] = [];
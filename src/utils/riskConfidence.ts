@@ -0,0 +1,84 @@
+import { ConfidenceLevel, RiskComponentTrace, RiskConfidence, RiskFactorSource, Route } from '../types';
+
+// How much an input of each source is trusted; inferred values come from OSM tags or street names
+const SOURCE_RELIABILITY: Record<RiskFactorSource, number> = {
+  measured: 1,
+  inferred: 0.6,
+  default: 0.2
+};
+
+// A score with no trustworthy inputs may be off by this many points either way
+const MAX_UNCERTAINTY_POINTS = 30;
+
+// Lowest confidence for each level
+const CONFIDENCE_LEVELS: { level: ConfidenceLevel; min: number }[] = [
+  { level: 'high', min: 0.75 },
+  { level: 'medium', min: 0.5 },
+  { level: 'low', min: 0 }
+];
+
+// Ranges overlapping by at least this share of the narrower one cannot reliably rank two routes
+export const HEAVY_OVERLAP = 0.5;
+
+const MAX_GAPS = 3;
+
+const clampScore = (value: number) => Math.round(Math.min(Math.max(value, 0), 100) * 10) / 10;
+
+export function getConfidenceLevel(confidence: number): ConfidenceLevel {
+  return CONFIDENCE_LEVELS.find(threshold => confidence >= threshold.min)?.level ?? 'low';
+}
+
+/**
+ * Confidence in a segment score from the sources of the model inputs, each component
+ * counting by its weight. Without a model trace nothing backs the score.
+ */
+export function assessSegmentConfidence(components: RiskComponentTrace[] | undefined, score: number): RiskConfidence {
+  const totalWeight = components?.reduce((sum, trace) => sum + trace.weight, 0) ?? 0;
+  const gapWeights = new Map<string, number>();
+  let confidence = 0;
+  if (components && totalWeight > 0) {
+    components.forEach(trace => {
+      if (trace.inputs.length === 0) return;
+      const reliability = trace.inputs.reduce((sum, input) => sum + SOURCE_RELIABILITY[input.source], 0) / trace.inputs.length;
+      confidence += reliability * trace.weight / totalWeight;
+      trace.inputs.filter(input => input.source === 'default').forEach(input => {
+        gapWeights.set(input.name, (gapWeights.get(input.name) || 0) + trace.weight);
+      });
+    });
+  }
+  const halfWidth = (1 - confidence) * MAX_UNCERTAINTY_POINTS;
+  return {
+    level: getConfidenceLevel(confidence),
+    confidence: Math.round(confidence * 100) / 100,
+    low: clampScore(score - halfWidth),
+    high: clampScore(score + halfWidth),
+    gaps: Array.from(gapWeights).sort((a, b) => b[1] - a[1]).slice(0, MAX_GAPS).map(([name]) => name)
+  };
+}
+
+/**
+ * Share of the narrower range that both ranges cover, 0-1. A zero-width range counts
+ * as fully overlapped when it falls inside the other.
+ */
+export function rangeOverlap(a: RiskConfidence, b: RiskConfidence): number {
+  const shared = Math.min(a.high, b.high) - Math.max(a.low, b.low);
+  if (shared < 0) return 0;
+  const narrower = Math.min(a.high - a.low, b.high - b.low);
+  return narrower > 0 ? Math.min(shared / narrower, 1) : 1;
+}
+
+/**
+ * Pairs of routes whose confidence ranges overlap heavily, so their scores do not
+ * reliably say which is safer.
+ */
+export function findOverlappingRoutes(routes: Route[], minOverlap: number = HEAVY_OVERLAP): { first: Route; second: Route; overlap: number }[] {
+  const pairs: { first: Route; second: Route; overlap: number }[] = [];
+  routes.forEach((first, i) => {
+    routes.slice(i + 1).forEach(second => {
+      if (!first.riskConfidence || !second.riskConfidence) return;
+      const overlap = rangeOverlap(first.riskConfidence, second.riskConfidence);
+      if (overlap >= minOverlap) pairs.push({ first, second, overlap });
+    });
+  });
+  return pairs;
+}
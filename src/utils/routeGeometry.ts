@@ -0,0 +1,149 @@
+import { LatLngCoordinates, Route, RouteSegment } from '../types';
+import { decodePolyline, getRoutePath } from './directionsBuilder';
+import { bearingDegrees, haversineMeters } from '../services/osmRoadGraph';
+
+/**
+ * Decoded geometry of a single Directions step. Prefers the step's path, then its
+ * encoded polyline, and finally the straight line between its start and end.
+ */
+export function getStepPath(step: google.maps.DirectionsStep): LatLngCoordinates[] {
+  if (step.path && step.path.length > 1) {
+    return step.path.map(point => ({ lat: point.lat(), lng: point.lng() }));
+  }
+  const encoded = step.polyline?.points || step.encoded_lat_lngs;
+  if (encoded) {
+    const decoded = decodePolyline(encoded);
+    if (decoded.length > 1) return decoded;
+  }
+  return [
+    { lat: step.start_location.lat(), lng: step.start_location.lng() },
+    { lat: step.end_location.lat(), lng: step.end_location.lng() }
+  ];
+}
+
+/**
+ * Geometry of a segment. Segments built before per-segment paths existed (or from
+ * mock data) fall back to the straight line between their endpoints.
+ */
+export function getSegmentPath(segment: RouteSegment): LatLngCoordinates[] {
+  if (segment.path && segment.path.length > 1) return segment.path;
+  return [
+    { lat: segment.startLat, lng: segment.startLng },
+    { lat: segment.endLat, lng: segment.endLng }
+  ];
+}
+
+/**
+ * Full geometry of a route: the persisted path, then the provider route, then the
+ * concatenated segment paths.
+ */
+export function getRouteGeometry(route: Route): LatLngCoordinates[] {
+  if (route.path && route.path.length > 1) return route.path;
+  if (route.googleRoute) {
+    const providerPath = getRoutePath(route.googleRoute);
+    if (providerPath.length > 1) return providerPath;
+  }
+  return joinPaths(route.segments.map(getSegmentPath));
+}
+
+/**
+ * Concatenate consecutive paths, dropping the shared point where one ends and the next begins.
+ */
+export function joinPaths(paths: LatLngCoordinates[][]): LatLngCoordinates[] {
+  const joined: LatLngCoordinates[] = [];
+  paths.forEach(path => {
+    const last = joined[joined.length - 1];
+    const first = path[0];
+    const shared = last && first && last.lat === first.lat && last.lng === first.lng;
+    joined.push(...(shared ? path.slice(1) : path));
+  });
+  return joined;
+}
+
+/**
+ * Where a critical point on this segment sits on the road: the start of the segment,
+ * which is where the maneuver it describes happens.
+ */
+export function getSegmentAnchor(segment: RouteSegment): LatLngCoordinates {
+  return getSegmentPath(segment)[0];
+}
+
+/**
+ * Bounding box of a set of points, or null when there are none.
+ */
+export function getPathBounds(path: LatLngCoordinates[]): { north: number; south: number; east: number; west: number } | null {
+  if (path.length === 0) return null;
+  return path.reduce(
+    (bounds, point) => ({
+      north: Math.max(bounds.north, point.lat),
+      south: Math.min(bounds.south, point.lat),
+      east: Math.max(bounds.east, point.lng),
+      west: Math.min(bounds.west, point.lng)
+    }),
+    { north: -90, south: 90, east: -180, west: 180 }
+  );
+}
+
+/**
+ * Distance in metres from a point to one edge, on a local flat projection.
+ */
+export function distanceToEdge(point: LatLngCoordinates, a: LatLngCoordinates, b: LatLngCoordinates): number {
+  const metersPerDegLat = 111320;
+  const metersPerDegLng = 111320 * Math.cos((point.lat * Math.PI) / 180);
+  const ax = (a.lng - point.lng) * metersPerDegLng;
+  const ay = (a.lat - point.lat) * metersPerDegLat;
+  const dx = (b.lng - a.lng) * metersPerDegLng;
+  const dy = (b.lat - a.lat) * metersPerDegLat;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.min(Math.max(-(ax * dx + ay * dy) / lengthSquared, 0), 1);
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+/**
+ * Difference between two bearings ignoring direction, 0-90.
+ */
+export function bearingDifference(a: number, b: number): number {
+  const difference = Math.abs(((a - b + 540) % 360) - 180);
+  return Math.min(difference, 180 - difference);
+}
+
+/**
+ * Points along a path at most spacingMeters apart, with the bearing of the edge each lies on.
+ */
+export function samplePath(path: LatLngCoordinates[], spacingMeters: number): { point: LatLngCoordinates; bearing: number }[] {
+  const samples: { point: LatLngCoordinates; bearing: number }[] = [];
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1];
+    const to = path[i];
+    const bearing = bearingDegrees(from, to);
+    const steps = Math.max(1, Math.ceil(haversineMeters(from, to) / spacingMeters));
+    for (let step = 0; step <= steps; step++) {
+      samples.push({ point: { lat: from.lat + (to.lat - from.lat) * step / steps, lng: from.lng + (to.lng - from.lng) * step / steps }, bearing });
+    }
+  }
+  return samples;
+}
+
+/**
+ * Equirectangular projection of geographic points into a width×height canvas, scaled by
+ * latitude so shapes are not stretched. Returns null when there is nothing to project.
+ */
+export function createPathProjection(
+  points: LatLngCoordinates[],
+  width: number,
+  height: number,
+  padding: number
+): ((point: LatLngCoordinates) => { x: number; y: number }) | null {
+  const bounds = getPathBounds(points);
+  if (!bounds) return null;
+  const lngScale = Math.cos((((bounds.south + bounds.north) / 2) * Math.PI) / 180);
+  const spanX = Math.max((bounds.east - bounds.west) * lngScale, 1e-6);
+  const spanY = Math.max(bounds.north - bounds.south, 1e-6);
+  const scale = Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY);
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+  return (point: LatLngCoordinates) => ({
+    x: offsetX + (point.lng - bounds.west) * lngScale * scale,
+    y: height - (offsetY + (point.lat - bounds.south) * scale)
+  });
+}
@@ -0,0 +1,69 @@
+import { Route, RouteSegment, StopLocation } from '../types';
+import { getSegmentPath, getStepPath, joinPaths } from './routeGeometry';
+import { StitchedDirectionsRoute } from '../services/routeChunkingService';
+
+/**
+ * Convert a Directions route (from any routing provider) into the app's Route model,
+ * one segment per step. Risk scores are filled in later by the analysis services.
+ */
+export function transformDirectionsRoute(
+  gRoute: google.maps.DirectionsRoute,
+  index: number,
+  stops: StopLocation[]
+): Route {
+  let totalDistanceMeters = 0;
+  let totalDurationSeconds = 0;
+  const segments: RouteSegment[] = [];
+  gRoute.legs.forEach((leg, legIndex) => {
+    totalDistanceMeters += leg.distance?.value || 0;
+    totalDurationSeconds += leg.duration?.value || 0;
+    leg.steps.forEach((step, stepIndex) => {
+      segments.push({
+        id: `segment-${index}-${leg.start_address}-${stepIndex}`,
+        startLat: step.start_location.lat(),
+        startLng: step.start_location.lng(),
+        endLat: step.end_location.lat(),
+        endLng: step.end_location.lng(),
+        streetName: step.instructions.replace(/<[^>]*>/g, ' '),
+        riskScore: 0,
+        riskFactors: {
+          pedestrianTraffic: 0,
+          roadWidth: 0,
+          trafficCongestion: 0,
+          speedLimit: 0,
+          heightRestriction: 0
+        },
+        description: step.instructions.replace(/<[^>]*>/g, ' '),
+        intersectionType: step.instructions.toLowerCase().includes('traffic light')
+          ? 'traffic_light'
+          : step.instructions.toLowerCase().includes('stop sign')
+          ? 'stop_sign'
+          : 'none',
+        turnType: step.instructions.toLowerCase().includes('turn left')
+          ? 'left'
+          : step.instructions.toLowerCase().includes('turn right')
+          ? 'right'
+          : step.instructions.toLowerCase().includes('continue straight')
+          ? 'straight'
+          : 'none',
+        path: getStepPath(step),
+        durationSeconds: step.duration?.value,
+        legIndex
+      });
+    });
+  });
+  return {
+    id: `route-${index + 1}`,
+    name: gRoute.summary || `Route ${index + 1}`,
+    segments,
+    totalDistance: Math.round((totalDistanceMeters / 1609.34) * 10) / 10,
+    estimatedTime: Math.round(totalDurationSeconds / 60),
+    overallRisk: 0,
+    criticalPoints: [],
+    stops,
+    waypoints: stops.map(s => s.address),
+    googleRoute: gRoute,
+    path: joinPaths(segments.map(getSegmentPath)),
+    stitching: (gRoute as StitchedDirectionsRoute).stitching
+  };
+}
@@ -0,0 +1,267 @@
+import { LatLngCoordinates, Route, RouteSegment, SweptPathAnalysis, Vehicle } from '../types';
+import { bearingDegrees, haversineMeters } from '../services/osmRoadGraph';
+import { VehicleClassificationService } from '../services/vehicleClassificationService';
+import { getSegmentPath } from './routeGeometry';
+
+/**
+ * Dimensions that govern how a vehicle tracks through a turn, in feet. Each trailer is
+ * taken to hitch over the rear axle of the unit in front of it.
+ */
+export interface VehicleGeometry {
+  widthFt: number;
+  wheelbaseFt: number;
+  frontOverhangFt: number;
+  rearOverhangFt: number;
+  maxSteerAngleDeg: number;
+  trailerWheelbasesFt: number[]; // Hitch to axle group, front trailer first
+}
+
+// Intersection corner (curb return) radius for the lesser of the two roads, by OSM highway class
+const CORNER_RADIUS_FT: Record<string, number> = {
+  motorway: 50,
+  motorway_link: 50,
+  trunk: 40,
+  trunk_link: 40,
+  primary: 30,
+  primary_link: 30,
+  secondary: 25,
+  secondary_link: 25,
+  tertiary: 20,
+  tertiary_link: 20,
+  unclassified: 15,
+  residential: 15,
+  living_street: 15,
+  service: 15
+};
+const DEFAULT_CORNER_RADIUS_FT = 20;
+const DEFAULT_LANE_WIDTH_FT = 12;
+const DEFAULT_LANES = 2;
+// Gap drivers keep between the inner rear wheels and the curb
+const CURB_CLEARANCE_FT = 1.5;
+// Turns sharper than this count; gentler bends are treated as the road curving
+const MIN_TURN_DEG = 30;
+const U_TURN_DEG = 150;
+// Distance either side of the turn used to measure the approach and exit bearings
+const BEARING_SAMPLE_METERS = 25;
+const FEET_TO_METERS = 0.3048;
+const ENVELOPE_STEPS = 12;
+
+// Share of overall length and steering lock of rigid vehicles without measured dimensions
+const RIGID_PROPORTIONS: Record<string, { wheelbase: number; frontOverhang: number; rearOverhang: number; maxSteerAngleDeg: number }> = {
+  passenger: { wheelbase: 0.6, frontOverhang: 0.2, rearOverhang: 0.2, maxSteerAngleDeg: 38 },
+  bus: { wheelbase: 0.6, frontOverhang: 0.175, rearOverhang: 0.225, maxSteerAngleDeg: 45 },
+  truck: { wheelbase: 0.55, frontOverhang: 0.15, rearOverhang: 0.3, maxSteerAngleDeg: 40 }
+};
+
+// Map colours for swept envelopes by verdict
+export const SWEPT_PATH_COLORS: Record<SweptPathAnalysis['verdict'], string> = {
+  pass: '#22C55E',
+  marginal: '#F59E0B',
+  fail: '#DC2626'
+};
+
+/**
+ * Turning geometry for a vehicle. Measured wheelbase, overhangs and trailers are used
+ * when the vehicle has them; anything missing comes from proportions typical of the
+ * vehicle's class applied to its length.
+ */
+export function getVehicleGeometry(vehicle: Vehicle): VehicleGeometry {
+  const { length, width } = vehicle;
+  if (VehicleClassificationService.isArticulated(vehicle)) {
+    const frontOverhangFt = vehicle.frontOverhangFt ?? 4;
+    const wheelbaseFt = vehicle.wheelbaseFt ?? Math.min(20, length * 0.3);
+    const rearOverhangFt = vehicle.rearOverhangFt ?? length * 0.1;
+    const trailerWheelbasesFt = vehicle.trailers && vehicle.trailers.length > 0
+      ? vehicle.trailers.map(trailer => trailer.kingpinToAxleFt)
+      : [length - frontOverhangFt - wheelbaseFt - rearOverhangFt];
+    return { widthFt: width, wheelbaseFt, frontOverhangFt, rearOverhangFt, maxSteerAngleDeg: 40, trailerWheelbasesFt };
+  }
+
+  const proportions = RIGID_PROPORTIONS[VehicleClassificationService.classifyVehicle(vehicle).type] ?? RIGID_PROPORTIONS.truck;
+  return {
+    widthFt: width,
+    wheelbaseFt: vehicle.wheelbaseFt ?? length * proportions.wheelbase,
+    frontOverhangFt: vehicle.frontOverhangFt ?? length * proportions.frontOverhang,
+    rearOverhangFt: vehicle.rearOverhangFt ?? length * proportions.rearOverhang,
+    maxSteerAngleDeg: proportions.maxSteerAngleDeg,
+    trailerWheelbasesFt: []
+  };
+}
+
+/**
+ * Point `meters` along a path from its start.
+ */
+function pointAlong(path: LatLngCoordinates[], meters: number): LatLngCoordinates {
+  let remaining = meters;
+  for (let i = 1; i < path.length; i++) {
+    const step = haversineMeters(path[i - 1], path[i]);
+    if (step >= remaining && step > 0) {
+      const t = remaining / step;
+      return {
+        lat: path[i - 1].lat + (path[i].lat - path[i - 1].lat) * t,
+        lng: path[i - 1].lng + (path[i].lng - path[i - 1].lng) * t
+      };
+    }
+    remaining -= step;
+  }
+  return path[path.length - 1];
+}
+
+/**
+ * Offset a point by east/north distances in meters.
+ */
+function offsetMeters(origin: LatLngCoordinates, east: number, north: number): LatLngCoordinates {
+  return {
+    lat: origin.lat + north / 111320,
+    lng: origin.lng + east / (111320 * Math.cos((origin.lat * Math.PI) / 180))
+  };
+}
+
+function getLaneWidth(segment: RouteSegment): number {
+  const attributes = segment.roadAttributes;
+  if (attributes?.widthFt && attributes.lanes) return attributes.widthFt / attributes.lanes;
+  return DEFAULT_LANE_WIDTH_FT;
+}
+
+function getLanesPerDirection(segment: RouteSegment): number {
+  return Math.max(1, Math.floor((segment.roadAttributes?.lanes ?? DEFAULT_LANES) / 2));
+}
+
+/**
+ * Swept path through the turn from `previous` into `segment`, or null when the route
+ * goes (nearly) straight on. Off-tracking builds up over the arc, so shallow turns
+ * sweep less than the steady-state values.
+ */
+export function analyzeTurnSweptPath(previous: RouteSegment, segment: RouteSegment, vehicle: Vehicle): SweptPathAnalysis | null {
+  const incoming = getSegmentPath(previous);
+  const outgoing = getSegmentPath(segment);
+  const vertex = outgoing[0];
+  const approach = pointAlong([...incoming].reverse(), BEARING_SAMPLE_METERS);
+  const exit = pointAlong(outgoing, BEARING_SAMPLE_METERS);
+  const inBearing = bearingDegrees(approach, vertex);
+  const outBearing = bearingDegrees(vertex, exit);
+  // Positive deflection turns right
+  const deflection = ((outBearing - inBearing + 540) % 360) - 180;
+  const angleDeg = Math.abs(deflection);
+  const describedUTurn = /u-?turn/i.test(segment.description);
+  if (angleDeg < MIN_TURN_DEG && !describedUTurn) return null;
+
+  const direction: SweptPathAnalysis['direction'] =
+    describedUTurn || angleDeg >= U_TURN_DEG ? 'u_turn' : deflection > 0 ? 'right' : 'left';
+  const geometry = getVehicleGeometry(vehicle);
+  const halfWidth = geometry.widthFt / 2;
+
+  // The corner belongs to the lesser of the two roads
+  const classes = [previous.roadAttributes?.highway, segment.roadAttributes?.highway]
+    .filter((highway): highway is string => !!highway && highway in CORNER_RADIUS_FT);
+  const cornerRadiusFt = classes.length > 0
+    ? Math.min(...classes.map(highway => CORNER_RADIUS_FT[highway]))
+    : DEFAULT_CORNER_RADIUS_FT;
+  const laneWidthFt = Math.min(getLaneWidth(previous), getLaneWidth(segment));
+
+  // Right turns hug the curb; left turns sweep around the far side of the opposing lane
+  const innerBoundaryFt = direction === 'left' ? cornerRadiusFt + laneWidthFt : cornerRadiusFt;
+  const minSteerRadius = geometry.wheelbaseFt / Math.sin((geometry.maxSteerAngleDeg * Math.PI) / 180);
+  const trailers = geometry.trailerWheelbasesFt;
+
+  // Start from the rearmost axle just clearing the inner boundary and work forward, each
+  // hitch tracking outside the axle behind it
+  let rearRadius = direction === 'u_turn' ? 0 : innerBoundaryFt + CURB_CLEARANCE_FT + halfWidth;
+  let hitchRadius = trailers.reduceRight((radius, span) => Math.sqrt(radius ** 2 + span ** 2), rearRadius);
+  let steerRadiusFt = Math.sqrt(hitchRadius ** 2 + geometry.wheelbaseFt ** 2);
+  let steerLimited = false;
+  if (steerRadiusFt < minSteerRadius) {
+    // The steering lock sets the tightest arc; the rear axles settle wherever that puts them
+    steerLimited = true;
+    steerRadiusFt = minSteerRadius;
+    hitchRadius = Math.sqrt(steerRadiusFt ** 2 - geometry.wheelbaseFt ** 2);
+    rearRadius = trailers.reduce((radius, span) => Math.sqrt(Math.max(radius ** 2 - span ** 2, 0)), hitchRadius);
+  }
+
+  const innermostFt = Math.max(rearRadius - halfWidth, 0);
+  const outerFrontFt = Math.sqrt((hitchRadius + halfWidth) ** 2 + (geometry.wheelbaseFt + geometry.frontOverhangFt) ** 2);
+  const rearCornerFt = Math.sqrt((rearRadius + halfWidth) ** 2 + geometry.rearOverhangFt ** 2);
+  const tailSwingFt = rearCornerFt - (rearRadius + halfWidth);
+
+  const arcFt = steerRadiusFt * (Math.min(angleDeg, 180) * Math.PI) / 180;
+  const development = 1 - Math.exp(-arcFt / (geometry.wheelbaseFt + trailers.reduce((sum, span) => sum + span, 0)));
+  const offTrackingFt = (steerRadiusFt - rearRadius) * development;
+  const sweptWidthFt = geometry.widthFt + (outerFrontFt - innermostFt - geometry.widthFt) * development;
+
+  let availableWidthFt: number;
+  let pathEncroachment: number;
+  if (direction === 'u_turn') {
+    const roadWidthFt = segment.roadAttributes?.widthFt ??
+      (segment.roadAttributes?.lanes ?? DEFAULT_LANES) * laneWidthFt;
+    availableWidthFt = roadWidthFt;
+    pathEncroachment = 2 * outerFrontFt - roadWidthFt;
+  } else {
+    availableWidthFt = Math.min(getLanesPerDirection(previous), getLanesPerDirection(segment)) * laneWidthFt;
+    const fromBoundary = (steerLimited ? innermostFt - innerBoundaryFt : CURB_CLEARANCE_FT) + sweptWidthFt;
+    pathEncroachment = fromBoundary - availableWidthFt;
+  }
+  // The tail swings into the next lane when it exceeds the room beside the vehicle
+  const tailEncroachment = tailSwingFt - (laneWidthFt - geometry.widthFt) / 2;
+  const encroachmentFt = Math.max(pathEncroachment, tailEncroachment);
+  // Borrowing up to one neighbouring lane is workable with care; more than that is not
+  const verdict: SweptPathAnalysis['verdict'] =
+    encroachmentFt <= 0 ? 'pass' : encroachmentFt <= laneWidthFt ? 'marginal' : 'fail';
+
+  return {
+    direction,
+    angleDeg: Math.round(angleDeg),
+    cornerRadiusFt,
+    cornerRadiusSource: classes.length > 0 ? 'inferred' : 'default',
+    laneWidthFt: Math.round(laneWidthFt * 10) / 10,
+    availableWidthFt: Math.round(availableWidthFt * 10) / 10,
+    steerRadiusFt: Math.round(steerRadiusFt * 10) / 10,
+    offTrackingFt: Math.round(offTrackingFt * 10) / 10,
+    tailSwingFt: Math.round(tailSwingFt * 10) / 10,
+    sweptWidthFt: Math.round(sweptWidthFt * 10) / 10,
+    encroachmentFt: Math.round(Math.max(encroachmentFt, 0) * 10) / 10,
+    verdict,
+    vertex,
+    envelope: buildEnvelope(vertex, inBearing, deflection, direction, steerRadiusFt, innermostFt, outerFrontFt)
+  };
+}
+
+/**
+ * Swept path of every turn on a route, indexed like the route's segments.
+ */
+export function analyzeRouteSweptPaths(route: Route, vehicle: Vehicle): (SweptPathAnalysis | null)[] {
+  return route.segments.map((segment, index) =>
+    index > 0 ? analyzeTurnSweptPath(route.segments[index - 1], segment, vehicle) : null);
+}
+
+/**
+ * Annular sector between the innermost and outermost swept radii, placed on the front
+ * axle's arc tangent to the approach and exit.
+ */
+function buildEnvelope(
+  vertex: LatLngCoordinates,
+  inBearing: number,
+  deflection: number,
+  direction: SweptPathAnalysis['direction'],
+  steerRadiusFt: number,
+  innerFt: number,
+  outerFt: number
+): LatLngCoordinates[] {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const turnsRight = direction === 'u_turn' ? deflection > 0 && deflection < 180 : deflection > 0;
+  const sweep = direction === 'u_turn' ? 180 : Math.abs(deflection);
+  const steerRadius = steerRadiusFt * FEET_TO_METERS;
+  const tangent = direction === 'u_turn' ? 0 : steerRadius * Math.tan(toRad(sweep / 2));
+
+  const start = offsetMeters(vertex, -tangent * Math.sin(toRad(inBearing)), -tangent * Math.cos(toRad(inBearing)));
+  const normal = inBearing + (turnsRight ? 90 : -90);
+  const center = offsetMeters(start, steerRadius * Math.sin(toRad(normal)), steerRadius * Math.cos(toRad(normal)));
+  const startAngle = normal + 180;
+  const signedSweep = turnsRight ? sweep : -sweep;
+
+  const arc = (radiusFt: number) => Array.from({ length: ENVELOPE_STEPS + 1 }, (_, i) => {
+    const angle = toRad(startAngle + (signedSweep * i) / ENVELOPE_STEPS);
+    const radius = radiusFt * FEET_TO_METERS;
+    return offsetMeters(center, radius * Math.sin(angle), radius * Math.cos(angle));
+  });
+  return [...arc(outerFt), ...arc(innerFt).reverse()];
+}
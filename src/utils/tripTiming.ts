@@ -0,0 +1,79 @@
+import { Route } from '../types';
+import { haversineMeters } from '../services/osmRoadGraph';
+import { getSegmentPath } from './routeGeometry';
+
+/**
+ * Travel time of each segment in seconds. Uses the provider's step durations, and
+ * otherwise spreads the route's estimated time over the segments by length.
+ */
+export function getSegmentDurations(route: Route): number[] {
+  if (route.segments.length > 0 && route.segments.every(segment => segment.durationSeconds !== undefined)) {
+    return route.segments.map(segment => segment.durationSeconds!);
+  }
+  const lengths = route.segments.map(segment => {
+    const path = getSegmentPath(segment);
+    let length = 0;
+    for (let i = 1; i < path.length; i++) length += haversineMeters(path[i - 1], path[i]);
+    return length;
+  });
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+  const totalSeconds = route.estimatedTime * 60;
+  return lengths.map(length => (totalLength > 0 ? (length / totalLength) * totalSeconds : totalSeconds / lengths.length));
+}
+
+/**
+ * When the vehicle is projected to be halfway through each segment, leaving at
+ * `departure`. Dwell time at each stop is added where one leg ends and the next begins.
+ */
+export function getSegmentPassTimes(route: Route, departure: Date): Date[] {
+  const durations = getSegmentDurations(route);
+  let clock = departure.getTime();
+  let previousLeg = route.segments[0]?.legIndex ?? 0;
+
+  return route.segments.map((segment, index) => {
+    const leg = segment.legIndex ?? previousLeg;
+    for (let stopLeg = previousLeg; stopLeg < leg; stopLeg++) {
+      clock += (route.stops?.[stopLeg]?.estimatedStopTime ?? 0) * 60000;
+    }
+    previousLeg = leg;
+    const passTime = new Date(clock + (durations[index] * 1000) / 2);
+    clock += durations[index] * 1000;
+    return passTime;
+  });
+}
+
+/**
+ * Projected arrival at the final destination, including stop dwell times.
+ */
+export function getArrivalTime(route: Route, departure: Date): Date {
+  const durations = getSegmentDurations(route);
+  const lastLeg = route.segments[route.segments.length - 1]?.legIndex ?? 0;
+  const firstLeg = route.segments[0]?.legIndex ?? 0;
+  let dwellMinutes = 0;
+  for (let stopLeg = firstLeg; stopLeg < lastLeg; stopLeg++) {
+    dwellMinutes += route.stops?.[stopLeg]?.estimatedStopTime ?? 0;
+  }
+  const travelSeconds = durations.reduce((sum, duration) => sum + duration, 0);
+  return new Date(departure.getTime() + travelSeconds * 1000 + dwellMinutes * 60000);
+}
+
+/**
+ * Local "YYYY-MM-DDTHH:mm" value for a datetime-local input.
+ */
+export function toDateTimeInputValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Parse a datetime-local input value as local time; empty or invalid values give null.
+ */
+export function parseDateTimeInputValue(value: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function formatClockTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}